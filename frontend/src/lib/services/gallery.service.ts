@@ -1,5 +1,12 @@
 import { ApiClient } from './api.service';
-import type { Gallery, Photo, Shoot, Archive, PaginatedResponse } from '$lib/types';
+import type {
+	Gallery,
+	Photo,
+	Shoot,
+	Archive,
+	ArchiveProgressHandlers,
+	PaginatedResponse
+} from '$lib/types';
 
 export interface GalleryFilters {
 	status?: 'draft' | 'published' | 'archived';
@@ -75,6 +82,66 @@ export const GalleryService = {
 		return response.data;
 	},
 
+	/**
+	 * Follow archive generation as Server-Sent Events instead of polling
+	 * getArchive. The stream is read with fetch rather than EventSource, which
+	 * cannot send the Authorization header. Returns a function that stops watching.
+	 */
+	watchArchive(archiveId: string, handlers: ArchiveProgressHandlers): () => void {
+		const controller = new AbortController();
+		const dispatch = (event: string, data: string): void => {
+			const payload = JSON.parse(data);
+			if (event === 'progress') {
+				handlers.onProgress?.(payload.progress);
+			} else if (event === 'ready') {
+				controller.abort();
+				handlers.onReady(payload.downloadUrl);
+			} else if (event === 'failed') {
+				controller.abort();
+				handlers.onFailed?.(payload.error);
+			}
+		};
+
+		const read = async (): Promise<void> => {
+			const response = await fetch(
+				`http://localhost:8000/api/v1/files/archives/${archiveId}/progress`,
+				{ headers: { ...ApiClient.getHeaders(), Accept: 'text/event-stream' }, signal: controller.signal }
+			);
+			if (!response.ok || !response.body) {
+				throw new Error(`HTTP ${response.status}`);
+			}
+
+			const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+			let buffered = '';
+			for (;;) {
+				const { done, value } = await reader.read();
+				if (done) {
+					throw new Error('Archive progress stream ended early');
+				}
+				buffered += value;
+				// Events end with a blank line; comment lines (heartbeats) carry no event
+				let boundary: number;
+				while ((boundary = buffered.indexOf('\n\n')) !== -1) {
+					const lines = buffered.slice(0, boundary).split('\n');
+					buffered = buffered.slice(boundary + 2);
+					const event = lines.find((line) => line.startsWith('event: '))?.slice('event: '.length);
+					const data = lines.find((line) => line.startsWith('data: '))?.slice('data: '.length);
+					if (event && data) {
+						dispatch(event, data);
+					}
+				}
+			}
+		};
+
+		read().catch(() => {
+			if (!controller.signal.aborted) {
+				handlers.onFailed?.('Archive progress is unavailable');
+			}
+		});
+
+		return () => controller.abort();
+	},
+
 	/**
 	 * Download single photo
 	 */
@@ -135,6 +135,23 @@ export interface Archive {
 	expiresAt?: string;
 	createdAt: string;
 	completedAt?: string;
+	progress?: ArchiveProgress;
+}
+
+// Archive generation progress, streamed while the archive is built
+export interface ArchiveProgress {
+	filesProcessed: number;
+	totalFiles: number;
+	bytesProcessed: number;
+	totalBytes: number;
+	bytesWritten: number;
+	etaSeconds?: number;
+}
+
+export interface ArchiveProgressHandlers {
+	onProgress?: (progress: ArchiveProgress) => void;
+	onReady: (downloadUrl?: string) => void;
+	onFailed?: (error: string) => void;
 }
 
 // Portfolio types (public showcase)
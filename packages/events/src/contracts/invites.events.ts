@@ -25,6 +25,10 @@ export interface MagicLinkGeneratedEvent {
   magicLinkId: string;
   shootId: string;
   clientEmail: string;
+  invitationId?: string;
+  // Carried so notification-service can email the link on its own
+  magicLinkUrl: string;
+  expirationDate: string;
   timestamp: string;
 }
 
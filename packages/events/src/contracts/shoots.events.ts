@@ -25,13 +25,33 @@ export interface ShootCreatedData {
   createdAt: string;
 }
 
+// Shoot fields whose changes are announced in shoot.updated
+export type ShootTrackedField = 'title' | 'scheduledDate' | 'location' | 'status';
+
+// Previous and new value of a changed field; absent when the field was unset
+export interface ShootFieldChange {
+  from?: string;
+  to?: string;
+}
+
 export interface ShootUpdatedData {
   shootId: string;
   title?: string;
   scheduledDate?: string;
   location?: string;
-  status?: 'planned' | 'in_progress' | 'completed' | 'delivered' | 'cancelled';
+  status?: 'planned' | 'in_progress' | 'completed' | 'delivered' | 'archived' | 'cancelled';
   updatedAt: string;
+  // Field-level diff of this update
+  changes: Partial<Record<ShootTrackedField, ShootFieldChange>>;
+  // Client notification context (consumed by notification-service)
+  clientEmail: string;
+  updateDetails: {
+    eventName: string;
+    updateMessage: string;
+    photographerName?: string;
+  };
+  projectUrl: string;
+  timestamp: string;
 }
 
 export interface ShootCompletedData {
@@ -51,6 +71,28 @@ export interface ShootDeliveredData {
   expiresAt?: string;
 }
 
+export interface ShootDeletedData {
+  shootId: string;
+  reference: string;
+  clientEmail: string;
+  photographerId: string;
+  deletedAt: string;
+  deletedBy?: string;
+}
+
+// Service that could not drop its data for a deleted shoot
+export interface ShootFailedCleanupStep {
+  service: 'file-service' | 'portfolio-service' | 'invitation-service';
+  error?: string;
+}
+
+export interface ShootDeletionFailedData {
+  shootId: string;
+  reference: string;
+  requestedAt: string;
+  failedSteps: ShootFailedCleanupStep[];
+}
+
 // Complete event payload types matching AsyncAPI definitions
 export interface ShootCreatedPayload extends BaseEvent {
   eventType: 'shoot.created';
@@ -72,12 +114,24 @@ export interface ShootDeliveredPayload extends BaseEvent {
   data: ShootDeliveredData;
 }
 
+export interface ShootDeletedPayload extends BaseEvent {
+  eventType: 'shoot.deleted';
+  data: ShootDeletedData;
+}
+
+export interface ShootDeletionFailedPayload extends BaseEvent {
+  eventType: 'shoot.deletion.failed';
+  data: ShootDeletionFailedData;
+}
+
 // Union type for all shoot events
 export type ShootEvent = 
   | ShootCreatedPayload 
   | ShootUpdatedPayload 
   | ShootCompletedPayload 
-  | ShootDeliveredPayload;
+  | ShootDeliveredPayload
+  | ShootDeletedPayload
+  | ShootDeletionFailedPayload;
 
 // Event type constants for type safety
 export const SHOOT_EVENT_TYPES = {
@@ -85,6 +139,8 @@ export const SHOOT_EVENT_TYPES = {
   UPDATED: 'shoot.updated',
   COMPLETED: 'shoot.completed',
   DELIVERED: 'shoot.delivered',
+  DELETED: 'shoot.deleted',
+  DELETION_FAILED: 'shoot.deletion.failed',
 } as const;
 
 export type ShootEventType = typeof SHOOT_EVENT_TYPES[keyof typeof SHOOT_EVENT_TYPES];
\ No newline at end of file
@@ -0,0 +1,3 @@
+export * from './jwt.js';
+export * from './prehandler.js';
+export * from './permissions.js';
@@ -0,0 +1,133 @@
+/**
+ * Compact JWS (JWT) signing and verification for HS256 and RS256, on
+ * node:crypto. Claims are the ADR-003 session claims (JWTPayloadSchema); the
+ * token header must name the configured algorithm, so an RS256 public key can
+ * never be used as an HS256 secret.
+ */
+
+import { createHmac, createSign, createVerify, timingSafeEqual } from 'node:crypto';
+import { JWTPayloadSchema, type JWTPayload } from '../schemas/invite.schema.js';
+import { parseDuration } from '../config/duration.js';
+
+export type JwtAlgorithm = 'HS256' | 'RS256';
+
+export type JwtKeyConfig =
+  | { readonly algorithm: 'HS256'; readonly secret: string }
+  // privateKey is only needed by the issuer; verifiers hold the public key
+  | { readonly algorithm: 'RS256'; readonly publicKey: string; readonly privateKey?: string | undefined };
+
+export interface JwtConfig {
+  readonly key: JwtKeyConfig;
+  readonly expiresIn: string;
+}
+
+// Claims set by the issuer; iat and exp are added on signing
+export type JwtClaims = Omit<JWTPayload, 'iat' | 'exp'>;
+
+export class JwtError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'JwtError';
+  }
+}
+
+// PEM keys passed through env usually carry escaped newlines
+const readPem = (value: string | undefined): string | undefined => value?.replace(/\\n/g, '\n');
+
+/**
+ * Resolve the JWT settings from env: JWT_ALGORITHM (HS256 by default) with
+ * JWT_SECRET, or RS256 with JWT_PUBLIC_KEY and, for the issuer, JWT_PRIVATE_KEY.
+ */
+export const getJwtConfig = (): JwtConfig => {
+  const algorithm = process.env['JWT_ALGORITHM'] ?? 'HS256';
+  const expiresIn = process.env['JWT_EXPIRES_IN'] ?? '1h';
+
+  if (algorithm === 'HS256') {
+    return { key: { algorithm, secret: process.env['JWT_SECRET'] ?? 'dev-jwt-secret' }, expiresIn };
+  }
+
+  if (algorithm === 'RS256') {
+    const publicKey = readPem(process.env['JWT_PUBLIC_KEY']);
+    if (publicKey === undefined) {
+      throw new Error('JWT_PUBLIC_KEY is required when JWT_ALGORITHM is RS256');
+    }
+    return { key: { algorithm, publicKey, privateKey: readPem(process.env['JWT_PRIVATE_KEY']) }, expiresIn };
+  }
+
+  throw new Error(`Unsupported JWT_ALGORITHM: "${algorithm}" (expected HS256 or RS256)`);
+};
+
+const base64url = (value: string | Buffer): string => Buffer.from(value).toString('base64url');
+
+const decodeSegment = (segment: string): unknown => {
+  try {
+    return JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+  } catch {
+    throw new JwtError('Malformed token');
+  }
+};
+
+const createSignature = (signingInput: string, key: JwtKeyConfig): Buffer => {
+  if (key.algorithm === 'HS256') {
+    return createHmac('sha256', key.secret).update(signingInput).digest();
+  }
+
+  if (key.privateKey === undefined) {
+    throw new Error('An RS256 private key is required to sign tokens');
+  }
+  return createSign('RSA-SHA256').update(signingInput).sign(key.privateKey);
+};
+
+const isValidSignature = (signingInput: string, signature: Buffer, key: JwtKeyConfig): boolean => {
+  if (key.algorithm === 'HS256') {
+    const expected = createHmac('sha256', key.secret).update(signingInput).digest();
+    return expected.length === signature.length && timingSafeEqual(expected, signature);
+  }
+
+  return createVerify('RSA-SHA256').update(signingInput).verify(key.publicKey, signature);
+};
+
+/**
+ * Sign the claims into a token valid for `expiresIn` (e.g. "1h", "15m").
+ */
+export const signJwt = (claims: JwtClaims, config: JwtConfig, now: Date = new Date()): string => {
+  const iat = Math.floor(now.getTime() / 1000);
+  const exp = iat + Math.floor(parseDuration(config.expiresIn) / 1000);
+
+  const header = base64url(JSON.stringify({ alg: config.key.algorithm, typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({ ...claims, iat, exp }));
+  const signature = base64url(createSignature(`${header}.${payload}`, config.key));
+
+  return `${header}.${payload}.${signature}`;
+};
+
+/**
+ * Verify a token's algorithm, signature and expiry and return its claims.
+ * Throws JwtError when the token cannot be trusted.
+ */
+export const verifyJwt = (token: string, key: JwtKeyConfig, now: Date = new Date()): JWTPayload => {
+  const [header, payload, signature, ...rest] = token.split('.');
+  if (header === undefined || payload === undefined || signature === undefined || rest.length > 0) {
+    throw new JwtError('Malformed token');
+  }
+
+  const { alg } = decodeSegment(header) as { alg?: unknown };
+  if (alg !== key.algorithm) {
+    throw new JwtError('Unexpected token algorithm');
+  }
+
+  if (!isValidSignature(`${header}.${payload}`, Buffer.from(signature, 'base64url'), key)) {
+    throw new JwtError('Invalid token signature');
+  }
+
+  const claims = JWTPayloadSchema.safeParse(decodeSegment(payload));
+  if (!claims.success) {
+    throw new JwtError('Invalid token claims');
+  }
+
+  if (claims.data.exp <= Math.floor(now.getTime() / 1000)) {
+    throw new JwtError('Token has expired');
+  }
+
+  return claims.data;
+};
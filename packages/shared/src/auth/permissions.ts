@@ -0,0 +1,41 @@
+/**
+ * What each role may do with a shoot (functional scenarios 3, 5 and 6).
+ * Services check these flags rather than comparing roles, so a role's scope
+ * is defined in one place.
+ */
+
+import type { JWTPayload } from '../schemas/invite.schema.js';
+
+export interface RolePermissions {
+  readonly viewGallery: boolean;
+  // Single photos in print quality (high, medium, thumbnail)
+  readonly downloadPhotos: boolean;
+  // Original and RAW files
+  readonly downloadOriginals: boolean;
+  readonly downloadArchives: boolean;
+  readonly inviteGuests: boolean;
+}
+
+export const ROLE_PERMISSIONS: Readonly<Record<JWTPayload['role'], RolePermissions>> = {
+  photographer: {
+    viewGallery: true,
+    downloadPhotos: true,
+    downloadOriginals: true,
+    downloadArchives: true,
+    inviteGuests: true
+  },
+  client: {
+    viewGallery: true,
+    downloadPhotos: true,
+    downloadOriginals: true,
+    downloadArchives: true,
+    inviteGuests: true
+  },
+  guest: {
+    viewGallery: true,
+    downloadPhotos: true,
+    downloadOriginals: false,
+    downloadArchives: false,
+    inviteGuests: false
+  }
+};
@@ -0,0 +1,37 @@
+import type { FastifyReply, FastifyRequest } from 'fastify';
+import type { JWTPayload } from '../schemas/invite.schema.js';
+import { verifyJwt, JwtError, type JwtKeyConfig } from './jwt.js';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    // Claims of the verified bearer token, set by the auth preHandler
+    user?: JWTPayload;
+  }
+}
+
+const BEARER_PREFIX = 'Bearer ';
+
+/**
+ * Fastify preHandler authenticating requests by their `Authorization: Bearer`
+ * JWT. Verified claims are exposed as `request.user`; requests without a
+ * valid token are answered with 401.
+ *
+ *   fastify.addHook('preHandler', createAuthPreHandler(getJwtConfig().key));
+ */
+export const createAuthPreHandler = (key: JwtKeyConfig) =>
+  async (request: FastifyRequest, reply: FastifyReply): Promise<FastifyReply | undefined> => {
+    const authorization = request.headers.authorization;
+    if (authorization?.startsWith(BEARER_PREFIX) !== true) {
+      return reply.code(401).send({ code: 401, message: 'Authentication required' });
+    }
+
+    try {
+      request.user = verifyJwt(authorization.slice(BEARER_PREFIX.length).trim(), key);
+      return undefined;
+    } catch (error) {
+      if (error instanceof JwtError) {
+        return reply.code(401).send({ code: 401, message: 'Invalid access token', details: error.message });
+      }
+      throw error;
+    }
+  };
@@ -65,3 +65,13 @@ export const getServiceConfig = (serviceName: ServiceName): ServiceRuntimeConfig
     appBaseUrl: process.env['APP_BASE_URL'] ?? INFRA_DEFAULTS.appBaseUrl
   };
 };
+
+/**
+ * Resolve the base URL another service is reachable at for service-to-service
+ * HTTP calls: `<SERVICE_NAME>_URL` (e.g. FILE_SERVICE_URL) first, the
+ * registry port on localhost otherwise.
+ */
+export const getServiceUrl = (serviceName: ServiceName): string => {
+  const envKey = `${serviceName.toUpperCase().replace(/-/g, '_')}_URL`;
+  return process.env[envKey] ?? `http://localhost:${SERVICE_REGISTRY[serviceName].port}`;
+};
@@ -28,6 +28,7 @@ export const UserRoleSchema = z.enum(['photographer', 'client', 'guest']);
 
 // Common ID validation patterns
 export const ShootIdSchema = z.string().regex(/^shoot_[a-f0-9]{32}$/, 'Invalid shoot ID format');
+export const ShootReferenceSchema = z.string().regex(/^TDA-\d{4}-\d{4,}$/, 'Invalid shoot reference format');
 export const EmailSchema = z.string().email('Invalid email format');
 export const UserIdSchema = z.string().min(10).max(50);
 
@@ -16,6 +16,8 @@ export const MagicLinkSchema = z.object({
   token: z.string().regex(/^[a-f0-9]{64}$/, 'Token must be 64 character hex string'),
   shootId: z.string(),
   clientEmail: EmailSchema,
+  userId: z.string().optional(),
+  invitationId: z.string().optional(),
   expiresAt: z.date(),
   accessCount: z.number().int().default(0),
   lastAccessedAt: z.date().optional(),
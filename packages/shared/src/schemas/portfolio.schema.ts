@@ -21,6 +21,24 @@ export const PortfolioSchema = z.object({
   metadata: z.record(z.string(), z.any()).optional()
 }).merge(TimestampsSchema);
 
+// Maps to TypeSpec WatermarkPosition enum
+export const WatermarkPositionSchema = z.enum([
+  'center', 'top-left', 'top-right', 'bottom-left', 'bottom-right', 'tiled'
+]);
+
+// Maps to TypeSpec Watermark model: a text or PNG logo (a file-service file)
+// stamped on the renditions file-service serves for the gallery
+export const WatermarkSettingsSchema = z.object({
+  enabled: z.boolean().default(true),
+  text: z.string().min(1).max(100).optional(),
+  logoFileId: z.string().optional(),
+  position: WatermarkPositionSchema.default('bottom-right'),
+  opacity: z.number().min(0).max(1).default(0.5),
+  scale: z.number().gt(0).max(1).default(0.25) // Watermark width relative to the image width
+}).refine(watermark => watermark.text !== undefined || watermark.logoFileId !== undefined, {
+  message: 'A watermark needs text or a logoFileId'
+});
+
 // Maps to TypeSpec Gallery model
 export const GallerySchema = z.object({
   id: z.string(),
@@ -35,6 +53,7 @@ export const GallerySchema = z.object({
   password: z.string().optional(),
   expiresAt: z.date().optional(),
   allowDownloads: z.boolean().default(true),
+  watermark: WatermarkSettingsSchema.optional(),
   metadata: z.record(z.string(), z.any()).optional()
 }).merge(TimestampsSchema);
 
@@ -79,7 +98,8 @@ export const CreateGalleryRequestSchema = z.object({
   coverImageUrl: z.string().url().optional(),
   password: z.string().optional(),
   expiresAt: z.date().optional(),
-  allowDownloads: z.boolean().optional()
+  allowDownloads: z.boolean().optional(),
+  watermark: WatermarkSettingsSchema.optional()
 });
 
 // Maps to TypeSpec AddGalleryImagesRequest
@@ -110,6 +130,8 @@ export const GalleryQuerySchema = z.object({
 // Type exports matching TypeSpec models
 export type PortfolioVisibility = z.infer<typeof PortfolioVisibilitySchema>;
 export type GalleryType = z.infer<typeof GalleryTypeSchema>;
+export type WatermarkPosition = z.infer<typeof WatermarkPositionSchema>;
+export type WatermarkSettings = z.infer<typeof WatermarkSettingsSchema>;
 export type Portfolio = z.infer<typeof PortfolioSchema>;
 export type Gallery = z.infer<typeof GallerySchema>;
 export type GalleryImage = z.infer<typeof GalleryImageSchema>;
@@ -1,27 +1,101 @@
 import { z } from 'zod';
-import { TimestampsSchema, ShootIdSchema, EmailSchema } from './base.schema.js';
+import { TimestampsSchema, ShootIdSchema, ShootReferenceSchema, EmailSchema } from './base.schema.js';
 
 // Maps directly to our TypeSpec ShootStatus enum
-export const ShootStatusSchema = z.enum(['planned', 'in_progress', 'completed', 'delivered', 'archived']);
+export const ShootStatusSchema = z.enum(['planned', 'in_progress', 'completed', 'delivered', 'archived', 'cancelled']);
+
+// Maps to TypeSpec ShootStatusChange: one recorded lifecycle transition
+export const ShootStatusChangeSchema = z.object({
+  from: ShootStatusSchema,
+  to: ShootStatusSchema,
+  changedBy: z.string().optional(),
+  changedAt: z.coerce.date()
+});
+
+// Maps to TypeSpec ShootAccessSettings: who may open the client gallery, when,
+// and whether originals may be downloaded
+export const ShootAccessSchema = z.object({
+  startsAt: z.coerce.date().optional(),
+  expiresAt: z.coerce.date().optional(),
+  allowDownloads: z.boolean(),
+  allowedEmails: z.array(EmailSchema),
+  guestAllowance: z.number().int().min(0),
+  lastClientAccessAt: z.coerce.date().optional()
+});
+
+// Access settings as accepted on create/update (any subset may be sent)
+export const ShootAccessSettingsSchema = ShootAccessSchema
+  .omit({ lastClientAccessAt: true })
+  .partial()
+  .refine(
+    (access) => !access.startsAt || !access.expiresAt || access.startsAt < access.expiresAt,
+    { message: 'Access window must start before it expires', path: ['expiresAt'] }
+  );
+
+// Services that drop their own data for a deleted shoot (deletion saga)
+export const ShootCleanupServiceSchema = z.enum(['file-service', 'portfolio-service', 'invitation-service']);
+
+// Maps to TypeSpec ShootCleanupStep: one service's outcome in a deletion
+export const ShootCleanupStepSchema = z.object({
+  status: z.enum(['pending', 'done', 'failed']),
+  error: z.string().optional(),
+  // Count of removed records per kind, e.g. { files: 120, archives: 2 }
+  removed: z.record(z.string(), z.number()).optional(),
+  reportedAt: z.coerce.date().optional()
+});
+
+// Maps to TypeSpec ShootDeletion: the shoot stays `deleting` until every
+// service confirmed its cleanup, and turns `failed` when one of them could not
+export const ShootDeletionSchema = z.object({
+  state: z.enum(['deleting', 'failed']),
+  requestedAt: z.coerce.date(),
+  requestedBy: z.string().optional(),
+  steps: z.record(ShootCleanupServiceSchema, ShootCleanupStepSchema)
+});
+
+// shoot.cleanup.reported, published by each service once it handled shoot.deleted
+export const ShootCleanupReportedEventSchema = z.object({
+  eventType: z.literal('shoot.cleanup.reported'),
+  shootId: z.string(),
+  service: ShootCleanupServiceSchema,
+  success: z.boolean(),
+  error: z.string().optional(),
+  removed: z.record(z.string(), z.number()).optional(),
+  timestamp: z.string()
+});
 
 // Maps to our TypeSpec Shoot model
 export const ShootSchema = z.object({
   id: ShootIdSchema,
+  reference: ShootReferenceSchema,
   title: z.string().min(1).max(100),
   clientEmail: EmailSchema,
   photographerId: z.string(),
   scheduledDate: z.coerce.date().optional(),
   location: z.string().max(500).optional(),
-  status: ShootStatusSchema
+  status: ShootStatusSchema,
+  statusHistory: z.array(ShootStatusChangeSchema).optional(),
+  access: ShootAccessSchema.optional(),
+  deletion: ShootDeletionSchema.optional()
 }).merge(TimestampsSchema);
 
+// Maps to TypeSpec ShootSummary: all a reference lookup reveals, since
+// references are short and sequential
+export const ShootSummarySchema = ShootSchema.pick({
+  id: true,
+  reference: true,
+  title: true,
+  scheduledDate: true
+});
+
 // Maps to TypeSpec CreateShootRequest
 export const CreateShootRequestSchema = z.object({
   title: z.string().min(1).max(100),
   clientEmail: EmailSchema,
   photographerId: z.string(),
   scheduledDate: z.coerce.date().optional(),
-  location: z.string().max(500).optional()
+  location: z.string().max(500).optional(),
+  access: ShootAccessSettingsSchema.optional()
 });
 
 // Maps to TypeSpec UpdateShootRequest
@@ -29,7 +103,8 @@ export const UpdateShootRequestSchema = z.object({
   title: z.string().min(1).max(100).optional(),
   scheduledDate: z.coerce.date().optional(),
   location: z.string().max(500).optional(),
-  status: ShootStatusSchema.optional()
+  status: ShootStatusSchema.optional(),
+  access: ShootAccessSettingsSchema.optional()
 });
 
 // Maps to TypeSpec ShootQuery
@@ -46,7 +121,15 @@ export const ShootQuerySchema = z.object({
 
 // Type exports that match TypeSpec
 export type Shoot = z.infer<typeof ShootSchema>;
+export type ShootSummary = z.infer<typeof ShootSummarySchema>;
 export type CreateShootRequest = z.infer<typeof CreateShootRequestSchema>;
 export type UpdateShootRequest = z.infer<typeof UpdateShootRequestSchema>;
 export type ShootQuery = z.infer<typeof ShootQuerySchema>;
-export type ShootStatus = z.infer<typeof ShootStatusSchema>;
\ No newline at end of file
+export type ShootStatus = z.infer<typeof ShootStatusSchema>;
+export type ShootStatusChange = z.infer<typeof ShootStatusChangeSchema>;
+export type ShootAccess = z.infer<typeof ShootAccessSchema>;
+export type ShootAccessSettings = z.infer<typeof ShootAccessSettingsSchema>;
+export type ShootCleanupService = z.infer<typeof ShootCleanupServiceSchema>;
+export type ShootCleanupStep = z.infer<typeof ShootCleanupStepSchema>;
+export type ShootDeletion = z.infer<typeof ShootDeletionSchema>;
+export type ShootCleanupReportedEvent = z.infer<typeof ShootCleanupReportedEventSchema>;
\ No newline at end of file
@@ -66,7 +66,7 @@ export interface FileMetadata {
   readonly createdAt: Date;
 }
 
-export type ShootStatus = 'planned' | 'in_progress' | 'completed' | 'delivered' | 'archived';
+export type ShootStatus = 'planned' | 'in_progress' | 'completed' | 'delivered' | 'archived' | 'cancelled';
 
 export interface Shoot {
   readonly id: string;
@@ -0,0 +1,137 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { generateKeyPairSync } from 'node:crypto';
+import Fastify from 'fastify';
+import {
+  signJwt,
+  verifyJwt,
+  getJwtConfig,
+  JwtError,
+  type JwtClaims,
+  type JwtConfig
+} from '../../src/auth/jwt.js';
+import { createAuthPreHandler } from '../../src/auth/prehandler.js';
+
+const claims: JwtClaims = {
+  userId: 'user_client_1',
+  email: 'client@example.com',
+  role: 'client',
+  shootId: 'shoot_abc123'
+};
+
+const hs256: JwtConfig = { key: { algorithm: 'HS256', secret: 'test-secret' }, expiresIn: '1h' };
+
+describe('signJwt / verifyJwt', () => {
+  it('round-trips HS256 claims with iat and exp', () => {
+    const now = new Date('2026-07-13T00:00:00.000Z');
+    const token = signJwt(claims, hs256, now);
+
+    expect(token.split('.')).toHaveLength(3);
+    expect(verifyJwt(token, hs256.key, now)).toEqual({
+      ...claims,
+      iat: now.getTime() / 1000,
+      exp: now.getTime() / 1000 + 3600
+    });
+  });
+
+  it('round-trips RS256 claims with the public key alone', () => {
+    const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+      privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+    });
+    const token = signJwt(claims, { key: { algorithm: 'RS256', publicKey, privateKey }, expiresIn: '15m' });
+
+    expect(verifyJwt(token, { algorithm: 'RS256', publicKey })).toMatchObject(claims);
+  });
+
+  it('rejects a token signed with another secret', () => {
+    const token = signJwt(claims, { ...hs256, key: { algorithm: 'HS256', secret: 'other-secret' } });
+
+    expect(() => verifyJwt(token, hs256.key)).toThrow('Invalid token signature');
+  });
+
+  it('rejects tampered claims', () => {
+    const [header, , signature] = signJwt(claims, hs256).split('.');
+    const forged = Buffer.from(JSON.stringify({ ...claims, role: 'photographer', iat: 0, exp: 9999999999 }))
+      .toString('base64url');
+
+    expect(() => verifyJwt(`${header}.${forged}.${signature}`, hs256.key)).toThrow(JwtError);
+  });
+
+  it('rejects an expired token', () => {
+    const token = signJwt(claims, hs256, new Date('2026-07-13T00:00:00.000Z'));
+
+    expect(() => verifyJwt(token, hs256.key, new Date('2026-07-13T01:00:00.000Z'))).toThrow('Token has expired');
+  });
+
+  it('rejects a token whose header names another algorithm', () => {
+    const [, payload, signature] = signJwt(claims, hs256).split('.');
+    const header = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url');
+
+    expect(() => verifyJwt(`${header}.${payload}.${signature}`, hs256.key)).toThrow('Unexpected token algorithm');
+  });
+
+  it('rejects malformed tokens', () => {
+    expect(() => verifyJwt('not-a-token', hs256.key)).toThrow('Malformed token');
+  });
+});
+
+describe('getJwtConfig', () => {
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('defaults to HS256 with JWT_SECRET', () => {
+    delete process.env['JWT_ALGORITHM'];
+    process.env['JWT_SECRET'] = 's3cret';
+
+    expect(getJwtConfig()).toEqual({ key: { algorithm: 'HS256', secret: 's3cret' }, expiresIn: '1h' });
+  });
+
+  it('requires a public key for RS256', () => {
+    process.env['JWT_ALGORITHM'] = 'RS256';
+    delete process.env['JWT_PUBLIC_KEY'];
+
+    expect(() => getJwtConfig()).toThrow('JWT_PUBLIC_KEY');
+  });
+});
+
+describe('createAuthPreHandler', () => {
+  const buildApp = () => {
+    const app = Fastify();
+    app.addHook('preHandler', createAuthPreHandler(hs256.key));
+    app.get('/me', async (request) => ({ user: request.user }));
+    return app;
+  };
+
+  it('exposes the verified claims as request.user', async () => {
+    const response = await buildApp().inject({
+      method: 'GET',
+      url: '/me',
+      headers: { authorization: `Bearer ${signJwt(claims, hs256)}` }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(response.json().user).toMatchObject(claims);
+  });
+
+  it('answers 401 without a bearer token', async () => {
+    const response = await buildApp().inject({ method: 'GET', url: '/me' });
+
+    expect(response.statusCode).toBe(401);
+    expect(response.json()).toEqual({ code: 401, message: 'Authentication required' });
+  });
+
+  it('answers 401 for an invalid token', async () => {
+    const response = await buildApp().inject({
+      method: 'GET',
+      url: '/me',
+      headers: { authorization: 'Bearer not-a-token' }
+    });
+
+    expect(response.statusCode).toBe(401);
+    expect(response.json()).toMatchObject({ code: 401, message: 'Invalid access token' });
+  });
+});
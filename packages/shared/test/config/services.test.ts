@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import {
   SERVICE_REGISTRY,
   getServiceConfig,
+  getServiceUrl,
   type ServiceName
 } from '../../src/config/services.js';
 
@@ -12,7 +13,7 @@ describe('service registry', () => {
 
   beforeEach(() => {
     // Clear the env vars the resolver reads, for deterministic defaults
-    for (const key of ['PORT', 'HOST', 'MONGO_URI', 'MONGODB_URI', 'KAFKA_BROKERS', 'APP_BASE_URL']) {
+    for (const key of ['PORT', 'HOST', 'MONGO_URI', 'MONGODB_URI', 'KAFKA_BROKERS', 'APP_BASE_URL', 'FILE_SERVICE_URL']) {
       delete process.env[key];
     }
   });
@@ -56,4 +57,13 @@ describe('service registry', () => {
   it('defaults kafka brokers to the host-facing 9093 broker', () => {
     expect(getServiceConfig('shoot-service').kafkaBrokers).toEqual(['localhost:9093']);
   });
+
+  it('resolves service-to-service URLs from the registry port', () => {
+    expect(getServiceUrl('file-service')).toBe('http://localhost:3006');
+  });
+
+  it('lets <SERVICE>_URL env override the service URL', () => {
+    process.env['FILE_SERVICE_URL'] = 'http://file-service:3006';
+    expect(getServiceUrl('file-service')).toBe('http://file-service:3006');
+  });
 });
@@ -3,21 +3,67 @@
  * Environment-based configuration following ADR-026/027 requirements
  */
 
+import { RenditionFormat, RenditionName } from '../shared/contracts/files.api.js';
+import { StorageDriverKind } from '../services/storage/StorageDriver.js';
+import { S3StorageConfig } from '../services/storage/S3StorageDriver.js';
+
+const RENDITION_FORMATS: RenditionFormat[] = ['jpeg', 'webp', 'avif'];
+
+// Comma-separated list, e.g. RENDITION_FORMATS=jpeg,webp; unknown formats are ignored
+function parseRenditionFormats(value: string): RenditionFormat[] {
+  return value
+    .split(',')
+    .map(format => format.trim().toLowerCase())
+    .filter((format): format is RenditionFormat => RENDITION_FORMATS.includes(format as RenditionFormat));
+}
+
+// No cold tier unless COLD_STORAGE_DRIVER names a known driver
+function parseStorageDriver(value: string | undefined): StorageDriverKind | undefined {
+  return value === 'filesystem' || value === 's3' ? value : undefined;
+}
+
 export interface FileServiceConfig {
   port: number;
   mongoUrl: string;
   kafkaUrl: string;
+  portfolioServiceUrl: string;
   storage: {
     basePath: string;
     chunkSize: number;
     largeFileThreshold: number;
     chunkTTLHours: number;
   };
+  coldStorage: {
+    driver?: StorageDriverKind;
+    basePath: string; // filesystem driver
+    s3: S3StorageConfig;
+    tierAfterDays: number;
+  };
+  integrity: {
+    scrubIntervalHours: number;
+    verifyHashes: boolean;
+    orphanGraceHours: number;
+    maxReportedEntries: number;
+  };
   processing: {
-    thumbnailSize: number;
-    thumbnailQuality: number;
     enableMetadataExtraction: boolean;
     maxProcessingTimeMs: number;
+    renditions: { name: RenditionName; size: number; quality: number }[];
+    renditionFormats: RenditionFormat[];
+  };
+  uploads: {
+    maxSize: number;
+    expirationHours: number;
+  };
+  trash: {
+    retentionDays: number;
+  };
+  processingQueue: {
+    concurrency: number;
+    maxAttempts: number;
+    retryBaseDelayMs: number;
+    leaseMs: number;
+    pollIntervalMs: number;
   };
   archive: {
     basePath: string;
@@ -25,12 +71,20 @@ export interface FileServiceConfig {
     defaultExpirationDays: number;
     compressionLevel: number;
   };
+  downloads: {
+    signingSecret: string;
+    baseUrl: string;
+    urlTtlSeconds: number;
+    maxUrlTtlSeconds: number;
+  };
 }
 
 export const config: FileServiceConfig = {
   port: parseInt(process.env.PORT ?? '3003'),
   mongoUrl: process.env.MONGO_URL ?? 'mongodb://localhost:27017/file-service',
   kafkaUrl: process.env.KAFKA_URL ?? 'localhost:9092',
+  // Gallery watermark settings are read from portfolio-service
+  portfolioServiceUrl: process.env.PORTFOLIO_SERVICE_URL ?? 'http://localhost:3004',
 
   // Storage configuration per ADR-027
   storage: {
@@ -40,12 +94,74 @@ export const config: FileServiceConfig = {
     chunkTTLHours: parseInt(process.env.CHUNK_TTL_HOURS ?? '24'), // 24 hours
   },
 
+  // Cheaper storage the originals of older shoots move to (see StorageTieringService)
+  coldStorage: {
+    driver: parseStorageDriver(process.env.COLD_STORAGE_DRIVER),
+    basePath: process.env.COLD_STORAGE_PATH ?? '/data/cold',
+    s3: {
+      endpoint: process.env.S3_ENDPOINT, // e.g. http://minio:9000; AWS when unset
+      region: process.env.S3_REGION ?? 'us-east-1',
+      bucket: process.env.S3_BUCKET ?? 'file-service',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID ?? '',
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY ?? '',
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE !== 'false', // MinIO needs path-style URLs
+      keyPrefix: process.env.S3_KEY_PREFIX ?? '',
+      partSize: parseInt(process.env.S3_PART_SIZE ?? '16777216'), // 16MB
+    },
+    tierAfterDays: parseInt(process.env.TIER_AFTER_DAYS ?? '180'),
+  },
+
+  // Storage scrubber (see StorageIntegrityService)
+  integrity: {
+    scrubIntervalHours: parseInt(process.env.SCRUB_INTERVAL_HOURS ?? '24'),
+    verifyHashes: process.env.SCRUB_VERIFY_HASHES !== 'false', // Reads every local file
+    orphanGraceHours: parseInt(process.env.SCRUB_ORPHAN_GRACE_HOURS ?? '24'),
+    maxReportedEntries: parseInt(process.env.SCRUB_MAX_REPORTED_ENTRIES ?? '1000'),
+  },
+
   // Processing configuration
   processing: {
-    thumbnailSize: parseInt(process.env.THUMBNAIL_SIZE ?? '300'),
-    thumbnailQuality: parseInt(process.env.THUMBNAIL_QUALITY ?? '85'),
     enableMetadataExtraction: process.env.ENABLE_METADATA_EXTRACTION === 'true',
     maxProcessingTimeMs: parseInt(process.env.MAX_PROCESSING_TIME_MS ?? '30000'), // 30 seconds
+    // Longest edge in pixels; images are never enlarged
+    renditions: [
+      {
+        name: 'thumbnail',
+        size: parseInt(process.env.THUMBNAIL_SIZE ?? '300'),
+        quality: parseInt(process.env.THUMBNAIL_QUALITY ?? '85'),
+      },
+      {
+        name: 'medium',
+        size: parseInt(process.env.RENDITION_MEDIUM_SIZE ?? '1200'),
+        quality: parseInt(process.env.RENDITION_MEDIUM_QUALITY ?? '85'),
+      },
+      {
+        name: 'high',
+        size: parseInt(process.env.RENDITION_HIGH_SIZE ?? '2560'),
+        quality: parseInt(process.env.RENDITION_HIGH_QUALITY ?? '90'),
+      },
+    ],
+    renditionFormats: parseRenditionFormats(process.env.RENDITION_FORMATS ?? 'jpeg,webp,avif'),
+  },
+
+  // Resumable (tus) uploads; partial uploads are kept under uploads/ in the storage base path
+  uploads: {
+    maxSize: parseInt(process.env.UPLOAD_MAX_SIZE ?? '53687091200'), // 50GB
+    expirationHours: parseInt(process.env.UPLOAD_EXPIRATION_HOURS ?? '24'), // since the last chunk
+  },
+
+  // Deleted files stay in the trash this long before they are purged
+  trash: {
+    retentionDays: parseInt(process.env.TRASH_RETENTION_DAYS ?? '30'),
+  },
+
+  // Background processing queue (Mongo-backed, see ProcessingQueue)
+  processingQueue: {
+    concurrency: parseInt(process.env.PROCESSING_CONCURRENCY ?? '2'),
+    maxAttempts: parseInt(process.env.PROCESSING_MAX_ATTEMPTS ?? '5'),
+    retryBaseDelayMs: parseInt(process.env.PROCESSING_RETRY_BASE_DELAY_MS ?? '5000'), // doubled per attempt
+    leaseMs: parseInt(process.env.PROCESSING_LEASE_MS ?? '120000'), // 2 minutes, renewed while running
+    pollIntervalMs: parseInt(process.env.PROCESSING_POLL_INTERVAL_MS ?? '1000'),
   },
 
   // Archive configuration
@@ -55,6 +171,15 @@ export const config: FileServiceConfig = {
     defaultExpirationDays: parseInt(process.env.ARCHIVE_EXPIRATION_DAYS ?? '7'),
     compressionLevel: parseInt(process.env.COMPRESSION_LEVEL ?? '6'),
   },
+
+  // Signed download links. The secret is shared by all instances; the default
+  // is for development only and must be replaced in production.
+  downloads: {
+    signingSecret: process.env.DOWNLOAD_SIGNING_SECRET ?? 'dev-download-signing-secret',
+    baseUrl: process.env.DOWNLOAD_BASE_URL ?? '/api/v1', // Gateway prefix of the /files routes
+    urlTtlSeconds: parseInt(process.env.DOWNLOAD_URL_TTL_SECONDS ?? '3600'), // 1 hour
+    maxUrlTtlSeconds: parseInt(process.env.DOWNLOAD_URL_MAX_TTL_SECONDS ?? '604800'), // 7 days
+  },
 };
 
 export default config;
\ No newline at end of file
@@ -0,0 +1,117 @@
+/**
+ * Archive Progress Handlers
+ * Server-Sent Events following an archive's generation: `progress` while it
+ * is built, then `ready` (with a signed link for the caller) or `failed`.
+ * Only callers of the archive's shoot whose role may download archives follow them.
+ */
+
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { ArchiveService } from '../services/ArchiveService.js';
+import { DownloadUrlService, LinkHolder } from '../services/DownloadUrlService.js';
+import { ArchiveModel } from '../shared/contracts/files.api.js';
+import { canAccessShoot, permissionDenied, roleAllows, SHOOT_ACCESS_DENIED } from './auth.js';
+
+interface EventStream {
+  open(): boolean;
+  send(event: string, data: unknown): void;
+  comment(text: string): void;
+}
+
+// A comment line this often keeps the gateway from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export class ArchiveProgressHandlers {
+  constructor(
+    private readonly archiveService: ArchiveService,
+    private readonly downloadUrls: DownloadUrlService,
+    private readonly pollIntervalMs = 1000
+  ) {}
+
+  /**
+   * Stream an archive's progress until it is ready or failed, or the client goes.
+   * The archive document is polled, so it works whichever instance builds it.
+   */
+  async streamArchiveProgress(
+    request: FastifyRequest<{ Params: { archiveId: string } }>,
+    reply: FastifyReply
+  ): Promise<void> {
+    const { user } = request;
+    if (!user || !roleAllows(user.role, 'downloadArchives')) {
+      reply.code(403).send(permissionDenied('downloadArchives'));
+      return;
+    }
+
+    const { archiveId } = request.params;
+    const archive = await this.archiveService.getArchiveById(archiveId);
+    if (!archive) {
+      reply.code(404).send({ success: false, error: { code: 'ARCHIVE_NOT_FOUND', message: 'Archive not found' } });
+      return;
+    }
+    if (!canAccessShoot(user, archive.shootId)) {
+      reply.code(403).send(SHOOT_ACCESS_DENIED);
+      return;
+    }
+
+    reply.hijack();
+    reply.raw.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Don't let proxies hold events back
+    });
+
+    let closed = false;
+    request.raw.on('close', () => {
+      closed = true;
+    });
+    const stream: EventStream = {
+      open: () => !closed,
+      send: (event, data) => reply.raw.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`),
+      comment: text => reply.raw.write(`: ${text}\n\n`),
+    };
+
+    try {
+      await this.follow(archive, stream, user);
+    } catch (error) {
+      stream.send('failed', {
+        archiveId,
+        error: error instanceof Error ? error.message : 'Failed to follow archive progress',
+      });
+    }
+    reply.raw.end();
+  }
+
+  private async follow(first: ArchiveModel, stream: EventStream, holder: LinkHolder): Promise<void> {
+    let archive: ArchiveModel | null = first;
+    let last = '';
+    let quietSince = Date.now();
+
+    while (stream.open()) {
+      if (!archive) {
+        stream.send('failed', { archiveId: first.id, error: 'Archive not found' });
+        return;
+      }
+      if (archive.status === 'completed') {
+        stream.send('ready', { archive, downloadUrl: this.downloadUrls.signArchiveUrl(archive, holder).url });
+        return;
+      }
+      if (archive.status === 'failed') {
+        stream.send('failed', { archiveId: archive.id, error: 'Archive generation failed' });
+        return;
+      }
+
+      const current = JSON.stringify({ status: archive.status, progress: archive.progress });
+      if (current !== last) {
+        stream.send('progress', { archiveId: archive.id, status: archive.status, progress: archive.progress });
+        last = current;
+        quietSince = Date.now();
+      } else if (Date.now() - quietSince >= HEARTBEAT_INTERVAL_MS) {
+        stream.comment('heartbeat');
+        quietSince = Date.now();
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.pollIntervalMs));
+      archive = await this.archiveService.getArchiveById(first.id);
+    }
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Capture Time Handlers
+ * List a shoot's camera bodies and set their clock offsets
+ */
+
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { CaptureTimeService } from '../services/CaptureTimeService.js';
+import {
+  ApiError,
+  CameraClock,
+  SetClockOffsetRequest,
+  SuccessResponse,
+} from '../shared/contracts/files.api.js';
+
+export class CaptureTimeHandlers {
+  constructor(private readonly captureTimeService: CaptureTimeService) {}
+
+  /**
+   * The shoot's camera bodies with their clock offsets
+   */
+  async listClockOffsets(
+    request: FastifyRequest<{ Querystring: { shootId?: string } }>,
+    reply: FastifyReply
+  ): Promise<SuccessResponse<CameraClock[]> | ApiError> {
+    const { shootId } = request.query;
+    if (!shootId) {
+      return this.error(reply, 400, 'INVALID_QUERY', 'shootId is required');
+    }
+
+    try {
+      return { success: true, data: await this.captureTimeService.listClockOffsets(shootId) };
+    } catch (error) {
+      return this.error(reply, 500, 'LIST_FAILED',
+        error instanceof Error ? error.message : 'Failed to list cameras');
+    }
+  }
+
+  /**
+   * Set a camera body's clock offset for a shoot, re-timing its photos
+   */
+  async setClockOffset(
+    request: FastifyRequest<{ Body: Partial<SetClockOffsetRequest> }>,
+    reply: FastifyReply
+  ): Promise<SuccessResponse<CameraClock> | ApiError> {
+    const { shootId, camera, offsetSeconds } = request.body ?? {};
+    if (!shootId || !camera || typeof offsetSeconds !== 'number' || !Number.isFinite(offsetSeconds)) {
+      return this.error(reply, 400, 'INVALID_REQUEST', 'shootId, camera and a numeric offsetSeconds are required');
+    }
+
+    try {
+      return { success: true, data: await this.captureTimeService.setClockOffset(shootId, camera, offsetSeconds) };
+    } catch (error) {
+      return this.error(reply, 500, 'CLOCK_OFFSET_FAILED',
+        error instanceof Error ? error.message : 'Failed to set the clock offset');
+    }
+  }
+
+  private error(reply: FastifyReply, status: number, code: string, message: string): ApiError {
+    reply.code(status);
+    return { success: false, error: { code, message } };
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Download URL Handlers
+ * Issue signed, expiring download links for files and archives to the holder
+ * of the request's access token, for their shoot and what their role may download
+ */
+
+import { FastifyRequest, FastifyReply } from 'fastify';
+import type { JWTPayload } from '@tempsdarret/shared/schemas/invite.schema';
+import { FileService } from '../services/FileService.js';
+import { ArchiveService } from '../services/ArchiveService.js';
+import { DownloadUrlService } from '../services/DownloadUrlService.js';
+import {
+  ApiError,
+  ArchiveDownloadUrlRequest,
+  DownloadUrlBatchRequest,
+  DownloadUrlRequest,
+  FileDownloadQuery,
+  FileModel,
+  IssuedDownloadUrl,
+  SignedDownloadUrl,
+  SuccessResponse
+} from '../shared/contracts/files.api.js';
+import { selectDownloadTarget } from '../shared/utils/renditions.js';
+import {
+  canAccessShoot,
+  permissionDenied,
+  PHOTOGRAPHER_ONLY_FILE,
+  roleAllows,
+  roleMayHave,
+  SHOOT_ACCESS_DENIED
+} from './auth.js';
+
+// Enough for a gallery page of 100 files with three links each
+const MAX_BATCH_LINKS = 300;
+
+// Why a link is refused: the status answered and its body
+interface LinkRefusal {
+  status: number;
+  body: ApiError;
+}
+
+export class DownloadUrlHandlers {
+  constructor(
+    private readonly fileService: FileService,
+    private readonly archiveService: ArchiveService,
+    private readonly downloadUrls: DownloadUrlService
+  ) {}
+
+  /**
+   * Issue a link to a file, limited to the requested rendition (and gallery)
+   */
+  async issueFileDownloadUrl(
+    request: FastifyRequest<{ Params: { fileId: string }; Body: DownloadUrlRequest | undefined }>,
+    reply: FastifyReply
+  ): Promise<SuccessResponse<SignedDownloadUrl> | ApiError> {
+    const { user } = request;
+    if (!user) {
+      return this.error(reply, 401, 'UNAUTHENTICATED', 'A user is required to issue download links');
+    }
+
+    try {
+      const { expiresIn, ...query } = request.body ?? {};
+      const file = await this.fileService.getFileById(request.params.fileId);
+      const link = this.signFileLink(user, file, query, expiresIn);
+      if ('status' in link) {
+        reply.code(link.status);
+        return link.body;
+      }
+
+      reply.code(201);
+      return { success: true, data: link };
+    } catch (error) {
+      return this.error(reply, 500, 'DOWNLOAD_URL_FAILED',
+        error instanceof Error ? error.message : 'Failed to issue download link');
+    }
+  }
+
+  /**
+   * Issue links to many files at once, each as issueFileDownloadUrl would;
+   * refused links carry the error in place of a URL
+   */
+  async issueFileDownloadUrls(
+    request: FastifyRequest<{ Body: DownloadUrlBatchRequest | undefined }>,
+    reply: FastifyReply
+  ): Promise<SuccessResponse<IssuedDownloadUrl[]> | ApiError> {
+    const { user } = request;
+    if (!user) {
+      return this.error(reply, 401, 'UNAUTHENTICATED', 'A user is required to issue download links');
+    }
+    const { links, expiresIn } = request.body ?? {};
+    if (!Array.isArray(links) || links.length === 0 || links.length > MAX_BATCH_LINKS) {
+      return this.error(reply, 400, 'INVALID_REQUEST', `links must hold 1 to ${MAX_BATCH_LINKS} links`);
+    }
+
+    try {
+      const files = await this.fileService.getFilesByIds([...new Set(links.map(link => link.fileId))]);
+      const byId = new Map(files.map(file => [file.id, file]));
+
+      reply.code(201);
+      return {
+        success: true,
+        data: links.map(({ fileId, ...query }) => {
+          const link = this.signFileLink(user, byId.get(fileId) ?? null, query, expiresIn);
+          return { fileId, ...query, ...('status' in link ? { error: link.body.error } : link) };
+        }),
+      };
+    } catch (error) {
+      return this.error(reply, 500, 'DOWNLOAD_URL_FAILED',
+        error instanceof Error ? error.message : 'Failed to issue download links');
+    }
+  }
+
+  /**
+   * Issue a link to a completed archive; it expires with the archive at the latest
+   */
+  async issueArchiveDownloadUrl(
+    request: FastifyRequest<{ Params: { archiveId: string }; Body: ArchiveDownloadUrlRequest | undefined }>,
+    reply: FastifyReply
+  ): Promise<SuccessResponse<SignedDownloadUrl> | ApiError> {
+    const { user } = request;
+    if (!user) {
+      return this.error(reply, 401, 'UNAUTHENTICATED', 'A user is required to issue download links');
+    }
+    if (!roleAllows(user.role, 'downloadArchives')) {
+      reply.code(403);
+      return permissionDenied('downloadArchives');
+    }
+
+    try {
+      const archive = await this.archiveService.getArchiveById(request.params.archiveId);
+      if (archive?.status !== 'completed') {
+        return this.error(reply, 404, 'ARCHIVE_NOT_READY', 'Archive not found or not ready for download');
+      }
+      if (!canAccessShoot(user, archive.shootId)) {
+        reply.code(403);
+        return SHOOT_ACCESS_DENIED;
+      }
+      if (new Date() > new Date(archive.expiresAt)) {
+        return this.error(reply, 410, 'ARCHIVE_EXPIRED', 'Archive has expired');
+      }
+
+      reply.code(201);
+      return {
+        success: true,
+        data: this.downloadUrls.signArchiveUrl(archive, user, request.body?.expiresIn),
+      };
+    } catch (error) {
+      return this.error(reply, 500, 'DOWNLOAD_URL_FAILED',
+        error instanceof Error ? error.message : 'Failed to issue download link');
+    }
+  }
+
+  // A link to the rendition for the user, if their shoot and role allow it
+  private signFileLink(
+    user: JWTPayload,
+    file: FileModel | null,
+    query: FileDownloadQuery,
+    expiresIn?: number
+  ): SignedDownloadUrl | LinkRefusal {
+    if (!file) {
+      return this.refusal(404, 'FILE_NOT_FOUND', 'File not found');
+    }
+    if (!canAccessShoot(user, file.shootId)) {
+      return { status: 403, body: SHOOT_ACCESS_DENIED };
+    }
+    if (!roleMayHave(user.role, file)) {
+      return { status: 403, body: PHOTOGRAPHER_ONLY_FILE };
+    }
+    const target = selectDownloadTarget(file, query);
+    if (!target) {
+      return this.refusal(404, 'RENDITION_NOT_FOUND', 'Rendition not available for this file');
+    }
+    if (target.isOriginal && !roleAllows(user.role, 'downloadOriginals')) {
+      return { status: 403, body: permissionDenied('downloadOriginals') };
+    }
+    return this.downloadUrls.signFileUrl(file, user, query, expiresIn);
+  }
+
+  private refusal(status: number, code: string, message: string): LinkRefusal {
+    return { status, body: { success: false, error: { code, message } } };
+  }
+
+  private error(reply: FastifyReply, status: number, code: string, message: string): ApiError {
+    reply.code(status);
+    return { success: false, error: { code, message } };
+  }
+}
@@ -5,16 +5,32 @@
 
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { FileService } from '../services/FileService.js';
-import { ArchiveService } from '../services/ArchiveService.js';
+import { ArchiveService, ArchiveContentChangedError, FilesOutsideShootError } from '../services/ArchiveService.js';
+import { WatermarkService, WatermarkRequiredError } from '../services/WatermarkService.js';
+import { DownloadUrlService } from '../services/DownloadUrlService.js';
 import {
   FileQuery,
+  FileDownloadQuery,
   CreateArchiveRequest,
   SuccessResponse,
   PaginatedResponse,
   ApiError,
   FileModel,
+  FileWithSidecars,
   ArchiveModel
 } from '../shared/contracts/files.api.js';
+import { GalleryNotFoundError } from '../shared/clients/portfolio-service.client.js';
+import { selectDownloadTarget } from '../shared/utils/renditions.js';
+import { SignedDownloadQuery } from '../shared/utils/signed-urls.js';
+import { sendDownload, sendDownloadUrlError } from './download.js';
+import {
+  canAccessShoot,
+  permissionDenied,
+  PHOTOGRAPHER_ONLY_FILE,
+  roleAllows,
+  roleMayHave,
+  SHOOT_ACCESS_DENIED
+} from './auth.js';
 
 export interface FileUploadMultipart {
   file: {
@@ -29,7 +45,9 @@ export interface FileUploadMultipart {
 export class FileHandlers {
   constructor(
     private readonly fileService: FileService,
-    private readonly archiveService: ArchiveService
+    private readonly archiveService: ArchiveService,
+    private readonly watermarkService: WatermarkService,
+    private readonly downloadUrls: DownloadUrlService
   ) {}
 
   /**
@@ -138,6 +156,30 @@ export class FileHandlers {
     }
   }
 
+  /**
+   * Get a RAW file with its paired sidecars (a sidecar's ID resolves to its RAW)
+   */
+  async getFileWithSidecars(
+    request: FastifyRequest<{ Params: { fileId: string } }>,
+    reply: FastifyReply
+  ): Promise<SuccessResponse<FileWithSidecars> | ApiError> {
+    try {
+      const result = await this.fileService.getFileWithSidecars(request.params.fileId);
+
+      if (!result) {
+        return this.error(reply, 404, 'FILE_NOT_FOUND', 'File not found');
+      }
+
+      return {
+        success: true,
+        data: result,
+      };
+    } catch (error) {
+      return this.error(reply, 500, 'GET_FAILED',
+        error instanceof Error ? error.message : 'Failed to get file');
+    }
+  }
+
   /**
    * Download file with progress support (ADR-026)
    * MUST include Content-Length header for browser progress bars
@@ -145,9 +187,16 @@ export class FileHandlers {
    * This method handles file downloads with range request support.
    * It retrieves file metadata, validates existence, handles partial content requests,
    * sets appropriate headers for download progress tracking, and streams the file data.
+   * `?resolution=` serves one of the image's renditions instead of the original;
+   * It is served watermarked, but to the photographer, while the watermark of the
+   * gallery `?galleryId=` names is on or, without one, while any of the shoot's
+   * galleries has it on.
+   * Only links signed by DownloadUrlService are served (403 otherwise), and
+   * originals and photographer-only files only on links issued to a role that
+   * may have them.
    */
   async downloadFile(
-    request: FastifyRequest<{ Params: { fileId: string } }>,
+    request: FastifyRequest<{ Params: { fileId: string }; Querystring: FileDownloadQuery }>,
     reply: FastifyReply
   ): Promise<void> {
     try {
@@ -165,8 +214,27 @@ export class FileHandlers {
         return;
       }
 
+      this.downloadUrls.verifyFileDownload(file, request.query);
+      if (!roleMayHave(request.query.role, file)) {
+        reply.code(403).send(PHOTOGRAPHER_ONLY_FILE);
+        return;
+      }
+      const selected = selectDownloadTarget(file, request.query);
+      if (!selected) {
+        reply.code(404).send({ success: false, error: { code: 'RENDITION_NOT_FOUND', message: 'Rendition not available for this file' } });
+        return;
+      }
+      if (selected.isOriginal && !roleAllows(request.query.role, 'downloadOriginals')) {
+        reply.code(403).send(permissionDenied('downloadOriginals'));
+        return;
+      }
+
+      // Renditions carry the watermark of the gallery the link names, or of the shoot's
+      const { role, galleryId } = request.query;
+      const target = await this.watermarkService.resolveDownload(file, selected, role, galleryId);
+
       // Get file stats for Content-Length (critical per ADR-026)
-      const stats = await this.fileService.getFileStats(file.storagePath);
+      const stats = await this.fileService.getFileStats(target.storagePath, target.tier);
       if (!stats.exists) {
         reply.code(404).send({
           success: false,
@@ -178,38 +246,22 @@ export class FileHandlers {
         return;
       }
 
-      // Handle range requests for resumable downloads
-      const rangeHeader = request.headers.range;
-      let start = 0;
-      let end = stats.size - 1;
-      let statusCode = 200;
-
-      if (rangeHeader) {
-        const ranges = rangeHeader.replace(/bytes=/, '').split('-');
-        start = parseInt(ranges[0], 10) || 0;
-        end = parseInt(ranges[1], 10) || stats.size - 1;
-        statusCode = 206;
-
-        reply.header('Content-Range', `bytes ${start}-${end}/${stats.size}`);
-        reply.header('Content-Length', (end - start + 1).toString());
-      } else {
-        // ✅ CRITICAL: Always include Content-Length for progress indication (ADR-026)
-        reply.header('Content-Length', stats.size.toString());
-      }
-
-      // Set required headers per ADR-026
-      reply.header('Content-Type', file.mimeType || 'application/octet-stream');
-      reply.header('Content-Disposition', `attachment; filename="${file.filename}"`);
-      reply.header('Accept-Ranges', 'bytes'); // Enable resume capability
-      reply.header('Cache-Control', 'private, max-age=0'); // Prevent caching large files
-      
-      reply.code(statusCode);
-
       // Create appropriate stream based on file size
-      const stream = await this.fileService.createDownloadStream(fileId, { start, end });
-      reply.send(stream);
-
+      await sendDownload(request, reply, { ...target, size: stats.size }, async range => target.isOriginal
+        ? this.fileService.createDownloadStream(fileId, range)
+        : this.fileService.createRenditionStream(target.storagePath, range));
     } catch (error) {
+      if (sendDownloadUrlError(reply, error)) {
+        return;
+      }
+      if (error instanceof GalleryNotFoundError) {
+        reply.code(404).send({ success: false, error: { code: 'GALLERY_NOT_FOUND', message: error.message } });
+        return;
+      }
+      if (error instanceof WatermarkRequiredError) {
+        reply.code(403).send({ success: false, error: { code: 'ORIGINAL_NOT_AVAILABLE', message: error.message } });
+        return;
+      }
       // eslint-disable-next-line no-console
       console.error('Download error:', error);
       reply.code(500).send({
@@ -222,6 +274,31 @@ export class FileHandlers {
     }
   }
 
+  /**
+   * Queue a file for processing again (202: processing happens in the background)
+   */
+  async reprocessFile(
+    request: FastifyRequest<{ Params: { fileId: string } }>,
+    reply: FastifyReply
+  ): Promise<SuccessResponse<FileModel> | ApiError> {
+    try {
+      const file = await this.fileService.reprocessFile(request.params.fileId);
+
+      if (!file) {
+        return this.error(reply, 404, 'FILE_NOT_FOUND', 'File not found');
+      }
+
+      reply.code(202);
+      return {
+        success: true,
+        data: file,
+      };
+    } catch (error) {
+      return this.error(reply, 500, 'REPROCESS_FAILED',
+        error instanceof Error ? error.message : 'Failed to queue file processing');
+    }
+  }
+
   /**
    * Delete file
    */
@@ -249,19 +326,34 @@ export class FileHandlers {
   }
 
   /**
-   * Create archive
+   * Create archive, for callers of the shoot whose role may download archives,
+   * and who may have its originals (see WatermarkService)
    */
   async createArchive(
     request: FastifyRequest<{ Body: CreateArchiveRequest }>,
-    _reply: FastifyReply
+    reply: FastifyReply
   ): Promise<SuccessResponse<ArchiveModel> | ApiError> {
+    const { user } = request;
+    if (!user || !roleAllows(user.role, 'downloadArchives')) {
+      reply.code(403);
+      return permissionDenied('downloadArchives');
+    }
+    if (!canAccessShoot(user, request.body.shootId)) {
+      reply.code(403);
+      return SHOOT_ACCESS_DENIED;
+    }
+
     try {
-      const { shootId, type, fileIds } = request.body;
-      
+      const { shootId, type, fileIds, streaming, notifyEmail } = request.body;
+      await this.watermarkService.assertOriginalsAvailable(shootId, user.role);
+
       const archive = await this.archiveService.createArchive({
         shootId,
         type,
         fileIds,
+        streaming,
+        notifyEmail,
+        requestedBy: { userId: user.userId, role: user.role },
       });
 
       return {
@@ -269,6 +361,12 @@ export class FileHandlers {
         data: archive,
       };
     } catch (error) {
+      if (error instanceof FilesOutsideShootError) {
+        return this.error(reply, 403, 'FILES_OUTSIDE_SHOOT', error.message);
+      }
+      if (error instanceof WatermarkRequiredError) {
+        return this.error(reply, 403, 'ORIGINAL_NOT_AVAILABLE', error.message);
+      }
       return {
         success: false,
         error: {
@@ -280,11 +378,11 @@ export class FileHandlers {
   }
 
   /**
-   * Get archive by ID
+   * Get archive by ID, for callers of its shoot
    */
   async getArchive(
     request: FastifyRequest<{ Params: { archiveId: string } }>,
-    _reply: FastifyReply
+    reply: FastifyReply
   ): Promise<SuccessResponse<ArchiveModel> | ApiError> {
     try {
       const { archiveId } = request.params;
@@ -299,6 +397,10 @@ export class FileHandlers {
           },
         };
       }
+      if (!request.user || !canAccessShoot(request.user, archive.shootId)) {
+        reply.code(403);
+        return SHOOT_ACCESS_DENIED;
+      }
 
       return {
         success: true,
@@ -318,9 +420,12 @@ export class FileHandlers {
   /**
    * Download archive with progress support (ADR-026)
    * MUST include Content-Length header for browser progress bars
+   * Byte ranges resume interrupted downloads, streamed archives included.
+   * Only links signed by DownloadUrlService are served (403 otherwise), and
+   * only on links issued to a role that may download archives.
    */
   async downloadArchive(
-    request: FastifyRequest<{ Params: { archiveId: string } }>,
+    request: FastifyRequest<{ Params: { archiveId: string }; Querystring: SignedDownloadQuery }>,
     reply: FastifyReply
   ): Promise<void> {
     try {
@@ -338,6 +443,12 @@ export class FileHandlers {
         return;
       }
 
+      this.downloadUrls.verifyArchiveDownload(archive, request.query);
+      if (!roleAllows(request.query.role, 'downloadArchives')) {
+        reply.code(403).send(permissionDenied('downloadArchives'));
+        return;
+      }
+
       // Check if archive has expired
       if (new Date() > new Date(archive.expiresAt)) {
         reply.code(410).send({
@@ -350,18 +461,21 @@ export class FileHandlers {
         return;
       }
 
-      // ✅ CRITICAL: Always include Content-Length for progress indication (ADR-026)
-      reply.header('Content-Length', archive.size.toString());
-      reply.header('Content-Type', 'application/zip');
-      reply.header('Content-Disposition', `attachment; filename="archive_${archiveId}.zip"`);
-      reply.header('Accept-Ranges', 'bytes');
-      reply.header('Cache-Control', 'private, max-age=0');
-
-      // Get archive download stream
-      const stream = await this.archiveService.createArchiveDownloadStream(archiveId);
-      reply.send(stream);
-
+      // Archives never change once complete: resumed downloads get the same bytes
+      await sendDownload(request, reply, {
+        size: archive.size,
+        mimeType: 'application/zip',
+        filename: `archive_${archiveId}.zip`,
+        etag: `"${archiveId}-${archive.size}"`,
+      }, range => this.archiveService.createArchiveDownloadStream(archiveId, range));
     } catch (error) {
+      if (sendDownloadUrlError(reply, error)) {
+        return;
+      }
+      if (error instanceof ArchiveContentChangedError) {
+        reply.code(410).send({ success: false, error: { code: 'ARCHIVE_CHANGED', message: error.message } });
+        return;
+      }
       // eslint-disable-next-line no-console
       console.error('Archive download error:', error);
       reply.code(500).send({
@@ -373,4 +487,8 @@ export class FileHandlers {
       });
     }
   }
-}
\ No newline at end of file
+  private error(reply: FastifyReply, status: number, code: string, message: string): ApiError {
+    reply.code(status);
+    return { success: false, error: { code, message } };
+  }
+}
@@ -0,0 +1,87 @@
+/**
+ * Integrity Handlers
+ * Admin endpoints of the storage scrubber: its latest report, running a
+ * scrub now and quarantining the orphans it found
+ */
+
+import { FastifyRequest, FastifyReply } from 'fastify';
+import {
+  IntegrityReportNotFoundError,
+  ScrubInProgressError,
+  StorageIntegrityService
+} from '../services/StorageIntegrityService.js';
+import {
+  ApiError,
+  IntegrityReport,
+  QuarantineResult,
+  SuccessResponse
+} from '../shared/contracts/files.api.js';
+
+export class IntegrityHandlers {
+  constructor(private readonly integrityService: StorageIntegrityService) {}
+
+  /**
+   * The latest scrub report (running, completed or failed)
+   */
+  async getIntegrityReport(
+    _request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<SuccessResponse<IntegrityReport> | ApiError> {
+    try {
+      const report = await this.integrityService.getLatestReport();
+      if (!report) {
+        return this.error(reply, 404, 'INTEGRITY_REPORT_NOT_FOUND', 'Storage has not been scrubbed yet');
+      }
+      return { success: true, data: report };
+    } catch (error) {
+      return this.error(reply, 500, 'INTEGRITY_REPORT_FAILED',
+        error instanceof Error ? error.message : 'Failed to get the integrity report');
+    }
+  }
+
+  /**
+   * Start a scrub (202: it runs in the background; poll the report)
+   */
+  async startScrub(
+    _request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<SuccessResponse<IntegrityReport> | ApiError> {
+    try {
+      const report = await this.integrityService.startScrub();
+      reply.code(202);
+      return { success: true, data: report };
+    } catch (error) {
+      if (error instanceof ScrubInProgressError) {
+        return this.error(reply, 409, 'SCRUB_IN_PROGRESS', error.message);
+      }
+      return this.error(reply, 500, 'SCRUB_FAILED',
+        error instanceof Error ? error.message : 'Failed to start the scrub');
+    }
+  }
+
+  /**
+   * Move the orphans of the latest completed scrub aside
+   */
+  async quarantineOrphans(
+    _request: FastifyRequest,
+    reply: FastifyReply
+  ): Promise<SuccessResponse<QuarantineResult> | ApiError> {
+    try {
+      return { success: true, data: await this.integrityService.quarantineOrphans() };
+    } catch (error) {
+      if (error instanceof ScrubInProgressError) {
+        return this.error(reply, 409, 'SCRUB_IN_PROGRESS', error.message);
+      }
+      if (error instanceof IntegrityReportNotFoundError) {
+        return this.error(reply, 404, 'INTEGRITY_REPORT_NOT_FOUND', error.message);
+      }
+      return this.error(reply, 500, 'QUARANTINE_FAILED',
+        error instanceof Error ? error.message : 'Failed to quarantine orphans');
+    }
+  }
+
+  private error(reply: FastifyReply, status: number, code: string, message: string): ApiError {
+    reply.code(status);
+    return { success: false, error: { code, message } };
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Trash Handlers
+ * List a shoot's deleted files, restore them or purge them for good
+ */
+
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { FileService } from '../services/FileService.js';
+import { TrashService } from '../services/TrashService.js';
+import { ApiError, FileModel, SuccessResponse } from '../shared/contracts/files.api.js';
+
+export class TrashHandlers {
+  constructor(
+    private readonly fileService: FileService,
+    private readonly trashService: TrashService
+  ) {}
+
+  /**
+   * The shoot's files in the trash
+   */
+  async listTrash(
+    request: FastifyRequest<{ Querystring: { shootId?: string } }>,
+    reply: FastifyReply
+  ): Promise<SuccessResponse<FileModel[]> | ApiError> {
+    const { shootId } = request.query;
+    if (!shootId) {
+      return this.error(reply, 400, 'INVALID_QUERY', 'shootId is required');
+    }
+
+    try {
+      return { success: true, data: await this.trashService.listTrash(shootId) };
+    } catch (error) {
+      return this.error(reply, 500, 'LIST_FAILED',
+        error instanceof Error ? error.message : 'Failed to list the trash');
+    }
+  }
+
+  /**
+   * Take a file out of the trash
+   */
+  async restoreFile(
+    request: FastifyRequest<{ Params: { fileId: string } }>,
+    reply: FastifyReply
+  ): Promise<SuccessResponse<FileModel> | ApiError> {
+    try {
+      const file = await this.fileService.restoreFile(request.params.fileId);
+      if (!file) {
+        return this.error(reply, 404, 'FILE_NOT_IN_TRASH', 'File not found in the trash');
+      }
+      return { success: true, data: file };
+    } catch (error) {
+      return this.error(reply, 500, 'RESTORE_FAILED',
+        error instanceof Error ? error.message : 'Failed to restore file');
+    }
+  }
+
+  /**
+   * Delete a file in the trash for good, without waiting for the retention period
+   */
+  async purgeFile(
+    request: FastifyRequest<{ Params: { fileId: string } }>,
+    reply: FastifyReply
+  ): Promise<SuccessResponse<{ purged: boolean }> | ApiError> {
+    try {
+      if (!(await this.trashService.purgeFile(request.params.fileId))) {
+        return this.error(reply, 404, 'FILE_NOT_IN_TRASH', 'File not found in the trash');
+      }
+      return { success: true, data: { purged: true } };
+    } catch (error) {
+      return this.error(reply, 500, 'PURGE_FAILED',
+        error instanceof Error ? error.message : 'Failed to purge file');
+    }
+  }
+
+  private error(reply: FastifyReply, status: number, code: string, message: string): ApiError {
+    reply.code(status);
+    return { success: false, error: { code, message } };
+  }
+}
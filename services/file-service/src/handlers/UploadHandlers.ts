@@ -0,0 +1,226 @@
+/**
+ * Upload Handlers
+ * tus 1.0.0 resumable upload endpoints for large RAW and video files
+ */
+
+/* global NodeJS */
+
+import { FastifyRequest, FastifyReply } from 'fastify';
+import {
+  UploadService,
+  UploadResult,
+  UploadNotFoundError,
+  UploadOffsetMismatchError,
+  UploadBusyError,
+  UploadTooLargeError,
+  UploadChecksumMismatchError
+} from '../services/UploadService.js';
+import { ApiError } from '../shared/contracts/files.api.js';
+import {
+  TUS_VERSION,
+  TUS_EXTENSIONS,
+  TUS_CHECKSUM_ALGORITHMS,
+  TUS_CONTENT_TYPE,
+  parseUploadMetadata,
+  parseUploadChecksum
+} from '../shared/utils/tus.js';
+
+type UploadRequest = FastifyRequest<{ Params: { uploadId: string } }>;
+
+// tus status for a checksum mismatch (no standard HTTP code exists)
+const CHECKSUM_MISMATCH_STATUS = 460;
+
+export class UploadHandlers {
+  constructor(
+    private readonly uploadService: UploadService,
+    private readonly maxSize: number
+  ) {}
+
+  /**
+   * Advertise the supported tus version, extensions and limits
+   */
+  async getCapabilities(_request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    reply.code(204).headers({
+      'Tus-Resumable': TUS_VERSION,
+      'Tus-Version': TUS_VERSION,
+      'Tus-Extension': TUS_EXTENSIONS,
+      'Tus-Max-Size': this.maxSize.toString(),
+      'Tus-Checksum-Algorithm': TUS_CHECKSUM_ALGORITHMS.join(','),
+    }).send();
+  }
+
+  /**
+   * Create an upload (tus creation). Upload-Metadata carries filename,
+   * filetype, shootId, optional comma-separated tags and an optional
+   * whole-file checksum checked once the upload is complete.
+   */
+  async createUpload(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    if (!this.acceptsTusRequest(request, reply)) {
+      return;
+    }
+
+    const length = parseHeaderInteger(request.headers['upload-length']);
+    const metadata = parseUploadMetadata(headerValue(request.headers['upload-metadata']));
+    if (length === null) {
+      this.sendError(reply, 400, 'INVALID_UPLOAD_LENGTH', 'Upload-Length must be a non-negative integer');
+      return;
+    }
+    if (!metadata.filename || !metadata.shootId) {
+      this.sendError(reply, 400, 'INVALID_UPLOAD_METADATA', 'Upload-Metadata must include filename and shootId');
+      return;
+    }
+    if (metadata.checksum && !parseUploadChecksum(metadata.checksum)) {
+      this.sendError(reply, 400, 'INVALID_CHECKSUM', 'Unsupported checksum in Upload-Metadata');
+      return;
+    }
+
+    try {
+      const result = await this.uploadService.createUpload({
+        length,
+        filename: metadata.filename,
+        mimeType: metadata.filetype || 'application/octet-stream',
+        shootId: metadata.shootId,
+        tags: metadata.tags ? metadata.tags.split(',').map(tag => tag.trim()).filter(Boolean) : undefined,
+        checksum: metadata.checksum || undefined,
+      });
+
+      reply.header('Location', `/files/uploads/${result.upload.id}`);
+      this.sendUploadState(reply.code(201), result);
+    } catch (error) {
+      this.sendUploadError(reply, error, 'UPLOAD_CREATE_FAILED');
+    }
+  }
+
+  /**
+   * Report how much of an upload the server has (clients resume from here)
+   */
+  async getUploadOffset(request: UploadRequest, reply: FastifyReply): Promise<void> {
+    if (!this.acceptsTusRequest(request, reply)) {
+      return;
+    }
+
+    const upload = await this.uploadService.getUpload(request.params.uploadId);
+    if (!upload) {
+      reply.code(404).header('Cache-Control', 'no-store').send();
+      return;
+    }
+
+    reply.code(200).headers({
+      'Upload-Offset': upload.offset.toString(),
+      'Upload-Length': upload.length.toString(),
+      'Upload-Expires': new Date(upload.expiresAt).toUTCString(),
+      'Cache-Control': 'no-store',
+    }).send();
+  }
+
+  /**
+   * Append a chunk at Upload-Offset, verified against Upload-Checksum if
+   * given. The chunk completing the upload registers the file; its location
+   * is returned in Content-Location.
+   */
+  async appendChunk(request: UploadRequest, reply: FastifyReply): Promise<void> {
+    if (!this.acceptsTusRequest(request, reply)) {
+      return;
+    }
+
+    if (request.headers['content-type'] !== TUS_CONTENT_TYPE) {
+      this.sendError(reply, 415, 'INVALID_CONTENT_TYPE', `Content-Type must be ${TUS_CONTENT_TYPE}`);
+      return;
+    }
+    const offset = parseHeaderInteger(request.headers['upload-offset']);
+    if (offset === null) {
+      this.sendError(reply, 400, 'INVALID_UPLOAD_OFFSET', 'Upload-Offset must be a non-negative integer');
+      return;
+    }
+    const checksumHeader = headerValue(request.headers['upload-checksum']);
+    const checksum = checksumHeader ? parseUploadChecksum(checksumHeader) : undefined;
+    if (checksum === null) {
+      this.sendError(reply, 400, 'INVALID_CHECKSUM', 'Unsupported or malformed Upload-Checksum');
+      return;
+    }
+
+    try {
+      const result = await this.uploadService.appendChunk(
+        request.params.uploadId,
+        offset,
+        request.body as NodeJS.ReadableStream,
+        checksum
+      );
+      this.sendUploadState(reply.code(204), result);
+    } catch (error) {
+      this.sendUploadError(reply, error, 'UPLOAD_CHUNK_FAILED');
+    }
+  }
+
+  /**
+   * Abort an upload (tus termination)
+   */
+  async terminateUpload(request: UploadRequest, reply: FastifyReply): Promise<void> {
+    if (!this.acceptsTusRequest(request, reply)) {
+      return;
+    }
+
+    const terminated = await this.uploadService.terminateUpload(request.params.uploadId);
+    if (!terminated) {
+      this.sendError(reply, 404, 'UPLOAD_NOT_FOUND', 'Upload not found');
+      return;
+    }
+    reply.code(204).send();
+  }
+
+  // Every response carries Tus-Resumable; requests must name the version
+  // this server speaks
+  private acceptsTusRequest(request: FastifyRequest, reply: FastifyReply): boolean {
+    reply.header('Tus-Resumable', TUS_VERSION);
+    if (request.headers['tus-resumable'] === TUS_VERSION) {
+      return true;
+    }
+    reply.header('Tus-Version', TUS_VERSION);
+    this.sendError(reply, 412, 'UNSUPPORTED_TUS_VERSION', `Tus-Resumable must be ${TUS_VERSION}`);
+    return false;
+  }
+
+  private sendUploadState(reply: FastifyReply, result: UploadResult): void {
+    reply.headers({
+      'Upload-Offset': result.upload.offset.toString(),
+      'Upload-Expires': new Date(result.upload.expiresAt).toUTCString(),
+    });
+    if (result.file) {
+      reply.header('Content-Location', `/files/${result.file.id}`);
+    }
+    reply.send();
+  }
+
+  private sendUploadError(reply: FastifyReply, error: unknown, fallbackCode: string): void {
+    if (error instanceof UploadNotFoundError) {
+      this.sendError(reply, 404, 'UPLOAD_NOT_FOUND', error.message);
+    } else if (error instanceof UploadOffsetMismatchError) {
+      reply.header('Upload-Offset', error.expectedOffset.toString());
+      this.sendError(reply, 409, 'UPLOAD_OFFSET_MISMATCH', error.message);
+    } else if (error instanceof UploadBusyError) {
+      this.sendError(reply, 423, 'UPLOAD_LOCKED', error.message);
+    } else if (error instanceof UploadTooLargeError) {
+      this.sendError(reply, 413, 'UPLOAD_TOO_LARGE', error.message);
+    } else if (error instanceof UploadChecksumMismatchError) {
+      this.sendError(reply, CHECKSUM_MISMATCH_STATUS, 'CHECKSUM_MISMATCH', error.message);
+    } else {
+      // eslint-disable-next-line no-console
+      console.error('Upload error:', error);
+      this.sendError(reply, 500, fallbackCode, error instanceof Error ? error.message : 'Upload failed');
+    }
+  }
+
+  private sendError(reply: FastifyReply, statusCode: number, code: string, message: string): void {
+    const body: ApiError = { success: false, error: { code, message } };
+    reply.code(statusCode).send(body);
+  }
+}
+
+function headerValue(header: string | string[] | undefined): string | undefined {
+  return Array.isArray(header) ? header[0] : header;
+}
+
+function parseHeaderInteger(header: string | string[] | undefined): number | null {
+  const value = headerValue(header);
+  return value !== undefined && /^\d+$/.test(value) ? Number(value) : null;
+}
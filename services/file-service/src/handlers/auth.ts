@@ -0,0 +1,81 @@
+/**
+ * Who may have what: the routes handing out downloads take the access token
+ * invitation-service issued (`Authorization: Bearer`, verified by the shared
+ * auth preHandler). The token opens the shoot it was issued for, and its role
+ * decides whether originals and archives are among it. Signed links carry the
+ * role they were issued for. Trash and storage administration are the
+ * photographer's alone.
+ */
+
+import { FastifyReply, FastifyRequest } from 'fastify';
+import { ROLE_PERMISSIONS, RolePermissions } from '@tempsdarret/shared/auth';
+import type { JWTPayload } from '@tempsdarret/shared/schemas/invite.schema';
+import { ApiError, FileModel } from '../shared/contracts/files.api.js';
+
+export type DownloadPermission = keyof Pick<RolePermissions, 'downloadOriginals' | 'downloadArchives'>;
+
+const DENIALS: Record<DownloadPermission, ApiError['error']> = {
+  downloadOriginals: { code: 'ORIGINALS_NOT_PERMITTED', message: 'Originals are not available to this user' },
+  downloadArchives: { code: 'ARCHIVES_NOT_PERMITTED', message: 'Archives are not available to this user' },
+};
+
+/**
+ * Whether a role, as named by a token or a signed link, grants the permission
+ */
+export function roleAllows(role: string | undefined, permission: DownloadPermission): boolean {
+  return role !== undefined && Object.hasOwn(ROLE_PERMISSIONS, role) &&
+    ROLE_PERMISSIONS[role as JWTPayload['role']][permission];
+}
+
+/**
+ * Whether the token opens the shoot: clients and guests only the one they were
+ * invited to, the photographer every shoot
+ */
+export function canAccessShoot(user: JWTPayload, shootId: string): boolean {
+  return user.role === 'photographer' || user.shootId === shootId;
+}
+
+// Body of the 403 answered when the token is for another shoot
+export const SHOOT_ACCESS_DENIED: ApiError = {
+  success: false,
+  error: { code: 'SHOOT_ACCESS_DENIED', message: 'This shoot is not available to this user' },
+};
+
+/**
+ * Whether the role may have the file at all: sidecars and editor project files
+ * (`photographerOnly`) stay with the photographer
+ */
+export function roleMayHave(role: string | undefined, file: Pick<FileModel, 'photographerOnly'>): boolean {
+  return file.photographerOnly !== true || role === 'photographer';
+}
+
+// Body of the 403 answered for photographer-only files
+export const PHOTOGRAPHER_ONLY_FILE: ApiError = {
+  success: false,
+  error: { code: 'PHOTOGRAPHER_ONLY_FILE', message: 'This file is only available to the photographer' },
+};
+
+// Body of the 403 answered when the role lacks the permission
+export function permissionDenied(permission: DownloadPermission): ApiError {
+  return { success: false, error: DENIALS[permission] };
+}
+
+// Body of the 403 answered on routes kept for the photographer
+export const PHOTOGRAPHER_REQUIRED: ApiError = {
+  success: false,
+  error: { code: 'PHOTOGRAPHER_REQUIRED', message: 'Only the photographer may do this' },
+};
+
+/**
+ * preHandler keeping a route to the photographer; runs after the auth
+ * preHandler has set `request.user`
+ */
+export async function requirePhotographer(
+  request: FastifyRequest,
+  reply: FastifyReply
+): Promise<FastifyReply | undefined> {
+  if (request.user?.role !== 'photographer') {
+    return reply.code(403).send(PHOTOGRAPHER_REQUIRED);
+  }
+  return undefined;
+}
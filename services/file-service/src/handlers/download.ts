@@ -0,0 +1,108 @@
+/**
+ * Download responses implementing ADR-026: Content-Length for browser
+ * progress bars and byte ranges for resumable downloads
+ */
+
+/* global NodeJS */
+
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { DownloadUrlExpiredError, InvalidDownloadUrlError } from '../services/DownloadUrlService.js';
+
+export interface DownloadBody {
+  size: number;
+  mimeType: string;
+  filename: string;
+  etag?: string; // Lets clients check a resumed download continues the same bytes
+}
+
+export interface ByteRange {
+  start: number;
+  end: number; // Inclusive
+}
+
+export type OpenDownloadStream = (range: ByteRange) => Promise<NodeJS.ReadableStream>;
+
+/**
+ * Read a Range header (RFC 7233) against a body of `size` bytes. Null when
+ * there is none or it is not understood, including several ranges at once:
+ * the whole body is sent. 'unsatisfiable' when the range starts past the end.
+ */
+function parseRange(header: string | undefined, size: number): ByteRange | 'unsatisfiable' | null {
+  const match = header ? /^bytes=(\d*)-(\d*)$/i.exec(header.trim()) : null;
+  if (!match || (!match[1] && !match[2])) {
+    return null;
+  }
+
+  const [, first, last] = match;
+  if (!first) {
+    // Suffix range: the last N bytes
+    const suffix = Number(last);
+    return suffix > 0 && size > 0 ? { start: Math.max(size - suffix, 0), end: size - 1 } : 'unsatisfiable';
+  }
+
+  const start = Number(first);
+  if (last && Number(last) < start) {
+    return null;
+  }
+  if (start >= size) {
+    return 'unsatisfiable';
+  }
+  return { start, end: last ? Math.min(Number(last), size - 1) : size - 1 };
+}
+
+/**
+ * Send a download, honouring a Range header with 206 and Content-Range
+ */
+export async function sendDownload(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  body: DownloadBody,
+  openStream: OpenDownloadStream
+): Promise<void> {
+  // Handle range requests for resumable downloads
+  const range = parseRange(request.headers.range, body.size);
+  if (range === 'unsatisfiable') {
+    reply.code(416).header('Content-Range', `bytes */${body.size}`).send();
+    return;
+  }
+  const { start, end } = range ?? { start: 0, end: body.size - 1 };
+
+  // Opened before any header is set, so a failure can still be answered with an error
+  const stream = await openStream({ start, end });
+
+  if (range) {
+    reply.code(206);
+    reply.header('Content-Range', `bytes ${start}-${end}/${body.size}`);
+    reply.header('Content-Length', (end - start + 1).toString());
+  } else {
+    // ✅ CRITICAL: Always include Content-Length for progress indication (ADR-026)
+    reply.code(200);
+    reply.header('Content-Length', body.size.toString());
+  }
+
+  // Set required headers per ADR-026
+  reply.header('Content-Type', body.mimeType || 'application/octet-stream');
+  reply.header('Content-Disposition', `attachment; filename="${body.filename}"`);
+  reply.header('Accept-Ranges', 'bytes'); // Enable resume capability
+  reply.header('Cache-Control', 'private, max-age=0'); // Prevent caching large files
+  if (body.etag) {
+    reply.header('ETag', body.etag);
+  }
+
+  reply.send(stream);
+}
+
+/**
+ * Answer a rejected download link with 403; false for any other error
+ */
+export function sendDownloadUrlError(reply: FastifyReply, error: unknown): boolean {
+  if (error instanceof InvalidDownloadUrlError) {
+    reply.code(403).send({ success: false, error: { code: 'INVALID_DOWNLOAD_URL', message: error.message } });
+    return true;
+  }
+  if (error instanceof DownloadUrlExpiredError) {
+    reply.code(403).send({ success: false, error: { code: 'DOWNLOAD_URL_EXPIRED', message: error.message } });
+    return true;
+  }
+  return false;
+}
@@ -0,0 +1,104 @@
+/**
+ * File Service Routes
+ * Unauthenticated routes are reached through the gateway or by signed links;
+ * the scoped ones take the caller's access token (`Authorization: Bearer`).
+ */
+
+import { FastifyInstance } from 'fastify';
+import { createAuthPreHandler, getJwtConfig } from '@tempsdarret/shared/auth';
+import { FileHandlers } from './FileHandlers.js';
+import { UploadHandlers } from './UploadHandlers.js';
+import { DownloadUrlHandlers } from './DownloadUrlHandlers.js';
+import { ArchiveProgressHandlers } from './ArchiveProgressHandlers.js';
+import { IntegrityHandlers } from './IntegrityHandlers.js';
+import { TrashHandlers } from './TrashHandlers.js';
+import { CaptureTimeHandlers } from './CaptureTimeHandlers.js';
+import { requirePhotographer } from './auth.js';
+
+export async function registerFileRoutes(
+  fastify: FastifyInstance,
+  handlers: FileHandlers,
+  uploadHandlers: UploadHandlers
+): Promise<void> {
+  // File operations
+  fastify.post('/files', handlers.uploadFile.bind(handlers));
+  fastify.get('/files', handlers.listFiles.bind(handlers));
+  fastify.get('/files/:fileId', handlers.getFile.bind(handlers));
+  fastify.get('/files/:fileId/sidecars', handlers.getFileWithSidecars.bind(handlers));
+  fastify.get('/files/:fileId/download', handlers.downloadFile.bind(handlers));
+  fastify.post('/files/:fileId/reprocess', handlers.reprocessFile.bind(handlers));
+  fastify.delete('/files/:fileId', handlers.deleteFile.bind(handlers));
+
+  // Resumable uploads (tus)
+  fastify.options('/files/uploads', uploadHandlers.getCapabilities.bind(uploadHandlers));
+  fastify.post('/files/uploads', uploadHandlers.createUpload.bind(uploadHandlers));
+  fastify.head('/files/uploads/:uploadId', uploadHandlers.getUploadOffset.bind(uploadHandlers));
+  fastify.patch('/files/uploads/:uploadId', uploadHandlers.appendChunk.bind(uploadHandlers));
+  fastify.delete('/files/uploads/:uploadId', uploadHandlers.terminateUpload.bind(uploadHandlers));
+
+  // Archive operations
+  fastify.get('/files/archives/:archiveId/download', handlers.downloadArchive.bind(handlers));
+
+  // Health check
+  fastify.get('/health', async () => ({
+    status: 'healthy',
+    service: 'file-service',
+    timestamp: new Date().toISOString(),
+  }));
+}
+
+// Routes handing out downloads and archives; authenticated by the caller's
+// access token, whose role decides what it may have
+export async function registerDownloadGrantRoutes(
+  fastify: FastifyInstance,
+  handlers: FileHandlers,
+  downloadUrlHandlers: DownloadUrlHandlers,
+  progressHandlers: ArchiveProgressHandlers
+): Promise<void> {
+  await fastify.register(async (grants) => {
+    grants.addHook('preHandler', createAuthPreHandler(getJwtConfig().key));
+
+    grants.post('/files/:fileId/download-url', downloadUrlHandlers.issueFileDownloadUrl.bind(downloadUrlHandlers));
+    grants.post('/files/download-urls', downloadUrlHandlers.issueFileDownloadUrls.bind(downloadUrlHandlers));
+    grants.post('/files/archives', handlers.createArchive.bind(handlers));
+    grants.get('/files/archives/:archiveId', handlers.getArchive.bind(handlers));
+    grants.get('/files/archives/:archiveId/progress', progressHandlers.streamArchiveProgress.bind(progressHandlers));
+    grants.post(
+      '/files/archives/:archiveId/download-url',
+      downloadUrlHandlers.issueArchiveDownloadUrl.bind(downloadUrlHandlers)
+    );
+  });
+}
+
+// Camera clock offsets, for ordering a shoot's photos by capture time
+export async function registerCaptureTimeRoutes(
+  fastify: FastifyInstance,
+  captureTimeHandlers: CaptureTimeHandlers
+): Promise<void> {
+  fastify.get('/files/clock-offsets', captureTimeHandlers.listClockOffsets.bind(captureTimeHandlers));
+  fastify.put('/files/clock-offsets', captureTimeHandlers.setClockOffset.bind(captureTimeHandlers));
+}
+
+// Deleted files wait in the trash until the photographer restores or purges them
+export async function registerTrashRoutes(fastify: FastifyInstance, trashHandlers: TrashHandlers): Promise<void> {
+  await fastify.register(async (trash) => {
+    trash.addHook('preHandler', createAuthPreHandler(getJwtConfig().key));
+    trash.addHook('preHandler', requirePhotographer);
+
+    trash.get('/files/trash', trashHandlers.listTrash.bind(trashHandlers));
+    trash.post('/files/trash/:fileId/restore', trashHandlers.restoreFile.bind(trashHandlers));
+    trash.delete('/files/trash/:fileId', trashHandlers.purgeFile.bind(trashHandlers));
+  });
+}
+
+// Storage administration, for the photographer
+export async function registerAdminRoutes(fastify: FastifyInstance, integrityHandlers: IntegrityHandlers): Promise<void> {
+  await fastify.register(async (admin) => {
+    admin.addHook('preHandler', createAuthPreHandler(getJwtConfig().key));
+    admin.addHook('preHandler', requirePhotographer);
+
+    admin.get('/files/admin/integrity', integrityHandlers.getIntegrityReport.bind(integrityHandlers));
+    admin.post('/files/admin/integrity/scrub', integrityHandlers.startScrub.bind(integrityHandlers));
+    admin.post('/files/admin/integrity/quarantine', integrityHandlers.quarantineOrphans.bind(integrityHandlers));
+  });
+}
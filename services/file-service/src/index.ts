@@ -5,10 +5,27 @@
 
 export * from './services/FileService.js';
 export * from './services/StorageService.js';
+export * from './services/StorageTieringService.js';
+export * from './services/StorageIntegrityService.js';
+export * from './services/TrashService.js';
+export * from './services/CaptureTimeService.js';
+export * from './services/storage/StorageDriver.js';
+export * from './services/storage/FilesystemStorageDriver.js';
+export * from './services/storage/S3StorageDriver.js';
 export * from './services/ProcessingService.js';
-export { ArchiveService, ArchiveConfig } from './services/ArchiveService.js';
+export * from './services/ProcessingQueue.js';
+export * from './services/UploadService.js';
+export * from './services/WatermarkService.js';
+export * from './services/DownloadUrlService.js';
+export { ArchiveService, ArchiveConfig, ArchiveContentChangedError } from './services/ArchiveService.js';
 export * from './services/EventEmitter.js';
 export * from './handlers/FileHandlers.js';
+export * from './handlers/UploadHandlers.js';
+export * from './handlers/DownloadUrlHandlers.js';
+export * from './handlers/ArchiveProgressHandlers.js';
+export * from './handlers/IntegrityHandlers.js';
+export * from './handlers/TrashHandlers.js';
+export * from './handlers/CaptureTimeHandlers.js';
 export * from './shared/contracts/files.api.js';
 export * from './shared/contracts/files.dto.js';
 export * from './shared/contracts/files.events.js';
@@ -6,25 +6,64 @@
 import { fileURLToPath } from 'node:url';
 import { FastifyInstance } from 'fastify';
 import mongoose from 'mongoose';
+import { Kafka } from 'kafkajs';
 import { config } from './config/index.js';
 import { createServer } from './server.js';
 import { FileHandlers } from './handlers/FileHandlers.js';
+import { UploadHandlers } from './handlers/UploadHandlers.js';
+import { DownloadUrlHandlers } from './handlers/DownloadUrlHandlers.js';
+import { ArchiveProgressHandlers } from './handlers/ArchiveProgressHandlers.js';
+import { IntegrityHandlers } from './handlers/IntegrityHandlers.js';
+import { TrashHandlers } from './handlers/TrashHandlers.js';
+import { CaptureTimeHandlers } from './handlers/CaptureTimeHandlers.js';
+import {
+  registerAdminRoutes,
+  registerCaptureTimeRoutes,
+  registerDownloadGrantRoutes,
+  registerFileRoutes,
+  registerTrashRoutes
+} from './handlers/file.routes.js';
 import { FileService } from './services/FileService.js';
 import { StorageService } from './services/StorageService.js';
 import { ProcessingService } from './services/ProcessingService.js';
+import { ProcessingQueue } from './services/ProcessingQueue.js';
+import { UploadService } from './services/UploadService.js';
+import { WatermarkService } from './services/WatermarkService.js';
+import { DownloadUrlService } from './services/DownloadUrlService.js';
 import { ArchiveService } from './services/ArchiveService.js';
-import { EventEmitter } from './services/EventEmitter.js';
+import { EventEmitter, EventProducer } from './services/EventEmitter.js';
+import { KafkaEventProducer } from './services/KafkaEventProducer.js';
+import { ShootCleanupService } from './services/ShootCleanupService.js';
+import { TrashService } from './services/TrashService.js';
+import { CaptureTimeService } from './services/CaptureTimeService.js';
+import { StorageTieringService } from './services/StorageTieringService.js';
+import { StorageIntegrityService } from './services/StorageIntegrityService.js';
+import { StorageDriver } from './services/storage/StorageDriver.js';
+import { FilesystemStorageDriver } from './services/storage/FilesystemStorageDriver.js';
+import { S3StorageDriver } from './services/storage/S3StorageDriver.js';
+import { PortfolioServiceClient } from './shared/clients/portfolio-service.client.js';
+import { SHOOT_CLEANUP_EVENT_TYPES } from './shared/contracts/files.events.js';
 import { 
   fileSchema, 
   archiveSchema, 
   chunkSchema,
+  processingJobSchema,
+  resumableUploadSchema,
+  blobSchema,
+  integrityReportSchema,
+  clockOffsetSchema,
   FileDocument,
   ArchiveDocument,
-  ChunkDocument 
+  ChunkDocument,
+  ProcessingJobDocument,
+  ResumableUploadDocument,
+  BlobDocument,
+  IntegrityReportDocument,
+  ClockOffsetDocument
 } from './shared/contracts/files.mongoose.js';
 
-// Mock Kafka producer - replace with actual implementation
-class MockEventProducer {
+// Logs events instead of publishing them; used when no broker is available
+class MockEventProducer implements EventProducer {
   async publish(
     topic: string,
     key: string,
@@ -36,10 +75,32 @@ class MockEventProducer {
   }
 }
 
+// The deployment's cold tier, if it has one
+function createColdStorageDriver(): StorageDriver | undefined {
+  switch (config.coldStorage.driver) {
+    case 'filesystem':
+      return new FilesystemStorageDriver(config.coldStorage.basePath);
+    case 's3':
+      return new S3StorageDriver(config.coldStorage.s3);
+    default:
+      return undefined;
+  }
+}
+
+// Models are registered once per process; building the app again reuses them
+function registerModel<T>(name: string, schema: mongoose.Schema<T>): mongoose.Model<T> {
+  return (mongoose.models[name] as mongoose.Model<T> | undefined) ?? mongoose.model<T>(name, schema);
+}
+
 async function connectDatabase(): Promise<{
   fileModel: mongoose.Model<FileDocument>;
   archiveModel: mongoose.Model<ArchiveDocument>;
   chunkModel: mongoose.Model<ChunkDocument>;
+  processingJobModel: mongoose.Model<ProcessingJobDocument>;
+  uploadModel: mongoose.Model<ResumableUploadDocument>;
+  blobModel: mongoose.Model<BlobDocument>;
+  integrityReportModel: mongoose.Model<IntegrityReportDocument>;
+  clockOffsetModel: mongoose.Model<ClockOffsetDocument>;
 }> {
   // Reuse an existing mongoose connection when one is already open (e.g. tests
   // that manage their own in-memory Mongo); at service startup readyState is 0.
@@ -49,48 +110,71 @@ async function connectDatabase(): Promise<{
     console.log('Connected to MongoDB');
   }
 
-  const fileModel =
-    (mongoose.models.File as mongoose.Model<FileDocument>) ??
-    mongoose.model<FileDocument>('File', fileSchema);
-  const archiveModel =
-    (mongoose.models.Archive as mongoose.Model<ArchiveDocument>) ??
-    mongoose.model<ArchiveDocument>('Archive', archiveSchema);
-  const chunkModel =
-    (mongoose.models.Chunk as mongoose.Model<ChunkDocument>) ??
-    mongoose.model<ChunkDocument>('Chunk', chunkSchema);
-
-  return { fileModel, archiveModel, chunkModel };
+  return {
+    fileModel: registerModel<FileDocument>('File', fileSchema),
+    archiveModel: registerModel<ArchiveDocument>('Archive', archiveSchema),
+    chunkModel: registerModel<ChunkDocument>('Chunk', chunkSchema),
+    processingJobModel: registerModel<ProcessingJobDocument>('ProcessingJob', processingJobSchema),
+    uploadModel: registerModel<ResumableUploadDocument>('ResumableUpload', resumableUploadSchema),
+    blobModel: registerModel<BlobDocument>('Blob', blobSchema),
+    integrityReportModel: registerModel<IntegrityReportDocument>('IntegrityReport', integrityReportSchema),
+    clockOffsetModel: registerModel<ClockOffsetDocument>('ClockOffset', clockOffsetSchema),
+  };
 }
 
-async function setupServices(models: {
-  fileModel: mongoose.Model<FileDocument>;
-  archiveModel: mongoose.Model<ArchiveDocument>;
-  chunkModel: mongoose.Model<ChunkDocument>;
-}): Promise<{
+async function setupServices(
+  models: Awaited<ReturnType<typeof connectDatabase>>,
+  eventProducer: EventProducer
+): Promise<{
   fileService: FileService;
+  processingQueue: ProcessingQueue;
+  uploadService: UploadService;
+  watermarkService: WatermarkService;
+  downloadUrlService: DownloadUrlService;
   archiveService: ArchiveService;
   storageService: StorageService;
   processingService: ProcessingService;
+  shootCleanupService: ShootCleanupService;
+  trashService: TrashService;
+  captureTimeService: CaptureTimeService;
+  storageTieringService: StorageTieringService;
+  storageIntegrityService: StorageIntegrityService;
   eventEmitter: EventEmitter;
 }> {
   // Initialize services
-  const eventProducer = new MockEventProducer();
   const eventEmitter = new EventEmitter(eventProducer);
   
-  const storageService = new StorageService(config.storage, models.chunkModel);
-  const processingService = new ProcessingService(config.processing);
-  const fileService = new FileService(
-    models.fileModel,
-    storageService,
-    processingService,
-    eventEmitter
+  const storageService = new StorageService(
+    config.storage,
+    models.chunkModel,
+    models.blobModel,
+    createColdStorageDriver()
+  );
+  const processingService = new ProcessingService(config.processing, config.storage.basePath);
+  const processingQueue = new ProcessingQueue(models.processingJobModel, config.processingQueue);
+  const trashService = new TrashService(models.fileModel, storageService, processingQueue, config.trash);
+  const fileService = new FileService(models.fileModel, storageService, processingService, eventEmitter, processingQueue);
+  const uploadService = new UploadService(models.uploadModel, storageService, fileService, config.uploads);
+  const watermarkService = new WatermarkService(
+    fileService,
+    new PortfolioServiceClient(config.portfolioServiceUrl),
+    config.storage.basePath
   );
+  const downloadUrlService = new DownloadUrlService(config.downloads);
   
   const archiveService = new ArchiveService(
     models.archiveModel,
     fileService,
     eventEmitter,
-    config.archive
+    { ...config.archive, storageBasePath: config.storage.basePath },
+    downloadUrlService
+  );
+
+  const captureTimeService = new CaptureTimeService(models.fileModel, models.clockOffsetModel);
+  const shootCleanupService = new ShootCleanupService(fileService, trashService, archiveService, eventEmitter);
+  const storageTieringService = new StorageTieringService(models.fileModel, storageService, config.coldStorage);
+  const storageIntegrityService = new StorageIntegrityService(
+    models.fileModel, models.blobModel, models.integrityReportModel, storageService, config.integrity
   );
 
   // Ensure storage directories exist
@@ -98,40 +182,29 @@ async function setupServices(models: {
 
   return {
     fileService,
+    processingQueue,
+    uploadService,
+    watermarkService,
+    downloadUrlService,
     archiveService,
     storageService,
     processingService,
+    shootCleanupService,
+    trashService,
+    captureTimeService,
+    storageTieringService,
+    storageIntegrityService,
     eventEmitter,
   };
 }
 
-async function setupRoutes(
-  fastify: FastifyInstance,
-  handlers: FileHandlers
-): Promise<void> {
-  // File operations
-  fastify.post('/files', handlers.uploadFile.bind(handlers));
-  fastify.get('/files', handlers.listFiles.bind(handlers));
-  fastify.get('/files/:fileId', handlers.getFile.bind(handlers));
-  fastify.get('/files/:fileId/download', handlers.downloadFile.bind(handlers));
-  fastify.delete('/files/:fileId', handlers.deleteFile.bind(handlers));
-
-  // Archive operations
-  fastify.post('/files/archives', handlers.createArchive.bind(handlers));
-  fastify.get('/files/archives/:archiveId', handlers.getArchive.bind(handlers));
-  fastify.get('/files/archives/:archiveId/download', handlers.downloadArchive.bind(handlers));
-
-  // Health check
-  fastify.get('/health', async () => ({
-    status: 'healthy',
-    service: 'file-service',
-    timestamp: new Date().toISOString(),
-  }));
-}
-
 async function setupCleanupTasks(services: {
+  trashService: TrashService;
   storageService: StorageService;
+  uploadService: UploadService;
   archiveService: ArchiveService;
+  storageTieringService: StorageTieringService;
+  storageIntegrityService: StorageIntegrityService;
 }): Promise<void> {
   // Cleanup expired chunks every hour (ADR-027)
   setInterval(async () => {
@@ -147,6 +220,34 @@ async function setupCleanupTasks(services: {
     }
   }, 60 * 60 * 1000); // 1 hour
 
+  // Cleanup expired resumable uploads every hour
+  setInterval(async () => {
+    try {
+      const cleanedUploads = await services.uploadService.cleanupExpiredUploads();
+      if (cleanedUploads > 0) {
+        // eslint-disable-next-line no-console
+        console.log(`Cleaned up ${cleanedUploads} expired uploads`);
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Upload cleanup failed:', error);
+    }
+  }, 60 * 60 * 1000); // 1 hour
+
+  // Purge files kept in the trash past the retention period every hour
+  setInterval(async () => {
+    try {
+      const purgedFiles = await services.trashService.purgeExpiredTrash();
+      if (purgedFiles > 0) {
+        // eslint-disable-next-line no-console
+        console.log(`Purged ${purgedFiles} files from the trash`);
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Trash purge failed:', error);
+    }
+  }, 60 * 60 * 1000); // 1 hour
+
   // Cleanup expired archives every 6 hours
   setInterval(async () => {
     try {
@@ -160,6 +261,34 @@ async function setupCleanupTasks(services: {
       console.error('Archive cleanup failed:', error);
     }
   }, 6 * 60 * 60 * 1000); // 6 hours
+
+  // Move older shoots to the cold tier once a day
+  setInterval(async () => {
+    try {
+      const tiered = await services.storageTieringService.tierOldShoots();
+      if (tiered.files > 0) {
+        // eslint-disable-next-line no-console
+        console.log(`Moved ${tiered.files} files of ${tiered.shoots} shoots to cold storage`);
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Storage tiering failed:', error);
+    }
+  }, 24 * 60 * 60 * 1000); // 24 hours
+
+  // Scrub storage against the file records (see the admin integrity endpoints)
+  setInterval(async () => {
+    try {
+      const report = await services.storageIntegrityService.runScrub();
+      if (report.issueCount > 0 || report.orphanCount > 0) {
+        // eslint-disable-next-line no-console
+        console.warn(`Storage scrub ${report.id}: ${report.issueCount} damaged files, ${report.orphanCount} orphans`);
+      }
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Storage scrub failed:', error);
+    }
+  }, config.integrity.scrubIntervalHours * 60 * 60 * 1000);
 }
 
 /**
@@ -167,30 +296,103 @@ async function setupCleanupTasks(services: {
  * routes mounted) without starting the HTTP listener or the periodic cleanup
  * intervals. Importable by component tests so the real routes can be exercised
  * via `inject()` against an in-memory Mongo + temp storage dirs. The Kafka
- * producer is the in-process `MockEventProducer`, so no broker is needed.
+ * producer defaults to the in-process `MockEventProducer`, so no broker is
+ * needed.
  */
-export async function buildApp(): Promise<{
+export async function buildApp(
+  eventProducer: EventProducer = new MockEventProducer()
+): Promise<{
   app: FastifyInstance;
   services: Awaited<ReturnType<typeof setupServices>>;
 }> {
   const models = await connectDatabase();
-  const services = await setupServices(models);
-  const handlers = new FileHandlers(services.fileService, services.archiveService);
+  const services = await setupServices(models, eventProducer);
+  const handlers = new FileHandlers(
+    services.fileService,
+    services.archiveService,
+    services.watermarkService,
+    services.downloadUrlService
+  );
+  const uploadHandlers = new UploadHandlers(services.uploadService, config.uploads.maxSize);
+  const downloadUrlHandlers = new DownloadUrlHandlers(
+    services.fileService,
+    services.archiveService,
+    services.downloadUrlService
+  );
+  const progressHandlers = new ArchiveProgressHandlers(services.archiveService, services.downloadUrlService);
   const app = await createServer();
-  await setupRoutes(app, handlers);
+  await registerFileRoutes(app, handlers, uploadHandlers);
+  await registerDownloadGrantRoutes(app, handlers, downloadUrlHandlers, progressHandlers);
+  await registerTrashRoutes(app, new TrashHandlers(services.fileService, services.trashService));
+  await registerCaptureTimeRoutes(app, new CaptureTimeHandlers(services.captureTimeService));
+  await registerAdminRoutes(app, new IntegrityHandlers(services.storageIntegrityService));
   return { app, services };
 }
 
+/**
+ * Consume shoot.deleted (shoot deletion saga): drop the shoot's files and
+ * archives and report back to shoot-service.
+ */
+async function startShootEventsConsumer(
+  kafka: Kafka,
+  shootCleanupService: ShootCleanupService
+): Promise<void> {
+  const consumer = kafka.consumer({ groupId: 'file-service' });
+  await consumer.connect();
+  await consumer.subscribe({ topics: ['shoots'], fromBeginning: false });
+  await consumer.run({
+    eachMessage: async ({ message }) => {
+      if (!message.value) {
+        return;
+      }
+
+      let event: { eventType?: string; data?: { shootId?: string } };
+      try {
+        event = JSON.parse(message.value.toString()) as typeof event;
+      } catch (error) {
+        // A message that is not JSON can never be handled; skip it rather than retry it forever
+        // eslint-disable-next-line no-console
+        console.error(`Skipping unparseable shoots message at offset ${message.offset}:`, error);
+        return;
+      }
+      if (event.eventType === SHOOT_CLEANUP_EVENT_TYPES.SHOOT_DELETED && event.data?.shootId) {
+        await shootCleanupService.handleShootDeleted(event.data.shootId);
+      }
+    },
+  });
+}
+
+// Set once the processing workers run, so shutdown lets running jobs finish
+let stopProcessingQueue: (() => Promise<void>) | undefined;
+
 async function main(): Promise<void> {
   try {
     // eslint-disable-next-line no-console
     console.log('Starting File Service...');
 
-    const { app: fastify, services } = await buildApp();
+    const kafka = new Kafka({ clientId: 'file-service', brokers: config.kafkaUrl.split(',') });
+    const eventProducer = new KafkaEventProducer(kafka);
+    await eventProducer.connect();
+
+    const { app: fastify, services } = await buildApp(eventProducer);
 
     // Setup cleanup tasks
     setupCleanupTasks(services);
 
+    // Start processing workers (jobs left over from a previous run resume too);
+    // the capture time follows from the extracted EXIF
+    services.processingQueue.start(
+      async job => {
+        await services.fileService.processQueuedFile(job);
+        await services.captureTimeService.syncFile(job.fileId);
+      },
+      // A job abandoned on its last attempt fails its file's processing too
+      job => services.fileService.updateProcessingStatus(job.fileId, 'failed', { error: job.lastError })
+    );
+    stopProcessingQueue = (): Promise<void> => services.processingQueue.stop();
+
+    await startShootEventsConsumer(kafka, services.shootCleanupService);
+
     // Start server
     await fastify.listen({
       port: config.port,
@@ -204,6 +406,8 @@ async function main(): Promise<void> {
     // eslint-disable-next-line no-console
     console.log(`- Storage: ${config.storage.basePath}`);
     // eslint-disable-next-line no-console
+    console.log(`- Cold storage: ${config.coldStorage.driver ?? 'none'}`);
+    // eslint-disable-next-line no-console
     console.log(`- Large file threshold: ${config.storage.largeFileThreshold} bytes`);
     // eslint-disable-next-line no-console
     console.log(`- Chunk TTL: ${config.storage.chunkTTLHours} hours`);
@@ -221,6 +425,7 @@ async function main(): Promise<void> {
 process.on('SIGINT', async () => {
   // eslint-disable-next-line no-console
   console.log('Shutting down File Service...');
+  await stopProcessingQueue?.();
   await mongoose.disconnect();
   process.exit(0);
 });
@@ -228,6 +433,7 @@ process.on('SIGINT', async () => {
 process.on('SIGTERM', async () => {
   // eslint-disable-next-line no-console
   console.log('Shutting down File Service...');
+  await stopProcessingQueue?.();
   await mongoose.disconnect();
   process.exit(0);
 });
@@ -25,5 +25,10 @@ export async function createServer(): Promise<FastifyInstance> {
     },
   });
 
+  // tus upload chunks are streamed to storage as they arrive, never buffered
+  fastify.addContentTypeParser('application/offset+octet-stream', (_request, payload, done) => {
+    done(null, payload);
+  });
+
   return fastify;
 }
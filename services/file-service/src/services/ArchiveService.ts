@@ -9,11 +9,15 @@ import archiver from 'archiver';
 import { createWriteStream, createReadStream } from 'fs';
 import fs from 'fs/promises';
 import path from 'path';
+import { Readable } from 'stream';
 import { Model } from 'mongoose';
 import { FileService } from './FileService.js';
 import { EventEmitter } from './EventEmitter.js';
+import { DownloadUrlService, LinkHolder } from './DownloadUrlService.js';
+import { ArchiveStreamer } from './ArchiveStreamer.js';
 import {
   ArchiveModel,
+  ArchiveProgress,
   ArchiveType,
   ProcessingStatus,
   FileModel
@@ -28,48 +32,66 @@ export interface CreateArchiveRequest {
   shootId: string;
   type: ArchiveType;
   fileIds?: string[];
+  requestedBy?: LinkHolder;
+  streaming?: boolean;
+  notifyEmail?: string;
 }
 
 export interface ArchiveConfig {
   basePath: string;
+  storageBasePath: string; // Where the archived files are (StorageService)
   maxArchiveSize: number; // Max size in bytes
   defaultExpirationDays: number;
   compressionLevel: number;
 }
 
+// Progress is saved at most this often while an archive is built
+const PROGRESS_INTERVAL_MS = 1000;
+
+export class ArchiveContentChangedError extends Error {
+  constructor(message = 'Files of this archive have changed since it was created') {
+    super(message);
+    this.name = 'ArchiveContentChangedError';
+  }
+}
+
+export class FilesOutsideShootError extends Error {
+  constructor(message = 'Archives can only hold files of their shoot') {
+    super(message);
+    this.name = 'FilesOutsideShootError';
+  }
+}
+
 export class ArchiveService {
+  private readonly streamer: ArchiveStreamer;
+
   constructor(
     private readonly archiveModel: Model<ArchiveDocument>,
     private readonly fileService: FileService,
     private readonly eventEmitter: EventEmitter,
-    private readonly config: ArchiveConfig
-  ) {}
+    private readonly config: ArchiveConfig,
+    private readonly downloadUrls: DownloadUrlService
+  ) {
+    this.streamer = new ArchiveStreamer(fileService, config.storageBasePath);
+  }
 
   /**
    * Create a new archive
    */
   async createArchive(request: CreateArchiveRequest): Promise<ArchiveModel> {
     const archiveId = generateId();
-    
-    // Get files to include in archive
-    let files = request.fileIds 
-      ? await this.fileService.getFilesByIds(request.fileIds)
-      : await this.fileService.getFilesByShootId(request.shootId);
-
-    // Filter files by archive type
-    files = this.filterFilesByType(files, request.type);
-    
-    if (files.length === 0) {
-      throw new Error(`No files found for archive type: ${request.type}`);
-    }
+    const files = await this.selectFiles(request);
 
-    // Calculate estimated size
+    // Calculate estimated size; streamed archives aren't stored, so any size goes
     const estimatedSize = files.reduce((total, file) => total + file.size, 0);
     
-    if (estimatedSize > this.config.maxArchiveSize) {
+    if (!request.streaming && estimatedSize > this.config.maxArchiveSize) {
       throw new Error(`Archive size ${estimatedSize} exceeds maximum allowed size ${this.config.maxArchiveSize}`);
     }
 
+    // Streamed archives are ready at once, with their exact size
+    const layout = request.streaming ? this.streamer.layout(files) : undefined;
+
     // Create archive record
     const expiresAt = new Date();
     expiresAt.setDate(expiresAt.getDate() + this.config.defaultExpirationDays);
@@ -78,10 +100,21 @@ export class ArchiveService {
       _id: archiveId,
       shootId: request.shootId,
       type: request.type,
-      size: 0, // Will be updated when archive is completed
-      downloadUrl: `/archives/${archiveId}/download`,
+      size: layout?.size ?? 0, // Built archives are updated when completed
+      requestedBy: request.requestedBy?.userId,
+      requestedByRole: request.requestedBy?.role,
+      notifyEmail: request.notifyEmail,
+      streaming: layout !== undefined,
+      fileIds: layout && files.map(file => file.id),
+      progress: layout ? undefined : {
+        filesProcessed: 0,
+        totalFiles: files.length,
+        bytesProcessed: 0,
+        totalBytes: estimatedSize,
+        bytesWritten: 0,
+      },
       expiresAt,
-      status: 'pending',
+      status: layout ? 'completed' : 'pending',
     });
 
     const savedDoc = await archiveDoc.save();
@@ -94,12 +127,16 @@ export class ArchiveService {
       archiveType: request.type,
       fileCount: files.length,
       estimatedSize,
-      status: 'pending',
+      status: archive.status,
       createdAt: archive.createdAt,
     });
 
-    // Start background archive generation
-    this.startArchiveGeneration(archiveId, files);
+    if (layout) {
+      await this.emitArchiveReady(archive);
+    } else {
+      // Start background archive generation
+      this.startArchiveGeneration(archiveId, files);
+    }
 
     return archive;
   }
@@ -125,18 +162,24 @@ export class ArchiveService {
   }
 
   /**
-   * Create download stream for archive
+   * Create download stream for archive, or for bytes start..end of it.
+   * Throws ArchiveContentChangedError when a streamed archive's files no
+   * longer add up to the archive that was announced.
    */
   async createArchiveDownloadStream(
-    archiveId: string
+    archiveId: string,
+    options?: { start?: number; end?: number }
   ): Promise<NodeJS.ReadableStream> {
     const archive = await this.getArchiveById(archiveId);
     if (archive?.status !== 'completed') {
       throw new Error('Archive not ready for download');
     }
 
+    if (archive.streaming) {
+      return this.streamer.createStream(await this.streamedFiles(archive), options);
+    }
     const archivePath = this.getArchivePath(archiveId);
-    return createReadStream(archivePath);
+    return createReadStream(archivePath, options);
   }
 
   /**
@@ -148,10 +191,12 @@ export class ArchiveService {
       return false;
     }
 
-    // Delete archive file
+    // Delete archive file (streamed archives have none)
     const archivePath = this.getArchivePath(archiveId);
     try {
-      await fs.unlink(archivePath);
+      if (!doc.streaming) {
+        await fs.unlink(archivePath);
+      }
     } catch (error) {
       // eslint-disable-next-line no-console
       console.warn(`Failed to delete archive file ${archivePath}:`, error);
@@ -204,24 +249,48 @@ export class ArchiveService {
     if (status === 'completed') {
       const archive = await this.getArchiveById(archiveId);
       if (archive) {
-        await this.eventEmitter.emitArchiveReady({
-          archiveId,
-          shootId: archive.shootId,
-          finalSize: archive.size,
-          downloadUrl: archive.downloadUrl,
-          expiresAt: archive.expiresAt,
-          readyAt: new Date().toISOString(),
-        });
+        await this.emitArchiveReady(archive);
       }
     }
   }
 
+  // With a link that lasts as long as the archive for whoever requested it
+  private async emitArchiveReady(archive: ArchiveModel): Promise<void> {
+    const lifetime = Math.ceil((Date.parse(archive.expiresAt) - Date.now()) / 1000);
+    const { requestedBy: userId, requestedByRole: role } = archive;
+    const downloadUrl = userId && role
+      ? this.downloadUrls.signArchiveUrl(archive, { userId, role }, lifetime).url
+      : undefined;
+    await this.eventEmitter.emitArchiveReady({
+      archiveId: archive.id,
+      shootId: archive.shootId,
+      finalSize: archive.size,
+      downloadUrl,
+      notifyEmail: archive.notifyEmail,
+      expiresAt: archive.expiresAt,
+      readyAt: new Date().toISOString(),
+    });
+  }
+
+  // A streamed archive's files in archive order, as long as they still make
+  // up the announced archive byte for byte
+  private async streamedFiles(archive: ArchiveModel): Promise<FileModel[]> {
+    const fileIds = archive.fileIds ?? [];
+    const byId = new Map((await this.fileService.getFilesByIds(fileIds)).map(file => [file.id, file]));
+    const files = fileIds.map(id => byId.get(id)).filter((file): file is FileModel => file !== undefined);
+
+    if (files.length !== fileIds.length || this.streamer.layout(files).size !== archive.size) {
+      throw new ArchiveContentChangedError();
+    }
+    return files;
+  }
+
   /**
    * Generate archive file in background
    */
   private async startArchiveGeneration(
     archiveId: string,
-    files: { storagePath: string; filename: string }[]
+    files: FileModel[]
   ): Promise<void> {
     process.nextTick(async () => {
       try {
@@ -239,11 +308,15 @@ export class ArchiveService {
         });
 
         archive.pipe(output);
+        const saveProgress = this.trackProgress(archiveId, files, archive);
 
-        // Add files to archive
+        // Add files to archive; cold ones are opened only once archiver reaches them
         for (const file of files) {
-          const filePath = path.join('/data/files', file.storagePath);
-          archive.file(filePath, { name: file.filename });
+          if (file.storageTier === 'cold') {
+            archive.append(Readable.from(this.readStored(file)), { name: file.filename });
+          } else {
+            archive.file(path.join(this.config.storageBasePath, file.storagePath), { name: file.filename });
+          }
         }
 
         await archive.finalize();
@@ -257,6 +330,7 @@ export class ArchiveService {
 
         // Get final archive size
         const stats = await fs.stat(archivePath);
+        await saveProgress({ filesProcessed: files.length, bytesWritten: stats.size, etaSeconds: 0 });
         
         // Update archive status
         await this.updateArchiveStatus(archiveId, 'completed', stats.size);
@@ -272,6 +346,88 @@ export class ArchiveService {
     });
   }
 
+  private async *readStored(file: FileModel): AsyncGenerator<Buffer> {
+    for await (const chunk of await this.fileService.createStoredStream(file)) {
+      yield chunk as Buffer;
+    }
+  }
+
+  /**
+   * Save archiver's progress as it goes, at most once per interval and in
+   * order. The returned function saves a last update once all is written.
+   */
+  private trackProgress(
+    archiveId: string,
+    files: { size: number }[],
+    archive: ReturnType<typeof archiver>
+  ): (final: Partial<ArchiveProgress>) => Promise<void> {
+    const startedAt = Date.now();
+    let progress: ArchiveProgress = {
+      filesProcessed: 0,
+      totalFiles: files.length,
+      bytesProcessed: 0,
+      totalBytes: files.reduce((total, file) => total + file.size, 0),
+      bytesWritten: 0,
+    };
+    let saving = Promise.resolve();
+    let savedAt = 0;
+    const save = (): Promise<void> => {
+      const update = { progress, updatedAt: new Date() };
+      saving = saving
+        .then(() => this.archiveModel.updateOne({ _id: archiveId }, update))
+        .then(() => undefined, (error: unknown) => {
+          // eslint-disable-next-line no-console
+          console.warn(`Failed to save progress of archive ${archiveId}:`, error);
+        });
+      return saving;
+    };
+
+    archive.on('progress', ({ entries, fs: read }) => {
+      progress = {
+        ...progress,
+        filesProcessed: entries.processed,
+        bytesProcessed: read.processedBytes,
+        bytesWritten: archive.pointer(),
+        etaSeconds: estimateEtaSeconds(read.processedBytes, progress.totalBytes, Date.now() - startedAt),
+      };
+      if (Date.now() - savedAt >= PROGRESS_INTERVAL_MS) {
+        savedAt = Date.now();
+        void save();
+      }
+    });
+
+    return final => {
+      progress = { ...progress, bytesProcessed: progress.totalBytes, ...final };
+      return save();
+    };
+  }
+
+  /**
+   * Files of the archive type, from the request's files or the whole shoot.
+   * Throws FilesOutsideShootError when a requested file is of another shoot.
+   */
+  private async selectFiles(request: CreateArchiveRequest): Promise<FileModel[]> {
+    let files = request.fileIds
+      ? await this.fileService.getFilesByIds(request.fileIds)
+      : await this.fileService.getFilesByShootId(request.shootId);
+    if (files.some(file => file.shootId !== request.shootId)) {
+      throw new FilesOutsideShootError();
+    }
+
+    files = this.filterFilesByType(files, request.type);
+    if (request.requestedBy?.role !== 'photographer') {
+      // Sidecars and editor project files stay with the photographer
+      files = files.filter(file => file.photographerOnly !== true);
+    } else if (request.type !== 'jpeg') {
+      files = await this.withPairedFiles(files);
+    }
+
+    if (files.length === 0) {
+      throw new Error(`No files found for archive type: ${request.type}`);
+    }
+    return files;
+  }
+
   /**
    * Filter files by archive type
    */
@@ -291,6 +447,30 @@ export class ArchiveService {
     }
   }
 
+  /**
+   * Keep RAW files and their sidecars together: a sidecar brings its RAW
+   * file, and every RAW file brings all of its sidecars. Photographer
+   * archives only.
+   */
+  private async withPairedFiles(files: FileModel[]): Promise<FileModel[]> {
+    const included = new Set(files.map(f => f.id));
+    const missingParentIds = [...new Set(files.map(f => f.parentFileId))]
+      .filter((id): id is string => id !== undefined && !included.has(id));
+    const parents = missingParentIds.length > 0 ? await this.fileService.getFilesByIds(missingParentIds) : [];
+
+    const rawIds = [...files, ...parents].filter(f => f.type === 'raw').map(f => f.id);
+    const sidecars = rawIds.length > 0 ? await this.fileService.getSidecarsByParentIds(rawIds) : [];
+
+    const paired = [...files];
+    for (const file of [...parents, ...sidecars]) {
+      if (!included.has(file.id)) {
+        included.add(file.id);
+        paired.push(file);
+      }
+    }
+    return paired;
+  }
+
   /**
    * Get archive file path
    */
@@ -307,4 +487,12 @@ export class ArchiveService {
       `${archiveId}.zip`
     );
   }
-}
\ No newline at end of file
+}
+
+// Seconds left at the rate bytes have been read so far, once there is a rate
+function estimateEtaSeconds(processed: number, total: number, elapsedMs: number): number | undefined {
+  if (processed <= 0 || elapsedMs <= 0) {
+    return undefined;
+  }
+  return Math.ceil(Math.max(total - processed, 0) / (processed / elapsedMs) / 1000);
+}
@@ -0,0 +1,90 @@
+/**
+ * Capture Time Service
+ * Orders a shoot's photos by when they were taken rather than when they were
+ * uploaded. The capture time is the EXIF DateTimeOriginal plus a per-shoot
+ * clock offset for the camera body, so photos from several cameras whose
+ * clocks disagree (a second shooter, a body never set to local time) line up.
+ */
+
+import { Model } from 'mongoose';
+import { CameraClock } from '../shared/contracts/files.api.js';
+import { FileMetadataDTO } from '../shared/contracts/files.dto.js';
+import { ClockOffsetDocument, FileDocument, NOT_TRASHED } from '../shared/contracts/files.mongoose.js';
+
+// Camera bodies go by make, model and serial number; without a serial in the
+// EXIF, bodies of the same model share one clock
+function cameraKey(exif: NonNullable<FileMetadataDTO['exif']>): string | undefined {
+  if (exif.cameraSerial) {
+    return `${exif.camera ?? 'Unknown camera'} #${exif.cameraSerial}`;
+  }
+  return exif.camera;
+}
+
+export class CaptureTimeService {
+  constructor(
+    private readonly fileModel: Model<FileDocument>,
+    private readonly clockOffsetModel: Model<ClockOffsetDocument>
+  ) {}
+
+  /**
+   * Record a processed file's capture time and camera from its EXIF. Files
+   * without a capture date keep their upload time.
+   */
+  async syncFile(fileId: string): Promise<void> {
+    const doc = await this.fileModel.findById(fileId);
+    const exif = doc?.metadata?.exif as FileMetadataDTO['exif'];
+    if (!doc || !exif?.dateTaken) {
+      return;
+    }
+
+    const camera = cameraKey(exif);
+    const clock = camera ? await this.clockOffsetModel.findOne({ shootId: doc.shootId, camera }) : null;
+    await this.fileModel.updateOne(
+      { _id: fileId },
+      {
+        captureTime: new Date(Date.parse(exif.dateTaken) + (clock?.offsetSeconds ?? 0) * 1000),
+        ...(camera && { captureCamera: camera }),
+      }
+    );
+  }
+
+  /**
+   * The camera bodies that shot the shoot, with their clock offsets. Offsets
+   * set before any of a camera's photos arrived are listed too.
+   */
+  async listClockOffsets(shootId: string): Promise<CameraClock[]> {
+    const [cameras, offsets] = await Promise.all([
+      this.fileModel.aggregate<{ _id: string; fileCount: number }>([
+        { $match: { shootId, ...NOT_TRASHED, captureCamera: { $exists: true } } },
+        { $group: { _id: '$captureCamera', fileCount: { $sum: 1 } } },
+        { $sort: { _id: 1 } },
+      ]),
+      this.clockOffsetModel.find({ shootId }).exec(),
+    ]);
+
+    const offsetByCamera = new Map(offsets.map(offset => [offset.camera, offset.offsetSeconds]));
+    const shot = new Set(cameras.map(({ _id }) => _id));
+    return [
+      ...cameras.map(({ _id, fileCount }) => ({
+        shootId, camera: _id, offsetSeconds: offsetByCamera.get(_id) ?? 0, fileCount,
+      })),
+      ...offsets
+        .filter(offset => !shot.has(offset.camera))
+        .map(offset => ({ shootId, camera: offset.camera, offsetSeconds: offset.offsetSeconds, fileCount: 0 })),
+    ];
+  }
+
+  /**
+   * Set a camera body's clock offset for the shoot and re-time the photos it
+   * has already taken; trashed ones too, so they come back in place
+   */
+  async setClockOffset(shootId: string, camera: string, offsetSeconds: number): Promise<CameraClock> {
+    await this.clockOffsetModel.updateOne({ shootId, camera }, { offsetSeconds }, { upsert: true });
+    const { matchedCount } = await this.fileModel.updateMany(
+      { shootId, captureCamera: camera, 'metadata.exif.dateTaken': { $exists: true } },
+      [{ $set: { captureTime: { $add: [{ $toDate: '$metadata.exif.dateTaken' }, offsetSeconds * 1000] } } }]
+    );
+
+    return { shootId, camera, offsetSeconds, fileCount: matchedCount };
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * Download URL Service
+ * Issues signed, expiring download links for files and archives and checks
+ * them on the download routes
+ */
+
+import type { JWTPayload } from '@tempsdarret/shared/schemas/invite.schema';
+import {
+  ArchiveModel,
+  FileDownloadQuery,
+  FileModel,
+  SignedDownloadUrl
+} from '../shared/contracts/files.api.js';
+import {
+  DownloadResource,
+  SignedDownloadQuery,
+  signDownloadQuery,
+  verifyDownloadQuery
+} from '../shared/utils/signed-urls.js';
+
+// Who a link is issued to, from the caller's access token
+export type LinkHolder = Pick<JWTPayload, 'userId' | 'role'>;
+
+export interface DownloadUrlConfig {
+  signingSecret: string;
+  baseUrl: string; // Prefix of the file routes as clients reach them (the gateway)
+  urlTtlSeconds: number;
+  maxUrlTtlSeconds: number;
+}
+
+export class InvalidDownloadUrlError extends Error {
+  constructor(message = 'Download link is invalid') {
+    super(message);
+    this.name = 'InvalidDownloadUrlError';
+  }
+}
+
+export class DownloadUrlExpiredError extends Error {
+  constructor(message = 'Download link has expired') {
+    super(message);
+    this.name = 'DownloadUrlExpiredError';
+  }
+}
+
+export class DownloadUrlService {
+  constructor(private readonly config: DownloadUrlConfig) {}
+
+  /**
+   * Link to a file for one user, limited to the requested rendition
+   */
+  signFileUrl(file: FileModel, holder: LinkHolder, query: FileDownloadQuery = {}, expiresIn?: number): SignedDownloadUrl {
+    const expires = this.expiry(expiresIn);
+    const search = signDownloadQuery(
+      fileResource(file),
+      {
+        userId: holder.userId,
+        role: holder.role,
+        resolution: query.resolution,
+        format: query.format,
+        galleryId: query.galleryId,
+      },
+      expires,
+      this.config.signingSecret
+    );
+    return this.signedUrl(`/files/${file.id}/download?${search}`, expires);
+  }
+
+  /**
+   * Link to an archive for one user; it never outlives the archive itself
+   */
+  signArchiveUrl(archive: ArchiveModel, holder: LinkHolder, expiresIn?: number): SignedDownloadUrl {
+    const expires = Math.min(this.expiry(expiresIn), Math.floor(Date.parse(archive.expiresAt) / 1000));
+    const grant = { userId: holder.userId, role: holder.role };
+    const search = signDownloadQuery(archiveResource(archive), grant, expires, this.config.signingSecret);
+    return this.signedUrl(`/files/archives/${archive.id}/download?${search}`, expires);
+  }
+
+  /**
+   * Throws InvalidDownloadUrlError or DownloadUrlExpiredError unless the
+   * query is a live link to this file
+   */
+  verifyFileDownload(file: FileModel, query: SignedDownloadQuery): void {
+    this.verify(fileResource(file), query);
+  }
+
+  verifyArchiveDownload(archive: ArchiveModel, query: SignedDownloadQuery): void {
+    this.verify(archiveResource(archive), query);
+  }
+
+  private verify(resource: DownloadResource, query: SignedDownloadQuery): void {
+    const check = verifyDownloadQuery(resource, query, this.config.signingSecret);
+    if (check === 'invalid') {
+      throw new InvalidDownloadUrlError();
+    }
+    if (check === 'expired') {
+      throw new DownloadUrlExpiredError();
+    }
+  }
+
+  // Requested lifetimes are capped; anything unusable gets the default
+  private expiry(expiresIn?: number): number {
+    const seconds = Number(expiresIn);
+    const ttl = Number.isFinite(seconds) && seconds > 0
+      ? Math.min(Math.floor(seconds), this.config.maxUrlTtlSeconds)
+      : this.config.urlTtlSeconds;
+    return Math.floor(Date.now() / 1000) + Math.max(ttl, 1);
+  }
+
+  private signedUrl(path: string, expires: number): SignedDownloadUrl {
+    return {
+      url: `${this.config.baseUrl}${path}`,
+      expiresAt: new Date(expires * 1000).toISOString(),
+    };
+  }
+}
+
+function fileResource(file: FileModel): DownloadResource {
+  return { kind: 'file', id: file.id, shootId: file.shootId };
+}
+
+function archiveResource(archive: ArchiveModel): DownloadResource {
+  return { kind: 'archive', id: archive.id, shootId: archive.shootId };
+}
@@ -7,14 +7,17 @@ import {
   FileUploadedData,
   FileProcessedData,
   FileDeletedData,
+  FileRestoredData,
   ArchiveCreatedData,
   ArchiveReadyData,
-  FILE_EVENT_TYPES
+  ShootCleanupReportedData,
+  FILE_EVENT_TYPES,
+  SHOOT_CLEANUP_EVENT_TYPES
 } from '../shared/contracts/files.events.js';
 import { generateId } from '../shared/utils/id.js';
 
-// Mock Kafka producer interface - replace with actual implementation
-interface EventProducer {
+// Kafka producer interface (KafkaEventProducer, or a mock without a broker)
+export interface EventProducer {
   publish(
     topic: string,
     key: string,
@@ -88,6 +91,25 @@ export class EventEmitter {
     });
   }
 
+  /**
+   * Emit file restored event
+   */
+  async emitFileRestored(data: FileRestoredData): Promise<void> {
+    const event = {
+      eventId: generateId(),
+      eventType: FILE_EVENT_TYPES.RESTORED,
+      timestamp: new Date().toISOString(),
+      version: '1.0.0',
+      source: this.serviceName,
+      data,
+    };
+
+    await this.producer.publish('files', data.fileId, event, {
+      'event-type': FILE_EVENT_TYPES.RESTORED,
+      'shoot-id': data.shootId,
+    });
+  }
+
   /**
    * Emit archive created event
    */
@@ -126,4 +148,23 @@ export class EventEmitter {
       'shoot-id': data.shootId,
     });
   }
+
+  /**
+   * Emit shoot cleanup reported event (shoot deletion saga)
+   */
+  async emitShootCleanupReported(data: ShootCleanupReportedData): Promise<void> {
+    const event = {
+      eventId: generateId(),
+      eventType: SHOOT_CLEANUP_EVENT_TYPES.CLEANUP_REPORTED,
+      timestamp: new Date().toISOString(),
+      version: '1.0.0',
+      source: this.serviceName,
+      data,
+    };
+
+    await this.producer.publish('shoots', data.shootId, event, {
+      'event-type': SHOOT_CLEANUP_EVENT_TYPES.CLEANUP_REPORTED,
+      'shoot-id': data.shootId,
+    });
+  }
 }
\ No newline at end of file
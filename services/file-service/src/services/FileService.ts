@@ -5,28 +5,33 @@
 
 /* global NodeJS */
 
+import { createHash } from 'crypto';
 import { Model } from 'mongoose';
 import { StorageService, FileStats } from './StorageService.js';
 import { ProcessingService } from './ProcessingService.js';
+import { ProcessingQueue } from './ProcessingQueue.js';
 import { EventEmitter } from './EventEmitter.js';
+import { SidecarPairing } from './SidecarPairing.js';
 import { 
   FileModel, 
   FileQuery,
-  FileType,
-  ProcessingStatus 
+  FileWithSidecars,
+  ProcessingStatus,
+  StorageTier
 } from '../shared/contracts/files.api.js';
 import {
   CreateFileDTO,
   UpdateFileDTO,
+  FileMetadataDTO,
+  ProcessingJob,
   validateCreateFileDTO,
   validateUpdateFileDTO,
   applyFileUpdate
 } from '../shared/contracts/files.dto.js';
-import { 
-  FileDocument, 
-  transformFileDocument 
-} from '../shared/contracts/files.mongoose.js';
+import { CAPTURE_ORDER, FileDocument, NOT_TRASHED, transformFileDocument } from '../shared/contracts/files.mongoose.js';
 import { generateId } from '../shared/utils/id.js';
+import { isDuplicateKeyError } from '../shared/utils/mongo.js';
+import { determineFileType, getSidecarType, isPairableSidecar } from '../shared/utils/file-types.js';
 
 export interface FileUploadData {
   fileData: Buffer;
@@ -36,6 +41,28 @@ export interface FileUploadData {
   tags?: string[];
 }
 
+export interface NewFileData {
+  originalName: string;
+  mimeType: string;
+  shootId: string;
+  tags?: string[];
+  size: number;
+}
+
+export interface FileContent {
+  contentHash: string; // SHA-256 (hex)
+  // Write the bytes into storage for the new file, returning the storage path
+  store(fileId: string): Promise<string>;
+  // Drop the bytes when the content is already stored
+  discard?(): Promise<void>;
+}
+
+interface StoredFileData extends NewFileData {
+  fileId: string;
+  storagePath: string;
+  contentHash: string;
+}
+
 export interface FileListResult {
   files: FileModel[];
   pagination: {
@@ -47,82 +74,162 @@ export interface FileListResult {
 }
 
 export class FileService {
+  private readonly pairing: SidecarPairing;
+
   constructor(
     private readonly fileModel: Model<FileDocument>,
     private readonly storageService: StorageService,
     private readonly processingService: ProcessingService,
-    private readonly eventEmitter: EventEmitter
-  ) {}
+    private readonly eventEmitter: EventEmitter,
+    private readonly processingQueue: ProcessingQueue
+  ) {
+    this.pairing = new SidecarPairing(fileModel);
+  }
 
   /**
    * Upload and store a new file
    */
   async uploadFile(data: FileUploadData): Promise<FileModel> {
+    return this.addFile(
+      {
+        originalName: data.originalName,
+        mimeType: data.mimeType,
+        shootId: data.shootId,
+        tags: data.tags,
+        size: data.fileData.length,
+      },
+      {
+        contentHash: createHash('sha256').update(data.fileData).digest('hex'),
+        store: fileId => this.storageService.storeFile(fileId, data.fileData, data.originalName),
+      }
+    );
+  }
+
+  /**
+   * Add uploaded content to a shoot, deduplicated by content hash: content
+   * already in the shoot returns the existing file, and content stored for
+   * another shoot gets a new file sharing the stored bytes.
+   */
+  async addFile(data: NewFileData, content: FileContent): Promise<FileModel> {
+    const { contentHash } = content;
+    const existing = await this.fileModel.findOne({ shootId: data.shootId, contentHash });
+    if (existing) {
+      await content.discard?.();
+      // Uploading content from the trash again takes it out of the trash
+      const restored = existing.deletedAt ? await this.restoreFile(String(existing._id)) : null;
+      return restored ?? transformFileDocument(existing);
+    }
+
     const fileId = generateId();
-    
+    const blob = await this.storageService.acquireBlob(contentHash, () => content.store(fileId));
+    if (!blob.written) {
+      await content.discard?.();
+      await this.ensureHot(blob.storagePath);
+    }
+
+    try {
+      return await this.registerStoredFile({ ...data, fileId, storagePath: blob.storagePath, contentHash });
+    } catch (error) {
+      // The same content was added to the shoot concurrently
+      const duplicate = isDuplicateKeyError(error)
+        ? await this.fileModel.findOne({ shootId: data.shootId, contentHash })
+        : null;
+      if (!duplicate) {
+        throw error;
+      }
+      await this.storageService.releaseBlob(contentHash);
+      return transformFileDocument(duplicate);
+    }
+  }
+
+  // Record a file whose bytes are in storage, announce it and queue its
+  // processing
+  private async registerStoredFile(data: StoredFileData): Promise<FileModel> {
+    const { fileId, storagePath } = data;
+
     // Determine file type from MIME type and filename
-    const fileType = this.determineFileType(data.mimeType, data.originalName);
+    const fileType = determineFileType(data.mimeType, data.originalName);
     
     // Check if this is a photographer-only file
-    const photographerOnly = fileType === 'sidecar' || fileType === 'config';
-    
-    // Store file to filesystem
-    const storagePath = await this.storageService.storeFile(
-      fileId, 
-      data.fileData, 
-      data.originalName
-    );
+    const photographerOnly = isPairableSidecar(fileType);
 
     // Create file DTO
     const createDTO: CreateFileDTO = {
       originalName: data.originalName,
       shootId: data.shootId,
-      size: data.fileData.length,
+      size: data.size,
       mimeType: data.mimeType,
       storagePath,
+      contentHash: data.contentHash,
       type: fileType,
       tags: data.tags,
       photographerOnly,
-      sidecarType: this.getSidecarType(data.originalName, fileType),
+      parentFileId: photographerOnly ? await this.pairing.findPairedRaw(data.shootId, data.originalName) : undefined,
+      sidecarType: getSidecarType(data.originalName, fileType),
     };
 
     if (!validateCreateFileDTO(createDTO)) {
       throw new Error('Invalid file data');
     }
 
-    // Create database record
+    // Create database record; the capture time is the upload time until
+    // processing reads it from the EXIF (CaptureTimeService)
+    const { originalName, ...fields } = createDTO;
     const fileDoc = new this.fileModel({
       _id: fileId,
-      ...createDTO,
+      filename: originalName,
+      ...fields,
+      captureTime: new Date(),
     });
 
     const savedDoc = await fileDoc.save();
     const fileModel = transformFileDocument(savedDoc);
 
+    // Sidecars uploaded before their RAW file are linked now
+    if (fileType === 'raw') {
+      await this.pairing.adoptSidecars(fileModel);
+    }
+
     // Emit file uploaded event
     await this.eventEmitter.emitFileUploaded({
       fileId,
       originalName: data.originalName,
       shootId: data.shootId,
-      size: data.fileData.length,
+      size: data.size,
       mimeType: data.mimeType,
       storagePath,
       fileType,
       uploadedAt: fileModel.createdAt,
     });
 
-    // Start background processing for large files or specific types
-    this.startBackgroundProcessing(fileModel);
+    // Queue background processing (renditions, metadata)
+    await this.processingQueue.enqueue(fileId);
 
     return fileModel;
   }
 
   /**
-   * Get file by ID
+   * Get a RAW file with its sidecars. A sidecar resolves to its RAW file;
+   * other files come back on their own. Null when the file does not exist.
+   */
+  async getFileWithSidecars(fileId: string): Promise<FileWithSidecars | null> {
+    const file = await this.getFileById(fileId);
+    const parent = file?.parentFileId ? await this.getFileById(file.parentFileId) : null;
+    const raw = parent ?? file;
+    if (!raw) {
+      return null;
+    }
+
+    const sidecars = raw.type === 'raw' ? await this.getSidecarsByParentIds([raw.id]) : [];
+    return { file: raw, sidecars };
+  }
+
+  /**
+   * Get file by ID (null while it is in the trash)
    */
   async getFileById(fileId: string): Promise<FileModel | null> {
     const doc = await this.fileModel.findById(fileId);
-    return doc ? transformFileDocument(doc) : null;
+    return doc && !doc.deletedAt ? transformFileDocument(doc) : null;
   }
 
   /**
@@ -135,18 +242,23 @@ export class FileService {
 
     // Build filter
     const filter = {
+      ...NOT_TRASHED,
       ...(query.shootId && { shootId: query.shootId }),
       ...(query.type && { type: query.type }),
       ...(query.processingStatus && { processingStatus: query.processingStatus }),
       ...(query.photographerOnly !== undefined && { photographerOnly: query.photographerOnly }),
-      ...(query.tags?.length && { tags: { $in: query.tags } })
+      ...(query.tags?.length && { tags: { $in: query.tags } }),
+      // Query strings arrive unparsed; ratings compare as numbers
+      ...(query.minRating !== undefined && { 'metadata.xmp.rating': { $gte: Number(query.minRating) } }),
+      ...(query.label && { 'metadata.xmp.label': query.label }),
+      ...(query.pick && { 'metadata.xmp.pick': query.pick })
     };
 
     // Execute queries in parallel
     const [docs, total] = await Promise.all([
       this.fileModel
         .find(filter)
-        .sort({ createdAt: -1 })
+        .sort(query.sort === 'captureTime' ? CAPTURE_ORDER : { createdAt: -1 })
         .skip(skip)
         .limit(limit)
         .exec(),
@@ -173,7 +285,7 @@ export class FileService {
     }
 
     const doc = await this.fileModel.findById(fileId);
-    if (!doc) {
+    if (!doc || doc.deletedAt) {
       return null;
     }
 
@@ -197,42 +309,60 @@ export class FileService {
   }
 
   /**
-   * Delete file and cleanup storage
+   * Move a file to the trash. It drops out of listings, archives and
+   * downloads; its bytes stay until it is purged (see TrashService).
    */
   async deleteFile(fileId: string): Promise<boolean> {
     const doc = await this.fileModel.findById(fileId);
-    if (!doc) {
+    if (!doc || doc.deletedAt) {
       return false;
     }
 
-    const fileModel = transformFileDocument(doc);
+    doc.deletedAt = new Date();
+    await doc.save();
 
-    // Delete from storage
-    await this.storageService.deleteFile(fileModel.storagePath);
-    
-    // Delete chunks if they exist
-    await this.storageService.deleteChunks(fileId);
+    await this.eventEmitter.emitFileDeleted({
+      fileId,
+      shootId: doc.shootId,
+      originalName: doc.filename,
+      deletedAt: doc.deletedAt.toISOString(),
+      cleanupStatus: 'pending',
+    });
+    return true;
+  }
 
-    // Delete from database
-    await this.fileModel.deleteOne({ _id: fileId });
+  /**
+   * Take a file out of the trash. Null unless it is in the trash.
+   */
+  async restoreFile(fileId: string): Promise<FileModel | null> {
+    const doc = await this.fileModel.findById(fileId);
+    if (!doc?.deletedAt) {
+      return null;
+    }
 
-    // Emit file deleted event
-    await this.eventEmitter.emitFileDeleted({
+    doc.deletedAt = undefined;
+    const fileModel = transformFileDocument(await doc.save());
+    await this.eventEmitter.emitFileRestored({
       fileId,
       shootId: fileModel.shootId,
       originalName: fileModel.filename,
-      deletedAt: new Date().toISOString(),
-      cleanupStatus: 'completed',
+      restoredAt: new Date().toISOString(),
     });
+    return fileModel;
+  }
 
-    return true;
+  /**
+   * Keep a file's CRC-32 for later archives
+   */
+  async recordCrc32(fileId: string, crc32: number): Promise<void> {
+    await this.fileModel.updateOne({ _id: fileId }, { crc32 });
   }
 
   /**
    * Get file statistics for download (ADR-026 requirement)
    */
-  async getFileStats(storagePath: string): Promise<FileStats> {
-    return await this.storageService.getFileStats(storagePath);
+  async getFileStats(storagePath: string, tier?: StorageTier): Promise<FileStats> {
+    return await this.storageService.getFileStats(storagePath, tier);
   }
 
   /**
@@ -246,6 +376,10 @@ export class FileService {
     if (!file) {
       throw new Error('File not found');
     }
+    // The cold tier serves ranges itself
+    if (file.storageTier === 'cold') {
+      return this.createStoredStream(file, options);
+    }
 
     const stats = await this.getFileStats(file.storagePath);
     
@@ -260,12 +394,32 @@ export class FileService {
     }
   }
 
+  /**
+   * Read a file's original straight from the tier it is on
+   */
+  async createStoredStream(
+    file: FileModel,
+    options?: { start?: number; end?: number }
+  ): Promise<NodeJS.ReadableStream> {
+    return this.storageService.openReadStream(file.storagePath, file.storageTier ?? 'hot', options);
+  }
+
+  /**
+   * Create download stream for a rendition (small enough to skip chunking)
+   */
+  createRenditionStream(
+    storagePath: string,
+    options?: { start?: number; end?: number }
+  ): NodeJS.ReadableStream {
+    return this.storageService.createReadStream(storagePath, options);
+  }
+
   /**
    * Get files by shoot ID
    */
   async getFilesByShootId(shootId: string): Promise<FileModel[]> {
     const docs = await this.fileModel
-      .find({ shootId })
+      .find({ shootId, ...NOT_TRASHED })
       .sort({ createdAt: -1 })
       .exec();
     
@@ -277,12 +431,19 @@ export class FileService {
    */
   async getFilesByIds(fileIds: string[]): Promise<FileModel[]> {
     const docs = await this.fileModel
-      .find({ _id: { $in: fileIds } })
+      .find({ _id: { $in: fileIds }, ...NOT_TRASHED })
       .exec();
     
     return docs.map(transformFileDocument);
   }
 
+  /**
+   * Get the sidecars paired to the given RAW files
+   */
+  async getSidecarsByParentIds(parentFileIds: string[]): Promise<FileModel[]> {
+    return this.pairing.getSidecars(parentFileIds);
+  }
+
   /**
    * Update processing status
    */
@@ -295,7 +456,7 @@ export class FileService {
       { _id: fileId },
       {
         processingStatus: status,
-        ...(details && { metadata: { $set: { processingDetails: details } } }),
+        ...(details && { 'metadata.processingDetails': details }),
         updatedAt: new Date()
       }
     );
@@ -310,90 +471,93 @@ export class FileService {
   }
 
   /**
-   * Determine file type from MIME type and filename
+   * Queue a file for processing again, e.g. after a failure or once the
+   * rendition settings changed. Null when the file does not exist or is in
+   * the trash.
    */
-  private determineFileType(mimeType: string, filename?: string): FileType {
-    const extension = filename?.toLowerCase().split('.').pop();
-    
-    // Sidecar/Config file formats (photographer-only access per TypeSpec comments)
-    const sidecarExtensions = ['xmp']; // Adobe Lightroom/Photoshop sidecar
-    const configExtensions = ['psd', 'psb', 'cos', 'col', 'afphoto', 'xcf']; // Editor project files
-
-    if (extension && sidecarExtensions.includes(extension)) {
-      return 'sidecar';
+  async reprocessFile(fileId: string): Promise<FileModel | null> {
+    const doc = await this.fileModel.findById(fileId);
+    if (!doc || doc.deletedAt) {
+      return null;
     }
-    if (extension && configExtensions.includes(extension)) {
-      return 'config';
+    await this.ensureHot(doc.storagePath);
+    doc.storageTier = undefined;
+
+    const job = await this.processingQueue.enqueue(fileId);
+    if (job.status === 'queued') {
+      doc.processingStatus = 'pending';
+      await doc.save();
     }
-    
-    // Standard image formats
-    if (mimeType.startsWith('image/jpeg')) {return 'jpeg';}
-    if (mimeType.startsWith('image/png')) {return 'png';}
-    if (mimeType.startsWith('video/')) {return 'video';}
-    
-    // RAW formats based on file-service.tsp comments
-    const rawFormats = [
-      'image/x-canon-cr2', 'image/x-canon-cr3', // Canon: .CR2, .CR3
-      'image/x-nikon-nef', 'image/x-nikon-nrw', // Nikon: .NEF, .NRW
-      'image/x-sony-arw', // Sony: .ARW
-      'image/x-olympus-orf', // Olympus: .ORF
-      'image/x-adobe-dng', // Leica: .DNG, .RWL
-      'image/x-hasselblad-3fr', 'image/x-hasselblad-fff', // Hasselblad: .3FR, .FFF
-      'image/x-phaseone-iiq', // Phase One: .IIQ
-    ];
-    
-    if (rawFormats.includes(mimeType)) {return 'raw';}
-    
-    // Check by file extension for RAW formats
-    const rawExtensions = ['cr2', 'cr3', 'nef', 'nrw', 'arw', 'orf', 'dng', 'rwl', '3fr', 'fff', 'iiq'];
-    if (extension && rawExtensions.includes(extension)) {return 'raw';}
-    
-    // Default to jpeg for unknown image types
-    if (mimeType.startsWith('image/')) {return 'jpeg';}
-    
-    return 'raw'; // Default fallback
+    return transformFileDocument(doc);
   }
 
   /**
-   * Get sidecar type from filename and file type
+   * Processing job handler (see ProcessingQueue). The job's state shows through
+   * the file's processingStatus: processing while it runs, pending again while
+   * a retry is scheduled, failed once attempts are exhausted.
    */
-  private getSidecarType(
-    filename: string,
-    fileType: FileType
-  ): 'xmp' | 'psd' | 'psb' | 'cos' | 'col' | 'afphoto' | 'xcf' | undefined {
-    if (fileType !== 'sidecar' && fileType !== 'config') {
-      return undefined;
+  async processQueuedFile(job: ProcessingJob): Promise<void> {
+    // Files in the trash are processed too, so they come back complete
+    const doc = await this.fileModel.findById(job.fileId);
+    if (!doc) {
+      return; // Deleted since it was queued
     }
-    
-    const extension = filename.toLowerCase().split('.').pop();
-    
-    // Map extensions to sidecar types per TypeSpec comments
-    switch (extension) {
-      case 'xmp': return 'xmp'; // Adobe Lightroom/Photoshop sidecar
-      case 'psd': return 'psd'; // Adobe Photoshop internal project
-      case 'psb': return 'psb'; // Adobe Photoshop large docs
-      case 'cos': return 'cos'; // Capture One
-      case 'col': return 'col'; // Capture One
-      case 'afphoto': return 'afphoto'; // Affinity Photo
-      case 'xcf': return 'xcf'; // GIMP
-      default: return undefined;
+    const file = transformFileDocument(doc);
+
+    await this.fileModel.updateOne({ _id: file.id }, { processingStatus: 'processing' });
+    const lastAttempt = job.attempts >= job.maxAttempts;
+
+    try {
+      const result = await this.processingService.processFile(file);
+      const errors = result.processing?.processingErrors ?? [];
+      if (errors.length > 0 && !lastAttempt) {
+        throw new Error(errors.join('; '));
+      }
+      await this.recordProcessingResult(file.id, result);
+    } catch (error) {
+      if (lastAttempt) {
+        await this.updateProcessingStatus(file.id, 'failed', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      } else {
+        await this.fileModel.updateOne({ _id: file.id }, { processingStatus: 'pending' });
+      }
+      throw error;
+    }
+  }
+
+  // Processing reads originals from local storage: content moved to the cold
+  // tier comes back, for every file sharing it
+  private async ensureHot(storagePath: string): Promise<void> {
+    if (!(await this.fileModel.exists({ storagePath, storageTier: 'cold' }))) {
+      return;
     }
+    await this.storageService.copyToTier(storagePath, 'hot');
+    await this.fileModel.updateMany({ storagePath }, { $unset: { storageTier: 1 } });
+    await this.storageService.deleteFile(storagePath, 'cold');
   }
 
   /**
-   * Start background processing for uploaded files
+   * Record renditions and extracted metadata on the file, then mark it
+   * processed. XMP culling metadata also goes to the paired RAW file.
    */
-  private startBackgroundProcessing(file: FileModel): void {
-    // Process asynchronously without blocking the response
-    process.nextTick(async () => {
-      try {
-        await this.processingService.processFile(file);
-      } catch (error) {
-        console.error(`Background processing failed for file ${file.id}:`, error);
-        await this.updateProcessingStatus(file.id, 'failed', { 
-          error: error instanceof Error ? error.message : 'Unknown error' 
-        });
+  private async recordProcessingResult(fileId: string, result: FileMetadataDTO): Promise<void> {
+    const thumbnail = result.renditions?.find(r => r.name === 'thumbnail' && r.format === 'jpeg');
+    await this.fileModel.updateOne(
+      { _id: fileId },
+      {
+        ...(result.renditions && { renditions: result.renditions }),
+        ...(thumbnail && { thumbnailUrl: thumbnail.url }),
+        ...(result.exif && { 'metadata.exif': result.exif }),
+        ...(result.technical && { 'metadata.technical': result.technical }),
+        ...(result.xmp && { 'metadata.xmp': result.xmp }),
       }
-    });
+    );
+    if (result.xmp) {
+      await this.pairing.shareXmp(fileId, result.xmp);
+    }
+
+    const failed = (result.processing?.processingErrors?.length ?? 0) > 0;
+    await this.updateProcessingStatus(fileId, failed ? 'failed' : 'completed', result.processing);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,35 @@
+/**
+ * Kafka Event Producer
+ * Publishes file service events to Kafka; the broker-backed EventProducer
+ */
+
+import { Kafka, Producer } from 'kafkajs';
+import { EventProducer } from './EventEmitter.js';
+
+export class KafkaEventProducer implements EventProducer {
+  private readonly producer: Producer;
+
+  constructor(kafka: Kafka) {
+    this.producer = kafka.producer();
+  }
+
+  async connect(): Promise<void> {
+    await this.producer.connect();
+  }
+
+  async disconnect(): Promise<void> {
+    await this.producer.disconnect();
+  }
+
+  async publish(
+    topic: string,
+    key: string,
+    value: Record<string, unknown>,
+    headers?: Record<string, string>
+  ): Promise<void> {
+    await this.producer.send({
+      topic,
+      messages: [{ key, value: JSON.stringify(value), headers }],
+    });
+  }
+}
@@ -0,0 +1,238 @@
+/**
+ * Processing Queue
+ * Mongo-backed background job queue for file processing
+ */
+
+/* global NodeJS */
+
+import { Model } from 'mongoose';
+import { ProcessingJob } from '../shared/contracts/files.dto.js';
+import {
+  ProcessingJobDocument,
+  transformProcessingJobDocument
+} from '../shared/contracts/files.mongoose.js';
+import { generateId } from '../shared/utils/id.js';
+
+export interface ProcessingQueueConfig {
+  concurrency: number;
+  maxAttempts: number;
+  retryBaseDelayMs: number; // Delay before the first retry, doubled after each failure
+  leaseMs: number;
+  pollIntervalMs: number;
+}
+
+export type ProcessingJobHandler = (job: ProcessingJob) => Promise<void>;
+
+// Recorded on jobs whose worker never finished their last attempt
+const ABANDONED_ERROR = 'Processing did not finish within its lease';
+
+/**
+ * Jobs live in MongoDB, so they outlive the process. A worker claims a due
+ * job by taking a lease, renewed while the job runs; if the worker dies, the
+ * lease expires and any worker (e.g. the restarted service) picks the job up
+ * again. Failed jobs are retried with exponential backoff until maxAttempts;
+ * a job whose last attempt's lease expired is failed instead of claimed again.
+ */
+export class ProcessingQueue {
+  private readonly workerId = generateId();
+  private readonly running = new Set<Promise<void>>();
+  private pollTimer?: NodeJS.Timeout;
+  private handler?: ProcessingJobHandler;
+  private onAbandoned?: ProcessingJobHandler;
+  private filling = false;
+
+  constructor(
+    private readonly jobModel: Model<ProcessingJobDocument>,
+    private readonly config: ProcessingQueueConfig
+  ) {}
+
+  /**
+   * Queue a file for processing. A job already queued or running is left as
+   * is; a finished one is queued again from scratch.
+   */
+  async enqueue(fileId: string): Promise<ProcessingJob> {
+    const active = await this.jobModel.findOne({ fileId, status: { $in: ['queued', 'running'] } });
+    if (active) {
+      return transformProcessingJobDocument(active);
+    }
+
+    const job = await this.jobModel.findOneAndUpdate(
+      { fileId },
+      {
+        $set: { status: 'queued', attempts: 0, maxAttempts: this.config.maxAttempts, runAt: new Date() },
+        $unset: { leaseExpiresAt: 1, workerId: 1, lastError: 1 },
+      },
+      { upsert: true, new: true }
+    );
+    this.fill();
+    return transformProcessingJobDocument(job);
+  }
+
+  /**
+   * Drop a file's job (e.g. once the file is deleted)
+   */
+  async remove(fileId: string): Promise<void> {
+    await this.jobModel.deleteOne({ fileId });
+  }
+
+  async getJob(fileId: string): Promise<ProcessingJob | null> {
+    const job = await this.jobModel.findOne({ fileId });
+    return job ? transformProcessingJobDocument(job) : null;
+  }
+
+  /**
+   * Start polling for due jobs, running up to `concurrency` at a time.
+   * `onAbandoned` is told of jobs failed by failAbandoned.
+   */
+  start(handler: ProcessingJobHandler, onAbandoned?: ProcessingJobHandler): void {
+    this.handler = handler;
+    this.onAbandoned = onAbandoned;
+    this.pollTimer = setInterval(() => this.fill(), this.config.pollIntervalMs);
+    this.fill();
+  }
+
+  /**
+   * Stop claiming jobs and wait for the running ones to finish
+   */
+  async stop(): Promise<void> {
+    clearInterval(this.pollTimer);
+    this.pollTimer = undefined;
+    this.handler = undefined;
+    this.onAbandoned = undefined;
+    await Promise.allSettled([...this.running]);
+  }
+
+  /**
+   * Claim the next due job: queued and ready to run, or running with an
+   * expired lease and attempts left. Public so a single poll can be driven directly.
+   */
+  async claimNext(): Promise<ProcessingJob | null> {
+    const now = new Date();
+    const job = await this.jobModel.findOneAndUpdate(
+      {
+        $or: [
+          { status: 'queued', runAt: { $lte: now } },
+          { status: 'running', leaseExpiresAt: { $lte: now }, $expr: { $lt: ['$attempts', '$maxAttempts'] } },
+        ],
+      },
+      {
+        $set: {
+          status: 'running',
+          workerId: this.workerId,
+          leaseExpiresAt: new Date(now.getTime() + this.config.leaseMs),
+        },
+        $inc: { attempts: 1 },
+      },
+      { sort: { runAt: 1 }, new: true }
+    );
+    return job ? transformProcessingJobDocument(job) : null;
+  }
+
+  /**
+   * Fail running jobs whose lease expired on their last attempt: their worker
+   * died every time, so they are not claimed again. Returns the jobs failed.
+   */
+  async failAbandoned(): Promise<ProcessingJob[]> {
+    const now = new Date();
+    const expired = { status: 'running', leaseExpiresAt: { $lte: now } };
+    const exhausted = await this.jobModel.find({ ...expired, $expr: { $gte: ['$attempts', '$maxAttempts'] } });
+
+    const failed: ProcessingJob[] = [];
+    for (const job of exhausted) {
+      // Unless a worker renewed the lease meanwhile
+      const { modifiedCount } = await this.jobModel.updateOne(
+        { _id: job._id, ...expired },
+        { $set: { status: 'failed', lastError: ABANDONED_ERROR }, $unset: { leaseExpiresAt: 1, workerId: 1 } }
+      );
+      if (modifiedCount > 0) {
+        failed.push({ ...transformProcessingJobDocument(job), status: 'failed', lastError: ABANDONED_ERROR });
+      }
+    }
+    return failed;
+  }
+
+  /**
+   * Run a claimed job, then complete it, schedule a retry or fail it
+   */
+  async runJob(job: ProcessingJob, handler: ProcessingJobHandler): Promise<void> {
+    const heartbeat = setInterval(() => {
+      this.renewLease(job.id).catch(() => undefined);
+    }, this.config.leaseMs / 2);
+
+    try {
+      await handler(job);
+      await this.finish(job.id, { status: 'completed' });
+    } catch (error) {
+      const lastError = error instanceof Error ? error.message : 'Unknown error';
+      if (job.attempts >= job.maxAttempts) {
+        await this.finish(job.id, { status: 'failed', lastError });
+      } else {
+        const delay = this.config.retryBaseDelayMs * 2 ** (job.attempts - 1);
+        await this.finish(job.id, { status: 'queued', lastError, runAt: new Date(Date.now() + delay) });
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  // Claim jobs until the concurrency limit is reached or none are due
+  private fill(): void {
+    if (this.filling || !this.handler) {
+      return;
+    }
+    this.filling = true;
+
+    const claim = async (): Promise<void> => {
+      for (const job of await this.failAbandoned()) {
+        await this.onAbandoned?.(job).catch(error => {
+          // eslint-disable-next-line no-console
+          console.error(`Abandoned processing job ${job.id} could not be reported:`, error);
+        });
+      }
+      while (this.handler && this.running.size < this.config.concurrency) {
+        const job = await this.claimNext();
+        if (!job) {
+          return;
+        }
+        const run: Promise<void> = this.runJob(job, this.handler)
+          .catch(error => {
+            // eslint-disable-next-line no-console
+            console.error(`Processing job ${job.id} could not be updated:`, error);
+          })
+          .finally(() => {
+            this.running.delete(run);
+            this.fill();
+          });
+        this.running.add(run);
+      }
+    };
+
+    claim()
+      .catch(error => {
+        // eslint-disable-next-line no-console
+        console.error('Claiming processing jobs failed:', error);
+      })
+      .finally(() => {
+        this.filling = false;
+      });
+  }
+
+  private async renewLease(jobId: string): Promise<void> {
+    await this.jobModel.updateOne(
+      { _id: jobId, status: 'running', workerId: this.workerId },
+      { $set: { leaseExpiresAt: new Date(Date.now() + this.config.leaseMs) } }
+    );
+  }
+
+  // Only while this worker still holds the job: once its lease expired, the
+  // job may have been claimed by another worker
+  private async finish(
+    jobId: string,
+    update: Pick<ProcessingJobDocument, 'status'> & Partial<Pick<ProcessingJobDocument, 'lastError' | 'runAt'>>
+  ): Promise<void> {
+    await this.jobModel.updateOne(
+      { _id: jobId, status: 'running', workerId: this.workerId },
+      { $set: update, $unset: { leaseExpiresAt: 1, workerId: 1 } }
+    );
+  }
+}
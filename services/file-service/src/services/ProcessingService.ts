@@ -1,29 +1,49 @@
 /**
  * Processing Service
- * Handles file processing tasks like thumbnail generation and metadata extraction
+ * Handles file processing tasks like rendition generation and metadata extraction
  */
 
+import fs from 'fs';
+import path from 'path';
 import sharp from 'sharp';
 import { ExifParserFactory } from 'ts-exif-parser';
-import { FileModel } from '../shared/contracts/files.api.js';
+import {
+  FileModel,
+  FileRendition,
+  RenditionFormat,
+  RenditionName,
+  XmpMetadata,
+} from '../shared/contracts/files.api.js';
 import { FileMetadataDTO } from '../shared/contracts/files.dto.js';
+import { renditionStoragePath, renditionUrl } from '../shared/utils/renditions.js';
+import { extractRawPreview } from '../shared/utils/raw-preview.js';
+import { parseXmp } from '../shared/utils/xmp.js';
+
+// One rendition size: longest edge in pixels and encoder quality
+export interface RenditionSpec {
+  name: RenditionName;
+  size: number;
+  quality: number;
+}
 
 export interface ProcessingConfig {
-  thumbnailSize: number;
-  thumbnailQuality: number;
   enableMetadataExtraction: boolean;
   maxProcessingTimeMs: number;
+  renditions: RenditionSpec[];
+  renditionFormats: RenditionFormat[];
 }
 
 export class ProcessingService {
   private readonly config: ProcessingConfig;
+  private readonly storageBasePath: string;
 
-  constructor(config: ProcessingConfig) {
+  constructor(config: ProcessingConfig, storageBasePath: string) {
     this.config = config;
+    this.storageBasePath = storageBasePath;
   }
 
   /**
-   * Process file - generate thumbnails and extract metadata
+   * Process file - generate renditions and extract metadata
    */
   async processFile(file: FileModel): Promise<FileMetadataDTO> {
     const startTime = Date.now();
@@ -56,22 +76,32 @@ export class ProcessingService {
           }
         }
 
-        // Generate thumbnail for images
-        if (file.type === 'jpeg' || file.type === 'png') {
+        // Generate renditions for images (RAW files from their embedded preview)
+        if (file.type === 'jpeg' || file.type === 'png' || file.type === 'raw') {
           try {
-            await this.generateThumbnail(file.storagePath, file.id);
+            metadata.renditions = await this.generateRenditions(file);
             if (metadata.processing) {
-              metadata.processing.thumbnailGenerated = true;
+              metadata.processing.thumbnailGenerated = metadata.renditions.some(r => r.name === 'thumbnail');
             }
-            // TODO: Update file record with thumbnail URL
           } catch (error) {
             metadata.processing?.processingErrors?.push(
-              `Thumbnail generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+              `Rendition generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`
             );
           }
         }
       }
 
+      // Ratings, labels and picks from XMP sidecars, copied to the paired RAW file
+      if (file.sidecarType === 'xmp') {
+        try {
+          metadata.xmp = await this.readXmp(file.storagePath);
+        } catch (error) {
+          metadata.processing?.processingErrors?.push(
+            `XMP parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+      }
+
       if (metadata.processing) {
         metadata.processing.processingTime = Date.now() - startTime;
       }
@@ -89,32 +119,69 @@ export class ProcessingService {
   }
 
   /**
-   * Generate thumbnail for image file
+   * Generate every configured rendition (size x format) of an image, stored
+   * under renditions/ in the storage base path
    */
-  async generateThumbnail(storagePath: string, fileId: string): Promise<string> {
-    const fs = await import('fs');
-    const path = await import('path');
-    
-    const inputPath = path.join('/data/files', storagePath);
-    const thumbnailDir = path.join('/data/thumbnails', path.dirname(storagePath));
-    const thumbnailPath = path.join(thumbnailDir, `${fileId}_thumb.jpg`);
+  async generateRenditions(file: FileModel): Promise<FileRendition[]> {
+    // Decode once, upright; every rendition is cloned from it
+    const source = await this.openRenditionSource(file);
+    const renditions: FileRendition[] = [];
 
-    // Ensure thumbnail directory exists
-    await fs.promises.mkdir(thumbnailDir, { recursive: true });
-
-    // Generate thumbnail using Sharp
-    await sharp(inputPath)
-      .resize(this.config.thumbnailSize, this.config.thumbnailSize, {
+    for (const spec of this.config.renditions) {
+      const resized = source.clone().resize(spec.size, spec.size, {
         fit: 'inside',
         withoutEnlargement: true,
-      })
-      .jpeg({
-        quality: this.config.thumbnailQuality,
-        progressive: true,
-      })
-      .toFile(thumbnailPath);
-
-    return thumbnailPath;
+      });
+
+      for (const format of this.config.renditionFormats) {
+        const storagePath = renditionStoragePath(file.storagePath, file.id, spec.name, format);
+        const outputPath = path.join(this.storageBasePath, storagePath);
+        await fs.promises.mkdir(path.dirname(outputPath), { recursive: true });
+
+        const info = await resized
+          .clone()
+          .toFormat(format, { quality: spec.quality, ...(format === 'jpeg' && { progressive: true }) })
+          .toFile(outputPath);
+
+        renditions.push({
+          name: spec.name,
+          format,
+          url: renditionUrl(file.id, spec.name, format),
+          storagePath,
+          width: info.width,
+          height: info.height,
+          size: info.size,
+        });
+      }
+    }
+
+    return renditions;
+  }
+
+  /**
+   * Image the renditions are made from: the file itself with its EXIF
+   * orientation applied, or for RAW files the embedded JPEG preview turned
+   * as the RAW's orientation says (previews are stored unrotated)
+   */
+  private async openRenditionSource(file: FileModel): Promise<sharp.Sharp> {
+    const inputPath = path.join(this.storageBasePath, file.storagePath);
+    if (file.type !== 'raw') {
+      return sharp(inputPath).rotate();
+    }
+
+    const preview = extractRawPreview(await fs.promises.readFile(inputPath));
+    if (!preview) {
+      throw new Error('No embedded preview found in RAW file');
+    }
+    return applyOrientation(sharp(preview.data), preview.orientation);
+  }
+
+  /**
+   * Parse the culling metadata of an XMP sidecar
+   */
+  async readXmp(storagePath: string): Promise<XmpMetadata> {
+    const xml = await fs.promises.readFile(path.join(this.storageBasePath, storagePath), 'utf8');
+    return parseXmp(xml);
   }
 
   /**
@@ -124,10 +191,7 @@ export class ProcessingService {
     exif?: FileMetadataDTO['exif'];
     technical?: FileMetadataDTO['technical'];
   }> {
-    const fs = await import('fs');
-    const path = await import('path');
-    
-    const inputPath = path.join('/data/files', storagePath);
+    const inputPath = path.join(this.storageBasePath, storagePath);
     
     try {
       // Read file buffer for EXIF extraction
@@ -155,6 +219,8 @@ export class ProcessingService {
         
         // Camera information
         if (tags.Make) {exif.camera = `${tags.Make} ${tags.Model ?? ''}`.trim();}
+        const serial = tags.SerialNumber ?? tags.CameraSerialNumber;
+        if (serial) {exif.cameraSerial = String(serial);}
         if (tags.LensModel) {exif.lens = tags.LensModel;}
         
         // Technical settings
@@ -167,9 +233,11 @@ export class ProcessingService {
         }
         if (tags.ISO) {exif.iso = tags.ISO;}
         
-        // Date taken
+        // Date taken (camera clock, read as UTC), to the fraction of a second
+        // so bursts keep their order
         if (tags.DateTimeOriginal) {
-          exif.dateTaken = new Date(tags.DateTimeOriginal * 1000).toISOString();
+          const subSeconds = Number(`0.${tags.SubSecTimeOriginal ?? ''}`) || 0;
+          exif.dateTaken = new Date((tags.DateTimeOriginal + subSeconds) * 1000).toISOString();
         }
 
         // GPS location
@@ -194,10 +262,7 @@ export class ProcessingService {
    */
   async validateFile(file: FileModel): Promise<boolean> {
     try {
-      const fs = await import('fs');
-      const path = await import('path');
-      
-      const filePath = path.join('/data/files', file.storagePath);
+      const filePath = path.join(this.storageBasePath, file.storagePath);
       const stats = await fs.promises.stat(filePath);
       
       // Basic validation
@@ -248,4 +313,20 @@ export class ProcessingService {
       failed: 0,
     };
   }
-}
\ No newline at end of file
+}
+
+// EXIF orientation (1-8) as sharp operations; without one, fall back to the
+// orientation recorded in the image itself
+function applyOrientation(image: sharp.Sharp, orientation: number | undefined): sharp.Sharp {
+  switch (orientation) {
+    case 1: return image;
+    case 2: return image.flop();
+    case 3: return image.rotate(180);
+    case 4: return image.flip();
+    case 5: return image.rotate(90).flip(); // sharp flips before rotating
+    case 6: return image.rotate(90);
+    case 7: return image.rotate(90).flop();
+    case 8: return image.rotate(270);
+    default: return image.rotate();
+  }
+}
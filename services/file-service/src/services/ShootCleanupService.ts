@@ -0,0 +1,59 @@
+/**
+ * Shoot Cleanup Service
+ * Removes a deleted shoot's files and archives (shoot deletion saga)
+ */
+
+import { FileService } from './FileService.js';
+import { TrashService } from './TrashService.js';
+import { ArchiveService } from './ArchiveService.js';
+import { EventEmitter } from './EventEmitter.js';
+
+export class ShootCleanupService {
+  constructor(
+    private readonly fileService: FileService,
+    private readonly trashService: TrashService,
+    private readonly archiveService: ArchiveService,
+    private readonly eventEmitter: EventEmitter
+  ) {}
+
+  /**
+   * Delete every archive and file of the shoot, the trash included, then
+   * report the outcome to shoot-service. A failure is reported rather than thrown so the shoot's
+   * deletion can be settled; files removed before it stay removed and a
+   * retried deletion picks up the rest.
+   */
+  async handleShootDeleted(shootId: string): Promise<void> {
+    try {
+      const archives = await this.archiveService.getArchivesByShootId(shootId);
+      for (const archive of archives) {
+        await this.archiveService.deleteArchive(archive.id);
+      }
+
+      // Files go through the trash, announcing their deletion on the way
+      const files = await this.fileService.getFilesByShootId(shootId);
+      for (const file of files) {
+        await this.fileService.deleteFile(file.id);
+      }
+      const trashed = await this.trashService.listTrash(shootId);
+      for (const file of trashed) {
+        await this.trashService.purgeFile(file.id);
+      }
+
+      await this.eventEmitter.emitShootCleanupReported({
+        shootId,
+        service: 'file-service',
+        success: true,
+        removed: { files: trashed.length, archives: archives.length },
+        timestamp: new Date().toISOString(),
+      });
+    } catch (error) {
+      await this.eventEmitter.emitShootCleanupReported({
+        shootId,
+        service: 'file-service',
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+}
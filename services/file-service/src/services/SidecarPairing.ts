@@ -0,0 +1,83 @@
+/**
+ * Sidecar Pairing
+ * Links sidecar/config files to the RAW file sharing their basename and
+ * carries the culling metadata of XMP sidecars over to that RAW file
+ */
+
+import { Model } from 'mongoose';
+import { FileModel, XmpMetadata } from '../shared/contracts/files.api.js';
+import { FileDocument, NOT_TRASHED, transformFileDocument } from '../shared/contracts/files.mongoose.js';
+import { sameBaseNamePattern } from '../shared/utils/file-types.js';
+
+export class SidecarPairing {
+  constructor(private readonly fileModel: Model<FileDocument>) {}
+
+  /**
+   * The shoot's most recent RAW file sharing the sidecar's basename
+   */
+  async findPairedRaw(shootId: string, filename: string): Promise<string | undefined> {
+    const raw = await this.fileModel.findOne(
+      { shootId, type: 'raw', filename: sameBaseNamePattern(filename), ...NOT_TRASHED },
+      null,
+      { sort: { createdAt: -1 } }
+    );
+    return raw ? String(raw._id) : undefined;
+  }
+
+  /**
+   * Link sidecars uploaded before their RAW file, which takes over the
+   * culling metadata of an XMP sidecar already parsed
+   */
+  async adoptSidecars(raw: FileModel): Promise<void> {
+    await this.fileModel.updateMany(
+      {
+        shootId: raw.shootId,
+        type: { $in: ['sidecar', 'config'] },
+        parentFileId: { $exists: false },
+        filename: sameBaseNamePattern(raw.filename),
+      },
+      { $set: { parentFileId: raw.id } }
+    );
+
+    const xmpSidecar = await this.fileModel.findOne(
+      { parentFileId: raw.id, sidecarType: 'xmp', 'metadata.xmp': { $exists: true } },
+      null,
+      { sort: { createdAt: -1 } }
+    );
+    const xmp = xmpSidecar?.metadata?.xmp;
+    if (xmp) {
+      await this.fileModel.updateOne({ _id: raw.id }, { 'metadata.xmp': xmp });
+    }
+  }
+
+  /**
+   * Copy an XMP sidecar's culling metadata to the RAW file it is paired with.
+   * The pairing is read afresh: the RAW file may have arrived during parsing.
+   */
+  async shareXmp(sidecarId: string, xmp: XmpMetadata): Promise<void> {
+    const sidecar = await this.fileModel.findById(sidecarId);
+    if (sidecar?.parentFileId) {
+      await this.fileModel.updateOne({ _id: sidecar.parentFileId }, { 'metadata.xmp': xmp });
+    }
+  }
+
+  /**
+   * Get the sidecars paired to the given RAW files
+   */
+  async getSidecars(parentFileIds: string[]): Promise<FileModel[]> {
+    const docs = await this.fileModel
+      .find({ parentFileId: { $in: parentFileIds }, ...NOT_TRASHED })
+      .sort({ filename: 1 })
+      .exec();
+
+    return docs.map(transformFileDocument);
+  }
+
+  /**
+   * Unlink the sidecars of a purged RAW file so they can pair with a
+   * re-uploaded one
+   */
+  async unlinkSidecars(rawFileId: string): Promise<void> {
+    await this.fileModel.updateMany({ parentFileId: rawFileId }, { $unset: { parentFileId: 1 } });
+  }
+}
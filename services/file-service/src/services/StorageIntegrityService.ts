@@ -0,0 +1,297 @@
+/**
+ * Storage Integrity Service
+ * Scrubs storage against the file records: every stored file is checked for
+ * existence, size and (when its hash is known) content, and every stored
+ * object nothing points at is reported as an orphan. Orphans can then be
+ * quarantined: moved aside, never deleted.
+ */
+
+import path from 'path';
+import { Model } from 'mongoose';
+import { StorageService } from './StorageService.js';
+import {
+  IntegrityIssue,
+  IntegrityReport,
+  OrphanObject,
+  QuarantineResult,
+  StorageTier
+} from '../shared/contracts/files.api.js';
+import {
+  BlobDocument,
+  FileDocument,
+  IntegrityReportDocument,
+  transformIntegrityReportDocument
+} from '../shared/contracts/files.mongoose.js';
+
+export interface IntegrityConfig {
+  verifyHashes: boolean; // Re-hash local files with a recorded content hash
+  orphanGraceHours: number; // Newer objects may belong to uploads in progress
+  maxReportedEntries: number; // Of each list in a report; counts are complete
+}
+
+// Quarantined orphans go under quarantine/<reportId>/ on their tier
+const QUARANTINE_PREFIX = 'quarantine';
+
+// Stored objects that are not files: partial uploads, the watermark cache,
+// quarantine, and archives when they share the base path
+const UNTRACKED_PREFIXES = ['uploads/', 'watermarks/', `${QUARANTINE_PREFIX}/`, 'archives/'];
+
+export class ScrubInProgressError extends Error {
+  constructor(message = 'A storage scrub is already running') {
+    super(message);
+    this.name = 'ScrubInProgressError';
+  }
+}
+
+export class IntegrityReportNotFoundError extends Error {
+  constructor(message = 'No completed storage scrub to act on') {
+    super(message);
+    this.name = 'IntegrityReportNotFoundError';
+  }
+}
+
+interface StoredGroup {
+  storagePath: string;
+  tier: StorageTier;
+  size: number;
+  contentHash?: string;
+  fileIds: string[];
+}
+
+interface ScrubbedFile {
+  _id: unknown;
+  storagePath: string;
+  storageTier?: StorageTier;
+  size: number;
+  contentHash?: string;
+  renditions?: { storagePath: string }[];
+}
+
+export class StorageIntegrityService {
+  private running?: Promise<IntegrityReport>;
+
+  constructor(
+    private readonly fileModel: Model<FileDocument>,
+    private readonly blobModel: Model<BlobDocument>,
+    private readonly reportModel: Model<IntegrityReportDocument>,
+    private readonly storageService: StorageService,
+    private readonly config: IntegrityConfig
+  ) {}
+
+  /**
+   * Start a scrub in the background; resolves with its running report.
+   * Throws ScrubInProgressError while another one runs.
+   */
+  async startScrub(): Promise<IntegrityReport> {
+    const { started, finished } = this.begin();
+    finished.catch(() => undefined); // Failures are recorded on the report
+    return started;
+  }
+
+  /**
+   * Scrub storage and resolve with the finished report (maintenance task)
+   */
+  async runScrub(): Promise<IntegrityReport> {
+    return this.begin().finished;
+  }
+
+  /**
+   * The newest report, running or not
+   */
+  async getLatestReport(): Promise<IntegrityReport | null> {
+    const doc = await this.reportModel.findOne().sort({ startedAt: -1 });
+    return doc ? transformIntegrityReportDocument(doc) : null;
+  }
+
+  /**
+   * Move the orphans of the latest completed scrub to quarantine. Each one is
+   * checked again first: objects referenced, changed or gone since the scrub
+   * are skipped.
+   */
+  async quarantineOrphans(): Promise<QuarantineResult> {
+    if (this.running) {
+      throw new ScrubInProgressError();
+    }
+    const doc = await this.reportModel.findOne({ status: 'completed' }).sort({ startedAt: -1 });
+    if (!doc) {
+      throw new IntegrityReportNotFoundError();
+    }
+
+    const reportId = String(doc._id);
+    const result: QuarantineResult = { reportId, quarantined: [], skipped: [] };
+    for (const orphan of doc.orphans) {
+      if (orphan.quarantinedTo) {
+        continue;
+      }
+      const { storagePath, tier } = orphan;
+      const reason = await this.reasonToKeep(orphan);
+      if (reason) {
+        result.skipped.push({ storagePath, tier, reason });
+        continue;
+      }
+
+      const quarantinedTo = path.posix.join(QUARANTINE_PREFIX, reportId, storagePath);
+      try {
+        await this.storageService.moveFile(storagePath, quarantinedTo, tier);
+      } catch (error) {
+        result.skipped.push({ storagePath, tier, reason: error instanceof Error ? error.message : String(error) });
+        continue;
+      }
+      orphan.quarantinedTo = quarantinedTo;
+      result.quarantined.push({
+        storagePath, tier, size: orphan.size, modifiedAt: orphan.modifiedAt.toISOString(), quarantinedTo,
+      });
+    }
+
+    doc.quarantinedAt = new Date();
+    doc.markModified('orphans');
+    await doc.save();
+    return result;
+  }
+
+  private begin(): { started: Promise<IntegrityReport>; finished: Promise<IntegrityReport> } {
+    if (this.running) {
+      const refused = Promise.reject(new ScrubInProgressError());
+      return { started: refused, finished: refused };
+    }
+
+    const doc = new this.reportModel({ status: 'running', startedAt: new Date() });
+    const saved = doc.save();
+    const finished = saved
+      .then(() => this.scrub(doc))
+      .finally(() => {
+        this.running = undefined;
+      });
+    this.running = finished;
+    return { started: saved.then(() => transformIntegrityReportDocument(doc)), finished };
+  }
+
+  private async scrub(doc: IntegrityReportDocument): Promise<IntegrityReport> {
+    try {
+      const referenced = await this.checkFiles(doc);
+      await this.findOrphans(doc, referenced);
+      doc.status = 'completed';
+    } catch (error) {
+      doc.status = 'failed';
+      doc.error = error instanceof Error ? error.message : String(error);
+    }
+
+    doc.finishedAt = new Date();
+    await doc.save();
+    return transformIntegrityReportDocument(doc);
+  }
+
+  // Check each stored file once (files sharing content share it), returning
+  // the storage paths records point at on each tier
+  private async checkFiles(doc: IntegrityReportDocument): Promise<Record<StorageTier, Set<string>>> {
+    const referenced = { hot: new Set<string>(), cold: new Set<string>() };
+    const files = this.fileModel
+      .find({}, { storagePath: 1, storageTier: 1, size: 1, contentHash: 1, 'renditions.storagePath': 1 })
+      .sort({ storagePath: 1 })
+      .lean<ScrubbedFile[]>();
+
+    let group: StoredGroup | undefined;
+    for await (const file of files) {
+      for (const rendition of file.renditions ?? []) {
+        referenced.hot.add(rendition.storagePath);
+      }
+      if (group?.storagePath === file.storagePath) {
+        group.fileIds.push(String(file._id));
+        continue;
+      }
+      if (group) {
+        await this.checkStored(doc, group);
+      }
+      const tier = file.storageTier ?? 'hot';
+      referenced[tier].add(file.storagePath);
+      group = {
+        storagePath: file.storagePath,
+        tier,
+        size: file.size,
+        contentHash: file.contentHash,
+        fileIds: [String(file._id)],
+      };
+    }
+    if (group) {
+      await this.checkStored(doc, group);
+    }
+
+    // Content being stored for an upload has its record before its file
+    for (const storagePath of await this.blobModel.distinct('storagePath')) {
+      referenced.hot.add(storagePath);
+    }
+    return referenced;
+  }
+
+  private async checkStored(doc: IntegrityReportDocument, group: StoredGroup): Promise<void> {
+    const { storagePath, tier, size: expectedSize, fileIds } = group;
+    const stats = await this.storageService.getFileStats(storagePath, tier);
+    doc.checkedFiles += 1;
+
+    let issue: IntegrityIssue | undefined;
+    if (!stats.exists) {
+      issue = { type: 'missing', storagePath, tier, fileIds, expectedSize };
+    } else if (stats.size !== expectedSize) {
+      issue = { type: 'size_mismatch', storagePath, tier, fileIds, expectedSize, actualSize: stats.size };
+    } else if (this.config.verifyHashes && tier === 'hot' && group.contentHash) {
+      // Cold files aren't read back: that is what makes the tier cheap
+      const hash = (await this.storageService.hashFile(storagePath)).toString('hex');
+      doc.hashesVerified += 1;
+      if (hash !== group.contentHash) {
+        issue = { type: 'hash_mismatch', storagePath, tier, fileIds, expectedSize, actualSize: stats.size };
+      }
+    }
+
+    if (issue) {
+      doc.issueCount += 1;
+      if (doc.issues.length < this.config.maxReportedEntries) {
+        doc.issues.push(issue);
+      }
+    }
+  }
+
+  private async findOrphans(doc: IntegrityReportDocument, referenced: Record<StorageTier, Set<string>>): Promise<void> {
+    const tiers: StorageTier[] = this.storageService.hasColdTier ? ['hot', 'cold'] : ['hot'];
+    const settledBefore = Date.now() - this.config.orphanGraceHours * 60 * 60 * 1000;
+
+    for (const tier of tiers) {
+      for await (const stored of this.storageService.listStoredFiles(tier)) {
+        if (
+          referenced[tier].has(stored.key)
+          || UNTRACKED_PREFIXES.some(prefix => stored.key.startsWith(prefix))
+          || stored.modifiedAt.getTime() > settledBefore
+        ) {
+          continue;
+        }
+
+        doc.orphanCount += 1;
+        doc.orphanBytes += stored.size;
+        if (doc.orphans.length < this.config.maxReportedEntries) {
+          doc.orphans.push({ storagePath: stored.key, tier, size: stored.size, modifiedAt: stored.modifiedAt });
+        }
+      }
+    }
+  }
+
+  // Why an orphan of the report must stay where it is, if it must
+  private async reasonToKeep(orphan: Omit<OrphanObject, 'modifiedAt'>): Promise<string | null> {
+    const { storagePath, tier } = orphan;
+    const fileReference = tier === 'cold'
+      ? { storagePath, storageTier: 'cold' }
+      : { $or: [{ storagePath, storageTier: { $ne: 'cold' } }, { 'renditions.storagePath': storagePath }] };
+    const referenced = await this.fileModel.exists(fileReference)
+      ?? (tier === 'hot' ? await this.blobModel.exists({ storagePath }) : null);
+    if (referenced) {
+      return 'Referenced since the scrub';
+    }
+
+    const stats = await this.storageService.getFileStats(storagePath, tier);
+    if (!stats.exists) {
+      return 'No longer stored';
+    }
+    if (stats.size !== orphan.size) {
+      return 'Changed since the scrub';
+    }
+    return null;
+  }
+}
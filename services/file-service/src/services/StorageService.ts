@@ -1,16 +1,21 @@
 /**
  * Storage Service
- * Implements ADR-027: Direct Filesystem + On-Demand GridFS chunks
+ * Implements ADR-027: Direct Filesystem + On-Demand GridFS chunks, with an
+ * optional cold tier (any storage driver) for the originals of older shoots
  */
 
 /* global NodeJS */
 
 import fs from 'fs/promises';
 import path from 'path';
+import { createHash } from 'crypto';
 import { createReadStream, createWriteStream } from 'fs';
 import { pipeline } from 'stream/promises';
 import { Model } from 'mongoose';
-import { ChunkDocument } from '../shared/contracts/files.mongoose.js';
+import { BlobDocument, ChunkDocument } from '../shared/contracts/files.mongoose.js';
+import { StorageTier } from '../shared/contracts/files.api.js';
+import { StorageDriver, StorageRange, StoredObject } from './storage/StorageDriver.js';
+import { FilesystemStorageDriver } from './storage/FilesystemStorageDriver.js';
 
 export interface StorageConfig {
   basePath: string;
@@ -32,13 +37,36 @@ export interface ChunkInfo {
   data?: Buffer;
 }
 
+export interface BlobReference {
+  storagePath: string;
+  written: boolean; // false when the content was already stored and is now shared
+}
+
 export class StorageService {
   private readonly config: StorageConfig;
   private readonly chunkModel: Model<ChunkDocument>;
-
-  constructor(config: StorageConfig, chunkModel: Model<ChunkDocument>) {
+  private readonly blobModel: Model<BlobDocument>;
+  private readonly hot: FilesystemStorageDriver;
+  private readonly cold?: StorageDriver;
+
+  constructor(
+    config: StorageConfig,
+    chunkModel: Model<ChunkDocument>,
+    blobModel: Model<BlobDocument>,
+    coldDriver?: StorageDriver
+  ) {
     this.config = config;
     this.chunkModel = chunkModel;
+    this.blobModel = blobModel;
+    this.hot = new FilesystemStorageDriver(config.basePath);
+    this.cold = coldDriver;
+  }
+
+  /**
+   * Whether a cold tier is configured for this deployment
+   */
+  get hasColdTier(): boolean {
+    return this.cold !== undefined;
   }
 
   /**
@@ -46,14 +74,7 @@ export class StorageService {
    */
   async storeFile(fileId: string, data: Buffer, originalName: string): Promise<string> {
     const storagePath = this.generateStoragePath(fileId, originalName);
-    const fullPath = path.join(this.config.basePath, storagePath);
-    
-    // Ensure directory exists
-    await fs.mkdir(path.dirname(fullPath), { recursive: true });
-    
-    // Write file directly to filesystem
-    await fs.writeFile(fullPath, data);
-    
+    await this.hot.put(storagePath, data);
     return storagePath;
   }
 
@@ -62,36 +83,158 @@ export class StorageService {
    */
   async storeFileFromStream(fileId: string, stream: NodeJS.ReadableStream, originalName: string): Promise<string> {
     const storagePath = this.generateStoragePath(fileId, originalName);
+    await this.hot.put(storagePath, stream);
+    return storagePath;
+  }
+
+  /**
+   * Write a stream into a file from a byte offset (resumable uploads): the
+   * file is created at offset 0 and written in place after that
+   */
+  async writeStreamAt(storagePath: string, stream: NodeJS.ReadableStream, start: number): Promise<void> {
     const fullPath = path.join(this.config.basePath, storagePath);
-    
-    // Ensure directory exists
     await fs.mkdir(path.dirname(fullPath), { recursive: true });
-    
-    // Create write stream and pipe
-    const writeStream = createWriteStream(fullPath);
+
+    const writeStream = createWriteStream(fullPath, { flags: start === 0 ? 'w' : 'r+', start });
     await pipeline(stream, writeStream);
-    
-    return storagePath;
   }
 
   /**
-   * Get file stats (required for Content-Length per ADR-026)
+   * Cut a file back to the given length (e.g. to drop a rejected upload chunk)
    */
-  async getFileStats(storagePath: string): Promise<FileStats> {
+  async truncateFile(storagePath: string, length: number): Promise<void> {
+    await fs.truncate(path.join(this.config.basePath, storagePath), length);
+  }
+
+  /**
+   * Move a file written elsewhere under the base path (e.g. a completed
+   * upload) into the storage layout
+   */
+  async moveIntoStorage(sourcePath: string, fileId: string, originalName: string): Promise<string> {
+    const storagePath = this.generateStoragePath(fileId, originalName);
     const fullPath = path.join(this.config.basePath, storagePath);
-    
+
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.rename(path.join(this.config.basePath, sourcePath), fullPath);
+
+    return storagePath;
+  }
+
+  /**
+   * Hash a stored file's content (SHA-256 unless another algorithm is given)
+   */
+  async hashFile(storagePath: string, algorithm = 'sha256'): Promise<Buffer> {
+    const hash = createHash(algorithm);
+    await pipeline(createReadStream(path.join(this.config.basePath, storagePath)), hash);
+    return hash.digest();
+  }
+
+  /**
+   * Take a reference on the stored copy of some content (deduplication).
+   * Content not stored yet is written with `write`, which returns its path.
+   */
+  async acquireBlob(contentHash: string, write: () => Promise<string>): Promise<BlobReference> {
+    // Taking the reference and creating the record is one step, so it cannot
+    // fall between the last release's decrement and its delete
+    const blob = await this.blobModel.findOneAndUpdate(
+      { _id: contentHash },
+      { $inc: { refCount: 1 } },
+      { upsert: true, new: true }
+    );
+    if (blob.storagePath) {
+      return { storagePath: blob.storagePath, written: false };
+    }
+
+    let storagePath: string;
     try {
-      const stats = await fs.stat(fullPath);
-      return {
-        size: stats.size,
-        exists: true,
-      };
-    } catch {
-      return {
-        size: 0,
-        exists: false,
-      };
+      storagePath = await write();
+    } catch (error) {
+      await this.releaseBlob(contentHash);
+      throw error;
     }
+
+    const recorded = await this.blobModel.updateOne(
+      { _id: contentHash, storagePath: { $exists: false } },
+      { $set: { storagePath } }
+    );
+    if (recorded.modifiedCount > 0) {
+      return { storagePath, written: true };
+    }
+
+    // The same content was stored concurrently: share that copy instead
+    const stored = await this.blobModel.findById(contentHash);
+    if (!stored?.storagePath) {
+      throw new Error(`Shared content ${contentHash} has no stored copy`);
+    }
+    await this.deleteFile(storagePath);
+    return { storagePath: stored.storagePath, written: true };
+  }
+
+  /**
+   * Drop a reference taken with acquireBlob; the last one deletes the bytes.
+   * Returns whether the bytes were deleted.
+   */
+  async releaseBlob(contentHash: string, tier: StorageTier = 'hot'): Promise<boolean> {
+    const blob = await this.blobModel.findByIdAndUpdate(contentHash, { $inc: { refCount: -1 } }, { new: true });
+    if (!blob || blob.refCount > 0) {
+      return false;
+    }
+
+    // Unless the content was referenced again in the meantime
+    const removed = await this.blobModel.deleteOne({ _id: contentHash, refCount: 0 });
+    if (removed.deletedCount === 0) {
+      return false;
+    }
+    // A reference given up before its content was written has no bytes
+    if (blob.storagePath) {
+      await this.deleteFile(blob.storagePath, tier);
+    }
+    return true;
+  }
+
+  /**
+   * Get file stats (required for Content-Length per ADR-026)
+   */
+  async getFileStats(storagePath: string, tier: StorageTier = 'hot'): Promise<FileStats> {
+    const stored = await this.driver(tier).stat(storagePath);
+    return stored ? { size: stored.size, exists: true } : { size: 0, exists: false };
+  }
+
+  /**
+   * Open a stored file on either tier
+   */
+  async openReadStream(storagePath: string, tier: StorageTier, options?: StorageRange): Promise<NodeJS.ReadableStream> {
+    return this.driver(tier).stream(storagePath, options);
+  }
+
+  /**
+   * Copy a file to the other tier, checking the copy is complete. The source
+   * stays until it is deleted, once records point at the copy.
+   */
+  async copyToTier(storagePath: string, tier: StorageTier): Promise<void> {
+    await this.copy(tier === 'cold' ? 'hot' : 'cold', tier, storagePath, storagePath);
+  }
+
+  /**
+   * Move a stored file to another path on the same tier (e.g. into quarantine)
+   */
+  async moveFile(storagePath: string, newPath: string, tier: StorageTier): Promise<void> {
+    if (tier === 'hot') {
+      const fullPath = path.join(this.config.basePath, newPath);
+      await fs.mkdir(path.dirname(fullPath), { recursive: true });
+      await fs.rename(path.join(this.config.basePath, storagePath), fullPath);
+      return;
+    }
+
+    await this.copy(tier, tier, storagePath, newPath);
+    await this.driver(tier).delete(storagePath);
+  }
+
+  /**
+   * Everything stored on a tier, optionally under a prefix
+   */
+  listStoredFiles(tier: StorageTier, prefix?: string): AsyncIterable<StoredObject> {
+    return this.driver(tier).list(prefix);
   }
 
   /**
@@ -254,18 +397,24 @@ export class StorageService {
   }
 
   /**
-   * Delete file from filesystem
+   * Delete file from storage
    */
-  async deleteFile(storagePath: string): Promise<void> {
-    const fullPath = path.join(this.config.basePath, storagePath);
+  async deleteFile(storagePath: string, tier: StorageTier = 'hot'): Promise<void> {
     try {
-      await fs.unlink(fullPath);
+      await this.driver(tier).delete(storagePath);
     } catch (error) {
       // File might not exist, which is okay for deletion
       console.warn(`Failed to delete file ${storagePath}:`, error);
     }
   }
 
+  /**
+   * Delete a directory and everything in it; a missing one is fine
+   */
+  async deleteDirectory(storagePath: string): Promise<void> {
+    await fs.rm(path.join(this.config.basePath, storagePath), { recursive: true, force: true });
+  }
+
   /**
    * Delete chunks for file (cleanup)
    */
@@ -283,6 +432,33 @@ export class StorageService {
     return result.deletedCount || 0;
   }
 
+  // Copy and check the copy is complete; a partial one is removed
+  private async copy(fromTier: StorageTier, toTier: StorageTier, key: string, toKey: string): Promise<void> {
+    const from = this.driver(fromTier);
+    const to = this.driver(toTier);
+    const source = await from.stat(key);
+    if (!source) {
+      throw new Error(`File ${key} not found on storage`);
+    }
+
+    await to.put(toKey, await from.stream(key));
+    const copy = await to.stat(toKey);
+    if (copy?.size !== source.size) {
+      await to.delete(toKey);
+      throw new Error(`Copy of ${key} to ${toTier} storage is incomplete`);
+    }
+  }
+
+  private driver(tier: StorageTier): StorageDriver {
+    if (tier === 'hot') {
+      return this.hot;
+    }
+    if (!this.cold) {
+      throw new Error('No cold storage is configured');
+    }
+    return this.cold;
+  }
+
   /**
    * Generate storage path following ADR-027 structure
    */
@@ -0,0 +1,82 @@
+/**
+ * Storage Tiering Service
+ * Moves the originals of shoots nobody has added to for a while from local
+ * storage to the cold tier (e.g. an S3 bucket). Renditions stay local, so
+ * galleries keep serving from fast storage.
+ */
+
+import { Model } from 'mongoose';
+import { StorageService } from './StorageService.js';
+import { FileDocument } from '../shared/contracts/files.mongoose.js';
+
+export interface TieringConfig {
+  tierAfterDays: number; // Since the newest file of the shoot
+}
+
+export interface TieringResult {
+  shoots: number;
+  files: number; // Stored files moved; files sharing content count once
+}
+
+export class StorageTieringService {
+  constructor(
+    private readonly fileModel: Model<FileDocument>,
+    private readonly storageService: StorageService,
+    private readonly config: TieringConfig
+  ) {}
+
+  /**
+   * Shoots whose newest file is older than tierAfterDays and that still have
+   * originals on local storage
+   */
+  async findShootsToTier(now = new Date()): Promise<string[]> {
+    const cutoff = new Date(now.getTime() - this.config.tierAfterDays * 24 * 60 * 60 * 1000);
+    const shoots = await this.fileModel.aggregate<{ _id: string }>([
+      {
+        $group: {
+          _id: '$shootId',
+          newest: { $max: '$createdAt' },
+          hot: { $sum: { $cond: [{ $eq: ['$storageTier', 'cold'] }, 0, 1] } },
+        },
+      },
+      { $match: { newest: { $lt: cutoff }, hot: { $gt: 0 } } },
+    ]);
+    return shoots.map(shoot => shoot._id);
+  }
+
+  /**
+   * Move the originals of one shoot to the cold tier. Each is copied first
+   * and only deleted locally once its records point at the copy, so a failure
+   * part way leaves every file readable; the next run picks up the rest.
+   * Content shared with other shoots moves for all of them.
+   */
+  async tierShoot(shootId: string): Promise<number> {
+    const storagePaths = await this.fileModel.distinct('storagePath', {
+      shootId,
+      storageTier: { $ne: 'cold' },
+    });
+
+    for (const storagePath of storagePaths) {
+      await this.storageService.copyToTier(storagePath, 'cold');
+      await this.fileModel.updateMany({ storagePath }, { storageTier: 'cold' });
+      await this.storageService.deleteFile(storagePath, 'hot');
+    }
+    return storagePaths.length;
+  }
+
+  /**
+   * Tier every shoot that is due (maintenance task); nothing without a cold tier
+   */
+  async tierOldShoots(now = new Date()): Promise<TieringResult> {
+    if (!this.storageService.hasColdTier) {
+      return { shoots: 0, files: 0 };
+    }
+
+    const shootIds = await this.findShootsToTier(now);
+    let files = 0;
+    for (const shootId of shootIds) {
+      files += await this.tierShoot(shootId);
+    }
+    return { shoots: shootIds.length, files };
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Trash Service
+ * Deleted files go to the trash first (FileService.deleteFile): they drop out
+ * of listings, archives and downloads but keep their bytes, so a mis-click
+ * while culling can be undone. Files are purged for good from the trash,
+ * on request or once the retention period is over.
+ */
+
+import { Model } from 'mongoose';
+import { StorageService } from './StorageService.js';
+import { ProcessingQueue } from './ProcessingQueue.js';
+import { SidecarPairing } from './SidecarPairing.js';
+import { FileModel } from '../shared/contracts/files.api.js';
+import { FileDocument, transformFileDocument } from '../shared/contracts/files.mongoose.js';
+import { watermarkCacheDir } from '../shared/utils/watermark.js';
+
+export interface TrashConfig {
+  retentionDays: number; // Since the file went to the trash
+}
+
+export class TrashService {
+  private readonly pairing: SidecarPairing;
+
+  constructor(
+    private readonly fileModel: Model<FileDocument>,
+    private readonly storageService: StorageService,
+    private readonly processingQueue: ProcessingQueue,
+    private readonly config: TrashConfig
+  ) {
+    this.pairing = new SidecarPairing(fileModel);
+  }
+
+  /**
+   * The shoot's files in the trash, most recently deleted first
+   */
+  async listTrash(shootId: string): Promise<FileModel[]> {
+    const docs = await this.fileModel
+      .find({ shootId, deletedAt: { $exists: true } })
+      .sort({ deletedAt: -1 })
+      .exec();
+
+    return docs.map(transformFileDocument);
+  }
+
+  /**
+   * Purge the files kept in the trash longer than retentionDays, returning
+   * how many went
+   */
+  async purgeExpiredTrash(now = new Date()): Promise<number> {
+    const cutoff = new Date(now.getTime() - this.config.retentionDays * 24 * 60 * 60 * 1000);
+    const docs = await this.fileModel.find({ deletedAt: { $lt: cutoff } }, { _id: 1 }).exec();
+
+    let purged = 0;
+    for (const doc of docs) {
+      purged += (await this.purgeFile(String(doc._id))) ? 1 : 0;
+    }
+    return purged;
+  }
+
+  /**
+   * Delete a file in the trash for good and cleanup storage. False unless the
+   * file is in the trash; file.deleted went out when it was moved there.
+   */
+  async purgeFile(fileId: string): Promise<boolean> {
+    const doc = await this.fileModel.findById(fileId);
+    if (!doc?.deletedAt) {
+      return false;
+    }
+
+    const fileModel = transformFileDocument(doc);
+
+    // Delete from storage, renditions and watermarked copies included;
+    // content shared with other files stays until the last of them goes
+    if (fileModel.contentHash) {
+      await this.storageService.releaseBlob(fileModel.contentHash, fileModel.storageTier);
+    } else {
+      await this.storageService.deleteFile(fileModel.storagePath, fileModel.storageTier);
+    }
+    for (const rendition of fileModel.renditions ?? []) {
+      await this.storageService.deleteFile(rendition.storagePath);
+    }
+    await this.storageService.deleteDirectory(watermarkCacheDir(fileId));
+
+    // Delete chunks if they exist
+    await this.storageService.deleteChunks(fileId);
+    if (fileModel.type === 'raw') {
+      await this.pairing.unlinkSidecars(fileId);
+    }
+    await this.processingQueue.remove(fileId);
+
+    // Delete from database
+    await this.fileModel.deleteOne({ _id: fileId });
+    return true;
+  }
+}
@@ -0,0 +1,292 @@
+/**
+ * Upload Service
+ * Resumable (tus) uploads: chunks are streamed into a part file and the file
+ * is registered only once every byte has arrived
+ */
+
+/* global NodeJS, BufferEncoding */
+
+import { createHash, Hash } from 'crypto';
+import path from 'path';
+import { Readable, Transform, TransformCallback } from 'stream';
+import { pipeline } from 'stream/promises';
+import { Model } from 'mongoose';
+import { StorageService } from './StorageService.js';
+import { FileService } from './FileService.js';
+import { FileModel } from '../shared/contracts/files.api.js';
+import { ResumableUpload } from '../shared/contracts/files.dto.js';
+import {
+  ResumableUploadDocument,
+  transformResumableUploadDocument
+} from '../shared/contracts/files.mongoose.js';
+import { generateId } from '../shared/utils/id.js';
+import { TusChecksum, parseUploadChecksum } from '../shared/utils/tus.js';
+
+export interface UploadConfig {
+  maxSize: number;
+  expirationHours: number; // Counted from the last received chunk
+}
+
+export interface CreateUploadData {
+  length: number;
+  filename: string;
+  mimeType: string;
+  shootId: string;
+  tags?: string[];
+  checksum?: string; // Whole-file checksum, "<algorithm> <base64 digest>"
+}
+
+export interface UploadResult {
+  upload: ResumableUpload;
+  file?: FileModel; // Set once the upload is complete
+}
+
+export class UploadNotFoundError extends Error {
+  constructor(message = 'Upload not found') {
+    super(message);
+    this.name = 'UploadNotFoundError';
+  }
+}
+
+export class UploadOffsetMismatchError extends Error {
+  constructor(readonly expectedOffset: number) {
+    super(`Upload-Offset does not match the upload's current offset ${expectedOffset}`);
+    this.name = 'UploadOffsetMismatchError';
+  }
+}
+
+export class UploadBusyError extends Error {
+  constructor(message = 'Upload is already receiving data') {
+    super(message);
+    this.name = 'UploadBusyError';
+  }
+}
+
+export class UploadTooLargeError extends Error {
+  constructor(message = 'Upload exceeds its declared length or the maximum upload size') {
+    super(message);
+    this.name = 'UploadTooLargeError';
+  }
+}
+
+export class UploadChecksumMismatchError extends Error {
+  constructor(message = 'Checksum does not match the received data') {
+    super(message);
+    this.name = 'UploadChecksumMismatchError';
+  }
+}
+
+// Passes a chunk through, counting and hashing it and refusing more than the
+// upload has left
+class ChunkMeter extends Transform {
+  bytes = 0;
+  private readonly hash?: Hash;
+
+  constructor(private readonly remaining: number, algorithm?: string) {
+    super();
+    this.hash = algorithm ? createHash(algorithm) : undefined;
+  }
+
+  override _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.bytes += chunk.length;
+    if (this.bytes > this.remaining) {
+      callback(new UploadTooLargeError());
+      return;
+    }
+    this.hash?.update(chunk);
+    callback(null, chunk);
+  }
+
+  digest(): string | undefined {
+    return this.hash?.digest('base64');
+  }
+}
+
+export class UploadService {
+  // Uploads currently receiving a chunk; tus allows one PATCH at a time
+  private readonly receiving = new Set<string>();
+
+  constructor(
+    private readonly uploadModel: Model<ResumableUploadDocument>,
+    private readonly storageService: StorageService,
+    private readonly fileService: FileService,
+    private readonly config: UploadConfig
+  ) {}
+
+  /**
+   * Start an upload with an empty part file. A zero-length upload is complete
+   * straight away.
+   */
+  async createUpload(data: CreateUploadData): Promise<UploadResult> {
+    if (data.length > this.config.maxSize) {
+      throw new UploadTooLargeError(`Upload exceeds the maximum upload size of ${this.config.maxSize} bytes`);
+    }
+
+    const uploadId = generateId();
+    const partPath = path.join('uploads', `${uploadId}.part`);
+    await this.storageService.writeStreamAt(partPath, Readable.from([]), 0);
+
+    const doc = await new this.uploadModel({
+      _id: uploadId,
+      ...data,
+      offset: 0,
+      partPath,
+      expiresAt: this.expiresAt(),
+    }).save();
+    const upload = transformResumableUploadDocument(doc);
+
+    return data.length === 0 ? this.completeUpload(upload) : { upload };
+  }
+
+  /**
+   * Get an upload that has not expired
+   */
+  async getUpload(uploadId: string): Promise<ResumableUpload | null> {
+    const doc = await this.uploadModel.findOne({ _id: uploadId, expiresAt: { $gt: new Date() } });
+    return doc ? transformResumableUploadDocument(doc) : null;
+  }
+
+  /**
+   * Append a chunk at the given offset. With a checksum the chunk is kept
+   * only if it matches; without one, whatever arrived before an interrupted
+   * request is kept so the client can resume from there.
+   */
+  async appendChunk(
+    uploadId: string,
+    offset: number,
+    stream: NodeJS.ReadableStream,
+    checksum?: TusChecksum
+  ): Promise<UploadResult> {
+    if (this.receiving.has(uploadId)) {
+      throw new UploadBusyError();
+    }
+
+    this.receiving.add(uploadId);
+    try {
+      const upload = await this.getUpload(uploadId);
+      if (!upload) {
+        throw new UploadNotFoundError();
+      }
+      if (offset !== upload.offset || upload.fileId) {
+        throw new UploadOffsetMismatchError(upload.offset);
+      }
+
+      const meter = new ChunkMeter(upload.length - offset, checksum?.algorithm);
+      try {
+        await Promise.all([
+          pipeline(stream, meter),
+          this.storageService.writeStreamAt(upload.partPath, meter, offset),
+        ]);
+      } catch (error) {
+        await this.keepReceivedBytes(upload, checksum === undefined && !(error instanceof UploadTooLargeError));
+        throw error;
+      }
+
+      if (checksum && meter.digest() !== checksum.digest) {
+        await this.storageService.truncateFile(upload.partPath, offset);
+        throw new UploadChecksumMismatchError();
+      }
+
+      const updated = await this.updateOffset(uploadId, offset + meter.bytes);
+      return updated.offset === updated.length ? await this.completeUpload(updated) : { upload: updated };
+    } finally {
+      this.receiving.delete(uploadId);
+    }
+  }
+
+  /**
+   * Abort an upload and drop what was received (tus termination)
+   */
+  async terminateUpload(uploadId: string): Promise<boolean> {
+    const doc = await this.uploadModel.findByIdAndDelete(uploadId);
+    if (!doc) {
+      return false;
+    }
+    if (!doc.fileId) {
+      await this.storageService.deleteFile(doc.partPath);
+    }
+    return true;
+  }
+
+  /**
+   * Remove expired uploads and their part files
+   */
+  async cleanupExpiredUploads(): Promise<number> {
+    const expired = await this.uploadModel.find({ expiresAt: { $lte: new Date() } });
+    for (const doc of expired) {
+      if (!doc.fileId) {
+        await this.storageService.deleteFile(doc.partPath);
+      }
+    }
+    const result = await this.uploadModel.deleteMany({ _id: { $in: expired.map(doc => doc._id) } });
+    return result.deletedCount;
+  }
+
+  // Verify the whole-file checksum and add the file (deduplicated by its
+  // SHA-256), moving the part file into storage if the content is new. The
+  // upload record stays until it expires so a client asking for the offset
+  // sees the upload as complete.
+  private async completeUpload(upload: ResumableUpload): Promise<UploadResult> {
+    if (upload.checksum && !(await this.matchesChecksum(upload.partPath, upload.checksum))) {
+      await this.terminateUpload(upload.id);
+      throw new UploadChecksumMismatchError('File checksum does not match the uploaded data');
+    }
+
+    const contentHash = (await this.storageService.hashFile(upload.partPath)).toString('hex');
+    const file = await this.fileService.addFile(
+      {
+        originalName: upload.filename,
+        mimeType: upload.mimeType,
+        shootId: upload.shootId,
+        tags: upload.tags,
+        size: upload.length,
+      },
+      {
+        contentHash,
+        store: fileId => this.storageService.moveIntoStorage(upload.partPath, fileId, upload.filename),
+        discard: () => this.storageService.deleteFile(upload.partPath),
+      }
+    );
+    await this.uploadModel.updateOne({ _id: upload.id }, { $set: { fileId: file.id } });
+
+    return { upload: { ...upload, fileId: file.id }, file };
+  }
+
+  private async matchesChecksum(partPath: string, expected: string): Promise<boolean> {
+    const checksum = parseUploadChecksum(expected);
+    if (!checksum) {
+      return false;
+    }
+    const digest = await this.storageService.hashFile(partPath, checksum.algorithm);
+    return digest.toString('base64') === checksum.digest;
+  }
+
+  // After a failed chunk, either record the bytes that made it to disk or cut
+  // the part file back to the last good offset
+  private async keepReceivedBytes(upload: ResumableUpload, keep: boolean): Promise<void> {
+    if (!keep) {
+      await this.storageService.truncateFile(upload.partPath, upload.offset);
+      return;
+    }
+    const { size } = await this.storageService.getFileStats(upload.partPath);
+    if (size > upload.offset) {
+      await this.updateOffset(upload.id, Math.min(size, upload.length));
+    }
+  }
+
+  private async updateOffset(uploadId: string, offset: number): Promise<ResumableUpload> {
+    const doc = await this.uploadModel.findByIdAndUpdate(
+      uploadId,
+      { $set: { offset, expiresAt: this.expiresAt() } },
+      { new: true }
+    );
+    if (!doc) {
+      throw new UploadNotFoundError();
+    }
+    return transformResumableUploadDocument(doc);
+  }
+
+  private expiresAt(): Date {
+    return new Date(Date.now() + this.config.expirationHours * 60 * 60 * 1000);
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Watermark Service
+ * Serves renditions with their gallery's watermark, rendered on first request
+ * and cached next to the renditions
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { FileService } from './FileService.js';
+import { FileModel, WatermarkSettings } from '../shared/contracts/files.api.js';
+import { GalleryNotFoundError, GalleryPort } from '../shared/clients/portfolio-service.client.js';
+import { DownloadTarget } from '../shared/utils/renditions.js';
+import { applyWatermark, watermarkCachePath } from '../shared/utils/watermark.js';
+import { generateId } from '../shared/utils/id.js';
+
+// The shoot's owner gets clean files whatever the watermark
+const PHOTOGRAPHER_ROLE = 'photographer';
+
+export class WatermarkRequiredError extends Error {
+  constructor(message = 'Originals are not available in a watermarked gallery') {
+    super(message);
+    this.name = 'WatermarkRequiredError';
+  }
+}
+
+export class WatermarkService {
+  // Renders in progress by cache path, shared by concurrent requests
+  private readonly rendering = new Map<string, Promise<void>>();
+
+  constructor(
+    private readonly fileService: FileService,
+    private readonly galleries: GalleryPort,
+    private readonly storageBasePath: string
+  ) {}
+
+  /**
+   * What a download serves: the target as is for the photographer and when
+   * the gallery has no enabled watermark, otherwise the watermarked rendition.
+   * The gallery is the one the link names or, without one, the first of the
+   * file's shoot with its watermark on, so leaving it out never gets a clean
+   * copy. Throws GalleryNotFoundError for unknown galleries and galleries of
+   * another shoot (portfolio galleries, of no shoot, included), and
+   * WatermarkRequiredError for originals while the watermark is on.
+   */
+  async resolveDownload(
+    file: FileModel,
+    target: DownloadTarget,
+    role: string | undefined,
+    galleryId?: string
+  ): Promise<DownloadTarget> {
+    if (role === PHOTOGRAPHER_ROLE) {
+      return target;
+    }
+
+    const watermark = galleryId
+      ? await this.galleryWatermark(file, galleryId)
+      : await this.shootWatermark(file.shootId);
+    if (!watermark?.enabled) {
+      return target;
+    }
+    if (target.isOriginal) {
+      throw new WatermarkRequiredError();
+    }
+
+    const storagePath = watermarkCachePath(file.id, target.storagePath, watermark);
+    await this.ensureRendered(storagePath, target.storagePath, watermark);
+    return { ...target, storagePath };
+  }
+
+  /**
+   * Archives hold originals, so like downloads they are the photographer's
+   * alone while any of the shoot's galleries has its watermark on; throws
+   * WatermarkRequiredError then.
+   */
+  async assertOriginalsAvailable(shootId: string, role: string | undefined): Promise<void> {
+    if (role !== PHOTOGRAPHER_ROLE && (await this.shootWatermark(shootId))?.enabled) {
+      throw new WatermarkRequiredError();
+    }
+  }
+
+  private async galleryWatermark(file: FileModel, galleryId: string): Promise<WatermarkSettings | undefined> {
+    const gallery = await this.galleries.getGallery(galleryId);
+    if (gallery.shootId !== file.shootId) {
+      throw new GalleryNotFoundError('File not found in gallery');
+    }
+    return gallery.watermark;
+  }
+
+  private async shootWatermark(shootId: string): Promise<WatermarkSettings | undefined> {
+    const galleries = await this.galleries.listShootGalleries(shootId);
+    return galleries.find(gallery => gallery.watermark?.enabled)?.watermark;
+  }
+
+  private async ensureRendered(cachePath: string, sourcePath: string, watermark: WatermarkSettings): Promise<void> {
+    const outputPath = path.join(this.storageBasePath, cachePath);
+    if (await fileExists(outputPath)) {
+      return;
+    }
+
+    let render = this.rendering.get(cachePath);
+    if (!render) {
+      render = this.render(outputPath, sourcePath, watermark).finally(() => this.rendering.delete(cachePath));
+      this.rendering.set(cachePath, render);
+    }
+    await render;
+  }
+
+  // Written under a temporary name (same extension, so the same format) and
+  // renamed once complete: a cached copy is never served half-written
+  private async render(outputPath: string, sourcePath: string, watermark: WatermarkSettings): Promise<void> {
+    const [image, logo] = await Promise.all([
+      fs.readFile(path.join(this.storageBasePath, sourcePath)),
+      this.readLogo(watermark),
+    ]);
+
+    const tempPath = path.join(path.dirname(outputPath), `.${generateId()}_${path.basename(outputPath)}`);
+    await fs.mkdir(path.dirname(outputPath), { recursive: true });
+    try {
+      await (await applyWatermark(image, watermark, logo)).toFile(tempPath);
+      await fs.rename(tempPath, outputPath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  private async readLogo(watermark: WatermarkSettings): Promise<Buffer | undefined> {
+    if (!watermark.logoFileId) {
+      return undefined;
+    }
+    const logo = await this.fileService.getFileById(watermark.logoFileId);
+    if (logo?.type !== 'png') {
+      throw new Error('Watermark logo must be a PNG file');
+    }
+    return fs.readFile(path.join(this.storageBasePath, logo.storagePath));
+  }
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
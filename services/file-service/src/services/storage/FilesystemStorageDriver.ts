@@ -0,0 +1,89 @@
+/**
+ * Filesystem Storage Driver
+ * Objects are files under a base path (ADR-027: Direct Filesystem)
+ */
+
+/* global NodeJS */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { createReadStream, createWriteStream } from 'fs';
+import { pipeline } from 'stream/promises';
+import { StorageDriver, StorageRange, StoredObject } from './StorageDriver.js';
+
+export class FilesystemStorageDriver implements StorageDriver {
+  readonly kind = 'filesystem';
+
+  constructor(private readonly basePath: string) {}
+
+  /**
+   * Where an object is on disk, for code that needs a local file (processing)
+   */
+  localPath(key: string): string {
+    return path.join(this.basePath, key);
+  }
+
+  async put(key: string, data: Buffer | NodeJS.ReadableStream): Promise<void> {
+    const fullPath = this.localPath(key);
+    await fs.mkdir(path.dirname(fullPath), { recursive: true });
+
+    if (Buffer.isBuffer(data)) {
+      await fs.writeFile(fullPath, data);
+    } else {
+      await pipeline(data, createWriteStream(fullPath));
+    }
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.localPath(key));
+  }
+
+  async stream(key: string, range?: StorageRange): Promise<NodeJS.ReadableStream> {
+    return createReadStream(this.localPath(key), range);
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    try {
+      const stats = await fs.stat(this.localPath(key));
+      return { key, size: stats.size, modifiedAt: stats.mtime };
+    } catch {
+      return null;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    try {
+      await fs.unlink(this.localPath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  async *list(prefix = ''): AsyncIterable<StoredObject> {
+    yield* this.walk('', prefix);
+  }
+
+  private async *walk(dir: string, prefix: string): AsyncIterable<StoredObject> {
+    let entries;
+    try {
+      entries = await fs.readdir(this.localPath(dir), { withFileTypes: true });
+    } catch {
+      return; // Nothing stored under it
+    }
+
+    for (const entry of entries) {
+      const key = path.posix.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        // Only directories that can hold keys with the prefix
+        if (key.startsWith(prefix) || prefix.startsWith(`${key}/`)) {
+          yield* this.walk(key, prefix);
+        }
+      } else if (entry.isFile() && key.startsWith(prefix)) {
+        const stats = await fs.stat(this.localPath(key));
+        yield { key, size: stats.size, modifiedAt: stats.mtime };
+      }
+    }
+  }
+}
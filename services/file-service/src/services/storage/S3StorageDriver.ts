@@ -0,0 +1,177 @@
+/**
+ * S3 Storage Driver
+ * Objects in a bucket of any S3-compatible store (MinIO, AWS S3, ...).
+ * Streams are uploaded in parts, so objects aren't limited to a single PUT.
+ */
+
+/* global NodeJS */
+
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  UploadPartCommand
+} from '@aws-sdk/client-s3';
+import { StorageDriver, StorageRange, StoredObject } from './StorageDriver.js';
+
+export interface S3StorageConfig {
+  endpoint?: string; // e.g. http://minio:9000; AWS when unset
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  forcePathStyle: boolean; // MinIO needs bucket-in-path URLs
+  keyPrefix: string; // Prepended to every key, e.g. "cold/"
+  partSize: number; // Of multipart uploads; S3 requires at least 5MB
+}
+
+export class S3StorageDriver implements StorageDriver {
+  readonly kind = 's3';
+  private readonly client: S3Client;
+
+  constructor(private readonly config: S3StorageConfig) {
+    this.client = new S3Client({
+      endpoint: config.endpoint,
+      region: config.region,
+      forcePathStyle: config.forcePathStyle,
+      credentials: { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey },
+    });
+  }
+
+  async put(key: string, data: Buffer | NodeJS.ReadableStream): Promise<void> {
+    if (Buffer.isBuffer(data)) {
+      await this.client.send(new PutObjectCommand({ ...this.location(key), Body: data }));
+      return;
+    }
+
+    // A stream that fits in one part is a single PUT
+    const parts = this.parts(data);
+    const first = await parts.next();
+    const second = first.done ? first : await parts.next();
+    if (second.done) {
+      await this.client.send(new PutObjectCommand({ ...this.location(key), Body: first.value ?? Buffer.alloc(0) }));
+      return;
+    }
+    await this.putMultipart(key, [first.value, second.value], parts);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const { Body } = await this.client.send(new GetObjectCommand(this.location(key)));
+    if (!Body) {
+      throw new Error(`Empty response reading ${key}`);
+    }
+    return Buffer.from(await Body.transformToByteArray());
+  }
+
+  async stream(key: string, range?: StorageRange): Promise<NodeJS.ReadableStream> {
+    const bytes = range && (range.start !== undefined || range.end !== undefined)
+      ? `bytes=${range.start ?? 0}-${range.end ?? ''}`
+      : undefined;
+    const { Body } = await this.client.send(new GetObjectCommand({ ...this.location(key), Range: bytes }));
+    if (!Body) {
+      throw new Error(`Empty response reading ${key}`);
+    }
+    return Body as NodeJS.ReadableStream;
+  }
+
+  async stat(key: string): Promise<StoredObject | null> {
+    try {
+      const head = await this.client.send(new HeadObjectCommand(this.location(key)));
+      return { key, size: head.ContentLength ?? 0, modifiedAt: head.LastModified ?? new Date(0) };
+    } catch (error) {
+      if (isNotFound(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand(this.location(key)));
+  }
+
+  async *list(prefix = ''): AsyncIterable<StoredObject> {
+    let token: string | undefined;
+    do {
+      const page = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.config.bucket,
+        Prefix: this.config.keyPrefix + prefix,
+        ContinuationToken: token,
+      }));
+      for (const object of page.Contents ?? []) {
+        if (object.Key) {
+          yield {
+            key: object.Key.slice(this.config.keyPrefix.length),
+            size: object.Size ?? 0,
+            modifiedAt: object.LastModified ?? new Date(0),
+          };
+        }
+      }
+      token = page.IsTruncated ? page.NextContinuationToken : undefined;
+    } while (token);
+  }
+
+  private location(key: string): { Bucket: string; Key: string } {
+    return { Bucket: this.config.bucket, Key: this.config.keyPrefix + key };
+  }
+
+  private async putMultipart(key: string, firstParts: Buffer[], rest: AsyncGenerator<Buffer>): Promise<void> {
+    const { UploadId } = await this.client.send(new CreateMultipartUploadCommand(this.location(key)));
+    try {
+      const uploaded: { ETag?: string; PartNumber: number }[] = [];
+      for await (const part of concat(firstParts, rest)) {
+        const PartNumber = uploaded.length + 1;
+        const { ETag } = await this.client.send(new UploadPartCommand({
+          ...this.location(key), UploadId, PartNumber, Body: part,
+        }));
+        uploaded.push({ ETag, PartNumber });
+      }
+      await this.client.send(new CompleteMultipartUploadCommand({
+        ...this.location(key), UploadId, MultipartUpload: { Parts: uploaded },
+      }));
+    } catch (error) {
+      // Drop the parts uploaded so far; the upload's own error is the one to report
+      await this.client.send(new AbortMultipartUploadCommand({ ...this.location(key), UploadId })).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  // The stream cut into parts of partSize bytes, the last one shorter
+  private async *parts(stream: NodeJS.ReadableStream): AsyncGenerator<Buffer> {
+    let buffered: Buffer[] = [];
+    let length = 0;
+    for await (const chunk of stream) {
+      let data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      while (length + data.length >= this.config.partSize) {
+        const take = this.config.partSize - length;
+        yield Buffer.concat([...buffered, data.subarray(0, take)]);
+        data = data.subarray(take);
+        buffered = [];
+        length = 0;
+      }
+      if (data.length > 0) {
+        buffered.push(data);
+        length += data.length;
+      }
+    }
+    if (length > 0) {
+      yield Buffer.concat(buffered);
+    }
+  }
+}
+
+async function* concat(first: Buffer[], rest: AsyncGenerator<Buffer>): AsyncGenerator<Buffer> {
+  yield* first;
+  yield* rest;
+}
+
+function isNotFound(error: unknown): boolean {
+  const status = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+  return status === 404 || (error instanceof Error && (error.name === 'NotFound' || error.name === 'NoSuchKey'));
+}
@@ -0,0 +1,53 @@
+/**
+ * Storage Driver
+ * Where stored bytes live, by key (a storage path such as "2024/01/abc.cr3").
+ * The filesystem driver keeps the ADR-027 layout; the S3 driver holds the
+ * same keys in an S3-compatible bucket (MinIO, AWS, ...).
+ */
+
+/* global NodeJS */
+
+export type StorageDriverKind = 'filesystem' | 's3';
+
+// Inclusive byte positions, as in a Range header
+export interface StorageRange {
+  start?: number;
+  end?: number;
+}
+
+export interface StoredObject {
+  key: string;
+  size: number;
+  modifiedAt: Date;
+}
+
+export interface StorageDriver {
+  readonly kind: StorageDriverKind;
+
+  /**
+   * Write an object, replacing any previous one
+   */
+  put(key: string, data: Buffer | NodeJS.ReadableStream): Promise<void>;
+
+  get(key: string): Promise<Buffer>;
+
+  /**
+   * Read an object, or bytes start..end of it
+   */
+  stream(key: string, range?: StorageRange): Promise<NodeJS.ReadableStream>;
+
+  /**
+   * Size and date of an object; null when there is none
+   */
+  stat(key: string): Promise<StoredObject | null>;
+
+  /**
+   * Delete an object; a missing one is fine
+   */
+  delete(key: string): Promise<void>;
+
+  /**
+   * Objects whose keys start with the prefix, in no particular order
+   */
+  list(prefix?: string): AsyncIterable<StoredObject>;
+}
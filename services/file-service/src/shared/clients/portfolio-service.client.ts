@@ -0,0 +1,92 @@
+/**
+ * Portfolio Service HTTP client
+ * Reads galleries' watermark settings from portfolio-service
+ * (`GET /galleries/:galleryId`, `GET /galleries?shootId=`) so downloads can be
+ * watermarked without sharing portfolio-service's database.
+ */
+
+import { WatermarkSettings } from '../contracts/files.api.js';
+
+// Subset of portfolio-service's Gallery that file-service relies on
+export interface GalleryWatermark {
+  id: string;
+  shootId?: string;
+  watermark?: WatermarkSettings;
+}
+
+interface GalleryResponse {
+  data?: GalleryWatermark;
+  message?: string;
+}
+
+interface GalleryListResponse {
+  data?: GalleryWatermark[];
+  meta?: { totalPages: number };
+  message?: string;
+}
+
+export class GalleryNotFoundError extends Error {
+  constructor(message = 'Gallery not found') {
+    super(message);
+    this.name = 'GalleryNotFoundError';
+  }
+}
+
+/**
+ * The gallery-reading capability watermarking depends on, so it can be
+ * exercised without a running portfolio-service.
+ */
+export interface GalleryPort {
+  getGallery(galleryId: string): Promise<GalleryWatermark>;
+  listShootGalleries(shootId: string): Promise<GalleryWatermark[]>;
+}
+
+export class PortfolioServiceClient implements GalleryPort {
+  constructor(private readonly baseUrl: string) {}
+
+  /**
+   * Fetch a gallery; throws GalleryNotFoundError for unknown galleries
+   */
+  async getGallery(galleryId: string): Promise<GalleryWatermark> {
+    const response = await fetch(`${this.baseUrl}/galleries/${encodeURIComponent(galleryId)}`);
+
+    if (response.status === 404) {
+      throw new GalleryNotFoundError();
+    }
+    if (!response.ok) {
+      throw new Error(`Portfolio service responded with ${response.status}`);
+    }
+
+    const body = (await response.json()) as GalleryResponse;
+    if (!body.data) {
+      throw new Error(`Portfolio service error: ${body.message ?? 'no gallery in response'}`);
+    }
+
+    return body.data;
+  }
+  /**
+   * Fetch all of a shoot's galleries, page by page
+   */
+  async listShootGalleries(shootId: string): Promise<GalleryWatermark[]> {
+    const galleries: GalleryWatermark[] = [];
+    let page = 0;
+    let totalPages = 1;
+
+    do {
+      page++;
+      const response = await fetch(`${this.baseUrl}/galleries?shootId=${encodeURIComponent(shootId)}&page=${page}`);
+      if (!response.ok) {
+        throw new Error(`Portfolio service responded with ${response.status}`);
+      }
+
+      const body = (await response.json()) as GalleryListResponse;
+      if (!body.data) {
+        throw new Error(`Portfolio service error: ${body.message ?? 'no galleries in response'}`);
+      }
+      galleries.push(...body.data);
+      totalPages = body.meta?.totalPages ?? page;
+    } while (page < totalPages);
+
+    return galleries;
+  }
+}
@@ -3,6 +3,8 @@
  * Based on file-service.tsp TypeSpec definitions
  */
 
+import type { JWTPayload } from '@tempsdarret/shared/schemas/invite.schema';
+
 // File type enumeration matching TypeSpec + sidecar files
 export type FileType = 'jpeg' | 'png' | 'raw' | 'video' | 'sidecar' | 'config';
 
@@ -12,6 +14,42 @@ export type ProcessingStatus = 'pending' | 'processing' | 'completed' | 'failed'
 // Archive type enumeration
 export type ArchiveType = 'jpeg' | 'raw' | 'complete';
 
+// Rendition sizes generated for images; 'raw' in a download means the original
+export type RenditionName = 'thumbnail' | 'medium' | 'high';
+export type RenditionFormat = 'jpeg' | 'webp' | 'avif';
+export type DownloadResolution = RenditionName | 'raw';
+
+// Where an original is stored: local storage, or the cold tier older shoots move to
+export type StorageTier = 'hot' | 'cold';
+
+// Resized copy of an image, stored next to the originals
+export interface FileRendition {
+  name: RenditionName;
+  format: RenditionFormat;
+  url: string;
+  storagePath: string;
+  width: number;
+  height: number;
+  size: number;
+}
+
+// Culling decisions read from an XMP sidecar
+export type XmpPick = 'picked' | 'rejected';
+
+export interface XmpMetadata {
+  rating?: number; // 0-5 stars
+  label?: string; // Colour label, e.g. "Red"
+  pick?: XmpPick;
+  keywords?: string[];
+  crop?: {
+    top: number; // Edges as fractions of the image
+    left: number;
+    bottom: number;
+    right: number;
+    angle: number; // Degrees
+  };
+}
+
 // Core file model
 export interface FileModel {
   id: string;
@@ -20,9 +58,13 @@ export interface FileModel {
   size: number;
   mimeType: string;
   shootId: string;
-  storagePath: string;
+  storagePath: string; // Shared by files with the same content in different shoots
+  contentHash?: string; // SHA-256 of the content (hex); unique within a shoot
+  crc32?: number; // Kept once the file has been streamed into an archive
+  storageTier?: StorageTier; // Of the original; renditions stay hot. Absent means hot.
   publicUrl?: string;
   thumbnailUrl?: string;
+  renditions?: FileRendition[];
   processingStatus: ProcessingStatus;
   metadata?: Record<string, unknown>;
   tags?: string[];
@@ -30,10 +72,21 @@ export interface FileModel {
   photographerOnly?: boolean;
   parentFileId?: string; // Link to the main RAW file for sidecars
   sidecarType?: 'xmp' | 'psd' | 'psb' | 'cos' | 'col' | 'afphoto' | 'xcf';
+  deletedAt?: string; // Set while the file is in the trash
+  // When the photo was taken: EXIF DateTimeOriginal corrected by the shoot's
+  // clock offset for the camera, or the upload time without EXIF
+  captureTime?: string;
+  captureCamera?: string; // The camera body the clock offset applies to
   createdAt: string;
   updatedAt: string;
 }
 
+// A RAW file with the sidecar/config files paired to it by basename
+export interface FileWithSidecars {
+  file: FileModel;
+  sidecars: FileModel[];
+}
+
 // File upload request
 export interface FileUploadRequest {
   shootId: string;
@@ -47,15 +100,110 @@ export interface FileQuery {
   processingStatus?: ProcessingStatus;
   photographerOnly?: boolean;
   tags?: string[];
+  // XMP culling (metadata.xmp)
+  minRating?: number;
+  label?: string;
+  pick?: XmpPick;
+  sort?: FileSort;
   page?: number;
   limit?: number;
 }
 
+// Newest uploads first (default), or in the order the photos were taken
+export type FileSort = 'createdAt' | 'captureTime';
+
+// A camera body that shot part of a shoot, and the correction added to its
+// capture times. Bodies go by make, model and serial number.
+export interface CameraClock {
+  shootId: string;
+  camera: string;
+  offsetSeconds: number;
+  fileCount: number; // Files in the shoot shot with it
+}
+
+// Set the clock offset of a camera body for a shoot
+export interface SetClockOffsetRequest {
+  shootId: string;
+  camera: string;
+  offsetSeconds: number;
+}
+
+// File download query: a rendition of an image, or the original ('raw', default).
+// Renditions carry the watermark of the named gallery, or of the shoot's
+// galleries when none is named (see WatermarkService). Downloads need
+// the signature parameters of a link issued by POST /files/:fileId/download-url.
+export interface FileDownloadQuery {
+  resolution?: DownloadResolution;
+  format?: RenditionFormat;
+  galleryId?: string;
+  user?: string;
+  role?: string; // Role the link was issued to
+  expires?: string; // Unix time in seconds
+  signature?: string;
+}
+
+// Signed download links, bound to the requesting user and the file's shoot
+export interface DownloadUrlRequest {
+  resolution?: DownloadResolution;
+  format?: RenditionFormat;
+  galleryId?: string;
+  expiresIn?: number; // Seconds, capped by the service
+}
+
+// Links to many files in one request (e.g. a gallery page), each granting what
+// a DownloadUrlRequest would; refused links carry the error instead of a URL
+export interface DownloadUrlBatchLink extends Omit<DownloadUrlRequest, 'expiresIn'> {
+  fileId: string;
+}
+
+export interface DownloadUrlBatchRequest {
+  links: DownloadUrlBatchLink[];
+  expiresIn?: number;
+}
+
+export interface IssuedDownloadUrl extends DownloadUrlBatchLink, Partial<SignedDownloadUrl> {
+  error?: ApiError['error'];
+}
+
+export interface ArchiveDownloadUrlRequest {
+  expiresIn?: number;
+}
+
+export interface SignedDownloadUrl {
+  url: string;
+  expiresAt: string;
+}
+
+// A gallery's watermark (portfolio-service Gallery.watermark): text or a PNG
+// logo uploaded to file-service
+export type WatermarkPosition = 'center' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'tiled';
+
+export interface WatermarkSettings {
+  enabled: boolean;
+  text?: string;
+  logoFileId?: string;
+  position: WatermarkPosition;
+  opacity: number; // 0-1
+  scale: number; // Watermark width relative to the image width
+}
+
 // Archive models
 export interface CreateArchiveRequest {
   shootId: string;
   type: ArchiveType;
   fileIds?: string[];
+  streaming?: boolean; // Stream a stored ZIP on download instead of building it
+  notifyEmail?: string; // Emailed the download link once the archive is ready
+}
+
+// How far a built archive's generation has got, saved as it runs
+export interface ArchiveProgress {
+  filesProcessed: number;
+  totalFiles: number;
+  bytesProcessed: number; // Of the files being archived
+  totalBytes: number;
+  bytesWritten: number; // To the archive
+  etaSeconds?: number; // Once enough has been processed to tell
 }
 
 export interface ArchiveModel {
@@ -63,13 +211,64 @@ export interface ArchiveModel {
   shootId: string;
   type: ArchiveType;
   size: number;
-  downloadUrl: string;
+  requestedBy?: string; // User the archive.ready download link is issued to
+  requestedByRole?: JWTPayload['role'];
+  // Streamed archives are ready at once: the ZIP of fileIds, in this order,
+  // is written on each download
+  streaming?: boolean;
+  fileIds?: string[];
+  notifyEmail?: string;
+  progress?: ArchiveProgress;
   expiresAt: string;
   status: ProcessingStatus;
   createdAt: string;
   updatedAt: string;
 }
 
+// Storage integrity: what a scrub found wrong with the stored files
+export type IntegrityIssueType = 'missing' | 'size_mismatch' | 'hash_mismatch';
+export type IntegrityReportStatus = 'running' | 'completed' | 'failed';
+
+export interface IntegrityIssue {
+  type: IntegrityIssueType;
+  storagePath: string;
+  tier: StorageTier;
+  fileIds: string[]; // Every file sharing the stored bytes
+  expectedSize: number;
+  actualSize?: number; // Unless missing
+}
+
+// Stored bytes no file, rendition or shared content record points at
+export interface OrphanObject {
+  storagePath: string;
+  tier: StorageTier;
+  size: number;
+  modifiedAt: string;
+  quarantinedTo?: string; // Once moved aside
+}
+
+export interface IntegrityReport {
+  id: string;
+  status: IntegrityReportStatus;
+  startedAt: string;
+  finishedAt?: string;
+  error?: string;
+  checkedFiles: number; // Distinct stored files checked
+  hashesVerified: number;
+  issueCount: number;
+  orphanCount: number;
+  orphanBytes: number;
+  issues: IntegrityIssue[]; // The first ones, up to a limit
+  orphans: OrphanObject[];
+  quarantinedAt?: string;
+}
+
+export interface QuarantineResult {
+  reportId: string;
+  quarantined: OrphanObject[];
+  skipped: { storagePath: string; tier: StorageTier; reason: string }[];
+}
+
 // Response wrappers
 export interface SuccessResponse<T> {
   success: true;
@@ -3,7 +3,7 @@
  * Input/Output transformations and validation schemas
  */
 
-import { FileModel, FileType, ProcessingStatus } from './files.api.js';
+import { FileModel, FileRendition, FileType, ProcessingStatus, XmpMetadata } from './files.api.js';
 
 // File creation DTO (internal)
 export interface CreateFileDTO {
@@ -12,6 +12,7 @@ export interface CreateFileDTO {
   size: number;
   mimeType: string;
   storagePath: string;
+  contentHash?: string;
   type: FileType;
   tags?: string[];
   metadata?: Record<string, unknown>;
@@ -37,6 +38,41 @@ export interface ProcessFileDTO {
   processingData?: Record<string, unknown>;
 }
 
+// Background processing job (internal); one per file, requeued on reprocess
+export type ProcessingJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface ProcessingJob {
+  id: string;
+  fileId: string;
+  status: ProcessingJobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: string;
+  leaseExpiresAt?: string;
+  workerId?: string;
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Resumable (tus) upload in progress (internal); bytes go to partPath until
+// offset reaches length, then the file is registered under fileId
+export interface ResumableUpload {
+  id: string;
+  shootId: string;
+  filename: string;
+  mimeType: string;
+  tags?: string[];
+  length: number;
+  offset: number;
+  partPath: string;
+  checksum?: string; // Whole-file checksum, "<algorithm> <base64 digest>"
+  fileId?: string;
+  expiresAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 // Archive creation DTO (internal)
 export interface CreateArchiveDTO {
   shootId: string;
@@ -49,6 +85,7 @@ export interface CreateArchiveDTO {
 export interface FileMetadataDTO {
   exif?: {
     camera?: string;
+    cameraSerial?: string; // Body serial number, when the camera records it
     lens?: string;
     focalLength?: number;
     aperture?: string;
@@ -67,6 +104,8 @@ export interface FileMetadataDTO {
     bitDepth?: number;
     compression?: string;
   };
+  renditions?: FileRendition[];
+  xmp?: XmpMetadata; // Parsed from an XMP sidecar
   processing?: {
     thumbnailGenerated: boolean;
     metadataExtracted: boolean;
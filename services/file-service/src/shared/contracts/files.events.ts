@@ -44,6 +44,13 @@ export interface FileDeletedData {
   cleanupStatus: 'completed' | 'pending';
 }
 
+export interface FileRestoredData {
+  fileId: string;
+  shootId: string;
+  originalName: string;
+  restoredAt: string;
+}
+
 export interface ArchiveCreatedData {
   archiveId: string;
   shootId: string;
@@ -58,11 +65,28 @@ export interface ArchiveReadyData {
   archiveId: string;
   shootId: string;
   finalSize: number;
-  downloadUrl: string;
+  downloadUrl?: string; // Signed link for the user who requested the archive
+  notifyEmail?: string; // Where notification-service emails the link
   expiresAt: string;
   readyAt: string;
 }
 
+// Consumed from shoot-service: a shoot is being deleted and its files must go
+export interface ShootDeletedData {
+  shootId: string;
+  deletedAt: string;
+}
+
+// Reported back to shoot-service once the shoot's files are cleaned up
+export interface ShootCleanupReportedData {
+  shootId: string;
+  service: 'file-service';
+  success: boolean;
+  error?: string;
+  removed?: { files: number; archives: number };
+  timestamp: string;
+}
+
 // Complete event payload types matching AsyncAPI definitions
 export interface FileUploadedPayload extends BaseEvent {
   eventType: 'file.uploaded';
@@ -79,6 +103,11 @@ export interface FileDeletedPayload extends BaseEvent {
   data: FileDeletedData;
 }
 
+export interface FileRestoredPayload extends BaseEvent {
+  eventType: 'file.restored';
+  data: FileRestoredData;
+}
+
 export interface ArchiveCreatedPayload extends BaseEvent {
   eventType: 'archive.created';
   data: ArchiveCreatedData;
@@ -89,11 +118,17 @@ export interface ArchiveReadyPayload extends BaseEvent {
   data: ArchiveReadyData;
 }
 
+export interface ShootCleanupReportedPayload extends BaseEvent {
+  eventType: 'shoot.cleanup.reported';
+  data: ShootCleanupReportedData;
+}
+
 // Union type for all file events
 export type FileEvent = 
   | FileUploadedPayload 
   | FileProcessedPayload 
   | FileDeletedPayload 
+  | FileRestoredPayload
   | ArchiveCreatedPayload 
   | ArchiveReadyPayload;
 
@@ -102,8 +137,15 @@ export const FILE_EVENT_TYPES = {
   UPLOADED: 'file.uploaded',
   PROCESSED: 'file.processed',
   DELETED: 'file.deleted',
+  RESTORED: 'file.restored',
   ARCHIVE_CREATED: 'archive.created',
   ARCHIVE_READY: 'archive.ready',
 } as const;
 
+// Shoot events taking part in the shoot deletion saga
+export const SHOOT_CLEANUP_EVENT_TYPES = {
+  SHOOT_DELETED: 'shoot.deleted',
+  CLEANUP_REPORTED: 'shoot.cleanup.reported',
+} as const;
+
 export type FileEventType = typeof FILE_EVENT_TYPES[keyof typeof FILE_EVENT_TYPES];
\ No newline at end of file
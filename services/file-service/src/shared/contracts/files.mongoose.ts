@@ -4,10 +4,13 @@
  */
 
 import { Schema, Document, Model } from 'mongoose';
-import { FileModel, ArchiveModel } from './files.api.js';
+import { FileModel, ArchiveModel, IntegrityReport, CameraClock } from './files.api.js';
+import { ProcessingJob, ResumableUpload } from './files.dto.js';
 
 // File document interface - extends Document but overrides createdAt/updatedAt as Date
-export interface FileDocument extends Omit<FileModel, 'id' | 'createdAt' | 'updatedAt'>, Document {
+export interface FileDocument extends Omit<FileModel, 'id' | 'deletedAt' | 'captureTime' | 'createdAt' | 'updatedAt'>, Document {
+  deletedAt?: Date;
+  captureTime?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -19,6 +22,43 @@ export interface ArchiveDocument extends Omit<ArchiveModel, 'id' | 'createdAt' |
   updatedAt: Date;
 }
 
+// Processing job document interface - date fields as Date
+export interface ProcessingJobDocument
+  extends Omit<ProcessingJob, 'id' | 'runAt' | 'leaseExpiresAt' | 'createdAt' | 'updatedAt'>, Document {
+  runAt: Date;
+  leaseExpiresAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Resumable upload document interface - date fields as Date
+export interface ResumableUploadDocument
+  extends Omit<ResumableUpload, 'id' | 'expiresAt' | 'createdAt' | 'updatedAt'>, Document {
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Stored content shared by files with the same hash, keyed by the hash
+export interface BlobDocument extends Document<string> {
+  storagePath?: string;
+  refCount: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Integrity report document interface - date fields as Date
+export interface IntegrityReportDocument
+  extends Omit<IntegrityReport, 'id' | 'startedAt' | 'finishedAt' | 'quarantinedAt' | 'orphans'>, Document {
+  startedAt: Date;
+  finishedAt?: Date;
+  quarantinedAt?: Date;
+  orphans: (Omit<IntegrityReport['orphans'][number], 'modifiedAt'> & { modifiedAt: Date })[];
+}
+
+// Clock offset of a camera body within a shoot
+export type ClockOffsetDocument = Omit<CameraClock, 'fileCount'> & Document;
+
 // Chunk document interface for on-demand GridFS (ADR-027)
 export interface ChunkDocument extends Document {
   fileId: string;
@@ -28,6 +68,27 @@ export interface ChunkDocument extends Document {
   expiresAt: Date;
 }
 
+// Rendition subdocument (resized copies generated by ProcessingService)
+const renditionSchema = new Schema({
+  name: { type: String, required: true, enum: ['thumbnail', 'medium', 'high'] },
+  format: { type: String, required: true, enum: ['jpeg', 'webp', 'avif'] },
+  url: { type: String, required: true },
+  storagePath: { type: String, required: true },
+  width: { type: Number, required: true },
+  height: { type: Number, required: true },
+  size: { type: Number, required: true, min: 0 },
+}, { _id: false });
+
+// Archive generation progress subdocument (ArchiveService)
+const archiveProgressSchema = new Schema({
+  filesProcessed: { type: Number, required: true, min: 0 },
+  totalFiles: { type: Number, required: true, min: 0 },
+  bytesProcessed: { type: Number, required: true, min: 0 },
+  totalBytes: { type: Number, required: true, min: 0 },
+  bytesWritten: { type: Number, required: true, min: 0 },
+  etaSeconds: { type: Number, min: 0 },
+}, { _id: false });
+
 // File schema following ADR-027: Direct Filesystem + MongoDB Metadata
 const fileSchema = new Schema<FileDocument>({
   filename: { type: String, required: true, index: true },
@@ -40,9 +101,13 @@ const fileSchema = new Schema<FileDocument>({
   size: { type: Number, required: true, min: 0 },
   mimeType: { type: String, required: true },
   shootId: { type: String, required: true, index: true },
-  storagePath: { type: String, required: true, unique: true },
+  storagePath: { type: String, required: true, index: true },
+  contentHash: { type: String },
+  crc32: { type: Number },
+  storageTier: { type: String, enum: ['hot', 'cold'] },
   publicUrl: { type: String },
   thumbnailUrl: { type: String },
+  renditions: { type: [renditionSchema], default: undefined },
   processingStatus: { 
     type: String, 
     required: true, 
@@ -60,21 +125,31 @@ const fileSchema = new Schema<FileDocument>({
     enum: ['xmp', 'psd', 'psb', 'cos', 'col', 'afphoto', 'xcf'],
     sparse: true // Allow null values
   },
+  deletedAt: { type: Date, index: true }, // In the trash until purged
+  captureTime: { type: Date },
+  captureCamera: { type: String },
 }, {
   timestamps: true,
   collection: 'files'
 });
 
+// Files in the trash are left out of listings, archives and downloads
+const NOT_TRASHED = { deletedAt: { $exists: false } };
+
+// Photos in the order they were taken; the filename's frame number breaks ties
+const CAPTURE_ORDER = { captureTime: 1, filename: 1 } as const;
+
 // Archive schema
 const archiveSchema = new Schema<ArchiveDocument>({
   shootId: { type: String, required: true, index: true },
-  type: { 
-    type: String, 
-    required: true, 
-    enum: ['jpeg', 'raw', 'complete'] 
-  },
+  type: { type: String, required: true, enum: ['jpeg', 'raw', 'complete'] },
   size: { type: Number, required: true, min: 0 },
-  downloadUrl: { type: String, required: true },
+  requestedBy: { type: String },
+  requestedByRole: { type: String, enum: ['photographer', 'client', 'guest'] },
+  streaming: { type: Boolean, default: false },
+  fileIds: { type: [String], default: undefined },
+  notifyEmail: { type: String },
+  progress: { type: archiveProgressSchema },
   expiresAt: { type: Date, required: true, index: true },
   status: { 
     type: String, 
@@ -87,6 +162,97 @@ const archiveSchema = new Schema<ArchiveDocument>({
   collection: 'archives'
 });
 
+// Processing job schema: a Mongo-backed queue. Workers claim a job by taking
+// a lease; a job whose lease expired (worker crashed) can be claimed again.
+const processingJobSchema = new Schema<ProcessingJobDocument>({
+  fileId: { type: String, required: true, unique: true },
+  status: {
+    type: String,
+    required: true,
+    enum: ['queued', 'running', 'completed', 'failed'],
+    default: 'queued'
+  },
+  attempts: { type: Number, required: true, default: 0, min: 0 },
+  maxAttempts: { type: Number, required: true, min: 1 },
+  runAt: { type: Date, required: true },
+  leaseExpiresAt: { type: Date },
+  workerId: { type: String },
+  lastError: { type: String },
+}, {
+  timestamps: true,
+  collection: 'processing_jobs'
+});
+
+// Resumable upload schema (tus). No TTL index: expired uploads also leave a
+// part file behind, so the cleanup task removes both together.
+const resumableUploadSchema = new Schema<ResumableUploadDocument>({
+  shootId: { type: String, required: true, index: true },
+  filename: { type: String, required: true },
+  mimeType: { type: String, required: true },
+  tags: [{ type: String }],
+  length: { type: Number, required: true, min: 0 },
+  offset: { type: Number, required: true, default: 0, min: 0 },
+  partPath: { type: String, required: true },
+  checksum: { type: String },
+  fileId: { type: String },
+  expiresAt: { type: Date, required: true, index: true },
+}, {
+  timestamps: true,
+  collection: 'file_uploads'
+});
+
+// Blob schema: reference count of the files sharing one stored copy of the
+// content; the bytes are deleted when the last reference goes
+const blobSchema = new Schema<BlobDocument>({
+  _id: { type: String, required: true }, // SHA-256 of the content (hex)
+  storagePath: { type: String }, // Unset while the first reference writes the content
+  refCount: { type: Number, required: true, min: 0 },
+}, {
+  timestamps: true,
+  collection: 'file_blobs'
+});
+
+// Integrity report schema: one per storage scrub, newest first
+const integrityReportSchema = new Schema<IntegrityReportDocument>({
+  status: { type: String, required: true, enum: ['running', 'completed', 'failed'], default: 'running' },
+  startedAt: { type: Date, required: true, index: -1 },
+  finishedAt: { type: Date },
+  error: { type: String },
+  checkedFiles: { type: Number, required: true, default: 0 },
+  hashesVerified: { type: Number, required: true, default: 0 },
+  issueCount: { type: Number, required: true, default: 0 },
+  orphanCount: { type: Number, required: true, default: 0 },
+  orphanBytes: { type: Number, required: true, default: 0 },
+  issues: [{
+    _id: false,
+    type: { type: String, required: true, enum: ['missing', 'size_mismatch', 'hash_mismatch'] },
+    storagePath: { type: String, required: true },
+    tier: { type: String, required: true, enum: ['hot', 'cold'] },
+    fileIds: [{ type: String }],
+    expectedSize: { type: Number, required: true },
+    actualSize: { type: Number },
+  }],
+  orphans: [{
+    _id: false,
+    storagePath: { type: String, required: true },
+    tier: { type: String, required: true, enum: ['hot', 'cold'] },
+    size: { type: Number, required: true },
+    modifiedAt: { type: Date, required: true },
+    quarantinedTo: { type: String },
+  }],
+  quarantinedAt: { type: Date },
+}, {
+  collection: 'integrity_reports'
+});
+
+// Clock offset schema: seconds added to a camera body's EXIF capture times,
+// set per shoot to line up cameras whose clocks disagree
+const clockOffsetSchema = new Schema<ClockOffsetDocument>({
+  shootId: { type: String, required: true },
+  camera: { type: String, required: true },
+  offsetSeconds: { type: Number, required: true },
+}, { timestamps: true, collection: 'camera_clock_offsets' });
+
 // Chunk schema for on-demand GridFS (ADR-027: 24-hour TTL)
 const chunkSchema = new Schema<ChunkDocument>({
   fileId: { type: String, required: true, index: true },
@@ -103,13 +269,25 @@ fileSchema.index({ shootId: 1, type: 1 });
 fileSchema.index({ processingStatus: 1, createdAt: -1 });
 fileSchema.index({ 'tags': 1 });
 fileSchema.index({ createdAt: -1 });
+fileSchema.index({ shootId: 1, 'metadata.xmp.rating': -1 }); // Culling queries
+fileSchema.index({ shootId: 1, 'metadata.xmp.label': 1 });
+fileSchema.index({ shootId: 1, captureTime: 1 }); // Capture-time ordering
+fileSchema.index( // One copy of each content per shoot
+  { shootId: 1, contentHash: 1 },
+  { unique: true, partialFilterExpression: { contentHash: { $type: 'string' } } }
+);
 
 archiveSchema.index({ shootId: 1, type: 1 });
 archiveSchema.index({ expiresAt: 1 }); // For cleanup
 archiveSchema.index({ status: 1, createdAt: -1 });
 
+processingJobSchema.index({ status: 1, runAt: 1 }); // Claiming due jobs
+processingJobSchema.index({ status: 1, leaseExpiresAt: 1 }); // Reclaiming expired leases
+
 chunkSchema.index({ fileId: 1, chunkIndex: 1 }, { unique: true });
 
+clockOffsetSchema.index({ shootId: 1, camera: 1 }, { unique: true });
+
 // Pre-save middleware for storage path generation
 fileSchema.pre('save', function(next) {
   if (this.isNew && this.storagePath === undefined) {
@@ -158,14 +336,23 @@ function transformFileDocument(doc: FileDocument): FileModel {
     mimeType: doc.mimeType,
     shootId: doc.shootId,
     storagePath: doc.storagePath,
+    ...(doc.contentHash && { contentHash: doc.contentHash }),
+    ...(doc.crc32 !== undefined && { crc32: doc.crc32 }),
+    ...(doc.storageTier && { storageTier: doc.storageTier }),
     publicUrl: doc.publicUrl,
     thumbnailUrl: doc.thumbnailUrl,
+    renditions: doc.renditions?.map(({ name, format, url, storagePath, width, height, size }) => ({
+      name, format, url, storagePath, width, height, size,
+    })),
     processingStatus: doc.processingStatus,
     metadata: doc.metadata,
     tags: doc.tags,
     photographerOnly: doc.photographerOnly,
     parentFileId: doc.parentFileId,
     sidecarType: doc.sidecarType,
+    ...(doc.deletedAt && { deletedAt: toISOString(doc.deletedAt) }),
+    ...(doc.captureTime && { captureTime: toISOString(doc.captureTime) }),
+    ...(doc.captureCamera && { captureCamera: doc.captureCamera }),
     createdAt: toISOString(doc.createdAt),
     updatedAt: toISOString(doc.updatedAt),
   };
@@ -177,7 +364,21 @@ function transformArchiveDocument(doc: ArchiveDocument): ArchiveModel {
     shootId: doc.shootId,
     type: doc.type,
     size: doc.size,
-    downloadUrl: doc.downloadUrl,
+    requestedBy: doc.requestedBy,
+    ...(doc.requestedByRole && { requestedByRole: doc.requestedByRole }),
+    streaming: doc.streaming,
+    ...(doc.fileIds && { fileIds: doc.fileIds }),
+    ...(doc.notifyEmail && { notifyEmail: doc.notifyEmail }),
+    ...(doc.progress && {
+      progress: {
+        filesProcessed: doc.progress.filesProcessed,
+        totalFiles: doc.progress.totalFiles,
+        bytesProcessed: doc.progress.bytesProcessed,
+        totalBytes: doc.progress.totalBytes,
+        bytesWritten: doc.progress.bytesWritten,
+        ...(doc.progress.etaSeconds !== undefined && { etaSeconds: doc.progress.etaSeconds }),
+      },
+    }),
     expiresAt: toISOString(doc.expiresAt),
     status: doc.status,
     createdAt: toISOString(doc.createdAt),
@@ -185,15 +386,87 @@ function transformArchiveDocument(doc: ArchiveDocument): ArchiveModel {
   };
 }
 
+function transformProcessingJobDocument(doc: ProcessingJobDocument): ProcessingJob {
+  return {
+    id: String(doc._id),
+    fileId: doc.fileId,
+    status: doc.status,
+    attempts: doc.attempts,
+    maxAttempts: doc.maxAttempts,
+    runAt: toISOString(doc.runAt),
+    ...(doc.leaseExpiresAt && { leaseExpiresAt: toISOString(doc.leaseExpiresAt) }),
+    ...(doc.workerId && { workerId: doc.workerId }),
+    ...(doc.lastError && { lastError: doc.lastError }),
+    createdAt: toISOString(doc.createdAt),
+    updatedAt: toISOString(doc.updatedAt),
+  };
+}
+
+function transformIntegrityReportDocument(doc: IntegrityReportDocument): IntegrityReport {
+  return {
+    id: String(doc._id),
+    status: doc.status,
+    startedAt: toISOString(doc.startedAt),
+    ...(doc.finishedAt && { finishedAt: toISOString(doc.finishedAt) }),
+    ...(doc.error && { error: doc.error }),
+    checkedFiles: doc.checkedFiles,
+    hashesVerified: doc.hashesVerified,
+    issueCount: doc.issueCount,
+    orphanCount: doc.orphanCount,
+    orphanBytes: doc.orphanBytes,
+    issues: doc.issues.map(({ type, storagePath, tier, fileIds, expectedSize, actualSize }) => ({
+      type, storagePath, tier, fileIds: [...fileIds], expectedSize,
+      ...(actualSize !== undefined && { actualSize }),
+    })),
+    orphans: doc.orphans.map(({ storagePath, tier, size, modifiedAt, quarantinedTo }) => ({
+      storagePath, tier, size, modifiedAt: toISOString(modifiedAt),
+      ...(quarantinedTo && { quarantinedTo }),
+    })),
+    ...(doc.quarantinedAt && { quarantinedAt: toISOString(doc.quarantinedAt) }),
+  };
+}
+
+function transformResumableUploadDocument(doc: ResumableUploadDocument): ResumableUpload {
+  return {
+    id: String(doc._id),
+    shootId: doc.shootId,
+    filename: doc.filename,
+    mimeType: doc.mimeType,
+    ...(doc.tags?.length && { tags: doc.tags }),
+    length: doc.length,
+    offset: doc.offset,
+    partPath: doc.partPath,
+    ...(doc.checksum && { checksum: doc.checksum }),
+    ...(doc.fileId && { fileId: doc.fileId }),
+    expiresAt: toISOString(doc.expiresAt),
+    createdAt: toISOString(doc.createdAt),
+    updatedAt: toISOString(doc.updatedAt),
+  };
+}
+
 export {
   fileSchema,
   archiveSchema,
   chunkSchema,
+  processingJobSchema,
+  resumableUploadSchema,
+  blobSchema,
+  integrityReportSchema,
+  clockOffsetSchema,
+  NOT_TRASHED,
+  CAPTURE_ORDER,
   transformFileDocument,
   transformArchiveDocument,
+  transformProcessingJobDocument,
+  transformResumableUploadDocument,
+  transformIntegrityReportDocument,
 };
 
 // Model type exports
 export type FileModelType = Model<FileDocument>;
 export type ArchiveModelType = Model<ArchiveDocument>;
-export type ChunkModelType = Model<ChunkDocument>;
\ No newline at end of file
+export type ChunkModelType = Model<ChunkDocument>;
+export type ProcessingJobModelType = Model<ProcessingJobDocument>;
+export type BlobModelType = Model<BlobDocument>;
+export type ResumableUploadModelType = Model<ResumableUploadDocument>;
+export type IntegrityReportModelType = Model<IntegrityReportDocument>;
@@ -0,0 +1,102 @@
+/**
+ * File type classification from MIME type and filename
+ */
+
+import path from 'path';
+import { FileType } from '../contracts/files.api.js';
+
+export type SidecarType = 'xmp' | 'psd' | 'psb' | 'cos' | 'col' | 'afphoto' | 'xcf';
+
+// RAW formats by file extension
+export const RAW_EXTENSIONS = ['cr2', 'cr3', 'nef', 'nrw', 'arw', 'orf', 'dng', 'rwl', '3fr', 'fff', 'iiq'];
+
+/**
+ * Determine file type from MIME type and filename
+ */
+export function determineFileType(mimeType: string, filename?: string): FileType {
+  const extension = filename?.toLowerCase().split('.').pop();
+  
+  // Sidecar/Config file formats (photographer-only access per TypeSpec comments)
+  const sidecarExtensions = ['xmp']; // Adobe Lightroom/Photoshop sidecar
+  const configExtensions = ['psd', 'psb', 'cos', 'col', 'afphoto', 'xcf']; // Editor project files
+
+  if (extension && sidecarExtensions.includes(extension)) {
+    return 'sidecar';
+  }
+  if (extension && configExtensions.includes(extension)) {
+    return 'config';
+  }
+  
+  // Standard image formats
+  if (mimeType.startsWith('image/jpeg')) {return 'jpeg';}
+  if (mimeType.startsWith('image/png')) {return 'png';}
+  if (mimeType.startsWith('video/')) {return 'video';}
+  
+  // RAW formats based on file-service.tsp comments
+  const rawFormats = [
+    'image/x-canon-cr2', 'image/x-canon-cr3', // Canon: .CR2, .CR3
+    'image/x-nikon-nef', 'image/x-nikon-nrw', // Nikon: .NEF, .NRW
+    'image/x-sony-arw', // Sony: .ARW
+    'image/x-olympus-orf', // Olympus: .ORF
+    'image/x-adobe-dng', // Leica: .DNG, .RWL
+    'image/x-hasselblad-3fr', 'image/x-hasselblad-fff', // Hasselblad: .3FR, .FFF
+    'image/x-phaseone-iiq', // Phase One: .IIQ
+  ];
+  
+  if (rawFormats.includes(mimeType)) {return 'raw';}
+  
+  // Check by file extension for RAW formats
+  if (extension && RAW_EXTENSIONS.includes(extension)) {return 'raw';}
+  
+  // Default to jpeg for unknown image types
+  if (mimeType.startsWith('image/')) {return 'jpeg';}
+  
+  return 'raw'; // Default fallback
+}
+
+/**
+ * Get sidecar type from filename and file type
+ */
+export function getSidecarType(
+  filename: string,
+  fileType: FileType
+): SidecarType | undefined {
+  if (fileType !== 'sidecar' && fileType !== 'config') {
+    return undefined;
+  }
+  
+  const extension = filename.toLowerCase().split('.').pop();
+  
+  // Map extensions to sidecar types per TypeSpec comments
+  switch (extension) {
+    case 'xmp': return 'xmp'; // Adobe Lightroom/Photoshop sidecar
+    case 'psd': return 'psd'; // Adobe Photoshop internal project
+    case 'psb': return 'psb'; // Adobe Photoshop large docs
+    case 'cos': return 'cos'; // Capture One
+    case 'col': return 'col'; // Capture One
+    case 'afphoto': return 'afphoto'; // Affinity Photo
+    case 'xcf': return 'xcf'; // GIMP
+    default: return undefined;
+  }
+}
+
+// Sidecar and config files are photographer-only and pair with a RAW file
+export function isPairableSidecar(type: FileType): boolean {
+  return type === 'sidecar' || type === 'config';
+}
+
+// Sidecar and config files pair with the RAW file sharing their basename:
+// IMG_1234.xmp and (darktable-style) IMG_1234.CR3.xmp both go with IMG_1234.CR3
+export function pairingBaseName(filename: string): string {
+  const base = path.basename(filename, path.extname(filename));
+  const innerExtension = path.extname(base);
+  return RAW_EXTENSIONS.includes(innerExtension.slice(1).toLowerCase())
+    ? path.basename(base, innerExtension)
+    : base;
+}
+
+// Filenames with the same pairing basename, ignoring case
+export function sameBaseNamePattern(filename: string): RegExp {
+  const escaped = pairingBaseName(filename).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^${escaped}(\\.[^.]+){1,2}$`, 'i');
+}
@@ -0,0 +1,4 @@
+// E11000: an insert or update hit a unique index
+export function isDuplicateKeyError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 11000;
+}
@@ -0,0 +1,333 @@
+/**
+ * Embedded preview extraction for camera RAW files.
+ *
+ * RAW files carry a camera-rendered JPEG preview next to the sensor data. It
+ * is located by walking the container rather than decoding the RAW itself:
+ * - TIFF/IFD-based formats (CR2, NEF, ARW, DNG, ORF, RW2, PEF, 3FR...): the
+ *   JPEG referenced by JPEGInterchangeFormat or a single strip, in IFD0, the
+ *   IFD chain or SubIFDs (RW2 also has a JpgFromRaw tag)
+ * - CR3 (ISO base media boxes): the PRVW preview, or the THMB thumbnail
+ * The largest displayable (baseline or progressive) JPEG wins; the orientation
+ * comes from the RAW's IFD0, as previews are stored unrotated.
+ */
+
+export interface RawPreview {
+  data: Buffer;
+  width: number;
+  height: number;
+  orientation?: number;
+}
+
+interface TiffReader {
+  buffer: Buffer;
+  base: number; // Offsets inside the TIFF structure are relative to its header
+  littleEndian: boolean;
+}
+
+interface JpegCandidate {
+  offset: number;
+  length: number;
+}
+
+const TAG = {
+  stripOffsets: 0x0111,
+  orientation: 0x0112,
+  stripByteCounts: 0x0117,
+  subIfds: 0x014a,
+  jpegOffset: 0x0201,
+  jpegLength: 0x0202,
+  rw2JpgFromRaw: 0x002e,
+} as const;
+
+// TIFF magic numbers: standard, Olympus ORF ('RO' / 'RS') and Panasonic RW2
+const TIFF_MAGICS = new Set([42, 0x4f52, 0x5352, 0x55]);
+const MAX_IFDS = 32;
+const MAX_IFD_ENTRIES = 1000;
+
+const CR3_CANON_UUID = '85c0b687820f11e08111f4ce462b6a48';
+const CR3_PREVIEW_UUID = 'eaf42b5e1c984b88b9fbb7dc406e4d16';
+
+const JPEG_SOI = Buffer.from([0xff, 0xd8, 0xff]);
+const JPEG_EOI = Buffer.from([0xff, 0xd9]);
+
+/**
+ * Extract the embedded JPEG preview from a RAW file; null when the container
+ * is not recognised or holds no displayable preview.
+ */
+export function extractRawPreview(buffer: Buffer): RawPreview | null {
+  if (isCr3(buffer)) {
+    return extractCr3Preview(buffer);
+  }
+
+  const reader = openTiff(buffer, 0);
+  if (!reader) {
+    return null;
+  }
+
+  const candidates: JpegCandidate[] = [];
+  walkIfds(reader, entries => candidates.push(...tiffJpegCandidates(reader, entries)));
+
+  return pickLargestJpeg(buffer, candidates, readOrientation(reader));
+}
+
+function openTiff(buffer: Buffer, base: number): TiffReader | null {
+  if (base + 8 > buffer.length) {
+    return null;
+  }
+  const order = buffer.toString('latin1', base, base + 2);
+  if (order !== 'II' && order !== 'MM') {
+    return null;
+  }
+  const reader = { buffer, base, littleEndian: order === 'II' };
+  return TIFF_MAGICS.has(readUInt16(reader, 2)) ? reader : null;
+}
+
+function readUInt16(reader: TiffReader, offset: number): number {
+  const position = reader.base + offset;
+  return reader.littleEndian ? reader.buffer.readUInt16LE(position) : reader.buffer.readUInt16BE(position);
+}
+
+function readUInt32(reader: TiffReader, offset: number): number {
+  const position = reader.base + offset;
+  return reader.littleEndian ? reader.buffer.readUInt32LE(position) : reader.buffer.readUInt32BE(position);
+}
+
+function inBounds(reader: TiffReader, offset: number, length: number): boolean {
+  return offset >= 0 && reader.base + offset + length <= reader.buffer.length;
+}
+
+/**
+ * Visit IFD0, the IFDs chained after it and their SubIFDs, guarding against
+ * loops and truncated files. Only SHORT/LONG/IFD values are decoded.
+ */
+function walkIfds(reader: TiffReader, visit: (entries: Map<number, number[]>) => void): void {
+  const queue = [readUInt32(reader, 4)];
+  const visited = new Set<number>();
+
+  while (queue.length > 0 && visited.size < MAX_IFDS) {
+    const offset = queue.shift() as number;
+    if (offset === 0 || visited.has(offset) || !inBounds(reader, offset, 2)) {
+      continue;
+    }
+    visited.add(offset);
+
+    const count = readUInt16(reader, offset);
+    if (count > MAX_IFD_ENTRIES || !inBounds(reader, offset + 2, count * 12 + 4)) {
+      continue;
+    }
+
+    const entries = new Map<number, number[]>();
+    for (let i = 0; i < count; i++) {
+      const entry = offset + 2 + i * 12;
+      entries.set(readUInt16(reader, entry), readEntryValues(reader, entry));
+    }
+
+    visit(entries);
+    queue.push(readUInt32(reader, offset + 2 + count * 12), ...(entries.get(TAG.subIfds) ?? []));
+  }
+}
+
+// Orientation tag of IFD0 (1-8, as in EXIF)
+function readOrientation(reader: TiffReader): number | undefined {
+  const offset = readUInt32(reader, 4);
+  if (!inBounds(reader, offset, 2)) {
+    return undefined;
+  }
+  const count = Math.min(readUInt16(reader, offset), MAX_IFD_ENTRIES);
+  for (let i = 0; i < count && inBounds(reader, offset + 2 + i * 12, 12); i++) {
+    const entry = offset + 2 + i * 12;
+    if (readUInt16(reader, entry) === TAG.orientation) {
+      return readUInt16(reader, entry + 8);
+    }
+  }
+  return undefined;
+}
+
+function readEntryValues(reader: TiffReader, entry: number): number[] {
+  const type = readUInt16(reader, entry + 2);
+  const count = readUInt32(reader, entry + 4);
+
+  if (readUInt16(reader, entry) === TAG.rw2JpgFromRaw) {
+    // UNDEFINED bytes holding the JPEG itself: report where and how long
+    return [readUInt32(reader, entry + 8), count];
+  }
+
+  const size = type === 3 ? 2 : type === 4 || type === 13 ? 4 : 0;
+  if (size === 0 || count === 0 || count > 64) {
+    return [];
+  }
+
+  const valuesOffset = size * count <= 4 ? entry + 8 : readUInt32(reader, entry + 8);
+  if (!inBounds(reader, valuesOffset, size * count)) {
+    return [];
+  }
+  return Array.from({ length: count }, (_, i) =>
+    size === 2 ? readUInt16(reader, valuesOffset + i * 2) : readUInt32(reader, valuesOffset + i * 4)
+  );
+}
+
+function tiffJpegCandidates(reader: TiffReader, entries: Map<number, number[]>): JpegCandidate[] {
+  const candidates: JpegCandidate[] = [];
+  const pairs: [number, number][] = [
+    [TAG.jpegOffset, TAG.jpegLength],
+    [TAG.stripOffsets, TAG.stripByteCounts],
+  ];
+
+  for (const [offsetTag, lengthTag] of pairs) {
+    const offsets = entries.get(offsetTag) ?? [];
+    const lengths = entries.get(lengthTag) ?? [];
+    // Multi-strip images are raw sensor data, not a JPEG
+    if (offsets.length === 1 && lengths.length === 1) {
+      candidates.push({ offset: reader.base + offsets[0], length: lengths[0] });
+    }
+  }
+
+  const jpgFromRaw = entries.get(TAG.rw2JpgFromRaw);
+  if (jpgFromRaw?.length === 2) {
+    candidates.push({ offset: reader.base + jpgFromRaw[0], length: jpgFromRaw[1] });
+  }
+
+  return candidates;
+}
+
+function isCr3(buffer: Buffer): boolean {
+  return buffer.length >= 12
+    && buffer.toString('latin1', 4, 8) === 'ftyp'
+    && buffer.toString('latin1', 8, 12) === 'crx ';
+}
+
+interface Box {
+  type: string;
+  start: number;
+  contentStart: number;
+  end: number;
+}
+
+function* readBoxes(buffer: Buffer, start: number, end: number): Generator<Box> {
+  let position = start;
+  while (position + 8 <= end) {
+    let size = buffer.readUInt32BE(position);
+    let headerSize = 8;
+    if (size === 1 && position + 16 <= end) {
+      size = Number(buffer.readBigUInt64BE(position + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - position;
+    }
+    if (size < headerSize || position + size > end) {
+      return;
+    }
+
+    yield {
+      type: buffer.toString('latin1', position + 4, position + 8),
+      start: position,
+      contentStart: position + headerSize,
+      end: position + size,
+    };
+    position += size;
+  }
+}
+
+function uuidOf(buffer: Buffer, box: Box): string {
+  return buffer.toString('hex', box.contentStart, box.contentStart + 16);
+}
+
+function extractCr3Preview(buffer: Buffer): RawPreview | null {
+  const candidates: JpegCandidate[] = [];
+  let orientation: number | undefined;
+
+  for (const box of readBoxes(buffer, 0, buffer.length)) {
+    if (box.type === 'moov') {
+      const canon = [...readBoxes(buffer, box.contentStart, box.end)]
+        .find(child => child.type === 'uuid' && uuidOf(buffer, child) === CR3_CANON_UUID);
+      const metadata = canon ? readCanonBoxes(buffer, canon) : { candidates: [] };
+      candidates.push(...metadata.candidates);
+      orientation = metadata.orientation;
+    } else if (box.type === 'uuid' && uuidOf(buffer, box) === CR3_PREVIEW_UUID) {
+      const prvw = buffer.indexOf('PRVW', box.contentStart + 16, 'latin1');
+      if (prvw !== -1 && prvw < box.end) {
+        candidates.push(...findJpeg(buffer, prvw, box.end));
+      }
+    }
+  }
+
+  return pickLargestJpeg(buffer, candidates, orientation);
+}
+
+// Canon metadata box: CMT1 holds IFD0 as a TIFF structure, THMB a small JPEG
+function readCanonBoxes(buffer: Buffer, canon: Box): { candidates: JpegCandidate[]; orientation?: number } {
+  const candidates: JpegCandidate[] = [];
+  let orientation: number | undefined;
+
+  for (const child of readBoxes(buffer, canon.contentStart + 16, canon.end)) {
+    if (child.type === 'CMT1') {
+      const reader = openTiff(buffer, child.contentStart);
+      orientation = reader ? readOrientation(reader) : undefined;
+    } else if (child.type === 'THMB') {
+      candidates.push(...findJpeg(buffer, child.contentStart, child.end));
+    }
+  }
+
+  return { candidates, ...(orientation !== undefined && { orientation }) };
+}
+
+// The JPEG stored in a box: from its start marker to the last end marker
+function findJpeg(buffer: Buffer, start: number, end: number): JpegCandidate[] {
+  const offset = buffer.indexOf(JPEG_SOI, start);
+  const eoi = buffer.lastIndexOf(JPEG_EOI, end - JPEG_EOI.length);
+  return offset !== -1 && offset < end && eoi > offset ? [{ offset, length: eoi + JPEG_EOI.length - offset }] : [];
+}
+
+function pickLargestJpeg(
+  buffer: Buffer,
+  candidates: JpegCandidate[],
+  orientation: number | undefined
+): RawPreview | null {
+  let best: RawPreview | null = null;
+
+  for (const { offset, length } of candidates) {
+    if (offset < 0 || length <= 0 || offset + length > buffer.length) {
+      continue;
+    }
+    const data = buffer.subarray(offset, offset + length);
+    const dimensions = displayableJpegDimensions(data);
+    if (dimensions && (!best || dimensions.width * dimensions.height > best.width * best.height)) {
+      best = { data, ...dimensions, ...(orientation !== undefined && { orientation }) };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Dimensions of a baseline or progressive JPEG; null for anything else,
+ * notably the lossless JPEG many RAW formats use for sensor data.
+ */
+function displayableJpegDimensions(data: Buffer): { width: number; height: number } | null {
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) {
+    return null;
+  }
+
+  let position = 2;
+  while (position + 9 <= data.length) {
+    if (data[position] !== 0xff) {
+      return null;
+    }
+    const marker = data[position + 1];
+    if (marker === 0xff) {
+      position++;
+      continue;
+    }
+    if (marker === 0xc0 || marker === 0xc1 || marker === 0xc2) {
+      return { height: data.readUInt16BE(position + 5), width: data.readUInt16BE(position + 7) };
+    }
+    // Any other frame type, or image data before a frame header
+    if ((marker >= 0xc3 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc)
+      || marker === 0xda || marker === 0xd9) {
+      return null;
+    }
+    position += 2 + data.readUInt16BE(position + 2);
+  }
+
+  return null;
+}
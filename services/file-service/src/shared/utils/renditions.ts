@@ -0,0 +1,74 @@
+import path from 'path';
+import {
+  FileModel,
+  FileDownloadQuery,
+  RenditionFormat,
+  RenditionName,
+  StorageTier,
+} from '../contracts/files.api.js';
+
+const RENDITION_EXTENSIONS: Record<RenditionFormat, string> = {
+  jpeg: 'jpg',
+  webp: 'webp',
+  avif: 'avif',
+};
+
+export const RENDITION_MIME_TYPES: Record<RenditionFormat, string> = {
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  avif: 'image/avif',
+};
+
+// Storage path (relative to the storage base path) of a rendition, mirroring
+// the original's year/month layout under renditions/
+export function renditionStoragePath(
+  storagePath: string,
+  fileId: string,
+  name: RenditionName,
+  format: RenditionFormat
+): string {
+  return path.join('renditions', path.dirname(storagePath), `${fileId}_${name}.${RENDITION_EXTENSIONS[format]}`);
+}
+
+export function renditionUrl(fileId: string, name: RenditionName, format: RenditionFormat): string {
+  return `/files/${fileId}/download?resolution=${name}&format=${format}`;
+}
+
+export interface DownloadTarget {
+  storagePath: string;
+  mimeType: string;
+  filename: string;
+  isOriginal: boolean;
+  tier?: StorageTier; // Renditions are always hot
+}
+
+/**
+ * What a download serves: the original for 'raw' (the default), otherwise the
+ * requested rendition (JPEG unless a format is given). Null when that
+ * rendition was not generated.
+ */
+export function selectDownloadTarget(file: FileModel, query: FileDownloadQuery = {}): DownloadTarget | null {
+  const { resolution = 'raw', format = 'jpeg' } = query;
+  if (resolution === 'raw') {
+    return {
+      storagePath: file.storagePath,
+      mimeType: file.mimeType,
+      filename: file.filename,
+      isOriginal: true,
+      ...(file.storageTier && { tier: file.storageTier }),
+    };
+  }
+
+  const rendition = file.renditions?.find(r => r.name === resolution && r.format === format);
+  if (!rendition) {
+    return null;
+  }
+
+  const basename = path.parse(file.filename).name;
+  return {
+    storagePath: rendition.storagePath,
+    mimeType: RENDITION_MIME_TYPES[format],
+    filename: `${basename}_${resolution}.${RENDITION_EXTENSIONS[format]}`,
+    isOriginal: false,
+  };
+}
@@ -0,0 +1,98 @@
+/**
+ * Signed download links: an HMAC-SHA256 over what a link grants (the file or
+ * archive, the user, role and shoot it was issued for, the rendition) and when
+ * it expires, so links can't be forged, enumerated, widened or extended
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export interface DownloadResource {
+  kind: 'file' | 'archive';
+  id: string;
+  shootId: string;
+}
+
+export interface DownloadGrant {
+  userId: string;
+  role: string; // Decides what the download route serves the link to
+  resolution?: string;
+  format?: string;
+  galleryId?: string;
+}
+
+// Query parameters of a signed link; the rendition parameters are signed too
+export interface SignedDownloadQuery {
+  user?: string;
+  role?: string;
+  expires?: string; // Unix time in seconds
+  signature?: string;
+  resolution?: string;
+  format?: string;
+  galleryId?: string;
+}
+
+export type SignatureCheck = 'valid' | 'expired' | 'invalid';
+
+function sign(resource: DownloadResource, grant: DownloadGrant, expires: number, secret: string): string {
+  // JSON keeps the fields apart: no value can run into the next one
+  const payload = JSON.stringify([
+    resource.kind,
+    resource.id,
+    resource.shootId,
+    grant.userId,
+    grant.role,
+    grant.resolution ?? '',
+    grant.format ?? '',
+    grant.galleryId ?? '',
+    expires,
+  ]);
+  return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Query string of a link granting the download until `expires` (Unix seconds)
+ */
+export function signDownloadQuery(
+  resource: DownloadResource,
+  grant: DownloadGrant,
+  expires: number,
+  secret: string
+): string {
+  const params = new URLSearchParams();
+  for (const key of ['resolution', 'format', 'galleryId'] as const) {
+    const value = grant[key];
+    if (value) {
+      params.set(key, value);
+    }
+  }
+  params.set('user', grant.userId);
+  params.set('role', grant.role);
+  params.set('expires', String(expires));
+  params.set('signature', sign(resource, grant, expires, secret));
+  return params.toString();
+}
+
+/**
+ * Check a link's query against the resource actually requested. A link is
+ * only reported expired once its signature holds.
+ */
+export function verifyDownloadQuery(
+  resource: DownloadResource,
+  query: SignedDownloadQuery,
+  secret: string,
+  now = Date.now()
+): SignatureCheck {
+  const { user, role, signature } = query;
+  const expires = Number(query.expires);
+  if (typeof user !== 'string' || !user || typeof role !== 'string' || !role ||
+      typeof signature !== 'string' || !Number.isInteger(expires)) {
+    return 'invalid';
+  }
+
+  const expected = Buffer.from(sign(resource, { ...query, userId: user, role }, expires, secret));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return 'invalid';
+  }
+  return expires * 1000 > now ? 'valid' : 'expired';
+}
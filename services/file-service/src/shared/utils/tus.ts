@@ -0,0 +1,33 @@
+// tus 1.0.0 resumable upload protocol (https://tus.io/protocols/resumable-upload)
+export const TUS_VERSION = '1.0.0';
+export const TUS_EXTENSIONS = 'creation,checksum,termination,expiration';
+export const TUS_CHECKSUM_ALGORITHMS = ['sha1', 'sha256', 'sha512', 'md5'];
+export const TUS_CONTENT_TYPE = 'application/offset+octet-stream';
+
+export interface TusChecksum {
+  algorithm: string;
+  digest: string; // base64
+}
+
+// Upload-Metadata: comma-separated "key base64value" pairs; the value may be
+// omitted for keys without one
+export function parseUploadMetadata(header: string | undefined): Record<string, string> {
+  const metadata: Record<string, string> = {};
+  for (const pair of (header ?? '').split(',')) {
+    const [key, value] = pair.trim().split(' ');
+    if (key) {
+      metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : '';
+    }
+  }
+  return metadata;
+}
+
+// Upload-Checksum: "<algorithm> <base64 digest>"; null when malformed or the
+// algorithm is not supported
+export function parseUploadChecksum(header: string | undefined): TusChecksum | null {
+  const [algorithm, digest, ...rest] = (header ?? '').trim().split(' ');
+  if (!digest || rest.length > 0 || !TUS_CHECKSUM_ALGORITHMS.includes(algorithm)) {
+    return null;
+  }
+  return { algorithm, digest };
+}
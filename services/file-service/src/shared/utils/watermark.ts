@@ -0,0 +1,106 @@
+/**
+ * Watermark rendering: text or a PNG logo stamped on an image, sized
+ * relative to the image so it reads the same on every rendition
+ */
+
+import { createHash } from 'crypto';
+import path from 'path';
+import sharp from 'sharp';
+import { WatermarkPosition, WatermarkSettings } from '../contracts/files.api.js';
+
+const GRAVITY: Record<Exclude<WatermarkPosition, 'tiled'>, string> = {
+  center: 'centre',
+  'top-left': 'northwest',
+  'top-right': 'northeast',
+  'bottom-left': 'southwest',
+  'bottom-right': 'southeast',
+};
+
+// Average glyph width and line height of a sans-serif font, per font size
+const GLYPH_WIDTH = 0.6;
+const LINE_HEIGHT = 1.3;
+
+// Gap kept between the watermark and the image edge, and between tiles,
+// relative to the shorter image side
+const MARGIN = 0.02;
+
+// Watermarked renditions of a file are cached under watermarks/<fileId>/
+export function watermarkCacheDir(fileId: string): string {
+  return path.join('watermarks', fileId);
+}
+
+// Cache path of a rendition watermarked with the given settings; changed
+// settings get a new path, so stale copies are never served
+export function watermarkCachePath(fileId: string, renditionPath: string, settings: WatermarkSettings): string {
+  const key = createHash('sha256')
+    .update(JSON.stringify([settings.text, settings.logoFileId, settings.position, settings.opacity, settings.scale]))
+    .digest('hex')
+    .slice(0, 16);
+  return path.join(watermarkCacheDir(fileId), `${key}_${path.basename(renditionPath)}`);
+}
+
+/**
+ * Stamp a watermark on an image: the logo when one is given, the settings'
+ * text otherwise. The watermark is scale x the image width, shrunk if needed
+ * to fit. Returns the pipeline so the caller picks the output.
+ */
+export async function applyWatermark(
+  image: Buffer,
+  settings: WatermarkSettings,
+  logo?: Buffer
+): Promise<sharp.Sharp> {
+  const { width = 0, height = 0 } = await sharp(image).metadata();
+  const margin = Math.round(Math.min(width, height) * MARGIN);
+  const maxWidth = Math.max(1, Math.min(Math.round(width * settings.scale), width - 2 * margin));
+  const maxHeight = Math.max(1, height - 2 * margin);
+
+  const mark = logo
+    ? await logoOverlay(logo, maxWidth, maxHeight, settings.opacity)
+    : await textOverlay(settings.text ?? '', maxWidth, maxHeight, settings.opacity);
+  // Transparent padding keeps the mark off the edges and spaces out tiles
+  const overlay = await sharp(mark)
+    .extend({
+      top: margin,
+      bottom: margin,
+      left: margin,
+      right: margin,
+      background: { r: 0, g: 0, b: 0, alpha: 0 },
+    })
+    .png()
+    .toBuffer();
+
+  const { position } = settings;
+  return sharp(image)
+    .composite([position === 'tiled' ? { input: overlay, tile: true } : { input: overlay, gravity: GRAVITY[position] }]);
+}
+
+async function logoOverlay(logo: Buffer, maxWidth: number, maxHeight: number, opacity: number): Promise<Buffer> {
+  return sharp(logo)
+    .resize(maxWidth, maxHeight, { fit: 'inside' })
+    .ensureAlpha()
+    // Scale the logo's own transparency by the opacity
+    .composite([{
+      input: Buffer.from([255, 255, 255, Math.round(opacity * 255)]),
+      raw: { width: 1, height: 1, channels: 4 },
+      tile: true,
+      blend: 'dest-in',
+    }])
+    .png()
+    .toBuffer();
+}
+
+// White text with a soft dark outline, readable on light and dark images
+async function textOverlay(text: string, maxWidth: number, maxHeight: number, opacity: number): Promise<Buffer> {
+  const fontSize = Math.max(1, Math.min(maxWidth / (GLYPH_WIDTH * Math.max(text.length, 1)), maxHeight / LINE_HEIGHT));
+  const boxHeight = Math.max(1, Math.round(fontSize * LINE_HEIGHT));
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${maxWidth}" height="${boxHeight}">` +
+    `<text x="50%" y="50%" text-anchor="middle" dominant-baseline="central" font-family="sans-serif" ` +
+    `font-size="${fontSize.toFixed(1)}" fill="#fff" fill-opacity="${opacity}" stroke="#000" ` +
+    `stroke-opacity="${opacity / 2}" stroke-width="${(fontSize / 30).toFixed(1)}">${escapeXml(text)}</text></svg>`;
+
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
@@ -0,0 +1,137 @@
+/**
+ * XMP sidecar parsing: the culling decisions Lightroom, Bridge, Capture One
+ * and digiKam write next to a RAW file
+ */
+
+import { XmpMetadata, XmpPick } from '../contracts/files.api.js';
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Parse ratings, colour labels, pick/reject flags, keywords and crop from an
+ * XMP packet. Properties may be written as attributes of rdf:Description or
+ * as elements; missing or malformed ones are left out.
+ */
+export function parseXmp(xml: string): XmpMetadata {
+  const xmp: XmpMetadata = {};
+
+  // Lightroom marks rejected photos with a rating of -1
+  const rating = parseInteger(readProperty(xml, 'xmp:Rating'));
+  if (rating === -1) {
+    xmp.pick = 'rejected';
+  } else if (rating !== undefined && rating >= 0 && rating <= 5) {
+    xmp.rating = rating;
+  }
+
+  const label = readProperty(xml, 'xmp:Label');
+  if (label) {
+    xmp.label = label;
+  }
+
+  const pick = readPick(xml);
+  if (pick) {
+    xmp.pick = pick;
+  }
+
+  const keywords = readBag(xml, 'dc:subject');
+  if (keywords.length > 0) {
+    xmp.keywords = keywords;
+  }
+
+  const crop = readCrop(xml);
+  if (crop) {
+    xmp.crop = crop;
+  }
+
+  return xmp;
+}
+
+// Bridge writes xmpDM:pick (1 picked, -1 rejected); digiKam writes
+// digiKam:PickLabel (1 rejected, 2 pending, 3 accepted)
+function readPick(xml: string): XmpPick | undefined {
+  const pick = parseInteger(readProperty(xml, 'xmpDM:pick'));
+  if (pick === 1) {
+    return 'picked';
+  }
+  if (pick === -1) {
+    return 'rejected';
+  }
+
+  const pickLabel = parseInteger(readProperty(xml, 'digiKam:PickLabel'));
+  if (pickLabel === 3) {
+    return 'picked';
+  }
+  return pickLabel === 1 ? 'rejected' : undefined;
+}
+
+// Camera Raw crop: edges as fractions of the image, angle in degrees
+function readCrop(xml: string): XmpMetadata['crop'] {
+  if (readProperty(xml, 'crs:HasCrop')?.toLowerCase() !== 'true') {
+    return undefined;
+  }
+
+  const top = parseNumber(readProperty(xml, 'crs:CropTop'));
+  const left = parseNumber(readProperty(xml, 'crs:CropLeft'));
+  const bottom = parseNumber(readProperty(xml, 'crs:CropBottom'));
+  const right = parseNumber(readProperty(xml, 'crs:CropRight'));
+  if (top === undefined || left === undefined || bottom === undefined || right === undefined) {
+    return undefined;
+  }
+  return { top, left, bottom, right, angle: parseNumber(readProperty(xml, 'crs:CropAngle')) ?? 0 };
+}
+
+// A simple property: name="value" or <name>value</name>
+function readProperty(xml: string, name: string): string | undefined {
+  const escaped = escapeName(name);
+  const match = new RegExp(`\\s${escaped}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`).exec(xml)
+    ?? new RegExp(`<${escaped}>([^<]*)</${escaped}>`).exec(xml);
+  const value = match?.[1] ?? match?.[2];
+  return value === undefined ? undefined : decodeEntities(value).trim();
+}
+
+// The rdf:li items of an array property such as dc:subject
+function readBag(xml: string, name: string): string[] {
+  const escaped = escapeName(name);
+  const property = new RegExp(`<${escaped}>([\\s\\S]*?)</${escaped}>`).exec(xml);
+  if (!property) {
+    return [];
+  }
+
+  const items: string[] = [];
+  for (const match of property[1].matchAll(/<rdf:li(?:\s[^>]*)?>([^<]*)<\/rdf:li>/g)) {
+    const item = decodeEntities(match[1]).trim();
+    if (item && !items.includes(item)) {
+      items.push(item);
+    }
+  }
+  return items;
+}
+
+function escapeName(name: string): string {
+  return name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code.startsWith('#')) {
+      const isHex = code[1].toLowerCase() === 'x';
+      return String.fromCodePoint(parseInt(code.slice(isHex ? 2 : 1), isHex ? 16 : 10));
+    }
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
+
+function parseInteger(value: string | undefined): number | undefined {
+  return value !== undefined && /^[+-]?\d+$/.test(value) ? Number(value) : undefined;
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  const number = value ? Number(value) : NaN;
+  return Number.isFinite(number) ? number : undefined;
+}
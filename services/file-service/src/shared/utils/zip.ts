@@ -0,0 +1,210 @@
+/**
+ * Stored (uncompressed) ZIP layout for streamed archives. Every header is
+ * computed from the entry names, sizes and dates alone, so the archive size
+ * and the position of every byte are known before anything is read, and the
+ * same entries always give the same bytes. ZIP64 records are used only where
+ * sizes, offsets or the entry count need them.
+ */
+
+import path from 'path';
+
+export interface ZipEntryInput {
+  name: string;
+  size: number;
+  modifiedAt: Date;
+}
+
+export interface ZipEntry extends ZipEntryInput {
+  offset: number; // Of the local file header
+  headerSize: number; // The entry's data follows its local header
+  zip64: boolean;
+}
+
+export interface ZipLayout {
+  entries: ZipEntry[];
+  centralDirectoryOffset: number;
+  size: number;
+}
+
+const LOCAL_HEADER = 0x04034b50;
+const CENTRAL_HEADER = 0x02014b50;
+const ZIP64_END = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const END = 0x06054b50;
+
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const ZIP64_END_SIZE = 56;
+const ZIP64_LOCATOR_SIZE = 20;
+const END_SIZE = 22;
+
+const MAX_32 = 0xffffffff;
+const MAX_16 = 0xffff;
+const UTF8_NAMES = 0x0800;
+const VERSION = 20;
+const VERSION_ZIP64 = 45;
+
+function nameBytes(entry: ZipEntryInput): number {
+  return Buffer.byteLength(entry.name);
+}
+
+// Central directory ZIP64 extra: sizes when the entry needs it, the offset
+// when the local header lies beyond 4GB
+function centralExtraSize(entry: ZipEntry): number {
+  const fields = (entry.zip64 ? 2 : 0) + (entry.offset >= MAX_32 ? 1 : 0);
+  return fields > 0 ? 4 + fields * 8 : 0;
+}
+
+/**
+ * Where everything goes: local headers and data in entry order, then the
+ * central directory and the end records
+ */
+export function planZip(inputs: ZipEntryInput[]): ZipLayout {
+  let offset = 0;
+  const entries = inputs.map(input => {
+    const zip64 = input.size >= MAX_32;
+    const headerSize = LOCAL_HEADER_SIZE + nameBytes(input) + (zip64 ? 20 : 0);
+    const entry = { ...input, offset, headerSize, zip64 };
+    offset += headerSize + input.size;
+    return entry;
+  });
+
+  const centralDirectoryOffset = offset;
+  const centralDirectorySize = entries
+    .reduce((total, entry) => total + CENTRAL_HEADER_SIZE + nameBytes(entry) + centralExtraSize(entry), 0);
+  const end = needsZip64End(entries.length, centralDirectoryOffset, centralDirectorySize)
+    ? ZIP64_END_SIZE + ZIP64_LOCATOR_SIZE + END_SIZE
+    : END_SIZE;
+
+  return { entries, centralDirectoryOffset, size: centralDirectoryOffset + centralDirectorySize + end };
+}
+
+function needsZip64End(count: number, centralDirectoryOffset: number, centralDirectorySize: number): boolean {
+  return count >= MAX_16 || centralDirectoryOffset >= MAX_32 || centralDirectorySize >= MAX_32;
+}
+
+// MS-DOS date and time, in UTC so the bytes don't depend on the server's zone
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.min(Math.max(date.getUTCFullYear(), 1980), 2107);
+  return {
+    time: (date.getUTCHours() << 11) | (date.getUTCMinutes() << 5) | Math.floor(date.getUTCSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getUTCMonth() + 1) << 5) | date.getUTCDate(),
+  };
+}
+
+// Fields shared by local and central headers, from "version needed" to the name length
+function writeCommonFields(buffer: Buffer, at: number, entry: ZipEntry, crc32: number): void {
+  const { time, date } = dosDateTime(entry.modifiedAt);
+  const size = entry.zip64 ? MAX_32 : entry.size;
+  buffer.writeUInt16LE(entry.zip64 || entry.offset >= MAX_32 ? VERSION_ZIP64 : VERSION, at);
+  buffer.writeUInt16LE(UTF8_NAMES, at + 2);
+  buffer.writeUInt16LE(0, at + 4); // Stored
+  buffer.writeUInt16LE(time, at + 6);
+  buffer.writeUInt16LE(date, at + 8);
+  buffer.writeUInt32LE(crc32 >>> 0, at + 10);
+  buffer.writeUInt32LE(size, at + 14); // Compressed
+  buffer.writeUInt32LE(size, at + 18); // Uncompressed
+  buffer.writeUInt16LE(nameBytes(entry), at + 22);
+}
+
+/**
+ * Local file header of an entry; its data follows unchanged
+ */
+export function localFileHeader(entry: ZipEntry, crc32: number): Buffer {
+  const buffer = Buffer.alloc(entry.headerSize);
+  buffer.writeUInt32LE(LOCAL_HEADER, 0);
+  writeCommonFields(buffer, 4, entry, crc32);
+  const extraAt = LOCAL_HEADER_SIZE + nameBytes(entry);
+  buffer.writeUInt16LE(entry.headerSize - extraAt, 28);
+  buffer.write(entry.name, LOCAL_HEADER_SIZE, 'utf8');
+  if (entry.zip64) {
+    buffer.writeUInt16LE(0x0001, extraAt);
+    buffer.writeUInt16LE(16, extraAt + 2);
+    buffer.writeBigUInt64LE(BigInt(entry.size), extraAt + 4);
+    buffer.writeBigUInt64LE(BigInt(entry.size), extraAt + 12);
+  }
+  return buffer;
+}
+
+function centralHeader(entry: ZipEntry, crc32: number): Buffer {
+  const extraSize = centralExtraSize(entry);
+  const nameSize = nameBytes(entry);
+  const buffer = Buffer.alloc(CENTRAL_HEADER_SIZE + nameSize + extraSize);
+  buffer.writeUInt32LE(CENTRAL_HEADER, 0);
+  buffer.writeUInt16LE(VERSION_ZIP64, 4); // Made by
+  writeCommonFields(buffer, 6, entry, crc32);
+  buffer.writeUInt16LE(extraSize, 30);
+  buffer.writeUInt32LE(Math.min(entry.offset, MAX_32), 42);
+  buffer.write(entry.name, CENTRAL_HEADER_SIZE, 'utf8');
+
+  if (extraSize > 0) {
+    let at = CENTRAL_HEADER_SIZE + nameSize;
+    buffer.writeUInt16LE(0x0001, at);
+    buffer.writeUInt16LE(extraSize - 4, at + 2);
+    at += 4;
+    if (entry.zip64) {
+      buffer.writeBigUInt64LE(BigInt(entry.size), at);
+      buffer.writeBigUInt64LE(BigInt(entry.size), at + 8);
+      at += 16;
+    }
+    if (entry.offset >= MAX_32) {
+      buffer.writeBigUInt64LE(BigInt(entry.offset), at);
+    }
+  }
+  return buffer;
+}
+
+function endRecords(count: number, centralDirectoryOffset: number, centralDirectorySize: number): Buffer {
+  const end = Buffer.alloc(END_SIZE);
+  end.writeUInt32LE(END, 0);
+  end.writeUInt16LE(Math.min(count, MAX_16), 8);
+  end.writeUInt16LE(Math.min(count, MAX_16), 10);
+  end.writeUInt32LE(Math.min(centralDirectorySize, MAX_32), 12);
+  end.writeUInt32LE(Math.min(centralDirectoryOffset, MAX_32), 16);
+  if (!needsZip64End(count, centralDirectoryOffset, centralDirectorySize)) {
+    return end;
+  }
+
+  const zip64End = Buffer.alloc(ZIP64_END_SIZE);
+  zip64End.writeUInt32LE(ZIP64_END, 0);
+  zip64End.writeBigUInt64LE(BigInt(ZIP64_END_SIZE - 12), 4);
+  zip64End.writeUInt16LE(VERSION_ZIP64, 12);
+  zip64End.writeUInt16LE(VERSION_ZIP64, 14);
+  zip64End.writeBigUInt64LE(BigInt(count), 24);
+  zip64End.writeBigUInt64LE(BigInt(count), 32);
+  zip64End.writeBigUInt64LE(BigInt(centralDirectorySize), 40);
+  zip64End.writeBigUInt64LE(BigInt(centralDirectoryOffset), 48);
+
+  const locator = Buffer.alloc(ZIP64_LOCATOR_SIZE);
+  locator.writeUInt32LE(ZIP64_LOCATOR, 0);
+  locator.writeBigUInt64LE(BigInt(centralDirectoryOffset + centralDirectorySize), 8);
+  locator.writeUInt32LE(1, 16); // Disks
+  return Buffer.concat([zip64End, locator, end]);
+}
+
+/**
+ * Everything after the last entry's data: the central directory and the end
+ * records. `crc32s` are the entries' checksums, in entry order.
+ */
+export function centralDirectory(layout: ZipLayout, crc32s: number[]): Buffer {
+  const headers = layout.entries.map((entry, i) => centralHeader(entry, crc32s[i]));
+  const size = headers.reduce((total, header) => total + header.length, 0);
+  return Buffer.concat([...headers, endRecords(layout.entries.length, layout.centralDirectoryOffset, size)]);
+}
+
+/**
+ * Entry names made unique in order: later duplicates get " (2)", " (3)"...
+ * before the extension
+ */
+export function uniqueEntryNames(names: string[]): string[] {
+  const taken = new Set<string>();
+  return names.map(name => {
+    const { name: base, ext } = path.parse(name);
+    let unique = name;
+    for (let n = 2; taken.has(unique.toLowerCase()); n++) {
+      unique = `${base} (${n})${ext}`;
+    }
+    taken.add(unique.toLowerCase());
+    return unique;
+  });
+}
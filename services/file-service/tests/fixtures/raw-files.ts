@@ -0,0 +1,90 @@
+/**
+ * RAW File Fixtures
+ * Minimal TIFF/IFD and CR3 containers wrapping JPEG previews
+ */
+
+import sharp from 'sharp';
+
+export async function buildJpeg(width: number, height: number): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: '#806040' } }).jpeg().toBuffer();
+}
+
+/**
+ * TIFF-based RAW: IFD0 carries the orientation and one SubIFD per preview,
+ * each pointing at its JPEG through JPEGInterchangeFormat(Length)
+ */
+export function buildTiffRaw(previews: Buffer[], options: { orientation?: number; bigEndian?: boolean } = {}): Buffer {
+  const { orientation, bigEndian = false } = options;
+  const ifd0Entries = (orientation === undefined ? 0 : 1) + 1;
+  const ifd0Size = 2 + ifd0Entries * 12 + 4;
+  const subIfdArray = 8 + ifd0Size;
+  const firstSubIfd = subIfdArray + previews.length * 4;
+  const subIfdSize = 2 + 2 * 12 + 4;
+  let dataOffset = firstSubIfd + previews.length * subIfdSize;
+
+  const header = Buffer.alloc(dataOffset);
+  const u16 = (value: number, at: number): number =>
+    bigEndian ? header.writeUInt16BE(value, at) : header.writeUInt16LE(value, at);
+  const u32 = (value: number, at: number): number =>
+    bigEndian ? header.writeUInt32BE(value, at) : header.writeUInt32LE(value, at);
+  const entry = (at: number, tag: number, type: number, count: number, value: number): void => {
+    u16(tag, at);
+    u16(type, at + 2);
+    u32(count, at + 4);
+    if (type === 3) {
+      u16(value, at + 8);
+    } else {
+      u32(value, at + 8);
+    }
+  };
+
+  header.write(bigEndian ? 'MM' : 'II', 0, 'latin1');
+  u16(42, 2);
+  u32(8, 4);
+
+  u16(ifd0Entries, 8);
+  let at = 10;
+  if (orientation !== undefined) {
+    entry(at, 0x0112, 3, 1, orientation);
+    at += 12;
+  }
+  entry(at, 0x014a, 4, previews.length, previews.length === 1 ? firstSubIfd : subIfdArray);
+
+  previews.forEach((preview, i) => {
+    const ifd = firstSubIfd + i * subIfdSize;
+    u32(ifd, subIfdArray + i * 4);
+    u16(2, ifd);
+    entry(ifd + 2, 0x0201, 4, 1, dataOffset);
+    entry(ifd + 14, 0x0202, 4, 1, preview.length);
+    dataOffset += preview.length;
+  });
+
+  return Buffer.concat([header, ...previews]);
+}
+
+function box(type: string, ...contents: Buffer[]): Buffer {
+  const body = Buffer.concat(contents);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length + 8, 0);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * CR3: Canon metadata box in moov (CMT1 with the orientation, THMB
+ * thumbnail) and the PRVW preview in its own top-level uuid box
+ */
+export function buildCr3Raw(thumbnail: Buffer, preview: Buffer, orientation?: number): Buffer {
+  const cmt1 = buildTiffRaw([], { ...(orientation !== undefined && { orientation }) });
+  const canon = box('uuid', Buffer.from('85c0b687820f11e08111f4ce462b6a48', 'hex'),
+    box('CMT1', cmt1), box('THMB', Buffer.alloc(16), thumbnail));
+  const prvw = box('uuid', Buffer.from('eaf42b5e1c984b88b9fbb7dc406e4d16', 'hex'), Buffer.alloc(8),
+    box('PRVW', Buffer.alloc(16), preview));
+
+  return Buffer.concat([
+    box('ftyp', Buffer.from('crx ', 'latin1'), Buffer.alloc(4)),
+    box('moov', canon),
+    prvw,
+    box('mdat', Buffer.alloc(64)),
+  ]);
+}
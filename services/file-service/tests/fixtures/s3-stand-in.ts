@@ -0,0 +1,125 @@
+/**
+ * S3 Stand-in
+ * An in-memory, path-style S3 endpoint answering the calls the S3 driver
+ * makes, in place of a local MinIO: objects with ranges, multipart uploads
+ * and paginated listings
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+
+export interface S3StandIn {
+  endpoint: string;
+  objects: Map<string, Buffer>; // By "bucket/key"
+  close(): Promise<void>;
+}
+
+const escapeXml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+function xml(res: http.ServerResponse, status: number, body: string): void {
+  res.writeHead(status, { 'Content-Type': 'application/xml' });
+  res.end(`<?xml version="1.0" encoding="UTF-8"?>${body}`);
+}
+
+async function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Start a stand-in on a free port; listings return at most `pageSize` keys
+ */
+export async function startS3StandIn(pageSize = 1000): Promise<S3StandIn> {
+  const objects = new Map<string, Buffer>();
+  const uploads = new Map<string, Map<number, Buffer>>();
+  const modifiedAt = new Date('2024-06-01T10:00:00Z');
+
+  const server = http.createServer((req, res) => {
+    void (async () => {
+      const url = new URL(req.url ?? '/', 'http://stand-in');
+      const [bucket, ...rest] = decodeURIComponent(url.pathname.slice(1)).split('/');
+      const name = `${bucket}/${rest.join('/')}`;
+      const query = url.searchParams;
+      const body = await readBody(req);
+
+      if (req.method === 'GET' && query.get('list-type') === '2') {
+        const prefix = `${bucket}/${query.get('prefix') ?? ''}`;
+        const keys = [...objects.keys()].filter(key => key.startsWith(prefix)).sort();
+        const from = Number(query.get('continuation-token') ?? 0);
+        const page = keys.slice(from, from + pageSize);
+        const truncated = from + pageSize < keys.length;
+        xml(res, 200, `<ListBucketResult><Name>${bucket}</Name><KeyCount>${page.length}</KeyCount>`
+          + `<IsTruncated>${truncated}</IsTruncated>`
+          + (truncated ? `<NextContinuationToken>${from + pageSize}</NextContinuationToken>` : '')
+          + page.map(key => `<Contents><Key>${escapeXml(key.slice(bucket.length + 1))}</Key>`
+            + `<LastModified>${modifiedAt.toISOString()}</LastModified>`
+            + `<Size>${objects.get(key)?.length}</Size></Contents>`).join('')
+          + '</ListBucketResult>');
+      } else if (req.method === 'POST' && query.has('uploads')) {
+        const uploadId = String(uploads.size + 1);
+        uploads.set(uploadId, new Map());
+        xml(res, 200, `<InitiateMultipartUploadResult><Bucket>${bucket}</Bucket>`
+          + `<Key>${escapeXml(rest.join('/'))}</Key><UploadId>${uploadId}</UploadId></InitiateMultipartUploadResult>`);
+      } else if (req.method === 'PUT' && query.has('uploadId')) {
+        uploads.get(query.get('uploadId') ?? '')?.set(Number(query.get('partNumber')), body);
+        res.writeHead(200, { ETag: `"part-${query.get('partNumber')}"` }).end();
+      } else if (req.method === 'POST' && query.has('uploadId')) {
+        const parts = uploads.get(query.get('uploadId') ?? '') ?? new Map<number, Buffer>();
+        objects.set(name, Buffer.concat([...parts.entries()].sort(([a], [b]) => a - b).map(([, part]) => part)));
+        uploads.delete(query.get('uploadId') ?? '');
+        xml(res, 200, `<CompleteMultipartUploadResult><Bucket>${bucket}</Bucket>`
+          + `<Key>${escapeXml(rest.join('/'))}</Key><ETag>"complete"</ETag></CompleteMultipartUploadResult>`);
+      } else if (req.method === 'DELETE' && query.has('uploadId')) {
+        uploads.delete(query.get('uploadId') ?? '');
+        res.writeHead(204).end();
+      } else if (req.method === 'PUT') {
+        objects.set(name, body);
+        res.writeHead(200, { ETag: '"object"' }).end();
+      } else if (req.method === 'DELETE') {
+        objects.delete(name);
+        res.writeHead(204).end();
+      } else {
+        serveObject(req, res, objects.get(name), modifiedAt);
+      }
+    })();
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    endpoint: `http://127.0.0.1:${port}`,
+    objects,
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
+
+// GET and HEAD of an object, honouring a Range header
+function serveObject(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  object: Buffer | undefined,
+  modifiedAt: Date
+): void {
+  if (!object) {
+    if (req.method === 'HEAD') {
+      res.writeHead(404).end();
+    } else {
+      xml(res, 404, '<Error><Code>NoSuchKey</Code><Message>The specified key does not exist.</Message></Error>');
+    }
+    return;
+  }
+
+  const range = /^bytes=(\d+)-(\d*)$/.exec(req.headers.range ?? '');
+  const start = range ? Number(range[1]) : 0;
+  const end = range?.[2] ? Math.min(Number(range[2]), object.length - 1) : object.length - 1;
+  res.writeHead(range ? 206 : 200, {
+    'Content-Length': end - start + 1,
+    'Last-Modified': modifiedAt.toUTCString(),
+    ...(range && { 'Content-Range': `bytes ${start}-${end}/${object.length}` }),
+  });
+  res.end(req.method === 'HEAD' ? undefined : object.subarray(start, end + 1));
+}
@@ -0,0 +1,225 @@
+/**
+ * ArchiveProgressHandlers Test Suite
+ * Testing the event stream that follows an archive until it is ready
+ */
+
+import { vi } from 'vitest';
+import type { Mocked } from 'vitest';
+import { EventEmitter as NodeEventEmitter } from 'events';
+import Fastify from 'fastify';
+import { getJwtConfig, signJwt } from '@tempsdarret/shared/auth';
+import { registerDownloadGrantRoutes } from '../../src/handlers/file.routes.js';
+import { ArchiveProgressHandlers } from '../../src/handlers/ArchiveProgressHandlers.js';
+import { ArchiveService } from '../../src/services/ArchiveService.js';
+import { DownloadUrlService } from '../../src/services/DownloadUrlService.js';
+import { ArchiveModel } from '../../src/shared/contracts/files.api.js';
+import { DownloadUrlHandlers } from '../../src/handlers/DownloadUrlHandlers.js';
+import { FileHandlers } from '../../src/handlers/FileHandlers.js';
+
+const mockArchiveService = {
+  getArchiveById: vi.fn(),
+} as Mocked<ArchiveService>;
+
+const mockDownloadUrls = {
+  signArchiveUrl: vi.fn(),
+} as unknown as Mocked<DownloadUrlService>;
+
+const archive: ArchiveModel = {
+  id: 'archive123',
+  shootId: 'shoot123',
+  type: 'complete',
+  size: 0,
+  expiresAt: '2024-01-08T00:00:00Z',
+  status: 'processing',
+  progress: { filesProcessed: 0, totalFiles: 2, bytesProcessed: 0, totalBytes: 400, bytesWritten: 0 },
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+};
+
+const halfway = { ...archive, progress: { ...archive.progress!, filesProcessed: 1, bytesProcessed: 200, etaSeconds: 5 } };
+
+const client = { userId: 'user123', email: 'client@example.com', role: 'client', shootId: 'shoot123' };
+
+const createMockRequest = (user: any = client) => ({
+  params: { archiveId: 'archive123' },
+  user,
+  raw: new NodeEventEmitter(),
+}) as any;
+
+const createMockReply = () => ({
+  code: vi.fn().mockReturnThis(),
+  send: vi.fn().mockReturnThis(),
+  hijack: vi.fn(),
+  raw: { writeHead: vi.fn(), write: vi.fn(), end: vi.fn() },
+}) as any;
+
+// The events written to the stream, parsed back
+function events(reply: any): { event: string; data: any }[] {
+  return reply.raw.write.mock.calls
+    .map(([chunk]: [string]) => chunk)
+    .filter((chunk: string) => chunk.startsWith('event: '))
+    .map((chunk: string) => {
+      const [event, data] = chunk.trim().split('\n');
+      return { event: event.slice('event: '.length), data: JSON.parse(data.slice('data: '.length)) };
+    });
+}
+
+describe('ArchiveProgressHandlers', () => {
+  let handlers: ArchiveProgressHandlers;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    handlers = new ArchiveProgressHandlers(mockArchiveService, mockDownloadUrls, 0);
+    mockDownloadUrls.signArchiveUrl.mockReturnValue({
+      url: '/api/v1/files/archives/archive123/download?user=user123',
+      expiresAt: '2024-01-08T00:00:00.000Z',
+    });
+  });
+
+  it('should stream changes in progress, then the ready archive with a link for the caller', async () => {
+    const ready = { ...archive, status: 'completed' as const, size: 420 };
+    mockArchiveService.getArchiveById
+      .mockResolvedValueOnce(archive)
+      .mockResolvedValueOnce(archive)
+      .mockResolvedValueOnce(halfway)
+      .mockResolvedValueOnce(ready);
+    const reply = createMockReply();
+
+    await handlers.streamArchiveProgress(createMockRequest(), reply);
+
+    expect(reply.hijack).toHaveBeenCalled();
+    expect(reply.raw.writeHead).toHaveBeenCalledWith(200, expect.objectContaining({
+      'Content-Type': 'text/event-stream',
+    }));
+    expect(events(reply)).toEqual([
+      { event: 'progress', data: { archiveId: 'archive123', status: 'processing', progress: archive.progress } },
+      { event: 'progress', data: { archiveId: 'archive123', status: 'processing', progress: halfway.progress } },
+      {
+        event: 'ready',
+        data: { archive: ready, downloadUrl: '/api/v1/files/archives/archive123/download?user=user123' },
+      },
+    ]);
+    expect(mockDownloadUrls.signArchiveUrl).toHaveBeenCalledWith(ready, client);
+    expect(reply.raw.end).toHaveBeenCalled();
+  });
+
+  it('should end with failed when generation fails', async () => {
+    mockArchiveService.getArchiveById
+      .mockResolvedValueOnce(archive)
+      .mockResolvedValueOnce({ ...archive, status: 'failed' });
+    const reply = createMockReply();
+
+    await handlers.streamArchiveProgress(createMockRequest(), reply);
+
+    expect(events(reply).map(({ event }) => event)).toEqual(['progress', 'failed']);
+    expect(reply.raw.end).toHaveBeenCalled();
+  });
+
+  it('should stop polling once the client has gone', async () => {
+    const request = createMockRequest();
+    mockArchiveService.getArchiveById
+      .mockResolvedValueOnce(archive)
+      .mockImplementationOnce(async () => {
+        request.raw.emit('close');
+        return halfway;
+      });
+    const reply = createMockReply();
+
+    await handlers.streamArchiveProgress(request, reply);
+
+    expect(mockArchiveService.getArchiveById).toHaveBeenCalledTimes(2);
+    expect(events(reply).map(({ event }) => event)).toEqual(['progress']);
+  });
+
+  it('should answer unknown archives with 404 instead of a stream', async () => {
+    mockArchiveService.getArchiveById.mockResolvedValue(null);
+    const reply = createMockReply();
+
+    await handlers.streamArchiveProgress(createMockRequest(), reply);
+
+    expect(reply.code).toHaveBeenCalledWith(404);
+    expect(reply.send).toHaveBeenCalledWith(expect.objectContaining({
+      error: expect.objectContaining({ code: 'ARCHIVE_NOT_FOUND' }),
+    }));
+    expect(reply.hijack).not.toHaveBeenCalled();
+  });
+
+  it('should refuse archives of another shoot with 403 instead of a stream', async () => {
+    mockArchiveService.getArchiveById.mockResolvedValue(archive);
+    const reply = createMockReply();
+
+    await handlers.streamArchiveProgress(createMockRequest({ ...client, shootId: 'shoot456' }), reply);
+
+    expect(reply.code).toHaveBeenCalledWith(403);
+    expect(reply.send).toHaveBeenCalledWith(expect.objectContaining({
+      error: expect.objectContaining({ code: 'SHOOT_ACCESS_DENIED' }),
+    }));
+    expect(reply.hijack).not.toHaveBeenCalled();
+  });
+
+  it('should refuse guests with 403 instead of a stream', async () => {
+    const reply = createMockReply();
+
+    await handlers.streamArchiveProgress(createMockRequest({ ...client, role: 'guest' }), reply);
+
+    expect(reply.code).toHaveBeenCalledWith(403);
+    expect(reply.send).toHaveBeenCalledWith({
+      success: false,
+      error: { code: 'ARCHIVES_NOT_PERMITTED', message: 'Archives are not available to this user' },
+    });
+    expect(mockArchiveService.getArchiveById).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /files/archives/:archiveId/progress', () => {
+  const progressUrl = '/files/archives/archive123/progress';
+
+  const buildApp = async () => {
+    const app = Fastify();
+    await registerDownloadGrantRoutes(
+      app,
+      new FileHandlers({} as any, mockArchiveService, {} as any, mockDownloadUrls),
+      new DownloadUrlHandlers({} as any, mockArchiveService, mockDownloadUrls),
+      new ArchiveProgressHandlers(mockArchiveService, mockDownloadUrls, 0)
+    );
+    return app;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockDownloadUrls.signArchiveUrl.mockReturnValue({
+      url: '/api/v1/files/archives/archive123/download?user=user123',
+      expiresAt: '2024-01-08T00:00:00.000Z',
+    });
+  });
+
+  it('should stream to callers sending their access token as a Bearer header', async () => {
+    mockArchiveService.getArchiveById
+      .mockResolvedValueOnce(archive)
+      .mockResolvedValueOnce({ ...archive, status: 'completed', size: 420 });
+    const app = await buildApp();
+    const token = signJwt(client as any, getJwtConfig());
+
+    const res = await app.inject({ method: 'GET', url: progressUrl, headers: { authorization: `Bearer ${token}` } });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.headers['content-type']).toBe('text/event-stream');
+    expect(res.body).toContain('event: progress');
+    expect(res.body).toContain('event: ready');
+    expect(mockDownloadUrls.signArchiveUrl).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'completed' }),
+      expect.objectContaining({ userId: 'user123', role: 'client' })
+    );
+    await app.close();
+  });
+
+  it('should answer requests without a token with 401', async () => {
+    const app = await buildApp();
+
+    const res = await app.inject({ method: 'GET', url: progressUrl });
+
+    expect(res.statusCode).toBe(401);
+    expect(mockArchiveService.getArchiveById).not.toHaveBeenCalled();
+    await app.close();
+  });
+});
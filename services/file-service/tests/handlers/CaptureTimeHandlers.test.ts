@@ -0,0 +1,70 @@
+/**
+ * CaptureTimeHandlers Test Suite
+ * Listing camera bodies and setting their clock offsets
+ */
+
+import { vi } from 'vitest';
+import type { Mocked } from 'vitest';
+import { CaptureTimeHandlers } from '../../src/handlers/CaptureTimeHandlers.js';
+import { CaptureTimeService } from '../../src/services/CaptureTimeService.js';
+import { CameraClock } from '../../src/shared/contracts/files.api.js';
+
+const mockCaptureTimeService = {
+  listClockOffsets: vi.fn(),
+  setClockOffset: vi.fn(),
+} as unknown as Mocked<CaptureTimeService>;
+
+const clock: CameraClock = { shootId: 'shoot123', camera: 'NIKON Z 6', offsetSeconds: 95, fileCount: 45 };
+
+describe('CaptureTimeHandlers', () => {
+  let handlers: CaptureTimeHandlers;
+  let reply: { code: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    handlers = new CaptureTimeHandlers(mockCaptureTimeService);
+    reply = { code: vi.fn().mockReturnThis() };
+  });
+
+  describe('listClockOffsets', () => {
+    it('should list the shoot\'s cameras', async () => {
+      mockCaptureTimeService.listClockOffsets.mockResolvedValue([clock]);
+
+      const result = await handlers.listClockOffsets({ query: { shootId: 'shoot123' } } as any, reply as any);
+
+      expect(result).toEqual({ success: true, data: [clock] });
+    });
+
+    it('should require a shoot', async () => {
+      const result = await handlers.listClockOffsets({ query: {} } as any, reply as any);
+
+      expect(reply.code).toHaveBeenCalledWith(400);
+      expect(result).toMatchObject({ success: false, error: { code: 'INVALID_QUERY' } });
+    });
+  });
+
+  describe('setClockOffset', () => {
+    it('should set the offset', async () => {
+      mockCaptureTimeService.setClockOffset.mockResolvedValue(clock);
+
+      const result = await handlers.setClockOffset(
+        { body: { shootId: 'shoot123', camera: 'NIKON Z 6', offsetSeconds: 95 } } as any,
+        reply as any
+      );
+
+      expect(result).toEqual({ success: true, data: clock });
+      expect(mockCaptureTimeService.setClockOffset).toHaveBeenCalledWith('shoot123', 'NIKON Z 6', 95);
+    });
+
+    it('should reject an offset that is not a number', async () => {
+      const result = await handlers.setClockOffset(
+        { body: { shootId: 'shoot123', camera: 'NIKON Z 6', offsetSeconds: '95' } } as any,
+        reply as any
+      );
+
+      expect(reply.code).toHaveBeenCalledWith(400);
+      expect(result).toMatchObject({ success: false, error: { code: 'INVALID_REQUEST' } });
+      expect(mockCaptureTimeService.setClockOffset).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * DownloadUrlHandlers Test Suite
+ * Testing who gets signed download links and for what
+ */
+
+import { vi } from 'vitest';
+import type { Mocked } from 'vitest';
+import { DownloadUrlHandlers } from '../../src/handlers/DownloadUrlHandlers.js';
+import { FileService } from '../../src/services/FileService.js';
+import { ArchiveService } from '../../src/services/ArchiveService.js';
+import { DownloadUrlService } from '../../src/services/DownloadUrlService.js';
+import { ArchiveModel, FileModel } from '../../src/shared/contracts/files.api.js';
+
+const mockFileService = {
+  getFileById: vi.fn(),
+  getFilesByIds: vi.fn(),
+} as Mocked<FileService>;
+
+const mockArchiveService = {
+  getArchiveById: vi.fn(),
+} as Mocked<ArchiveService>;
+
+const mockDownloadUrls = {
+  signFileUrl: vi.fn(),
+  signArchiveUrl: vi.fn(),
+} as unknown as Mocked<DownloadUrlService>;
+
+const file: FileModel = {
+  id: 'file123',
+  filename: 'portrait.jpg',
+  type: 'jpeg',
+  size: 1024,
+  mimeType: 'image/jpeg',
+  shootId: 'shoot123',
+  storagePath: '2024/01/file123.jpg',
+  processingStatus: 'completed',
+  renditions: [{
+    name: 'medium',
+    format: 'jpeg',
+    url: '/files/file123/download?resolution=medium',
+    storagePath: 'renditions/2024/01/file123_medium.jpg',
+    width: 1200,
+    height: 800,
+    size: 512,
+  }],
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+};
+
+const archive: ArchiveModel = {
+  id: 'archive123',
+  shootId: 'shoot123',
+  type: 'complete',
+  size: 2048,
+  expiresAt: new Date(Date.now() + 24 * 3600 * 1000).toISOString(),
+  status: 'completed',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+};
+
+const signed = { url: '/api/v1/files/file123/download?user=user123', expiresAt: '2024-01-01T01:00:00.000Z' };
+
+const client = { userId: 'user123', email: 'client@example.com', role: 'client', shootId: 'shoot123' };
+const guest = { ...client, role: 'guest' };
+const otherShootClient = { ...client, shootId: 'shoot456' };
+
+const createMockRequest = (params: any, body?: any, user: any = client) => ({
+  params,
+  body,
+  user,
+}) as any;
+
+const createMockReply = () => ({
+  code: vi.fn().mockReturnThis(),
+}) as any;
+
+describe('DownloadUrlHandlers', () => {
+  let handlers: DownloadUrlHandlers;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    handlers = new DownloadUrlHandlers(mockFileService, mockArchiveService, mockDownloadUrls);
+    mockDownloadUrls.signFileUrl.mockReturnValue(signed);
+    mockDownloadUrls.signArchiveUrl.mockReturnValue(signed);
+  });
+
+  describe('issueFileDownloadUrl', () => {
+    it('should sign the requested rendition for the calling user', async () => {
+      const reply = createMockReply();
+      mockFileService.getFileById.mockResolvedValue(file);
+
+      const result = await handlers.issueFileDownloadUrl(
+        createMockRequest({ fileId: 'file123' }, { resolution: 'medium', expiresIn: 600 }),
+        reply
+      );
+
+      expect(reply.code).toHaveBeenCalledWith(201);
+      expect(result).toEqual({ success: true, data: signed });
+      expect(mockDownloadUrls.signFileUrl).toHaveBeenCalledWith(file, client, { resolution: 'medium' }, 600);
+    });
+
+    it('should require an access token', async () => {
+      const reply = createMockReply();
+
+      const result = await handlers.issueFileDownloadUrl(createMockRequest({ fileId: 'file123' }, {}, null), reply);
+
+      expect(reply.code).toHaveBeenCalledWith(401);
+      expect(result).toMatchObject({ success: false, error: { code: 'UNAUTHENTICATED' } });
+      expect(mockFileService.getFileById).not.toHaveBeenCalled();
+    });
+
+    it('should not sign renditions the file does not have', async () => {
+      const reply = createMockReply();
+      mockFileService.getFileById.mockResolvedValue(file);
+
+      const result = await handlers.issueFileDownloadUrl(
+        createMockRequest({ fileId: 'file123' }, { resolution: 'high' }),
+        reply
+      );
+
+      expect(reply.code).toHaveBeenCalledWith(404);
+      expect(result).toMatchObject({ success: false, error: { code: 'RENDITION_NOT_FOUND' } });
+      expect(mockDownloadUrls.signFileUrl).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to sign files of another shoot', async () => {
+      const reply = createMockReply();
+      mockFileService.getFileById.mockResolvedValue(file);
+
+      const result = await handlers.issueFileDownloadUrl(
+        createMockRequest({ fileId: 'file123' }, { resolution: 'medium' }, otherShootClient),
+        reply
+      );
+
+      expect(reply.code).toHaveBeenCalledWith(403);
+      expect(result).toMatchObject({ success: false, error: { code: 'SHOOT_ACCESS_DENIED' } });
+      expect(mockDownloadUrls.signFileUrl).not.toHaveBeenCalled();
+    });
+
+    it('should sign files of any shoot for the photographer', async () => {
+      const reply = createMockReply();
+      const photographer = { ...otherShootClient, role: 'photographer' };
+      mockFileService.getFileById.mockResolvedValue(file);
+
+      const result = await handlers.issueFileDownloadUrl(createMockRequest({ fileId: 'file123' }, {}, photographer), reply);
+
+      expect(result).toEqual({ success: true, data: signed });
+      expect(mockDownloadUrls.signFileUrl).toHaveBeenCalledWith(file, photographer, {}, undefined);
+    });
+
+    it('should refuse to sign photographer-only files for clients', async () => {
+      const reply = createMockReply();
+      mockFileService.getFileById.mockResolvedValue({ ...file, type: 'sidecar', photographerOnly: true });
+
+      const result = await handlers.issueFileDownloadUrl(createMockRequest({ fileId: 'file123' }, {}), reply);
+
+      expect(reply.code).toHaveBeenCalledWith(403);
+      expect(result).toMatchObject({ success: false, error: { code: 'PHOTOGRAPHER_ONLY_FILE' } });
+      expect(mockDownloadUrls.signFileUrl).not.toHaveBeenCalled();
+    });
+
+    it('should sign photographer-only files for the photographer', async () => {
+      const reply = createMockReply();
+      const sidecar = { ...file, type: 'sidecar' as const, photographerOnly: true };
+      const photographer = { ...client, role: 'photographer' };
+      mockFileService.getFileById.mockResolvedValue(sidecar);
+
+      const result = await handlers.issueFileDownloadUrl(createMockRequest({ fileId: 'file123' }, {}, photographer), reply);
+
+      expect(result).toEqual({ success: true, data: signed });
+    });
+
+    it('should sign renditions for guests', async () => {
+      const reply = createMockReply();
+      mockFileService.getFileById.mockResolvedValue(file);
+
+      const result = await handlers.issueFileDownloadUrl(
+        createMockRequest({ fileId: 'file123' }, { resolution: 'medium' }, guest),
+        reply
+      );
+
+      expect(result).toEqual({ success: true, data: signed });
+      expect(mockDownloadUrls.signFileUrl).toHaveBeenCalledWith(file, guest, { resolution: 'medium' }, undefined);
+    });
+
+    it('should refuse to sign originals for guests', async () => {
+      const reply = createMockReply();
+      mockFileService.getFileById.mockResolvedValue(file);
+
+      const result = await handlers.issueFileDownloadUrl(createMockRequest({ fileId: 'file123' }, {}, guest), reply);
+
+      expect(reply.code).toHaveBeenCalledWith(403);
+      expect(result).toMatchObject({ success: false, error: { code: 'ORIGINALS_NOT_PERMITTED' } });
+      expect(mockDownloadUrls.signFileUrl).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('issueFileDownloadUrls', () => {
+    const batch = (links: any[], user: any = client) => createMockRequest({}, { links, expiresIn: 600 }, user);
+
+    it('should sign every link in one request, loading each file once', async () => {
+      const reply = createMockReply();
+      mockFileService.getFilesByIds.mockResolvedValue([file]);
+
+      const result = await handlers.issueFileDownloadUrls(
+        batch([{ fileId: 'file123', resolution: 'medium' }, { fileId: 'file123' }], guest),
+        reply
+      );
+
+      expect(mockFileService.getFilesByIds).toHaveBeenCalledWith(['file123']);
+      expect(mockDownloadUrls.signFileUrl).toHaveBeenCalledWith(file, guest, { resolution: 'medium' }, 600);
+      expect(reply.code).toHaveBeenCalledWith(201);
+      expect(result).toEqual({
+        success: true,
+        data: [
+          { fileId: 'file123', resolution: 'medium', ...signed },
+          {
+            fileId: 'file123',
+            error: { code: 'ORIGINALS_NOT_PERMITTED', message: 'Originals are not available to this user' },
+          },
+        ],
+      });
+    });
+
+    it('should refuse links to files that are missing or of another shoot, one by one', async () => {
+      const reply = createMockReply();
+      mockFileService.getFilesByIds.mockResolvedValue([{ ...file, id: 'file456', shootId: 'shoot456' }]);
+
+      const result = await handlers.issueFileDownloadUrls(
+        batch([{ fileId: 'missing', resolution: 'medium' }, { fileId: 'file456', resolution: 'medium' }]),
+        reply
+      );
+
+      expect(result).toMatchObject({
+        success: true,
+        data: [
+          { fileId: 'missing', error: { code: 'FILE_NOT_FOUND' } },
+          { fileId: 'file456', error: { code: 'SHOOT_ACCESS_DENIED' } },
+        ],
+      });
+      expect(mockDownloadUrls.signFileUrl).not.toHaveBeenCalled();
+    });
+
+    it('should answer batches without links, or with too many, with 400', async () => {
+      for (const links of [[], Array.from({ length: 301 }, () => ({ fileId: 'file123' }))]) {
+        const reply = createMockReply();
+
+        const result = await handlers.issueFileDownloadUrls(batch(links), reply);
+
+        expect(reply.code).toHaveBeenCalledWith(400);
+        expect(result).toMatchObject({ success: false, error: { code: 'INVALID_REQUEST' } });
+      }
+      expect(mockFileService.getFilesByIds).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('issueArchiveDownloadUrl', () => {
+    it('should sign completed archives for the calling user', async () => {
+      const reply = createMockReply();
+      mockArchiveService.getArchiveById.mockResolvedValue(archive);
+
+      const result = await handlers.issueArchiveDownloadUrl(createMockRequest({ archiveId: 'archive123' }), reply);
+
+      expect(result).toEqual({ success: true, data: signed });
+      expect(mockDownloadUrls.signArchiveUrl).toHaveBeenCalledWith(archive, client, undefined);
+    });
+
+    it('should not sign archives that are still being built', async () => {
+      const reply = createMockReply();
+      mockArchiveService.getArchiveById.mockResolvedValue({ ...archive, status: 'processing' });
+
+      const result = await handlers.issueArchiveDownloadUrl(createMockRequest({ archiveId: 'archive123' }), reply);
+
+      expect(reply.code).toHaveBeenCalledWith(404);
+      expect(result).toMatchObject({ success: false, error: { code: 'ARCHIVE_NOT_READY' } });
+    });
+
+    it('should refuse to sign archives of another shoot', async () => {
+      const reply = createMockReply();
+      mockArchiveService.getArchiveById.mockResolvedValue(archive);
+
+      const result = await handlers.issueArchiveDownloadUrl(
+        createMockRequest({ archiveId: 'archive123' }, {}, otherShootClient),
+        reply
+      );
+
+      expect(reply.code).toHaveBeenCalledWith(403);
+      expect(result).toMatchObject({ success: false, error: { code: 'SHOOT_ACCESS_DENIED' } });
+      expect(mockDownloadUrls.signArchiveUrl).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to sign archives for guests', async () => {
+      const reply = createMockReply();
+
+      const result = await handlers.issueArchiveDownloadUrl(createMockRequest({ archiveId: 'archive123' }, {}, guest), reply);
+
+      expect(reply.code).toHaveBeenCalledWith(403);
+      expect(result).toMatchObject({ success: false, error: { code: 'ARCHIVES_NOT_PERMITTED' } });
+      expect(mockArchiveService.getArchiveById).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -7,7 +7,13 @@ import { vi } from 'vitest';
 import type { Mocked } from 'vitest';
 import { FileHandlers } from '../../src/handlers/FileHandlers.js';
 import { FileService } from '../../src/services/FileService.js';
-import { ArchiveService } from '../../src/services/ArchiveService.js';
+import { ArchiveService, ArchiveContentChangedError, FilesOutsideShootError } from '../../src/services/ArchiveService.js';
+import { WatermarkService, WatermarkRequiredError } from '../../src/services/WatermarkService.js';
+import {
+  DownloadUrlService,
+  DownloadUrlExpiredError,
+  InvalidDownloadUrlError
+} from '../../src/services/DownloadUrlService.js';
 import { FileModel } from '../../src/shared/contracts/files.api.js';
 
 // Mock services
@@ -18,6 +24,9 @@ const mockFileService = {
   deleteFile: vi.fn(),
   getFileStats: vi.fn(),
   createDownloadStream: vi.fn(),
+  createRenditionStream: vi.fn(),
+  reprocessFile: vi.fn(),
+  getFileWithSidecars: vi.fn(),
 } as Mocked<FileService>;
 
 const mockArchiveService = {
@@ -26,6 +35,17 @@ const mockArchiveService = {
   createArchiveDownloadStream: vi.fn(),
 } as Mocked<ArchiveService>;
 
+const mockWatermarkService = {
+  resolveDownload: vi.fn(),
+  assertOriginalsAvailable: vi.fn(),
+} as Mocked<WatermarkService>;
+
+// Links pass verification unless a test says otherwise
+const mockDownloadUrls = {
+  verifyFileDownload: vi.fn(),
+  verifyArchiveDownload: vi.fn(),
+} as unknown as Mocked<DownloadUrlService>;
+
 // Mock Fastify request/reply
 const createMockRequest = (params?: any, query?: any, body?: any, headers?: any) => ({
   params: params || {},
@@ -34,6 +54,9 @@ const createMockRequest = (params?: any, query?: any, body?: any, headers?: any)
   headers: headers || {},
 });
 
+// Query of a signed link, issued to a client unless a test says otherwise
+const linkQuery = (query: Record<string, string> = {}) => ({ role: 'client', ...query });
+
 const createMockReply = () => {
   const reply = {
     code: vi.fn().mockReturnThis(),
@@ -48,7 +71,9 @@ describe('FileHandlers', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
-    fileHandlers = new FileHandlers(mockFileService, mockArchiveService);
+    fileHandlers = new FileHandlers(mockFileService, mockArchiveService, mockWatermarkService, mockDownloadUrls);
+    // No watermark applies unless a test says otherwise
+    mockWatermarkService.resolveDownload.mockImplementation(async (_file, target) => target);
   });
 
   describe('downloadFile (ADR-026 compliance)', () => {
@@ -66,7 +91,7 @@ describe('FileHandlers', () => {
     };
 
     it('should include Content-Length header for progress bars (ADR-026)', async () => {
-      const request = createMockRequest({ fileId: 'file123' });
+      const request = createMockRequest({ fileId: 'file123' }, linkQuery());
       const reply = createMockReply();
 
       mockFileService.getFileById.mockResolvedValue(mockFile);
@@ -89,7 +114,7 @@ describe('FileHandlers', () => {
     it('should handle range requests for resumable downloads (ADR-026)', async () => {
       const request = createMockRequest(
         { fileId: 'file123' },
-        {},
+        linkQuery(),
         {},
         { range: 'bytes=0-1023' }
       );
@@ -114,13 +139,61 @@ describe('FileHandlers', () => {
       });
     });
 
+    it('should serve the last bytes for a suffix range', async () => {
+      const request = createMockRequest({ fileId: 'file123' }, linkQuery(), {}, { range: 'bytes=-500' });
+      const reply = createMockReply();
+      mockFileService.getFileById.mockResolvedValue(mockFile);
+      mockFileService.getFileStats.mockResolvedValue({ size: mockFile.size, exists: true });
+      mockFileService.createDownloadStream.mockResolvedValue({} as any);
+
+      await fileHandlers.downloadFile(request as any, reply as any);
+
+      expect(mockFileService.createDownloadStream)
+        .toHaveBeenCalledWith('file123', { start: mockFile.size - 500, end: mockFile.size - 1 });
+      expect(reply.code).toHaveBeenCalledWith(206);
+      expect(reply.header).toHaveBeenCalledWith('Content-Range', `bytes ${mockFile.size - 500}-${mockFile.size - 1}/${mockFile.size}`);
+      expect(reply.header).toHaveBeenCalledWith('Content-Length', '500');
+    });
+
+    it('should answer a range starting past the end with 416', async () => {
+      const request = createMockRequest({ fileId: 'file123' }, linkQuery(), {}, { range: `bytes=${mockFile.size}-` });
+      const reply = createMockReply();
+      mockFileService.getFileById.mockResolvedValue(mockFile);
+      mockFileService.getFileStats.mockResolvedValue({ size: mockFile.size, exists: true });
+
+      await fileHandlers.downloadFile(request as any, reply as any);
+
+      expect(reply.code).toHaveBeenCalledWith(416);
+      expect(reply.header).toHaveBeenCalledWith('Content-Range', `bytes */${mockFile.size}`);
+      expect(mockFileService.createDownloadStream).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      ['several ranges', 'bytes=0-99,200-299'],
+      ['a reversed range', 'bytes=500-100'],
+      ['another unit', 'items=0-10'],
+      ['no bounds', 'bytes=-'],
+    ])('should send the whole file for %s', async (_case, range) => {
+      const request = createMockRequest({ fileId: 'file123' }, linkQuery(), {}, { range });
+      const reply = createMockReply();
+      mockFileService.getFileById.mockResolvedValue(mockFile);
+      mockFileService.getFileStats.mockResolvedValue({ size: mockFile.size, exists: true });
+      mockFileService.createDownloadStream.mockResolvedValue({} as any);
+
+      await fileHandlers.downloadFile(request as any, reply as any);
+
+      expect(reply.code).toHaveBeenCalledWith(200);
+      expect(reply.header).toHaveBeenCalledWith('Content-Length', mockFile.size.toString());
+      expect(mockFileService.createDownloadStream).toHaveBeenCalledWith('file123', { start: 0, end: mockFile.size - 1 });
+    });
+
     it('should handle large file downloads with correct headers', async () => {
       const largeFile: FileModel = {
         ...mockFile,
         size: 50 * 1024 * 1024 * 1024, // 50GB
       };
 
-      const request = createMockRequest({ fileId: 'file123' });
+      const request = createMockRequest({ fileId: 'file123' }, linkQuery());
       const reply = createMockReply();
 
       mockFileService.getFileById.mockResolvedValue(largeFile);
@@ -138,7 +211,7 @@ describe('FileHandlers', () => {
     });
 
     it('should return 404 for non-existent file', async () => {
-      const request = createMockRequest({ fileId: 'nonexistent' });
+      const request = createMockRequest({ fileId: 'nonexistent' }, linkQuery());
       const reply = createMockReply();
 
       mockFileService.getFileById.mockResolvedValue(null);
@@ -156,7 +229,7 @@ describe('FileHandlers', () => {
     });
 
     it('should return 404 when file data missing on storage', async () => {
-      const request = createMockRequest({ fileId: 'file123' });
+      const request = createMockRequest({ fileId: 'file123' }, linkQuery());
       const reply = createMockReply();
 
       mockFileService.getFileById.mockResolvedValue(mockFile);
@@ -177,8 +250,221 @@ describe('FileHandlers', () => {
       });
     });
 
+    it('should serve the requested rendition with its own size and type', async () => {
+      const request = createMockRequest({ fileId: 'file123' }, linkQuery({ resolution: 'medium', format: 'webp' }));
+      const reply = createMockReply();
+
+      mockFileService.getFileById.mockResolvedValue({
+        ...mockFile,
+        renditions: [{
+          name: 'medium',
+          format: 'webp',
+          url: '/files/file123/download?resolution=medium&format=webp',
+          storagePath: 'renditions/2024/01/file123_medium.webp',
+          width: 1200,
+          height: 800,
+          size: 4096,
+        }],
+      });
+      mockFileService.getFileStats.mockResolvedValue({ size: 4096, exists: true });
+      mockFileService.createRenditionStream.mockReturnValue({} as any);
+
+      await fileHandlers.downloadFile(request as any, reply as any);
+
+      expect(mockFileService.getFileStats).toHaveBeenCalledWith('renditions/2024/01/file123_medium.webp', undefined);
+      expect(reply.header).toHaveBeenCalledWith('Content-Length', '4096');
+      expect(reply.header).toHaveBeenCalledWith('Content-Type', 'image/webp');
+      expect(reply.header).toHaveBeenCalledWith('Content-Disposition', 'attachment; filename="test_medium.webp"');
+      expect(mockFileService.createRenditionStream).toHaveBeenCalledWith(
+        'renditions/2024/01/file123_medium.webp',
+        { start: 0, end: 4095 }
+      );
+      expect(mockFileService.createDownloadStream).not.toHaveBeenCalled();
+    });
+
+    it('should serve the gallery\'s watermarked copy of a rendition', async () => {
+      const rendition = {
+        name: 'medium',
+        format: 'jpeg',
+        url: '/files/file123/download?resolution=medium&format=jpeg',
+        storagePath: 'renditions/2024/01/file123_medium.jpg',
+        width: 1200,
+        height: 800,
+        size: 4096,
+      } as const;
+      const request = createMockRequest({ fileId: 'file123' }, linkQuery({ resolution: 'medium', galleryId: 'gal123' }));
+      const reply = createMockReply();
+
+      mockFileService.getFileById.mockResolvedValue({ ...mockFile, renditions: [rendition] });
+      mockWatermarkService.resolveDownload.mockImplementation(async (_file, target) => ({
+        ...target,
+        storagePath: 'watermarks/file123/abc_file123_medium.jpg',
+      }));
+      mockFileService.getFileStats.mockResolvedValue({ size: 5000, exists: true });
+      mockFileService.createRenditionStream.mockReturnValue({} as any);
+
+      await fileHandlers.downloadFile(request as any, reply as any);
+
+      expect(mockWatermarkService.resolveDownload).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'file123' }),
+        expect.objectContaining({ storagePath: rendition.storagePath }),
+        'client',
+        'gal123'
+      );
+      expect(reply.header).toHaveBeenCalledWith('Content-Length', '5000');
+      expect(mockFileService.createRenditionStream).toHaveBeenCalledWith(
+        'watermarks/file123/abc_file123_medium.jpg',
+        { start: 0, end: 4999 }
+      );
+    });
+
+    it('should let the shoot\'s galleries decide the watermark when the link names none', async () => {
+      const request = createMockRequest({ fileId: 'file123' }, linkQuery({ resolution: 'medium' }));
+      const reply = createMockReply();
+
+      mockFileService.getFileById.mockResolvedValue({
+        ...mockFile,
+        renditions: [{
+          name: 'medium',
+          format: 'jpeg',
+          url: '/files/file123/download?resolution=medium&format=jpeg',
+          storagePath: 'renditions/2024/01/file123_medium.jpg',
+          width: 1200,
+          height: 800,
+          size: 4096,
+        }],
+      });
+      mockWatermarkService.resolveDownload.mockImplementation(async (_file, target) => ({
+        ...target,
+        storagePath: 'watermarks/file123/abc_file123_medium.jpg',
+      }));
+      mockFileService.getFileStats.mockResolvedValue({ size: 5000, exists: true });
+      mockFileService.createRenditionStream.mockReturnValue({} as any);
+
+      await fileHandlers.downloadFile(request as any, reply as any);
+
+      expect(mockWatermarkService.resolveDownload).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'file123' }),
+        expect.objectContaining({ storagePath: 'renditions/2024/01/file123_medium.jpg' }),
+        'client',
+        undefined
+      );
+      expect(mockFileService.createRenditionStream).toHaveBeenCalledWith(
+        'watermarks/file123/abc_file123_medium.jpg',
+        { start: 0, end: 4999 }
+      );
+    });
+
+    it('should refuse originals through a watermarked gallery with 403', async () => {
+      const request = createMockRequest({ fileId: 'file123' }, linkQuery({ galleryId: 'gal123' }));
+      const reply = createMockReply();
+
+      mockFileService.getFileById.mockResolvedValue(mockFile);
+      mockWatermarkService.resolveDownload.mockRejectedValue(new WatermarkRequiredError());
+
+      await fileHandlers.downloadFile(request as any, reply as any);
+
+      expect(reply.code).toHaveBeenCalledWith(403);
+      expect(reply.send).toHaveBeenCalledWith(expect.objectContaining({
+        error: expect.objectContaining({ code: 'ORIGINAL_NOT_AVAILABLE' }),
+      }));
+      expect(mockFileService.createDownloadStream).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for a rendition that was not generated', async () => {
+      const request = createMockRequest({ fileId: 'file123' }, linkQuery({ resolution: 'high' }));
+      const reply = createMockReply();
+
+      mockFileService.getFileById.mockResolvedValue(mockFile);
+
+      await fileHandlers.downloadFile(request as any, reply as any);
+
+      expect(reply.code).toHaveBeenCalledWith(404);
+      expect(reply.send).toHaveBeenCalledWith({
+        success: false,
+        error: {
+          code: 'RENDITION_NOT_FOUND',
+          message: 'Rendition not available for this file',
+        },
+      });
+    });
+
+    it('should refuse unsigned or tampered links with 403', async () => {
+      const request = createMockRequest({ fileId: 'file123' }, linkQuery({ resolution: 'raw', user: 'user123' }));
+      const reply = createMockReply();
+      mockFileService.getFileById.mockResolvedValue(mockFile);
+      mockDownloadUrls.verifyFileDownload.mockImplementationOnce(() => {
+        throw new InvalidDownloadUrlError();
+      });
+
+      await fileHandlers.downloadFile(request as any, reply as any);
+
+      expect(mockDownloadUrls.verifyFileDownload).toHaveBeenCalledWith(mockFile, request.query);
+      expect(reply.code).toHaveBeenCalledWith(403);
+      expect(reply.send).toHaveBeenCalledWith({
+        success: false,
+        error: { code: 'INVALID_DOWNLOAD_URL', message: 'Download link is invalid' },
+      });
+      expect(mockFileService.createDownloadStream).not.toHaveBeenCalled();
+    });
+
+    it('should refuse originals on links issued to a guest with 403', async () => {
+      const reply = createMockReply();
+      mockFileService.getFileById.mockResolvedValue(mockFile);
+
+      await fileHandlers.downloadFile(createMockRequest({ fileId: 'file123' }, linkQuery({ role: 'guest' })) as any, reply as any);
+
+      expect(reply.code).toHaveBeenCalledWith(403);
+      expect(reply.send).toHaveBeenCalledWith({
+        success: false,
+        error: { code: 'ORIGINALS_NOT_PERMITTED', message: 'Originals are not available to this user' },
+      });
+      expect(mockFileService.createDownloadStream).not.toHaveBeenCalled();
+    });
+
+    it('should refuse photographer-only files on links issued to a client with 403', async () => {
+      const reply = createMockReply();
+      mockFileService.getFileById.mockResolvedValue({ ...mockFile, type: 'sidecar', photographerOnly: true });
+
+      await fileHandlers.downloadFile(createMockRequest({ fileId: 'file123' }, linkQuery()) as any, reply as any);
+
+      expect(reply.code).toHaveBeenCalledWith(403);
+      expect(reply.send).toHaveBeenCalledWith({
+        success: false,
+        error: { code: 'PHOTOGRAPHER_ONLY_FILE', message: 'This file is only available to the photographer' },
+      });
+      expect(mockFileService.createDownloadStream).not.toHaveBeenCalled();
+    });
+
+    it('should serve renditions on links issued to a guest', async () => {
+      const request = createMockRequest({ fileId: 'file123' }, linkQuery({ role: 'guest', resolution: 'medium' }));
+      const reply = createMockReply();
+      mockFileService.getFileById.mockResolvedValue({
+        ...mockFile,
+        renditions: [{
+          name: 'medium',
+          format: 'jpeg',
+          url: '/files/file123/download?resolution=medium&format=jpeg',
+          storagePath: 'renditions/2024/01/file123_medium.jpg',
+          width: 1200,
+          height: 800,
+          size: 4096,
+        }],
+      });
+      mockFileService.getFileStats.mockResolvedValue({ size: 4096, exists: true });
+      mockFileService.createRenditionStream.mockReturnValue({} as any);
+
+      await fileHandlers.downloadFile(request as any, reply as any);
+
+      expect(reply.code).not.toHaveBeenCalledWith(403);
+      expect(mockFileService.createRenditionStream).toHaveBeenCalledWith(
+        'renditions/2024/01/file123_medium.jpg',
+        { start: 0, end: 4095 }
+      );
+    });
+
     it('should handle download errors gracefully', async () => {
-      const request = createMockRequest({ fileId: 'file123' });
+      const request = createMockRequest({ fileId: 'file123' }, linkQuery());
       const reply = createMockReply();
 
       mockFileService.getFileById.mockRejectedValue(new Error('Database error'));
@@ -196,13 +482,63 @@ describe('FileHandlers', () => {
     });
   });
 
+  describe('reprocessFile', () => {
+    it('should answer 202 with the requeued file', async () => {
+      const request = createMockRequest({ fileId: 'file123' });
+      const reply = createMockReply();
+      mockFileService.reprocessFile.mockResolvedValue({ id: 'file123', processingStatus: 'pending' } as FileModel);
+
+      const result = await fileHandlers.reprocessFile(request as any, reply as any);
+
+      expect(reply.code).toHaveBeenCalledWith(202);
+      expect(result).toEqual({ success: true, data: { id: 'file123', processingStatus: 'pending' } });
+    });
+
+    it('should return 404 for non-existent file', async () => {
+      const request = createMockRequest({ fileId: 'nonexistent' });
+      const reply = createMockReply();
+      mockFileService.reprocessFile.mockResolvedValue(null);
+
+      const result = await fileHandlers.reprocessFile(request as any, reply as any);
+
+      expect(reply.code).toHaveBeenCalledWith(404);
+      expect(result).toMatchObject({ success: false, error: { code: 'FILE_NOT_FOUND' } });
+    });
+  });
+
+  describe('getFileWithSidecars', () => {
+    it('should return the RAW file with its sidecars', async () => {
+      const data = {
+        file: { id: 'raw123', type: 'raw' } as FileModel,
+        sidecars: [{ id: 'xmp123', type: 'sidecar', parentFileId: 'raw123' } as FileModel],
+      };
+      mockFileService.getFileWithSidecars.mockResolvedValue(data);
+
+      const result = await fileHandlers.getFileWithSidecars(
+        createMockRequest({ fileId: 'xmp123' }) as any,
+        createMockReply() as any
+      );
+
+      expect(result).toEqual({ success: true, data });
+    });
+
+    it('should return 404 for non-existent file', async () => {
+      const reply = createMockReply();
+      mockFileService.getFileWithSidecars.mockResolvedValue(null);
+
+      const result = await fileHandlers.getFileWithSidecars(createMockRequest({ fileId: 'nonexistent' }) as any, reply as any);
+
+      expect(reply.code).toHaveBeenCalledWith(404);
+      expect(result).toMatchObject({ success: false, error: { code: 'FILE_NOT_FOUND' } });
+    });
+  });
+
   describe('downloadArchive (ADR-026 compliance)', () => {
     const mockArchive = {
       id: 'archive123',
       shootId: 'shoot123',
       type: 'complete' as const,
       size: 500 * 1024 * 1024, // 500MB
-      downloadUrl: '/archives/archive123/download',
       expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(), // 24 hours from now
       status: 'completed' as const,
       createdAt: '2024-01-01T00:00:00Z',
@@ -210,7 +546,7 @@ describe('FileHandlers', () => {
     };
 
     it('should include Content-Length header for archive downloads (ADR-026)', async () => {
-      const request = createMockRequest({ archiveId: 'archive123' });
+      const request = createMockRequest({ archiveId: 'archive123' }, linkQuery());
       const reply = createMockReply();
 
       mockArchiveService.getArchiveById.mockResolvedValue(mockArchive);
@@ -226,8 +562,77 @@ describe('FileHandlers', () => {
       expect(reply.header).toHaveBeenCalledWith('Cache-Control', 'private, max-age=0');
     });
 
+    it('should refuse expired links with 403', async () => {
+      const reply = createMockReply();
+      mockArchiveService.getArchiveById.mockResolvedValue(mockArchive);
+      mockDownloadUrls.verifyArchiveDownload.mockImplementationOnce(() => {
+        throw new DownloadUrlExpiredError();
+      });
+
+      await fileHandlers.downloadArchive(createMockRequest({ archiveId: 'archive123' }, linkQuery()) as any, reply as any);
+
+      expect(reply.code).toHaveBeenCalledWith(403);
+      expect(reply.send).toHaveBeenCalledWith({
+        success: false,
+        error: { code: 'DOWNLOAD_URL_EXPIRED', message: 'Download link has expired' },
+      });
+      expect(mockArchiveService.createArchiveDownloadStream).not.toHaveBeenCalled();
+    });
+
+    it('should resume archive downloads from the requested byte', async () => {
+      const request = createMockRequest({ archiveId: 'archive123' }, linkQuery(), {}, { range: 'bytes=1000-' });
+      const reply = createMockReply();
+      mockArchiveService.getArchiveById.mockResolvedValue(mockArchive);
+      mockArchiveService.createArchiveDownloadStream.mockResolvedValue({} as any);
+
+      await fileHandlers.downloadArchive(request as any, reply as any);
+
+      expect(mockArchiveService.createArchiveDownloadStream)
+        .toHaveBeenCalledWith('archive123', { start: 1000, end: mockArchive.size - 1 });
+      expect(reply.code).toHaveBeenCalledWith(206);
+      expect(reply.header).toHaveBeenCalledWith('Content-Range', `bytes 1000-${mockArchive.size - 1}/${mockArchive.size}`);
+      expect(reply.header).toHaveBeenCalledWith('ETag', `"archive123-${mockArchive.size}"`);
+    });
+
+    it('should serve the end of an archive for a suffix range', async () => {
+      const request = createMockRequest({ archiveId: 'archive123' }, linkQuery(), {}, { range: 'bytes=-1024' });
+      const reply = createMockReply();
+      mockArchiveService.getArchiveById.mockResolvedValue(mockArchive);
+      mockArchiveService.createArchiveDownloadStream.mockResolvedValue({} as any);
+
+      await fileHandlers.downloadArchive(request as any, reply as any);
+
+      expect(mockArchiveService.createArchiveDownloadStream)
+        .toHaveBeenCalledWith('archive123', { start: mockArchive.size - 1024, end: mockArchive.size - 1 });
+      expect(reply.header).toHaveBeenCalledWith('Content-Length', '1024');
+    });
+
+    it('should answer a resume past the end of an archive with 416', async () => {
+      const request = createMockRequest({ archiveId: 'archive123' }, linkQuery(), {}, { range: `bytes=${mockArchive.size + 10}-` });
+      const reply = createMockReply();
+      mockArchiveService.getArchiveById.mockResolvedValue(mockArchive);
+
+      await fileHandlers.downloadArchive(request as any, reply as any);
+
+      expect(reply.code).toHaveBeenCalledWith(416);
+      expect(reply.header).toHaveBeenCalledWith('Content-Range', `bytes */${mockArchive.size}`);
+      expect(mockArchiveService.createArchiveDownloadStream).not.toHaveBeenCalled();
+    });
+
+    it('should return 410 when a streamed archive\'s files have changed', async () => {
+      const reply = createMockReply();
+      mockArchiveService.getArchiveById.mockResolvedValue(mockArchive);
+      mockArchiveService.createArchiveDownloadStream.mockRejectedValue(new ArchiveContentChangedError());
+
+      await fileHandlers.downloadArchive(createMockRequest({ archiveId: 'archive123' }, linkQuery()) as any, reply as any);
+
+      expect(reply.code).toHaveBeenCalledWith(410);
+      expect(reply.send).toHaveBeenCalledWith(expect.objectContaining({ error: expect.objectContaining({ code: 'ARCHIVE_CHANGED' }) }));
+      expect(reply.header).not.toHaveBeenCalled();
+    });
+
     it('should return 404 for non-existent archive', async () => {
-      const request = createMockRequest({ archiveId: 'nonexistent' });
+      const request = createMockRequest({ archiveId: 'nonexistent' }, linkQuery());
       const reply = createMockReply();
 
       mockArchiveService.getArchiveById.mockResolvedValue(null);
@@ -250,7 +655,7 @@ describe('FileHandlers', () => {
         expiresAt: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(), // Expired 24 hours ago
       };
 
-      const request = createMockRequest({ archiveId: 'archive123' });
+      const request = createMockRequest({ archiveId: 'archive123' }, linkQuery());
       const reply = createMockReply();
 
       mockArchiveService.getArchiveById.mockResolvedValue(expiredArchive);
@@ -267,13 +672,30 @@ describe('FileHandlers', () => {
       });
     });
 
+    it('should refuse links issued to a guest with 403', async () => {
+      const reply = createMockReply();
+      mockArchiveService.getArchiveById.mockResolvedValue(mockArchive);
+
+      await fileHandlers.downloadArchive(
+        createMockRequest({ archiveId: 'archive123' }, linkQuery({ role: 'guest' })) as any,
+        reply as any
+      );
+
+      expect(reply.code).toHaveBeenCalledWith(403);
+      expect(reply.send).toHaveBeenCalledWith({
+        success: false,
+        error: { code: 'ARCHIVES_NOT_PERMITTED', message: 'Archives are not available to this user' },
+      });
+      expect(mockArchiveService.createArchiveDownloadStream).not.toHaveBeenCalled();
+    });
+
     it('should return 404 for non-completed archive', async () => {
       const processingArchive = {
         ...mockArchive,
         status: 'processing' as const,
       };
 
-      const request = createMockRequest({ archiveId: 'archive123' });
+      const request = createMockRequest({ archiveId: 'archive123' }, linkQuery());
       const reply = createMockReply();
 
       mockArchiveService.getArchiveById.mockResolvedValue(processingArchive);
@@ -291,6 +713,117 @@ describe('FileHandlers', () => {
     });
   });
 
+  describe('createArchive', () => {
+    const body = { shootId: 'shoot123', type: 'complete' as const };
+    const client = { userId: 'user123', email: 'client@example.com', role: 'client', shootId: 'shoot123' };
+
+    it('should create the archive on behalf of the caller', async () => {
+      const reply = createMockReply();
+      const archive = { id: 'archive123', shootId: 'shoot123', status: 'pending' };
+      mockArchiveService.createArchive.mockResolvedValue(archive as any);
+
+      const result = await fileHandlers.createArchive({ body, user: client } as any, reply as any);
+
+      expect(mockArchiveService.createArchive).toHaveBeenCalledWith(expect.objectContaining({
+        shootId: 'shoot123',
+        type: 'complete',
+        requestedBy: { userId: 'user123', role: 'client' },
+      }));
+      expect(result).toEqual({ success: true, data: archive });
+    });
+
+    it('should refuse guests with 403', async () => {
+      const reply = createMockReply();
+
+      const result = await fileHandlers.createArchive({ body, user: { ...client, role: 'guest' } } as any, reply as any);
+
+      expect(reply.code).toHaveBeenCalledWith(403);
+      expect(result).toEqual({
+        success: false,
+        error: { code: 'ARCHIVES_NOT_PERMITTED', message: 'Archives are not available to this user' },
+      });
+      expect(mockArchiveService.createArchive).not.toHaveBeenCalled();
+    });
+
+    it('should refuse archives of a watermarked shoot with 403', async () => {
+      const reply = createMockReply();
+      mockWatermarkService.assertOriginalsAvailable.mockRejectedValueOnce(new WatermarkRequiredError());
+
+      const result = await fileHandlers.createArchive({ body, user: client } as any, reply as any);
+
+      expect(mockWatermarkService.assertOriginalsAvailable).toHaveBeenCalledWith('shoot123', 'client');
+      expect(reply.code).toHaveBeenCalledWith(403);
+      expect(result).toMatchObject({ success: false, error: { code: 'ORIGINAL_NOT_AVAILABLE' } });
+      expect(mockArchiveService.createArchive).not.toHaveBeenCalled();
+    });
+
+    it('should refuse files of another shoot with 403', async () => {
+      const reply = createMockReply();
+      mockArchiveService.createArchive.mockRejectedValue(new FilesOutsideShootError());
+
+      const result = await fileHandlers.createArchive(
+        { body: { ...body, fileIds: ['file123', 'other-shoot-file'] }, user: client } as any,
+        reply as any
+      );
+
+      expect(mockArchiveService.createArchive).toHaveBeenCalledWith(expect.objectContaining({
+        shootId: 'shoot123',
+        fileIds: ['file123', 'other-shoot-file'],
+      }));
+      expect(reply.code).toHaveBeenCalledWith(403);
+      expect(result).toEqual({
+        success: false,
+        error: { code: 'FILES_OUTSIDE_SHOOT', message: 'Archives can only hold files of their shoot' },
+      });
+    });
+
+    it('should refuse archives of another shoot with 403', async () => {
+      const reply = createMockReply();
+
+      const result = await fileHandlers.createArchive(
+        { body: { ...body, shootId: 'shoot456' }, user: client } as any,
+        reply as any
+      );
+
+      expect(reply.code).toHaveBeenCalledWith(403);
+      expect(result).toEqual({
+        success: false,
+        error: { code: 'SHOOT_ACCESS_DENIED', message: 'This shoot is not available to this user' },
+      });
+      expect(mockArchiveService.createArchive).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getArchive', () => {
+    const archive = { id: 'archive123', shootId: 'shoot123', status: 'completed', notifyEmail: 'client@example.com' };
+    const client = { userId: 'user123', email: 'client@example.com', role: 'client', shootId: 'shoot123' };
+
+    it('should return archives of the caller\'s shoot', async () => {
+      const reply = createMockReply();
+      mockArchiveService.getArchiveById.mockResolvedValue(archive as any);
+
+      const result = await fileHandlers.getArchive({ params: { archiveId: 'archive123' }, user: client } as any, reply as any);
+
+      expect(result).toEqual({ success: true, data: archive });
+    });
+
+    it('should refuse archives of another shoot with 403', async () => {
+      const reply = createMockReply();
+      mockArchiveService.getArchiveById.mockResolvedValue(archive as any);
+
+      const result = await fileHandlers.getArchive(
+        { params: { archiveId: 'archive123' }, user: { ...client, shootId: 'shoot456' } } as any,
+        reply as any
+      );
+
+      expect(reply.code).toHaveBeenCalledWith(403);
+      expect(result).toEqual({
+        success: false,
+        error: { code: 'SHOOT_ACCESS_DENIED', message: 'This shoot is not available to this user' },
+      });
+    });
+  });
+
   describe('uploadFile', () => {
     it('should handle file upload successfully', async () => {
       const mockUploadData = {
@@ -0,0 +1,178 @@
+/**
+ * IntegrityHandlers Test Suite
+ * Testing the admin endpoints of the storage scrubber
+ */
+
+import { vi } from 'vitest';
+import type { Mocked } from 'vitest';
+import Fastify from 'fastify';
+import { getJwtConfig, signJwt } from '@tempsdarret/shared/auth';
+import { IntegrityHandlers } from '../../src/handlers/IntegrityHandlers.js';
+import { registerAdminRoutes } from '../../src/handlers/file.routes.js';
+import {
+  IntegrityReportNotFoundError,
+  ScrubInProgressError,
+  StorageIntegrityService
+} from '../../src/services/StorageIntegrityService.js';
+import { IntegrityReport } from '../../src/shared/contracts/files.api.js';
+
+const mockIntegrityService = {
+  getLatestReport: vi.fn(),
+  startScrub: vi.fn(),
+  quarantineOrphans: vi.fn(),
+} as unknown as Mocked<StorageIntegrityService>;
+
+const report: IntegrityReport = {
+  id: 'report123',
+  status: 'completed',
+  startedAt: '2024-01-01T03:00:00.000Z',
+  finishedAt: '2024-01-01T03:05:00.000Z',
+  checkedFiles: 120,
+  hashesVerified: 118,
+  issueCount: 0,
+  orphanCount: 1,
+  orphanBytes: 2048,
+  issues: [],
+  orphans: [{ storagePath: '2024/01/lost.jpg', tier: 'hot', size: 2048, modifiedAt: '2023-12-01T00:00:00.000Z' }],
+};
+
+const createMockReply = () => ({
+  code: vi.fn().mockReturnThis(),
+}) as any;
+
+describe('IntegrityHandlers', () => {
+  let handlers: IntegrityHandlers;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    handlers = new IntegrityHandlers(mockIntegrityService);
+  });
+
+  describe('getIntegrityReport', () => {
+    it('should return the latest report', async () => {
+      mockIntegrityService.getLatestReport.mockResolvedValue(report);
+      const reply = createMockReply();
+
+      const result = await handlers.getIntegrityReport({} as any, reply);
+
+      expect(result).toEqual({ success: true, data: report });
+      expect(reply.code).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 before the first scrub', async () => {
+      mockIntegrityService.getLatestReport.mockResolvedValue(null);
+      const reply = createMockReply();
+
+      const result = await handlers.getIntegrityReport({} as any, reply);
+
+      expect(reply.code).toHaveBeenCalledWith(404);
+      expect(result).toMatchObject({ success: false, error: { code: 'INTEGRITY_REPORT_NOT_FOUND' } });
+    });
+  });
+
+  describe('startScrub', () => {
+    it('should accept the scrub with its running report', async () => {
+      const running = { ...report, status: 'running' as const, finishedAt: undefined };
+      mockIntegrityService.startScrub.mockResolvedValue(running);
+      const reply = createMockReply();
+
+      const result = await handlers.startScrub({} as any, reply);
+
+      expect(reply.code).toHaveBeenCalledWith(202);
+      expect(result).toEqual({ success: true, data: running });
+    });
+
+    it('should return 409 while a scrub runs', async () => {
+      mockIntegrityService.startScrub.mockRejectedValue(new ScrubInProgressError());
+      const reply = createMockReply();
+
+      const result = await handlers.startScrub({} as any, reply);
+
+      expect(reply.code).toHaveBeenCalledWith(409);
+      expect(result).toMatchObject({ success: false, error: { code: 'SCRUB_IN_PROGRESS' } });
+    });
+  });
+
+  describe('quarantineOrphans', () => {
+    it('should return what was quarantined and what was kept', async () => {
+      const quarantine = {
+        reportId: 'report123',
+        quarantined: [{ ...report.orphans[0], quarantinedTo: 'quarantine/report123/2024/01/lost.jpg' }],
+        skipped: [],
+      };
+      mockIntegrityService.quarantineOrphans.mockResolvedValue(quarantine);
+      const reply = createMockReply();
+
+      const result = await handlers.quarantineOrphans({} as any, reply);
+
+      expect(result).toEqual({ success: true, data: quarantine });
+    });
+
+    it('should return 404 without a completed scrub', async () => {
+      mockIntegrityService.quarantineOrphans.mockRejectedValue(new IntegrityReportNotFoundError());
+      const reply = createMockReply();
+
+      const result = await handlers.quarantineOrphans({} as any, reply);
+
+      expect(reply.code).toHaveBeenCalledWith(404);
+      expect(result).toMatchObject({ success: false, error: { code: 'INTEGRITY_REPORT_NOT_FOUND' } });
+    });
+
+    it('should return 409 while a scrub runs', async () => {
+      mockIntegrityService.quarantineOrphans.mockRejectedValue(new ScrubInProgressError());
+      const reply = createMockReply();
+
+      const result = await handlers.quarantineOrphans({} as any, reply);
+
+      expect(reply.code).toHaveBeenCalledWith(409);
+      expect(result).toMatchObject({ success: false, error: { code: 'SCRUB_IN_PROGRESS' } });
+    });
+  });
+});
+
+describe('Admin routes', () => {
+  const buildApp = async () => {
+    const app = Fastify();
+    await registerAdminRoutes(app, new IntegrityHandlers(mockIntegrityService));
+    return app;
+  };
+  const bearer = (role: string) => ({
+    authorization: `Bearer ${signJwt({ userId: 'user123', email: 'user@example.com', role } as any, getJwtConfig())}`,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should answer requests without a token with 401', async () => {
+    const app = await buildApp();
+
+    const res = await app.inject({ method: 'GET', url: '/files/admin/integrity' });
+
+    expect(res.statusCode).toBe(401);
+    expect(mockIntegrityService.getLatestReport).not.toHaveBeenCalled();
+    await app.close();
+  });
+
+  it('should refuse clients with 403', async () => {
+    const app = await buildApp();
+
+    const res = await app.inject({ method: 'GET', url: '/files/admin/integrity', headers: bearer('client') });
+
+    expect(res.statusCode).toBe(403);
+    expect(JSON.parse(res.body)).toMatchObject({ error: { code: 'PHOTOGRAPHER_REQUIRED' } });
+    expect(mockIntegrityService.getLatestReport).not.toHaveBeenCalled();
+    await app.close();
+  });
+
+  it('should serve the photographer', async () => {
+    mockIntegrityService.getLatestReport.mockResolvedValue(report);
+    const app = await buildApp();
+
+    const res = await app.inject({ method: 'GET', url: '/files/admin/integrity', headers: bearer('photographer') });
+
+    expect(res.statusCode).toBe(200);
+    expect(mockIntegrityService.getLatestReport).toHaveBeenCalled();
+    await app.close();
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * TrashHandlers Test Suite
+ * Listing, restoring and purging deleted files
+ */
+
+import { vi } from 'vitest';
+import type { Mocked } from 'vitest';
+import Fastify from 'fastify';
+import { getJwtConfig, signJwt } from '@tempsdarret/shared/auth';
+import { TrashHandlers } from '../../src/handlers/TrashHandlers.js';
+import { registerTrashRoutes } from '../../src/handlers/file.routes.js';
+import { FileService } from '../../src/services/FileService.js';
+import { TrashService } from '../../src/services/TrashService.js';
+import { FileModel } from '../../src/shared/contracts/files.api.js';
+
+const mockFileService = {
+  restoreFile: vi.fn(),
+} as unknown as Mocked<FileService>;
+
+const mockTrashService = {
+  listTrash: vi.fn(),
+  purgeFile: vi.fn(),
+} as unknown as Mocked<TrashService>;
+
+const file: FileModel = {
+  id: 'file123',
+  filename: 'portrait.jpg',
+  type: 'jpeg',
+  size: 1024,
+  mimeType: 'image/jpeg',
+  shootId: 'shoot123',
+  storagePath: '2024/01/file123.jpg',
+  processingStatus: 'completed',
+  deletedAt: '2024-01-02T00:00:00.000Z',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-02T00:00:00Z',
+};
+
+describe('TrashHandlers', () => {
+  let handlers: TrashHandlers;
+  let reply: { code: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    handlers = new TrashHandlers(mockFileService, mockTrashService);
+    reply = { code: vi.fn().mockReturnThis() };
+  });
+
+  describe('listTrash', () => {
+    it('should list the shoot\'s trash', async () => {
+      mockTrashService.listTrash.mockResolvedValue([file]);
+
+      const result = await handlers.listTrash({ query: { shootId: 'shoot123' } } as any, reply as any);
+
+      expect(result).toEqual({ success: true, data: [file] });
+      expect(mockTrashService.listTrash).toHaveBeenCalledWith('shoot123');
+    });
+
+    it('should require a shoot', async () => {
+      const result = await handlers.listTrash({ query: {} } as any, reply as any);
+
+      expect(reply.code).toHaveBeenCalledWith(400);
+      expect(result).toMatchObject({ success: false, error: { code: 'INVALID_QUERY' } });
+    });
+  });
+
+  describe('restoreFile', () => {
+    it('should return the restored file', async () => {
+      const { deletedAt: _deletedAt, ...restored } = file;
+      mockFileService.restoreFile.mockResolvedValue(restored);
+
+      const result = await handlers.restoreFile({ params: { fileId: 'file123' } } as any, reply as any);
+
+      expect(result).toEqual({ success: true, data: restored });
+    });
+
+    it('should return 404 for a file not in the trash', async () => {
+      mockFileService.restoreFile.mockResolvedValue(null);
+
+      const result = await handlers.restoreFile({ params: { fileId: 'file123' } } as any, reply as any);
+
+      expect(reply.code).toHaveBeenCalledWith(404);
+      expect(result).toMatchObject({ success: false, error: { code: 'FILE_NOT_IN_TRASH' } });
+    });
+  });
+
+  describe('purgeFile', () => {
+    it('should purge a file in the trash', async () => {
+      mockTrashService.purgeFile.mockResolvedValue(true);
+
+      const result = await handlers.purgeFile({ params: { fileId: 'file123' } } as any, reply as any);
+
+      expect(result).toEqual({ success: true, data: { purged: true } });
+    });
+
+    it('should return 404 for a file not in the trash', async () => {
+      mockTrashService.purgeFile.mockResolvedValue(false);
+
+      const result = await handlers.purgeFile({ params: { fileId: 'file123' } } as any, reply as any);
+
+      expect(reply.code).toHaveBeenCalledWith(404);
+      expect(result).toMatchObject({ success: false, error: { code: 'FILE_NOT_IN_TRASH' } });
+    });
+
+    it('should return 500 when purging fails', async () => {
+      mockTrashService.purgeFile.mockRejectedValue(new Error('EACCES: permission denied'));
+
+      const result = await handlers.purgeFile({ params: { fileId: 'file123' } } as any, reply as any);
+
+      expect(reply.code).toHaveBeenCalledWith(500);
+      expect(result).toMatchObject({ success: false, error: { code: 'PURGE_FAILED', message: 'EACCES: permission denied' } });
+    });
+  });
+});
+
+describe('Trash routes', () => {
+  const buildApp = async () => {
+    const app = Fastify();
+    await registerTrashRoutes(app, new TrashHandlers(mockFileService, mockTrashService));
+    return app;
+  };
+  const bearer = (role: string) => ({
+    authorization: `Bearer ${signJwt({ userId: 'user123', email: 'user@example.com', role } as any, getJwtConfig())}`,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should answer requests without a token with 401', async () => {
+    const app = await buildApp();
+
+    const res = await app.inject({ method: 'GET', url: '/files/trash?shootId=shoot123' });
+
+    expect(res.statusCode).toBe(401);
+    expect(mockTrashService.listTrash).not.toHaveBeenCalled();
+    await app.close();
+  });
+
+  it('should refuse clients with 403', async () => {
+    const app = await buildApp();
+
+    const res = await app.inject({ method: 'GET', url: '/files/trash?shootId=shoot123', headers: bearer('client') });
+
+    expect(res.statusCode).toBe(403);
+    expect(JSON.parse(res.body)).toMatchObject({ error: { code: 'PHOTOGRAPHER_REQUIRED' } });
+    expect(mockTrashService.listTrash).not.toHaveBeenCalled();
+    await app.close();
+  });
+
+  it('should serve the photographer', async () => {
+    mockTrashService.listTrash.mockResolvedValue([file]);
+    const app = await buildApp();
+
+    const res = await app.inject({ method: 'GET', url: '/files/trash?shootId=shoot123', headers: bearer('photographer') });
+
+    expect(res.statusCode).toBe(200);
+    expect(mockTrashService.listTrash).toHaveBeenCalled();
+    await app.close();
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * UploadHandlers Test Suite
+ * Testing the tus 1.0.0 protocol surface of the resumable upload endpoints
+ */
+
+import { vi } from 'vitest';
+import type { Mocked } from 'vitest';
+import { Readable } from 'stream';
+import { UploadHandlers } from '../../src/handlers/UploadHandlers.js';
+import {
+  UploadService,
+  UploadChecksumMismatchError,
+  UploadOffsetMismatchError
+} from '../../src/services/UploadService.js';
+import { ResumableUpload } from '../../src/shared/contracts/files.dto.js';
+
+const mockUploadService = {
+  createUpload: vi.fn(),
+  getUpload: vi.fn(),
+  appendChunk: vi.fn(),
+  terminateUpload: vi.fn(),
+} as Mocked<UploadService>;
+
+const upload: ResumableUpload = {
+  id: 'upload123',
+  shootId: 'shoot123',
+  filename: 'clip.mov',
+  mimeType: 'video/quicktime',
+  length: 10,
+  offset: 5,
+  partPath: 'uploads/upload123.part',
+  expiresAt: '2024-01-02T00:00:00Z',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+};
+
+const tusHeaders = { 'tus-resumable': '1.0.0' };
+
+const base64 = (value: string): string => Buffer.from(value).toString('base64');
+
+const createMockRequest = (headers: Record<string, string>, params: any = {}, body?: any) => ({
+  params,
+  headers,
+  body,
+}) as any;
+
+const createMockReply = () => {
+  const reply = {
+    code: vi.fn().mockReturnThis(),
+    header: vi.fn().mockReturnThis(),
+    headers: vi.fn().mockReturnThis(),
+    send: vi.fn().mockReturnThis(),
+  };
+  return reply as any;
+};
+
+describe('UploadHandlers', () => {
+  let uploadHandlers: UploadHandlers;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    uploadHandlers = new UploadHandlers(mockUploadService, 1000);
+  });
+
+  it('should advertise the tus version, extensions and maximum size', async () => {
+    const reply = createMockReply();
+
+    await uploadHandlers.getCapabilities(createMockRequest({}), reply);
+
+    expect(reply.code).toHaveBeenCalledWith(204);
+    expect(reply.headers).toHaveBeenCalledWith(expect.objectContaining({
+      'Tus-Version': '1.0.0',
+      'Tus-Extension': 'creation,checksum,termination,expiration',
+      'Tus-Max-Size': '1000',
+    }));
+  });
+
+  it('should reject requests for another protocol version with 412', async () => {
+    const reply = createMockReply();
+
+    await uploadHandlers.createUpload(createMockRequest({ 'tus-resumable': '0.2.2' }), reply);
+
+    expect(reply.code).toHaveBeenCalledWith(412);
+    expect(reply.header).toHaveBeenCalledWith('Tus-Resumable', '1.0.0');
+    expect(mockUploadService.createUpload).not.toHaveBeenCalled();
+  });
+
+  describe('createUpload', () => {
+    it('should create an upload from Upload-Length and Upload-Metadata', async () => {
+      mockUploadService.createUpload.mockResolvedValue({ upload: { ...upload, offset: 0 } });
+      const reply = createMockReply();
+
+      await uploadHandlers.createUpload(createMockRequest({
+        ...tusHeaders,
+        'upload-length': '10',
+        'upload-metadata': `filename ${base64('clip.mov')},filetype ${base64('video/quicktime')},` +
+          `shootId ${base64('shoot123')},tags ${base64('ceremony, b-roll')}`,
+      }), reply);
+
+      expect(mockUploadService.createUpload).toHaveBeenCalledWith({
+        length: 10,
+        filename: 'clip.mov',
+        mimeType: 'video/quicktime',
+        shootId: 'shoot123',
+        tags: ['ceremony', 'b-roll'],
+        checksum: undefined,
+      });
+      expect(reply.code).toHaveBeenCalledWith(201);
+      expect(reply.header).toHaveBeenCalledWith('Location', '/files/uploads/upload123');
+    });
+
+    it('should require a shoot for the upload', async () => {
+      const reply = createMockReply();
+
+      await uploadHandlers.createUpload(createMockRequest({
+        ...tusHeaders,
+        'upload-length': '10',
+        'upload-metadata': `filename ${base64('clip.mov')}`,
+      }), reply);
+
+      expect(reply.code).toHaveBeenCalledWith(400);
+      expect(mockUploadService.createUpload).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getUploadOffset', () => {
+    it('should report the received offset without caching', async () => {
+      mockUploadService.getUpload.mockResolvedValue(upload);
+      const reply = createMockReply();
+
+      await uploadHandlers.getUploadOffset(createMockRequest(tusHeaders, { uploadId: 'upload123' }), reply);
+
+      expect(reply.headers).toHaveBeenCalledWith(expect.objectContaining({
+        'Upload-Offset': '5',
+        'Upload-Length': '10',
+        'Cache-Control': 'no-store',
+      }));
+    });
+  });
+
+  describe('appendChunk', () => {
+    const patchHeaders = {
+      ...tusHeaders,
+      'content-type': 'application/offset+octet-stream',
+      'upload-offset': '5',
+    };
+
+    it('should stream the chunk and point at the file once complete', async () => {
+      mockUploadService.appendChunk.mockResolvedValue({
+        upload: { ...upload, offset: 10, fileId: 'file123' },
+        file: { id: 'file123' } as any,
+      });
+      const body = Readable.from([Buffer.from('world')]);
+      const reply = createMockReply();
+
+      await uploadHandlers.appendChunk(createMockRequest({
+        ...patchHeaders,
+        'upload-checksum': `sha1 ${base64('digest')}`,
+      }, { uploadId: 'upload123' }, body), reply);
+
+      expect(mockUploadService.appendChunk).toHaveBeenCalledWith('upload123', 5, body, {
+        algorithm: 'sha1',
+        digest: base64('digest'),
+      });
+      expect(reply.code).toHaveBeenCalledWith(204);
+      expect(reply.headers).toHaveBeenCalledWith(expect.objectContaining({ 'Upload-Offset': '10' }));
+      expect(reply.header).toHaveBeenCalledWith('Content-Location', '/files/file123');
+    });
+
+    it('should refuse other content types with 415', async () => {
+      const reply = createMockReply();
+
+      await uploadHandlers.appendChunk(createMockRequest({
+        ...patchHeaders,
+        'content-type': 'application/json',
+      }, { uploadId: 'upload123' }), reply);
+
+      expect(reply.code).toHaveBeenCalledWith(415);
+    });
+
+    it('should answer an offset mismatch with 409 and the current offset', async () => {
+      mockUploadService.appendChunk.mockRejectedValue(new UploadOffsetMismatchError(5));
+      const reply = createMockReply();
+
+      await uploadHandlers.appendChunk(createMockRequest({
+        ...patchHeaders,
+        'upload-offset': '0',
+      }, { uploadId: 'upload123' }), reply);
+
+      expect(reply.code).toHaveBeenCalledWith(409);
+      expect(reply.header).toHaveBeenCalledWith('Upload-Offset', '5');
+    });
+
+    it('should answer a checksum mismatch with 460', async () => {
+      mockUploadService.appendChunk.mockRejectedValue(new UploadChecksumMismatchError());
+      const reply = createMockReply();
+
+      await uploadHandlers.appendChunk(createMockRequest(patchHeaders, { uploadId: 'upload123' }), reply);
+
+      expect(reply.code).toHaveBeenCalledWith(460);
+    });
+  });
+
+  describe('terminateUpload', () => {
+    it('should return 404 for unknown uploads', async () => {
+      mockUploadService.terminateUpload.mockResolvedValue(false);
+      const reply = createMockReply();
+
+      await uploadHandlers.terminateUpload(createMockRequest(tusHeaders, { uploadId: 'missing' }), reply);
+
+      expect(reply.code).toHaveBeenCalledWith(404);
+    });
+  });
+});
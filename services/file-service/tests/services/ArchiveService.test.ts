@@ -0,0 +1,294 @@
+/**
+ * ArchiveService Test Suite
+ * Testing which files go into an archive
+ */
+
+import { vi } from 'vitest';
+import type { Mocked } from 'vitest';
+import { EventEmitter as NodeEventEmitter } from 'events';
+import { Model } from 'mongoose';
+import { ArchiveService, ArchiveContentChangedError, FilesOutsideShootError } from '../../src/services/ArchiveService.js';
+import { FileService } from '../../src/services/FileService.js';
+import { EventEmitter } from '../../src/services/EventEmitter.js';
+import { DownloadUrlService } from '../../src/services/DownloadUrlService.js';
+import { ArchiveStreamer } from '../../src/services/ArchiveStreamer.js';
+import { FileModel } from '../../src/shared/contracts/files.api.js';
+
+const mockArchiveModel = Object.assign(vi.fn(), { updateOne: vi.fn(), findById: vi.fn() }) as any;
+
+const mockFileService = {
+  getFilesByIds: vi.fn(),
+  getFilesByShootId: vi.fn(),
+  getSidecarsByParentIds: vi.fn(),
+} as unknown as Mocked<FileService>;
+
+const mockEventEmitter = {
+  emitArchiveCreated: vi.fn(),
+  emitArchiveReady: vi.fn(),
+} as unknown as Mocked<EventEmitter>;
+
+const photographer = { userId: 'photographer1', role: 'photographer' as const };
+
+function buildFile(id: string, type: FileModel['type'], parentFileId?: string): FileModel {
+  return {
+    id,
+    filename: `${id}.bin`,
+    type,
+    size: 100,
+    mimeType: 'application/octet-stream',
+    shootId: 'shoot123',
+    storagePath: `2024/01/${id}.bin`,
+    processingStatus: 'completed',
+    ...(parentFileId && { parentFileId, photographerOnly: true }),
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+  };
+}
+
+describe('ArchiveService', () => {
+  let archiveService: ArchiveService;
+  let generate: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    archiveService = new ArchiveService(mockArchiveModel as Model<any>, mockFileService, mockEventEmitter, {
+      basePath: '/data/archives',
+      storageBasePath: '/data/files',
+      maxArchiveSize: 1024 * 1024,
+      defaultExpirationDays: 7,
+      compressionLevel: 6,
+    }, new DownloadUrlService({
+      signingSecret: 'test-secret',
+      baseUrl: '/api/v1',
+      urlTtlSeconds: 3600,
+      maxUrlTtlSeconds: 30 * 24 * 3600,
+    }));
+    // Archive generation writes the ZIP in the background; only the file selection is under test
+    generate = vi.fn();
+    (archiveService as any).startArchiveGeneration = generate;
+    mockArchiveModel.mockImplementation((data: Record<string, unknown>) => ({
+      save: vi.fn().mockResolvedValue({ ...data, createdAt: new Date(), updatedAt: new Date() }),
+    }));
+    mockFileService.getSidecarsByParentIds.mockResolvedValue([]);
+  });
+
+  describe('createArchive', () => {
+    it('should add the sidecars of the archived RAW files', async () => {
+      mockFileService.getFilesByShootId.mockResolvedValue([
+        buildFile('raw1', 'raw'),
+        buildFile('jpeg1', 'jpeg'),
+        buildFile('xmp1', 'sidecar', 'raw1'),
+      ]);
+      mockFileService.getSidecarsByParentIds.mockResolvedValue([buildFile('xmp1', 'sidecar', 'raw1')]);
+
+      await archiveService.createArchive({ shootId: 'shoot123', type: 'raw', requestedBy: photographer });
+
+      expect(mockFileService.getSidecarsByParentIds).toHaveBeenCalledWith(['raw1']);
+      expect(generate.mock.calls[0][1].map((file: FileModel) => file.id)).toEqual(['raw1', 'xmp1']);
+    });
+
+    it('should bring in the RAW file and other sidecars of a selected sidecar', async () => {
+      mockFileService.getFilesByIds.mockImplementation(async (ids: string[]) =>
+        ids.includes('raw1') ? [buildFile('raw1', 'raw')] : [buildFile('xmp1', 'sidecar', 'raw1')]
+      );
+      mockFileService.getSidecarsByParentIds.mockResolvedValue([
+        buildFile('xmp1', 'sidecar', 'raw1'),
+        buildFile('psd1', 'config', 'raw1'),
+      ]);
+
+      await archiveService.createArchive({
+        shootId: 'shoot123',
+        type: 'complete',
+        fileIds: ['xmp1'],
+        requestedBy: photographer,
+      });
+
+      expect(mockFileService.getFilesByIds).toHaveBeenLastCalledWith(['raw1']);
+      expect(generate.mock.calls[0][1].map((file: FileModel) => file.id)).toEqual(['xmp1', 'raw1', 'psd1']);
+    });
+
+    it('should refuse requested files of another shoot', async () => {
+      mockFileService.getFilesByIds.mockResolvedValue([
+        buildFile('jpeg1', 'jpeg'),
+        { ...buildFile('jpeg2', 'jpeg'), shootId: 'shoot456' },
+      ]);
+
+      await expect(archiveService.createArchive({ shootId: 'shoot123', type: 'jpeg', fileIds: ['jpeg1', 'jpeg2'] }))
+        .rejects.toBeInstanceOf(FilesOutsideShootError);
+      expect(mockArchiveModel).not.toHaveBeenCalled();
+    });
+
+    it('should leave sidecars and editor project files out of client archives', async () => {
+      mockFileService.getFilesByShootId.mockResolvedValue([
+        buildFile('raw1', 'raw'),
+        buildFile('xmp1', 'sidecar', 'raw1'),
+        buildFile('psd1', 'config', 'raw1'),
+      ]);
+
+      await archiveService.createArchive({
+        shootId: 'shoot123',
+        type: 'complete',
+        requestedBy: { userId: 'client1', role: 'client' },
+      });
+
+      expect(mockFileService.getSidecarsByParentIds).not.toHaveBeenCalled();
+      expect(generate.mock.calls[0][1].map((file: FileModel) => file.id)).toEqual(['raw1']);
+    });
+
+    it('should leave JPEG archives alone', async () => {
+      mockFileService.getFilesByShootId.mockResolvedValue([buildFile('raw1', 'raw'), buildFile('jpeg1', 'jpeg')]);
+
+      await archiveService.createArchive({ shootId: 'shoot123', type: 'jpeg' });
+
+      expect(mockFileService.getSidecarsByParentIds).not.toHaveBeenCalled();
+      expect(generate.mock.calls[0][1].map((file: FileModel) => file.id)).toEqual(['jpeg1']);
+    });
+
+    it('should start built archives with empty progress and keep who to notify', async () => {
+      mockFileService.getFilesByShootId.mockResolvedValue([buildFile('jpeg1', 'jpeg'), buildFile('jpeg2', 'jpeg')]);
+
+      const archive = await archiveService.createArchive({
+        shootId: 'shoot123',
+        type: 'jpeg',
+        notifyEmail: 'client@example.com',
+      });
+
+      expect(archive.notifyEmail).toBe('client@example.com');
+      expect(archive.progress).toEqual({
+        filesProcessed: 0,
+        totalFiles: 2,
+        bytesProcessed: 0,
+        totalBytes: 200,
+        bytesWritten: 0,
+      });
+    });
+  });
+
+  describe('generation progress', () => {
+    const files = [{ size: 300 }, { size: 100 }];
+    let archiver: NodeEventEmitter & { pointer: ReturnType<typeof vi.fn> };
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-06-01T10:00:00Z'));
+      archiver = Object.assign(new NodeEventEmitter(), { pointer: vi.fn().mockReturnValue(250) });
+      mockArchiveModel.updateOne.mockResolvedValue({});
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    const progressEvent = (processed: number, processedBytes: number) => ({
+      entries: { total: 2, processed },
+      fs: { totalBytes: 400, processedBytes },
+    });
+
+    it('should save files and bytes done with an estimate of the time left', async () => {
+      const saveProgress = (archiveService as any).trackProgress('archive123', files, archiver);
+
+      vi.setSystemTime(new Date('2024-06-01T10:00:30Z'));
+      archiver.emit('progress', progressEvent(1, 300));
+      await saveProgress({ filesProcessed: 1 });
+
+      expect(mockArchiveModel.updateOne).toHaveBeenCalledWith({ _id: 'archive123' }, expect.objectContaining({
+        progress: {
+          filesProcessed: 1,
+          totalFiles: 2,
+          bytesProcessed: 300,
+          totalBytes: 400,
+          bytesWritten: 250,
+          etaSeconds: 10, // 100 bytes left at 10 bytes a second
+        },
+      }));
+    });
+
+    it('should save at most once a second, then the final progress', async () => {
+      const saveProgress = (archiveService as any).trackProgress('archive123', files, archiver);
+
+      vi.setSystemTime(new Date('2024-06-01T10:00:01Z'));
+      archiver.emit('progress', progressEvent(0, 100));
+      archiver.emit('progress', progressEvent(1, 300));
+      await saveProgress({ filesProcessed: 2, bytesWritten: 420, etaSeconds: 0 });
+
+      expect(mockArchiveModel.updateOne).toHaveBeenCalledTimes(2);
+      expect(mockArchiveModel.updateOne.mock.calls[1][1].progress).toEqual({
+        filesProcessed: 2,
+        totalFiles: 2,
+        bytesProcessed: 400,
+        totalBytes: 400,
+        bytesWritten: 420,
+        etaSeconds: 0,
+      });
+    });
+  });
+
+  describe('streamed archives', () => {
+    const files = [buildFile('raw1', 'raw'), buildFile('jpeg1', 'jpeg')];
+    const size = new ArchiveStreamer(mockFileService, '/data/files').layout(files).size;
+
+    it('should be ready at once with their exact size, whatever the size limit', async () => {
+      mockFileService.getFilesByShootId.mockResolvedValue(
+        Array.from({ length: 20000 }, (_, i) => buildFile(`raw${i}`, 'raw'))
+      );
+
+      const archive = await archiveService.createArchive({ shootId: 'shoot123', type: 'complete', streaming: true });
+
+      expect(archive).toMatchObject({ status: 'completed', streaming: true });
+      expect(archive.fileIds).toHaveLength(20000);
+      expect(archive.size).toBeGreaterThan(1024 * 1024);
+      expect(generate).not.toHaveBeenCalled();
+      expect(mockEventEmitter.emitArchiveReady).toHaveBeenCalledWith(expect.objectContaining({ finalSize: archive.size }));
+    });
+
+    it('should refuse to stream once their files have changed', async () => {
+      mockArchiveModel.findById.mockResolvedValue({
+        _id: 'archive123',
+        shootId: 'shoot123',
+        type: 'complete',
+        size,
+        streaming: true,
+        fileIds: ['raw1', 'jpeg1'],
+        expiresAt: new Date(Date.now() + 3600 * 1000),
+        status: 'completed',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+      mockFileService.getFilesByIds.mockResolvedValue([files[1], files[0]]);
+      await expect(archiveService.createArchiveDownloadStream('archive123')).resolves.toBeDefined();
+
+      mockFileService.getFilesByIds.mockResolvedValue([files[0]]);
+      await expect(archiveService.createArchiveDownloadStream('archive123'))
+        .rejects.toBeInstanceOf(ArchiveContentChangedError);
+    });
+  });
+
+  describe('updateArchiveStatus', () => {
+    it('should announce a ready archive with a link for its requester that expires with it', async () => {
+      const expiresAt = new Date(Date.now() + 7 * 24 * 3600 * 1000);
+      mockArchiveModel.findById.mockResolvedValue({
+        _id: 'archive123',
+        shootId: 'shoot123',
+        type: 'complete',
+        size: 2048,
+        requestedBy: 'user123',
+        requestedByRole: 'client',
+        notifyEmail: 'client@example.com',
+        expiresAt,
+        status: 'completed',
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      await archiveService.updateArchiveStatus('archive123', 'completed', 2048);
+
+      const ready = mockEventEmitter.emitArchiveReady.mock.calls[0][0];
+      expect(ready.notifyEmail).toBe('client@example.com');
+      expect(ready.downloadUrl).toMatch(
+        /^\/api\/v1\/files\/archives\/archive123\/download\?user=user123&role=client&expires=\d+&signature=[\w-]+$/
+      );
+      expect(Number(new URL(ready.downloadUrl!, 'http://gateway').searchParams.get('expires')))
+        .toBe(Math.floor(expiresAt.getTime() / 1000));
+    });
+  });
+});
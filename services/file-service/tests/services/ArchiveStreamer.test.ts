@@ -0,0 +1,141 @@
+/**
+ * ArchiveStreamer Test Suite
+ * Testing streamed ZIPs against files on a temporary storage path
+ */
+
+import { vi } from 'vitest';
+import type { Mocked } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { crc32 } from 'zlib';
+import { ArchiveStreamer } from '../../src/services/ArchiveStreamer.js';
+import { FileService } from '../../src/services/FileService.js';
+import { FileModel } from '../../src/shared/contracts/files.api.js';
+
+const mockFileService = {
+  recordCrc32: vi.fn(),
+  getFileStats: vi.fn(),
+  createStoredStream: vi.fn(),
+} as unknown as Mocked<FileService>;
+
+const contents: Record<string, Buffer> = {
+  'IMG_1.CR3': Buffer.alloc(5000, 7),
+  'IMG_1.xmp': Buffer.from('<x:xmpmeta/>'),
+};
+
+function buildFile(id: string, filename: string, crc?: number): FileModel {
+  return {
+    id,
+    filename,
+    type: 'raw',
+    size: contents[filename].length,
+    mimeType: 'application/octet-stream',
+    shootId: 'shoot123',
+    storagePath: `2024/01/${filename}`,
+    processingStatus: 'completed',
+    ...(crc !== undefined && { crc32: crc }),
+    createdAt: '2024-06-01T10:20:30Z',
+    updatedAt: '2024-06-01T10:20:30Z',
+  };
+}
+
+async function read(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Name, CRC-32 and data of each entry, read through the central directory
+function readZip(zip: Buffer): { name: string; crc: number; data: Buffer }[] {
+  const end = zip.length - 22;
+  const count = zip.readUInt16LE(end + 10);
+  let at = zip.readUInt32LE(end + 16);
+  const entries = [];
+  for (let i = 0; i < count; i++) {
+    const nameLength = zip.readUInt16LE(at + 28);
+    const size = zip.readUInt32LE(at + 24);
+    const local = zip.readUInt32LE(at + 42);
+    const dataStart = local + 30 + zip.readUInt16LE(local + 26) + zip.readUInt16LE(local + 28);
+    entries.push({
+      name: zip.toString('utf8', at + 46, at + 46 + nameLength),
+      crc: zip.readUInt32LE(at + 16),
+      data: zip.subarray(dataStart, dataStart + size),
+    });
+    at += 46 + nameLength + zip.readUInt16LE(at + 30);
+  }
+  return entries;
+}
+
+describe('ArchiveStreamer', () => {
+  let basePath: string;
+  let streamer: ArchiveStreamer;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    basePath = await fs.mkdtemp(path.join(os.tmpdir(), 'file-service-archives-'));
+    await fs.mkdir(path.join(basePath, '2024/01'), { recursive: true });
+    for (const [filename, data] of Object.entries(contents)) {
+      await fs.writeFile(path.join(basePath, '2024/01', filename), data);
+    }
+    streamer = new ArchiveStreamer(mockFileService, basePath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(basePath, { recursive: true, force: true });
+  });
+
+  it('should stream a stored ZIP of exactly the planned size', async () => {
+    const files = [buildFile('raw1', 'IMG_1.CR3'), buildFile('xmp1', 'IMG_1.xmp')];
+
+    const zip = await read(streamer.createStream(files));
+
+    expect(zip.length).toBe(streamer.layout(files).size);
+    expect(readZip(zip)).toEqual([
+      { name: 'IMG_1.CR3', crc: crc32(contents['IMG_1.CR3']), data: contents['IMG_1.CR3'] },
+      { name: 'IMG_1.xmp', crc: crc32(contents['IMG_1.xmp']), data: contents['IMG_1.xmp'] },
+    ]);
+  });
+
+  it('should keep computed checksums and reuse recorded ones', async () => {
+    const files = [buildFile('raw1', 'IMG_1.CR3', crc32(contents['IMG_1.CR3'])), buildFile('xmp1', 'IMG_1.xmp')];
+
+    await read(streamer.createStream(files));
+
+    expect(mockFileService.recordCrc32).toHaveBeenCalledTimes(1);
+    expect(mockFileService.recordCrc32).toHaveBeenCalledWith('xmp1', crc32(contents['IMG_1.xmp']));
+  });
+
+  it('should resume from any byte with the same bytes', async () => {
+    const files = [buildFile('raw1', 'IMG_1.CR3'), buildFile('xmp1', 'IMG_1.xmp')];
+    const zip = await read(streamer.createStream(files));
+
+    for (const start of [1, 40, 5039, 5050, zip.length - 10]) {
+      expect(await read(streamer.createStream(files, { start }))).toEqual(zip.subarray(start));
+    }
+    expect(await read(streamer.createStream(files, { start: 20, end: 60 }))).toEqual(zip.subarray(20, 61));
+  });
+
+  it('should fail rather than stream a file whose stored size changed', async () => {
+    await fs.writeFile(path.join(basePath, '2024/01/IMG_1.xmp'), 'truncated');
+
+    await expect(read(streamer.createStream([buildFile('xmp1', 'IMG_1.xmp')])))
+      .rejects.toThrow('Stored size of IMG_1.xmp does not match its record');
+  });
+
+  it('should read originals on the cold tier through the file service', async () => {
+    const cold = { ...buildFile('raw1', 'IMG_1.CR3'), storageTier: 'cold' as const };
+    await fs.rm(path.join(basePath, '2024/01/IMG_1.CR3'));
+    mockFileService.getFileStats.mockResolvedValue({ size: cold.size, exists: true });
+    mockFileService.createStoredStream.mockImplementation(async (_file, range) =>
+      Readable.from([contents['IMG_1.CR3'].subarray(range?.start, (range?.end ?? Infinity) + 1)]));
+
+    const zip = await read(streamer.createStream([cold, buildFile('xmp1', 'IMG_1.xmp')]));
+
+    expect(mockFileService.getFileStats).toHaveBeenCalledWith('2024/01/IMG_1.CR3', 'cold');
+    expect(readZip(zip)[0]).toEqual({ name: 'IMG_1.CR3', crc: crc32(contents['IMG_1.CR3']), data: contents['IMG_1.CR3'] });
+  });
+});
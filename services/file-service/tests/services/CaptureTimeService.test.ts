@@ -0,0 +1,109 @@
+/**
+ * CaptureTimeService Test Suite
+ * Capture times from EXIF, shifted by each camera body's clock offset
+ */
+
+import { vi } from 'vitest';
+import { Model } from 'mongoose';
+import { CaptureTimeService } from '../../src/services/CaptureTimeService.js';
+
+const mockFileModel = {
+  findById: vi.fn(),
+  updateOne: vi.fn(),
+  updateMany: vi.fn(),
+  aggregate: vi.fn(),
+} as any;
+
+const mockClockOffsetModel = {
+  findOne: vi.fn(),
+  find: vi.fn(),
+  updateOne: vi.fn(),
+} as any;
+
+function processedDoc(exif: Record<string, unknown> | undefined): Record<string, unknown> {
+  return { _id: 'file123', shootId: 'shoot123', metadata: exif && { exif } };
+}
+
+describe('CaptureTimeService', () => {
+  let service: CaptureTimeService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new CaptureTimeService(mockFileModel as Model<any>, mockClockOffsetModel as Model<any>);
+  });
+
+  describe('syncFile', () => {
+    it('should add the camera body\'s clock offset to the EXIF capture time', async () => {
+      mockFileModel.findById.mockResolvedValue(processedDoc({
+        camera: 'Canon EOS R5', cameraSerial: '012345', dateTaken: '2024-06-01T14:30:05.250Z',
+      }));
+      mockClockOffsetModel.findOne.mockResolvedValue({ offsetSeconds: -3600 });
+
+      await service.syncFile('file123');
+
+      expect(mockClockOffsetModel.findOne).toHaveBeenCalledWith({ shootId: 'shoot123', camera: 'Canon EOS R5 #012345' });
+      expect(mockFileModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'file123' },
+        { captureTime: new Date('2024-06-01T13:30:05.250Z'), captureCamera: 'Canon EOS R5 #012345' }
+      );
+    });
+
+    it('should go by make and model when the EXIF has no serial', async () => {
+      mockFileModel.findById.mockResolvedValue(processedDoc({ camera: 'NIKON Z 6', dateTaken: '2024-06-01T14:30:05.000Z' }));
+      mockClockOffsetModel.findOne.mockResolvedValue(null);
+
+      await service.syncFile('file123');
+
+      expect(mockFileModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'file123' },
+        { captureTime: new Date('2024-06-01T14:30:05.000Z'), captureCamera: 'NIKON Z 6' }
+      );
+    });
+
+    it('should keep the upload time of files without a capture date', async () => {
+      mockFileModel.findById.mockResolvedValue(processedDoc({ camera: 'NIKON Z 6' }));
+
+      await service.syncFile('file123');
+
+      expect(mockFileModel.updateOne).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should list the shoot\'s cameras, with offsets set ahead of their photos', async () => {
+    mockFileModel.aggregate.mockResolvedValue([
+      { _id: 'Canon EOS R5 #012345', fileCount: 120 },
+      { _id: 'NIKON Z 6', fileCount: 45 },
+    ]);
+    mockClockOffsetModel.find.mockReturnValue({
+      exec: vi.fn().mockResolvedValue([
+        { camera: 'NIKON Z 6', offsetSeconds: 95 },
+        { camera: 'FUJIFILM X-T5', offsetSeconds: -20 },
+      ]),
+    });
+
+    const cameras = await service.listClockOffsets('shoot123');
+
+    expect(cameras).toEqual([
+      { shootId: 'shoot123', camera: 'Canon EOS R5 #012345', offsetSeconds: 0, fileCount: 120 },
+      { shootId: 'shoot123', camera: 'NIKON Z 6', offsetSeconds: 95, fileCount: 45 },
+      { shootId: 'shoot123', camera: 'FUJIFILM X-T5', offsetSeconds: -20, fileCount: 0 },
+    ]);
+  });
+
+  it('should save the offset and re-time the camera\'s photos', async () => {
+    mockFileModel.updateMany.mockResolvedValue({ matchedCount: 45 });
+
+    const clock = await service.setClockOffset('shoot123', 'NIKON Z 6', 95);
+
+    expect(clock).toEqual({ shootId: 'shoot123', camera: 'NIKON Z 6', offsetSeconds: 95, fileCount: 45 });
+    expect(mockClockOffsetModel.updateOne).toHaveBeenCalledWith(
+      { shootId: 'shoot123', camera: 'NIKON Z 6' },
+      { offsetSeconds: 95 },
+      { upsert: true }
+    );
+    expect(mockFileModel.updateMany).toHaveBeenCalledWith(
+      { shootId: 'shoot123', captureCamera: 'NIKON Z 6', 'metadata.exif.dateTaken': { $exists: true } },
+      [{ $set: { captureTime: { $add: [{ $toDate: '$metadata.exif.dateTaken' }, 95000] } } }]
+    );
+  });
+});
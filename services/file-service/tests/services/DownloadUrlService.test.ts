@@ -0,0 +1,90 @@
+/**
+ * DownloadUrlService Test Suite
+ * Testing the links issued for files and archives and their lifetimes
+ */
+
+import { vi } from 'vitest';
+import {
+  DownloadUrlService,
+  DownloadUrlExpiredError,
+  InvalidDownloadUrlError
+} from '../../src/services/DownloadUrlService.js';
+import { ArchiveModel, FileModel } from '../../src/shared/contracts/files.api.js';
+
+const file: FileModel = {
+  id: 'file123',
+  filename: 'portrait.jpg',
+  type: 'jpeg',
+  size: 1024,
+  mimeType: 'image/jpeg',
+  shootId: 'shoot123',
+  storagePath: '2024/01/file123.jpg',
+  processingStatus: 'completed',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+};
+
+const archive: ArchiveModel = {
+  id: 'archive123',
+  shootId: 'shoot123',
+  type: 'complete',
+  size: 2048,
+  expiresAt: new Date(Date.now() + 2 * 3600 * 1000).toISOString(),
+  status: 'completed',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+};
+
+// Query of an issued link, as the download route receives it
+function queryOf(url: string): Record<string, string> {
+  return Object.fromEntries(new URL(url, 'http://gateway').searchParams);
+}
+
+const client = { userId: 'user123', role: 'client' as const };
+
+function secondsUntil(expiresAt: string): number {
+  return Math.ceil((Date.parse(expiresAt) - Date.now()) / 1000);
+}
+
+describe('DownloadUrlService', () => {
+  const downloadUrls = new DownloadUrlService({
+    signingSecret: 'test-secret',
+    baseUrl: '/api/v1',
+    urlTtlSeconds: 3600,
+    maxUrlTtlSeconds: 86400,
+  });
+
+  it('should issue file links through the gateway that verify for the same file', () => {
+    const { url, expiresAt } = downloadUrls.signFileUrl(file, client, { resolution: 'medium', format: 'webp' });
+
+    expect(url).toMatch(/^\/api\/v1\/files\/file123\/download\?resolution=medium&format=webp&user=user123&role=client&/);
+    expect(secondsUntil(expiresAt)).toBe(3600);
+    expect(() => downloadUrls.verifyFileDownload(file, queryOf(url))).not.toThrow();
+    expect(() => downloadUrls.verifyFileDownload({ ...file, id: 'file999' }, queryOf(url)))
+      .toThrow(InvalidDownloadUrlError);
+  });
+
+  it('should cap requested lifetimes', () => {
+    expect(secondsUntil(downloadUrls.signFileUrl(file, client, {}, 600).expiresAt)).toBe(600);
+    expect(secondsUntil(downloadUrls.signFileUrl(file, client, {}, 10 * 86400).expiresAt)).toBe(86400);
+    expect(secondsUntil(downloadUrls.signFileUrl(file, client, {}, -5).expiresAt)).toBe(3600);
+  });
+
+  it('should not let archive links outlive the archive', () => {
+    const { url, expiresAt } = downloadUrls.signArchiveUrl(archive, client, 86400);
+
+    expect(url).toMatch(/^\/api\/v1\/files\/archives\/archive123\/download\?user=user123&role=client&/);
+    expect(Date.parse(expiresAt)).toBe(Math.floor(Date.parse(archive.expiresAt) / 1000) * 1000);
+    expect(() => downloadUrls.verifyArchiveDownload(archive, queryOf(url))).not.toThrow();
+  });
+
+  it('should reject links once they expire', () => {
+    const { url } = downloadUrls.signFileUrl(file, client, {}, 60);
+    vi.useFakeTimers({ now: Date.now() + 61 * 1000 });
+    try {
+      expect(() => downloadUrls.verifyFileDownload(file, queryOf(url))).toThrow(DownloadUrlExpiredError);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -5,9 +5,11 @@
 
 import { vi } from 'vitest';
 import type { Mocked } from 'vitest';
+import { createHash } from 'crypto';
 import { FileService } from '../../src/services/FileService.js';
 import { StorageService } from '../../src/services/StorageService.js';
 import { ProcessingService } from '../../src/services/ProcessingService.js';
+import { ProcessingQueue } from '../../src/services/ProcessingQueue.js';
 import { EventEmitter } from '../../src/services/EventEmitter.js';
 import { FileModel, FileType } from '../../src/shared/contracts/files.api.js';
 import { Model } from 'mongoose';
@@ -16,9 +18,12 @@ import { Model } from 'mongoose';
 // so it must be a `vi.fn()` with the static query methods attached.
 const mockFileModel = vi.fn() as any;
 mockFileModel.findById = vi.fn();
+mockFileModel.findOne = vi.fn();
 mockFileModel.find = vi.fn();
 mockFileModel.countDocuments = vi.fn();
 mockFileModel.updateOne = vi.fn();
+mockFileModel.updateMany = vi.fn();
+mockFileModel.exists = vi.fn();
 mockFileModel.deleteOne = vi.fn();
 
 // Build a persisted file document mock whose `save()` resolves to itself,
@@ -44,23 +49,34 @@ function buildSavedFileDoc(overrides: Record<string, unknown>): Record<string, u
 
 const mockStorageService = {
   storeFile: vi.fn(),
+  acquireBlob: vi.fn(),
+  releaseBlob: vi.fn(),
   getFileStats: vi.fn(),
   deleteFile: vi.fn(),
+  deleteDirectory: vi.fn(),
   deleteChunks: vi.fn(),
   shouldUseChunking: vi.fn(),
   createChunksForFile: vi.fn(),
   createReadStream: vi.fn(),
   createChunkedReadStream: vi.fn(),
+  openReadStream: vi.fn(),
+  copyToTier: vi.fn(),
 } as Mocked<StorageService>;
 
 const mockProcessingService = {
   processFile: vi.fn(),
 } as Mocked<ProcessingService>;
 
+const mockProcessingQueue = {
+  enqueue: vi.fn(),
+  remove: vi.fn(),
+} as Mocked<ProcessingQueue>;
+
 const mockEventEmitter = {
   emitFileUploaded: vi.fn(),
   emitFileProcessed: vi.fn(),
   emitFileDeleted: vi.fn(),
+  emitFileRestored: vi.fn(),
 } as Mocked<EventEmitter>;
 
 describe('FileService', () => {
@@ -73,14 +89,22 @@ describe('FileService', () => {
       mockFileModel as Model<any>,
       mockStorageService,
       mockProcessingService,
-      mockEventEmitter
+      mockEventEmitter,
+      mockProcessingQueue
     );
 
     // Default mock implementations
     mockStorageService.storeFile.mockResolvedValue('/2024/01/test-file.jpg');
+    mockStorageService.acquireBlob.mockImplementation(async (_contentHash, write) => ({
+      storagePath: await write(),
+      written: true,
+    }));
+    mockFileModel.findOne.mockResolvedValue(null);
+    mockFileModel.exists.mockResolvedValue(null); // Nothing in cold storage
     mockStorageService.getFileStats.mockResolvedValue({ size: 1024, exists: true });
     mockProcessingService.processFile.mockResolvedValue({} as any);
     mockEventEmitter.emitFileUploaded.mockResolvedValue();
+    mockProcessingQueue.enqueue.mockResolvedValue({ status: 'queued' } as any);
   });
 
   describe('uploadFile', () => {
@@ -110,6 +134,7 @@ describe('FileService', () => {
         mockFileData.originalName
       );
       expect(mockEventEmitter.emitFileUploaded).toHaveBeenCalled();
+      expect(mockProcessingQueue.enqueue).toHaveBeenCalledWith(expect.any(String));
       expect(result.type).toBe('jpeg');
       expect(result.photographerOnly).toBe(false);
     });
@@ -236,6 +261,159 @@ describe('FileService', () => {
     });
   });
 
+  describe('content deduplication', () => {
+    const fileData = {
+      fileData: Buffer.from('test file content'),
+      originalName: 'IMG_001.CR3',
+      mimeType: 'image/x-canon-cr3',
+      shootId: 'shoot123',
+    };
+    const contentHash = createHash('sha256').update(fileData.fileData).digest('hex');
+
+    it('should return the existing file when the shoot already has the content', async () => {
+      mockFileModel.findOne.mockResolvedValue(buildSavedFileDoc({ _id: 'existing123', contentHash }));
+
+      const result = await fileService.uploadFile(fileData);
+
+      expect(result.id).toBe('existing123');
+      expect(mockFileModel.findOne).toHaveBeenCalledWith({ shootId: 'shoot123', contentHash });
+      expect(mockStorageService.acquireBlob).not.toHaveBeenCalled();
+      expect(mockEventEmitter.emitFileUploaded).not.toHaveBeenCalled();
+    });
+
+    it('should share the stored bytes of content uploaded to another shoot', async () => {
+      mockStorageService.acquireBlob.mockResolvedValue({ storagePath: '2024/01/other.cr3', written: false });
+      mockFileModel.mockImplementation((data: Record<string, unknown>) => buildSavedFileDoc(data));
+
+      const result = await fileService.uploadFile(fileData);
+
+      expect(mockStorageService.storeFile).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ storagePath: '2024/01/other.cr3', contentHash });
+      expect(mockEventEmitter.emitFileUploaded).toHaveBeenCalled();
+    });
+
+    it('should bring shared content back from the cold tier', async () => {
+      mockStorageService.acquireBlob.mockResolvedValue({ storagePath: '2024/01/other.cr3', written: false });
+      mockFileModel.mockImplementation((data: Record<string, unknown>) => buildSavedFileDoc(data));
+      mockFileModel.exists.mockResolvedValue({ _id: 'other123' });
+
+      await fileService.uploadFile(fileData);
+
+      expect(mockStorageService.copyToTier).toHaveBeenCalledWith('2024/01/other.cr3', 'hot');
+      expect(mockFileModel.updateMany).toHaveBeenCalledWith(
+        { storagePath: '2024/01/other.cr3' },
+        { $unset: { storageTier: 1 } }
+      );
+      expect(mockStorageService.deleteFile).toHaveBeenCalledWith('2024/01/other.cr3', 'cold');
+    });
+
+    it('should discard content that is already stored', async () => {
+      mockStorageService.acquireBlob.mockResolvedValue({ storagePath: '2024/01/other.cr3', written: false });
+      mockFileModel.mockImplementation((data: Record<string, unknown>) => buildSavedFileDoc(data));
+      const content = { contentHash, store: vi.fn(), discard: vi.fn() };
+
+      await fileService.addFile({ ...fileData, size: 17 }, content);
+
+      expect(content.store).not.toHaveBeenCalled();
+      expect(content.discard).toHaveBeenCalled();
+    });
+
+    it('should drop its reference when the same content was added to the shoot concurrently', async () => {
+      const doc = buildSavedFileDoc({});
+      doc.save = vi.fn().mockRejectedValue(Object.assign(new Error('E11000 duplicate key'), { code: 11000 }));
+      mockFileModel.mockImplementation(() => doc);
+      mockFileModel.findOne
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(buildSavedFileDoc({ _id: 'winner123', contentHash }));
+
+      const result = await fileService.uploadFile(fileData);
+
+      expect(result.id).toBe('winner123');
+      expect(mockStorageService.releaseBlob).toHaveBeenCalledWith(contentHash);
+    });
+  });
+
+  describe('sidecar pairing', () => {
+    it('should link a sidecar to the RAW file with its basename', async () => {
+      mockFileModel.findOne
+        .mockResolvedValueOnce(null) // no duplicate content
+        .mockResolvedValueOnce(buildSavedFileDoc({ _id: 'raw123', type: 'raw' }));
+      mockFileModel.mockImplementation((data: Record<string, unknown>) => buildSavedFileDoc(data));
+
+      const result = await fileService.uploadFile({
+        fileData: Buffer.from('<x:xmpmeta/>'),
+        originalName: 'IMG_1234.xmp',
+        mimeType: 'application/rdf+xml',
+        shootId: 'shoot123',
+      });
+
+      expect(result.parentFileId).toBe('raw123');
+      const [filter] = mockFileModel.findOne.mock.calls[1];
+      expect(filter).toMatchObject({ shootId: 'shoot123', type: 'raw' });
+      expect(filter.filename.test('img_1234.CR3')).toBe(true);
+    });
+
+    it('should link sidecars uploaded before their RAW file', async () => {
+      mockFileModel.mockImplementation((data: Record<string, unknown>) => buildSavedFileDoc(data));
+
+      const result = await fileService.uploadFile({
+        fileData: Buffer.from('raw data'),
+        originalName: 'IMG_1234.CR3',
+        mimeType: 'image/x-canon-cr3',
+        shootId: 'shoot123',
+      });
+
+      const [filter, update] = mockFileModel.updateMany.mock.calls[0];
+      expect(filter).toMatchObject({
+        shootId: 'shoot123',
+        type: { $in: ['sidecar', 'config'] },
+        parentFileId: { $exists: false },
+      });
+      expect(filter.filename.test('IMG_1234.CR3.xmp')).toBe(true);
+      expect(update).toEqual({ $set: { parentFileId: result.id } });
+    });
+
+    it('should give a RAW file the culling metadata of an XMP sidecar uploaded before it', async () => {
+      const xmp = { rating: 4, label: 'Green' };
+      mockFileModel.findOne
+        .mockResolvedValueOnce(null) // no duplicate content
+        .mockResolvedValueOnce(buildSavedFileDoc({ _id: 'xmp123', sidecarType: 'xmp', metadata: { xmp } }));
+      mockFileModel.mockImplementation((data: Record<string, unknown>) => buildSavedFileDoc(data));
+
+      const result = await fileService.uploadFile({
+        fileData: Buffer.from('raw data'),
+        originalName: 'IMG_1234.CR3',
+        mimeType: 'image/x-canon-cr3',
+        shootId: 'shoot123',
+      });
+
+      expect(mockFileModel.findOne.mock.calls[1][0]).toEqual({
+        parentFileId: result.id,
+        sidecarType: 'xmp',
+        'metadata.xmp': { $exists: true },
+      });
+      expect(mockFileModel.updateOne).toHaveBeenCalledWith({ _id: result.id }, { 'metadata.xmp': xmp });
+    });
+
+    it('should return a RAW file with its sidecars when asked for one of them', async () => {
+      const sidecar = buildSavedFileDoc({ _id: 'xmp123', type: 'sidecar', parentFileId: 'raw123' });
+      const raw = buildSavedFileDoc({ _id: 'raw123', type: 'raw' });
+      mockFileModel.findById.mockImplementation(async (id: string) => (id === 'raw123' ? raw : sidecar));
+      mockFileModel.find.mockReturnValue({
+        sort: vi.fn().mockReturnValue({ exec: vi.fn().mockResolvedValue([sidecar]) }),
+      });
+
+      const result = await fileService.getFileWithSidecars('xmp123');
+
+      expect(result?.file.id).toBe('raw123');
+      expect(result?.sidecars.map(file => file.id)).toEqual(['xmp123']);
+      expect(mockFileModel.find).toHaveBeenCalledWith({
+        parentFileId: { $in: ['raw123'] },
+        deletedAt: { $exists: false },
+      });
+    });
+  });
+
   describe('listFiles', () => {
     it('should filter by photographer-only files', async () => {
       const mockQuery = {
@@ -258,6 +436,7 @@ describe('FileService', () => {
       await fileService.listFiles(mockQuery);
 
       expect(mockFileModel.find).toHaveBeenCalledWith({
+        deletedAt: { $exists: false },
         shootId: 'shoot123',
         photographerOnly: true,
       });
@@ -283,9 +462,57 @@ describe('FileService', () => {
       await fileService.listFiles(mockQuery);
 
       expect(mockFileModel.find).toHaveBeenCalledWith({
+        deletedAt: { $exists: false },
         type: 'sidecar',
       });
     });
+
+    it('should filter by XMP rating, label and pick', async () => {
+      mockFileModel.find.mockReturnValue({
+        sort: vi.fn().mockReturnValue({
+          skip: vi.fn().mockReturnValue({
+            limit: vi.fn().mockReturnValue({
+              exec: vi.fn().mockResolvedValue([]),
+            }),
+          }),
+        }),
+      });
+      mockFileModel.countDocuments.mockResolvedValue(0);
+
+      // Ratings arrive from the query string unparsed
+      await fileService.listFiles({
+        shootId: 'shoot123',
+        type: 'raw',
+        minRating: '4' as unknown as number,
+        label: 'Red',
+        pick: 'picked',
+      });
+
+      expect(mockFileModel.find).toHaveBeenCalledWith({
+        deletedAt: { $exists: false },
+        shootId: 'shoot123',
+        type: 'raw',
+        'metadata.xmp.rating': { $gte: 4 },
+        'metadata.xmp.label': 'Red',
+        'metadata.xmp.pick': 'picked',
+      });
+    });
+
+    it('should order by capture time when asked', async () => {
+      const sort = vi.fn().mockReturnValue({
+        skip: vi.fn().mockReturnValue({
+          limit: vi.fn().mockReturnValue({
+            exec: vi.fn().mockResolvedValue([]),
+          }),
+        }),
+      });
+      mockFileModel.find.mockReturnValue({ sort });
+      mockFileModel.countDocuments.mockResolvedValue(0);
+
+      await fileService.listFiles({ shootId: 'shoot123', sort: 'captureTime' });
+
+      expect(sort).toHaveBeenCalledWith({ captureTime: 1, filename: 1 });
+    });
   });
 
   describe('createDownloadStream', () => {
@@ -324,6 +551,28 @@ describe('FileService', () => {
       expect(mockStorageService.createChunkedReadStream).toHaveBeenCalled();
     });
 
+    it('should stream cold files from the cold tier without chunking', async () => {
+      vi.spyOn(fileService, 'getFileById').mockResolvedValue({
+        id: 'file123',
+        filename: 'IMG_001.CR3',
+        type: 'raw',
+        size: 50 * 1024 * 1024,
+        storagePath: '2024/01/file123.cr3',
+        storageTier: 'cold',
+        shootId: 'shoot123',
+        mimeType: 'image/x-canon-cr3',
+        processingStatus: 'completed',
+        createdAt: '2024-01-01T00:00:00Z',
+        updatedAt: '2024-01-01T00:00:00Z',
+      });
+      mockStorageService.openReadStream.mockResolvedValue({} as any);
+
+      await fileService.createDownloadStream('file123', { start: 10, end: 99 });
+
+      expect(mockStorageService.openReadStream).toHaveBeenCalledWith('2024/01/file123.cr3', 'cold', { start: 10, end: 99 });
+      expect(mockStorageService.createChunksForFile).not.toHaveBeenCalled();
+    });
+
     it('should use direct stream for small files', async () => {
       const fileId = 'file123';
       const mockFile: FileModel = {
@@ -352,32 +601,37 @@ describe('FileService', () => {
   });
 
   describe('deleteFile', () => {
-    it('should delete file and emit event', async () => {
-      const fileId = 'file123';
-      const mockFile: FileModel = {
-        id: fileId,
-        filename: 'test.jpg',
-        type: 'jpeg',
-        size: 1024,
-        storagePath: '/path/to/file.jpg',
+    it('should move the file to the trash and emit event', async () => {
+      const doc = buildSavedFileDoc({ type: 'jpeg' });
+      mockFileModel.findById.mockResolvedValue(doc);
+
+      const result = await fileService.deleteFile('file123');
+
+      expect(result).toBe(true);
+      expect(doc.deletedAt).toBeInstanceOf(Date);
+      expect(doc.save).toHaveBeenCalled();
+      expect(mockStorageService.deleteFile).not.toHaveBeenCalled();
+      expect(mockFileModel.deleteOne).not.toHaveBeenCalled();
+      expect(mockEventEmitter.emitFileDeleted).toHaveBeenCalledWith(expect.objectContaining({
+        fileId: 'file123',
         shootId: 'shoot123',
-        mimeType: 'image/jpeg',
-        processingStatus: 'completed',
-        createdAt: '2024-01-01T00:00:00Z',
-        updatedAt: '2024-01-01T00:00:00Z',
-      };
+        cleanupStatus: 'pending',
+      }));
+    });
 
-      mockFileModel.findById.mockResolvedValue(mockFile);
-      mockStorageService.deleteFile.mockResolvedValue();
-      mockStorageService.deleteChunks.mockResolvedValue();
-      mockFileModel.deleteOne.mockResolvedValue({ deletedCount: 1 });
+    it('should hide files in the trash', async () => {
+      mockFileModel.findById.mockResolvedValue(buildSavedFileDoc({ deletedAt: new Date() }));
 
-      const result = await fileService.deleteFile(fileId);
+      expect(await fileService.getFileById('file123')).toBeNull();
+      expect(await fileService.reprocessFile('file123')).toBeNull();
+      expect(mockProcessingQueue.enqueue).not.toHaveBeenCalled();
+    });
 
-      expect(result).toBe(true);
-      expect(mockStorageService.deleteFile).toHaveBeenCalledWith(mockFile.storagePath);
-      expect(mockStorageService.deleteChunks).toHaveBeenCalledWith(fileId);
-      expect(mockEventEmitter.emitFileDeleted).toHaveBeenCalled();
+    it('should return false for a file already in the trash', async () => {
+      mockFileModel.findById.mockResolvedValue(buildSavedFileDoc({ deletedAt: new Date() }));
+
+      expect(await fileService.deleteFile('file123')).toBe(false);
+      expect(mockEventEmitter.emitFileDeleted).not.toHaveBeenCalled();
     });
 
     it('should return false for non-existent file', async () => {
@@ -390,4 +644,167 @@ describe('FileService', () => {
       expect(mockEventEmitter.emitFileDeleted).not.toHaveBeenCalled();
     });
   });
-});
\ No newline at end of file
+
+  describe('restoreFile', () => {
+    it('should take the file out of the trash and emit event', async () => {
+      const doc = buildSavedFileDoc({ deletedAt: new Date() });
+      mockFileModel.findById.mockResolvedValue(doc);
+
+      const result = await fileService.restoreFile('file123');
+
+      expect(result?.id).toBe('file123');
+      expect(result?.deletedAt).toBeUndefined();
+      expect(mockEventEmitter.emitFileRestored).toHaveBeenCalledWith(expect.objectContaining({
+        fileId: 'file123',
+        shootId: 'shoot123',
+      }));
+    });
+
+    it('should return null for a file that is not in the trash', async () => {
+      mockFileModel.findById.mockResolvedValue(buildSavedFileDoc({}));
+
+      expect(await fileService.restoreFile('file123')).toBeNull();
+      expect(mockEventEmitter.emitFileRestored).not.toHaveBeenCalled();
+    });
+
+    it('should restore trashed content uploaded to the shoot again', async () => {
+      const doc = buildSavedFileDoc({ _id: 'existing123', deletedAt: new Date() });
+      mockFileModel.findOne.mockResolvedValue(doc);
+      mockFileModel.findById.mockResolvedValue(doc);
+
+      const result = await fileService.uploadFile({
+        fileData: Buffer.from('test file content'),
+        originalName: 'test.jpg',
+        mimeType: 'image/jpeg',
+        shootId: 'shoot123',
+      });
+
+      expect(result.id).toBe('existing123');
+      expect(result.deletedAt).toBeUndefined();
+      expect(mockEventEmitter.emitFileRestored).toHaveBeenCalled();
+      expect(mockStorageService.acquireBlob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processQueuedFile', () => {
+    const thumbnail = {
+      name: 'thumbnail',
+      format: 'jpeg',
+      url: '/files/file123/download?resolution=thumbnail&format=jpeg',
+      storagePath: 'renditions/2024/01/file123_thumbnail.jpg',
+      width: 300,
+      height: 200,
+      size: 2048,
+    } as const;
+    const job = {
+      id: 'job123',
+      fileId: 'file123',
+      status: 'running',
+      attempts: 1,
+      maxAttempts: 3,
+      runAt: '2024-01-01T00:00:00Z',
+      createdAt: '2024-01-01T00:00:00Z',
+      updatedAt: '2024-01-01T00:00:00Z',
+    } as const;
+    const failedProcessing = {
+      thumbnailGenerated: false,
+      metadataExtracted: false,
+      processingTime: 5,
+      processingErrors: ['Rendition generation failed: corrupt image'],
+    };
+
+    beforeEach(() => {
+      mockFileModel.findById.mockResolvedValue(buildSavedFileDoc({ type: 'jpeg' }));
+      mockFileModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+    });
+
+    it('should record renditions and the thumbnail URL on the file', async () => {
+      const processing = { thumbnailGenerated: true, metadataExtracted: false, processingTime: 5, processingErrors: [] };
+      mockProcessingService.processFile.mockResolvedValue({ renditions: [thumbnail], processing });
+
+      await fileService.processQueuedFile(job);
+
+      expect(mockFileModel.updateOne).toHaveBeenCalledWith({ _id: 'file123' }, { processingStatus: 'processing' });
+      expect(mockFileModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'file123' },
+        { renditions: [thumbnail], thumbnailUrl: thumbnail.url }
+      );
+      expect(mockEventEmitter.emitFileProcessed).toHaveBeenCalledWith(expect.objectContaining({
+        fileId: 'file123',
+        processingStatus: 'completed',
+        processingDetails: processing,
+      }));
+    });
+
+    it('should copy parsed XMP culling metadata to the paired RAW file', async () => {
+      const xmp = { rating: 5, pick: 'picked' as const };
+      mockFileModel.findById.mockResolvedValue(
+        buildSavedFileDoc({ type: 'sidecar', sidecarType: 'xmp', parentFileId: 'raw123' })
+      );
+      mockProcessingService.processFile.mockResolvedValue({ xmp, processing: { ...failedProcessing, processingErrors: [] } });
+
+      await fileService.processQueuedFile(job);
+
+      expect(mockFileModel.updateOne).toHaveBeenCalledWith({ _id: 'file123' }, { 'metadata.xmp': xmp });
+      expect(mockFileModel.updateOne).toHaveBeenCalledWith({ _id: 'raw123' }, { 'metadata.xmp': xmp });
+    });
+
+    it('should throw for a retry and put the file back to pending while attempts remain', async () => {
+      mockProcessingService.processFile.mockResolvedValue({ processing: failedProcessing });
+
+      await expect(fileService.processQueuedFile(job)).rejects.toThrow('Rendition generation failed: corrupt image');
+
+      expect(mockFileModel.updateOne).toHaveBeenLastCalledWith({ _id: 'file123' }, { processingStatus: 'pending' });
+      expect(mockEventEmitter.emitFileProcessed).not.toHaveBeenCalled();
+    });
+
+    it('should mark the file failed on the last attempt', async () => {
+      mockProcessingService.processFile.mockResolvedValue({ processing: failedProcessing });
+
+      await fileService.processQueuedFile({ ...job, attempts: 3 });
+
+      expect(mockEventEmitter.emitFileProcessed).toHaveBeenCalledWith(expect.objectContaining({
+        processingStatus: 'failed',
+      }));
+    });
+
+    it('should skip files deleted since they were queued', async () => {
+      mockFileModel.findById.mockResolvedValue(null);
+
+      await fileService.processQueuedFile(job);
+
+      expect(mockProcessingService.processFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reprocessFile', () => {
+    it('should queue the file again and reset its status to pending', async () => {
+      const doc = buildSavedFileDoc({ type: 'jpeg', processingStatus: 'failed' });
+      mockFileModel.findById.mockResolvedValue(doc);
+
+      const result = await fileService.reprocessFile('file123');
+
+      expect(mockProcessingQueue.enqueue).toHaveBeenCalledWith('file123');
+      expect(result?.processingStatus).toBe('pending');
+    });
+
+    it('should bring a cold file back to local storage first', async () => {
+      const doc = buildSavedFileDoc({ type: 'raw', storageTier: 'cold', processingStatus: 'failed' });
+      mockFileModel.findById.mockResolvedValue(doc);
+      mockFileModel.exists.mockResolvedValue({ _id: 'file123' });
+
+      const result = await fileService.reprocessFile('file123');
+
+      expect(mockStorageService.copyToTier).toHaveBeenCalledWith('/2024/01/test-file.jpg', 'hot');
+      expect(result?.storageTier).toBeUndefined();
+      expect(mockProcessingQueue.enqueue).toHaveBeenCalledWith('file123');
+    });
+
+    it('should return null for non-existent file', async () => {
+      mockFileModel.findById.mockResolvedValue(null);
+
+      expect(await fileService.reprocessFile('nonexistent')).toBeNull();
+      expect(mockProcessingQueue.enqueue).not.toHaveBeenCalled();
+    });
+  });
+});
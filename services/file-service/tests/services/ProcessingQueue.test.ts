@@ -0,0 +1,211 @@
+/**
+ * ProcessingQueue Test Suite
+ * Testing job claiming, leases, retries and concurrency of the Mongo-backed queue
+ */
+
+import { vi } from 'vitest';
+import { Model } from 'mongoose';
+import { ProcessingQueue, ProcessingQueueConfig } from '../../src/services/ProcessingQueue.js';
+import { ProcessingJob } from '../../src/shared/contracts/files.dto.js';
+
+const mockJobModel = {
+  find: vi.fn(),
+  findOne: vi.fn(),
+  findOneAndUpdate: vi.fn(),
+  updateOne: vi.fn(),
+  deleteOne: vi.fn(),
+} as any;
+
+function buildJobDoc(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    _id: 'job123',
+    fileId: 'file123',
+    status: 'queued',
+    attempts: 0,
+    maxAttempts: 3,
+    runAt: new Date('2024-01-01T00:00:00Z'),
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+const runningJob: ProcessingJob = {
+  id: 'job123',
+  fileId: 'file123',
+  status: 'running',
+  attempts: 1,
+  maxAttempts: 3,
+  runAt: '2024-01-01T00:00:00Z',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+};
+
+describe('ProcessingQueue', () => {
+  let queue: ProcessingQueue;
+  let config: ProcessingQueueConfig;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    config = {
+      concurrency: 2,
+      maxAttempts: 3,
+      retryBaseDelayMs: 1000,
+      leaseMs: 60000,
+      pollIntervalMs: 60000,
+    };
+    queue = new ProcessingQueue(mockJobModel as Model<any>, config);
+    mockJobModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+    mockJobModel.find.mockResolvedValue([]);
+  });
+
+  afterEach(async () => {
+    await queue.stop();
+    vi.useRealTimers();
+  });
+
+  describe('enqueue', () => {
+    it('should queue a fresh job for the file', async () => {
+      mockJobModel.findOne.mockResolvedValue(null);
+      mockJobModel.findOneAndUpdate.mockResolvedValue(buildJobDoc());
+
+      const job = await queue.enqueue('file123');
+
+      expect(job).toMatchObject({ fileId: 'file123', status: 'queued', attempts: 0 });
+      expect(mockJobModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { fileId: 'file123' },
+        expect.objectContaining({
+          $set: expect.objectContaining({ status: 'queued', attempts: 0, maxAttempts: 3 }),
+        }),
+        { upsert: true, new: true }
+      );
+    });
+
+    it('should leave a job that is already running alone', async () => {
+      mockJobModel.findOne.mockResolvedValue(buildJobDoc({ status: 'running', attempts: 1 }));
+
+      const job = await queue.enqueue('file123');
+
+      expect(job.status).toBe('running');
+      expect(mockJobModel.findOneAndUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('claimNext', () => {
+    it('should lease due jobs and jobs whose lease expired with attempts left', async () => {
+      mockJobModel.findOneAndUpdate.mockResolvedValue(buildJobDoc({ status: 'running', attempts: 1 }));
+
+      const job = await queue.claimNext();
+
+      expect(job?.attempts).toBe(1);
+      const [filter, update] = mockJobModel.findOneAndUpdate.mock.calls[0];
+      expect(filter.$or).toEqual([
+        { status: 'queued', runAt: { $lte: expect.any(Date) } },
+        {
+          status: 'running',
+          leaseExpiresAt: { $lte: expect.any(Date) },
+          $expr: { $lt: ['$attempts', '$maxAttempts'] },
+        },
+      ]);
+      expect(update.$set).toMatchObject({ status: 'running', workerId: expect.any(String) });
+      expect(update.$inc).toEqual({ attempts: 1 });
+    });
+  });
+
+  describe('failAbandoned', () => {
+    it('should fail jobs whose lease expired on their last attempt', async () => {
+      mockJobModel.find.mockResolvedValue([buildJobDoc({ status: 'running', attempts: 3 })]);
+
+      const failed = await queue.failAbandoned();
+
+      expect(mockJobModel.find).toHaveBeenCalledWith({
+        status: 'running',
+        leaseExpiresAt: { $lte: expect.any(Date) },
+        $expr: { $gte: ['$attempts', '$maxAttempts'] },
+      });
+      expect(mockJobModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'job123', status: 'running', leaseExpiresAt: { $lte: expect.any(Date) } },
+        {
+          $set: { status: 'failed', lastError: 'Processing did not finish within its lease' },
+          $unset: { leaseExpiresAt: 1, workerId: 1 },
+        }
+      );
+      expect(failed).toEqual([expect.objectContaining({ id: 'job123', fileId: 'file123', status: 'failed' })]);
+    });
+
+    it('should leave jobs whose lease was renewed meanwhile', async () => {
+      mockJobModel.find.mockResolvedValue([buildJobDoc({ status: 'running', attempts: 3 })]);
+      mockJobModel.updateOne.mockResolvedValue({ modifiedCount: 0 });
+
+      expect(await queue.failAbandoned()).toEqual([]);
+    });
+  });
+
+  describe('runJob', () => {
+    it('should complete the job while still holding its lease', async () => {
+      await queue.runJob(runningJob, vi.fn().mockResolvedValue(undefined));
+
+      expect(mockJobModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'job123', status: 'running', workerId: expect.any(String) },
+        { $set: { status: 'completed' }, $unset: { leaseExpiresAt: 1, workerId: 1 } }
+      );
+    });
+
+    it('should retry failures with exponential backoff', async () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+
+      await queue.runJob({ ...runningJob, attempts: 2 }, vi.fn().mockRejectedValue(new Error('disk busy')));
+
+      expect(mockJobModel.updateOne).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+        $set: { status: 'queued', lastError: 'disk busy', runAt: new Date('2024-01-01T00:00:02Z') },
+      }));
+    });
+
+    it('should fail the job once attempts are exhausted', async () => {
+      await queue.runJob({ ...runningJob, attempts: 3 }, vi.fn().mockRejectedValue(new Error('corrupt')));
+
+      expect(mockJobModel.updateOne).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({
+        $set: { status: 'failed', lastError: 'corrupt' },
+      }));
+    });
+  });
+
+  describe('start', () => {
+    it('should run claimed jobs up to the concurrency limit', async () => {
+      let jobCount = 0;
+      mockJobModel.findOneAndUpdate.mockImplementation(async () =>
+        buildJobDoc({ _id: `job${++jobCount}`, status: 'running', attempts: 1 })
+      );
+      const releases: (() => void)[] = [];
+      const handler = vi.fn(() => new Promise<void>(resolve => releases.push(resolve)));
+
+      queue.start(handler);
+      await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(2));
+
+      expect(mockJobModel.findOneAndUpdate).toHaveBeenCalledTimes(2);
+
+      // A finished job frees a slot for the next one
+      releases[0]();
+      await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(3));
+
+      mockJobModel.findOneAndUpdate.mockResolvedValue(null);
+      releases.forEach(release => release());
+    });
+
+    it('should report abandoned jobs before claiming', async () => {
+      mockJobModel.find.mockResolvedValueOnce([buildJobDoc({ status: 'running', attempts: 3 })]);
+      mockJobModel.findOneAndUpdate.mockResolvedValue(null);
+      const onAbandoned = vi.fn().mockResolvedValue(undefined);
+
+      queue.start(vi.fn(), onAbandoned);
+      await vi.waitFor(() => expect(mockJobModel.findOneAndUpdate).toHaveBeenCalled());
+
+      expect(onAbandoned).toHaveBeenCalledWith(expect.objectContaining({
+        fileId: 'file123',
+        status: 'failed',
+        lastError: 'Processing did not finish within its lease',
+      }));
+    });
+  });
+});
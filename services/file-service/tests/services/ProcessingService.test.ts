@@ -0,0 +1,182 @@
+/**
+ * ProcessingService Test Suite
+ * Testing the rendition pipeline against real images on a temporary storage path
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { ProcessingService, ProcessingConfig } from '../../src/services/ProcessingService.js';
+import { FileModel } from '../../src/shared/contracts/files.api.js';
+import { buildJpeg, buildTiffRaw } from '../fixtures/raw-files.js';
+
+describe('ProcessingService', () => {
+  let basePath: string;
+  let config: ProcessingConfig;
+
+  const file: FileModel = {
+    id: 'file123',
+    filename: 'portrait.jpg',
+    type: 'jpeg',
+    size: 0,
+    mimeType: 'image/jpeg',
+    shootId: 'shoot123',
+    storagePath: '2024/01/file123.jpg',
+    processingStatus: 'pending',
+    createdAt: '2024-01-01T00:00:00Z',
+    updatedAt: '2024-01-01T00:00:00Z',
+  };
+
+  beforeEach(async () => {
+    basePath = await fs.mkdtemp(path.join(os.tmpdir(), 'file-service-processing-'));
+    await fs.mkdir(path.join(basePath, '2024/01'), { recursive: true });
+    await sharp({ create: { width: 400, height: 300, channels: 3, background: '#806040' } })
+      .jpeg()
+      .toFile(path.join(basePath, file.storagePath));
+
+    config = {
+      enableMetadataExtraction: false,
+      maxProcessingTimeMs: 30000,
+      renditions: [
+        { name: 'thumbnail', size: 100, quality: 80 },
+        { name: 'high', size: 1000, quality: 90 },
+      ],
+      renditionFormats: ['jpeg', 'webp', 'avif'],
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(basePath, { recursive: true, force: true });
+  });
+
+  describe('generateRenditions', () => {
+    it('should write every size and format under the storage base path', async () => {
+      const service = new ProcessingService(config, basePath);
+
+      const renditions = await service.generateRenditions(file);
+
+      expect(renditions.map(r => `${r.name}.${r.format}`)).toEqual([
+        'thumbnail.jpeg', 'thumbnail.webp', 'thumbnail.avif',
+        'high.jpeg', 'high.webp', 'high.avif',
+      ]);
+      for (const rendition of renditions) {
+        const stats = await fs.stat(path.join(basePath, rendition.storagePath));
+        expect(stats.size).toBe(rendition.size);
+      }
+      expect(renditions[1]).toMatchObject({
+        storagePath: 'renditions/2024/01/file123_thumbnail.webp',
+        url: '/files/file123/download?resolution=thumbnail&format=webp',
+      });
+    });
+
+    it('should fit the longest edge without enlarging smaller images', async () => {
+      const service = new ProcessingService({ ...config, renditionFormats: ['jpeg'] }, basePath);
+
+      const [thumbnail, high] = await service.generateRenditions(file);
+
+      expect(thumbnail).toMatchObject({ width: 100, height: 75 });
+      expect(high).toMatchObject({ width: 400, height: 300 });
+      const decoded = await sharp(path.join(basePath, thumbnail.storagePath)).metadata();
+      expect(decoded.format).toBe('jpeg');
+    });
+  });
+
+  describe('processFile', () => {
+    it('should return the renditions with the processing summary', async () => {
+      const service = new ProcessingService({ ...config, renditionFormats: ['jpeg'] }, basePath);
+
+      const result = await service.processFile(file);
+
+      expect(result.renditions).toHaveLength(2);
+      expect(result.processing).toMatchObject({ thumbnailGenerated: true, processingErrors: [] });
+    });
+
+    it('should make RAW renditions from the embedded preview, turned upright', async () => {
+      const raw: FileModel = { ...file, filename: 'IMG_001.CR2', type: 'raw', storagePath: '2024/01/raw123.cr2' };
+      const preview = await buildJpeg(400, 300);
+      await fs.writeFile(path.join(basePath, raw.storagePath), buildTiffRaw([preview], { orientation: 6 }));
+      const service = new ProcessingService({ ...config, renditionFormats: ['jpeg'] }, basePath);
+
+      const result = await service.processFile(raw);
+
+      expect(result.processing?.processingErrors).toEqual([]);
+      expect(result.renditions?.map(r => [r.name, r.width, r.height])).toEqual([
+        ['thumbnail', 75, 100],
+        ['high', 300, 400],
+      ]);
+    });
+
+    it('should report RAW files without an embedded preview', async () => {
+      const raw: FileModel = { ...file, type: 'raw', storagePath: '2024/01/raw123.cr2' };
+      await fs.writeFile(path.join(basePath, raw.storagePath), buildTiffRaw([]));
+      const service = new ProcessingService(config, basePath);
+
+      const result = await service.processFile(raw);
+
+      expect(result.processing?.processingErrors).toEqual([
+        'Rendition generation failed: No embedded preview found in RAW file',
+      ]);
+    });
+
+    it('should report a failed rendition instead of throwing', async () => {
+      const service = new ProcessingService(config, basePath);
+
+      const result = await service.processFile({ ...file, storagePath: '2024/01/missing.jpg' });
+
+      expect(result.renditions).toBeUndefined();
+      expect(result.processing?.thumbnailGenerated).toBe(false);
+      expect(result.processing?.processingErrors?.[0]).toMatch(/^Rendition generation failed/);
+    });
+
+    it('should not generate renditions for videos', async () => {
+      const service = new ProcessingService(config, basePath);
+
+      const result = await service.processFile({ ...file, type: 'video' });
+
+      expect(result.renditions).toBeUndefined();
+    });
+
+    it('should parse the culling metadata of XMP sidecars', async () => {
+      const storagePath = '2024/01/xmp123.xmp';
+      await fs.writeFile(
+        path.join(basePath, storagePath),
+        '<x:xmpmeta><rdf:RDF><rdf:Description xmp:Rating="3" xmp:Label="Yellow"/></rdf:RDF></x:xmpmeta>'
+      );
+      const service = new ProcessingService(config, basePath);
+
+      const result = await service.processFile({
+        ...file,
+        id: 'xmp123',
+        filename: 'IMG_1234.xmp',
+        type: 'sidecar',
+        sidecarType: 'xmp',
+        storagePath,
+      });
+
+      expect(result.xmp).toEqual({ rating: 3, label: 'Yellow' });
+      expect(result.renditions).toBeUndefined();
+    });
+  });
+
+  describe('extractMetadata', () => {
+    it('should read the capture time to the fraction of a second and the body serial', async () => {
+      await sharp({ create: { width: 40, height: 30, channels: 3, background: '#806040' } })
+        .withExif({
+          IFD0: { Make: 'Canon', Model: 'EOS R5' },
+          IFD2: { DateTimeOriginal: '2024:06:01 14:30:05', SubSecTimeOriginal: '25', BodySerialNumber: '012345' },
+        })
+        .jpeg()
+        .toFile(path.join(basePath, file.storagePath));
+      const service = new ProcessingService(config, basePath);
+
+      const { exif } = await service.extractMetadata(file.storagePath);
+
+      expect(exif).toMatchObject({
+        camera: 'Canon EOS R5',
+        cameraSerial: '012345',
+        dateTaken: '2024-06-01T14:30:05.250Z',
+      });
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * ShootCleanupService Test Suite
+ * Removal of a deleted shoot's files and archives (shoot deletion saga)
+ */
+
+import { vi } from 'vitest';
+import type { Mocked } from 'vitest';
+import { ShootCleanupService } from '../../src/services/ShootCleanupService.js';
+import { FileService } from '../../src/services/FileService.js';
+import { TrashService } from '../../src/services/TrashService.js';
+import { ArchiveService } from '../../src/services/ArchiveService.js';
+import { EventEmitter } from '../../src/services/EventEmitter.js';
+
+const mockFileService = {
+  getFilesByShootId: vi.fn(),
+  deleteFile: vi.fn(),
+} as unknown as Mocked<FileService>;
+
+const mockTrashService = {
+  listTrash: vi.fn(),
+  purgeFile: vi.fn(),
+} as unknown as Mocked<TrashService>;
+
+const mockArchiveService = {
+  getArchivesByShootId: vi.fn(),
+  deleteArchive: vi.fn(),
+} as unknown as Mocked<ArchiveService>;
+
+const mockEventEmitter = {
+  emitShootCleanupReported: vi.fn(),
+} as unknown as Mocked<EventEmitter>;
+
+describe('ShootCleanupService', () => {
+  let shootCleanupService: ShootCleanupService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    shootCleanupService = new ShootCleanupService(
+      mockFileService,
+      mockTrashService,
+      mockArchiveService,
+      mockEventEmitter
+    );
+
+    mockFileService.getFilesByShootId.mockResolvedValue([
+      { id: 'file1' },
+      { id: 'file2' },
+    ] as any);
+    mockFileService.deleteFile.mockResolvedValue(true);
+    mockTrashService.listTrash.mockResolvedValue([
+      { id: 'file1' },
+      { id: 'file2' },
+      { id: 'file0' }, // Already in the trash
+    ] as any);
+    mockTrashService.purgeFile.mockResolvedValue(true);
+    mockArchiveService.getArchivesByShootId.mockResolvedValue([{ id: 'archive1' }] as any);
+    mockArchiveService.deleteArchive.mockResolvedValue(true);
+  });
+
+  it('should delete the shoot archives and files, the trash included, and report success', async () => {
+    await shootCleanupService.handleShootDeleted('shoot123');
+
+    expect(mockArchiveService.deleteArchive).toHaveBeenCalledWith('archive1');
+    expect(mockFileService.deleteFile).toHaveBeenCalledWith('file1');
+    expect(mockFileService.deleteFile).toHaveBeenCalledWith('file2');
+    expect(mockTrashService.purgeFile).toHaveBeenCalledWith('file0');
+    expect(mockTrashService.purgeFile).toHaveBeenCalledWith('file1');
+    expect(mockTrashService.purgeFile).toHaveBeenCalledWith('file2');
+    expect(mockEventEmitter.emitShootCleanupReported).toHaveBeenCalledWith({
+      shootId: 'shoot123',
+      service: 'file-service',
+      success: true,
+      removed: { files: 3, archives: 1 },
+      timestamp: expect.any(String),
+    });
+  });
+
+  it('should report a failed cleanup instead of throwing', async () => {
+    mockTrashService.purgeFile.mockRejectedValueOnce(new Error('EACCES: permission denied'));
+
+    await expect(shootCleanupService.handleShootDeleted('shoot123')).resolves.toBeUndefined();
+
+    expect(mockEventEmitter.emitShootCleanupReported).toHaveBeenCalledWith(
+      expect.objectContaining({
+        shootId: 'shoot123',
+        service: 'file-service',
+        success: false,
+        error: 'EACCES: permission denied',
+      })
+    );
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * StorageIntegrityService Test Suite
+ * Scrubbing storage against the file records and quarantining orphans
+ */
+
+import { vi } from 'vitest';
+import type { Mocked } from 'vitest';
+import { createHash } from 'crypto';
+import { Model } from 'mongoose';
+import {
+  IntegrityReportNotFoundError,
+  ScrubInProgressError,
+  StorageIntegrityService
+} from '../../src/services/StorageIntegrityService.js';
+import { StorageService } from '../../src/services/StorageService.js';
+import { StoredObject } from '../../src/services/storage/StorageDriver.js';
+
+const sha256 = (data: string): string => createHash('sha256').update(data).digest('hex');
+const old = new Date('2024-01-01T00:00:00Z');
+
+const mockFileModel = {
+  find: vi.fn(),
+  exists: vi.fn(),
+} as any;
+
+const mockBlobModel = {
+  distinct: vi.fn(),
+  exists: vi.fn(),
+} as any;
+
+// Report documents behave like Mongoose documents: defaults, save()
+function buildReportDoc(data: Record<string, unknown>): Record<string, unknown> {
+  return {
+    _id: 'report123',
+    checkedFiles: 0,
+    hashesVerified: 0,
+    issueCount: 0,
+    orphanCount: 0,
+    orphanBytes: 0,
+    issues: [],
+    orphans: [],
+    ...data,
+    save: vi.fn().mockResolvedValue(undefined),
+    markModified: vi.fn(),
+  };
+}
+const mockReportModel = vi.fn((data: Record<string, unknown>) => buildReportDoc(data)) as any;
+mockReportModel.findOne = vi.fn();
+
+const mockStorageService = {
+  hasColdTier: false,
+  getFileStats: vi.fn(),
+  hashFile: vi.fn(),
+  listStoredFiles: vi.fn(),
+  moveFile: vi.fn(),
+} as unknown as Mocked<StorageService>;
+
+function files(records: Record<string, unknown>[]): void {
+  mockFileModel.find.mockReturnValue({ sort: () => ({ lean: () => records }) });
+}
+
+function stored(objects: StoredObject[]): void {
+  mockStorageService.listStoredFiles.mockImplementation(async function* () {
+    yield* objects;
+  });
+}
+
+describe('StorageIntegrityService', () => {
+  let integrityService: StorageIntegrityService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    integrityService = new StorageIntegrityService(
+      mockFileModel as Model<any>,
+      mockBlobModel as Model<any>,
+      mockReportModel as Model<any>,
+      mockStorageService,
+      { verifyHashes: true, orphanGraceHours: 24, maxReportedEntries: 1000 }
+    );
+
+    mockBlobModel.distinct.mockResolvedValue([]);
+    mockFileModel.exists.mockResolvedValue(null);
+    mockBlobModel.exists.mockResolvedValue(null);
+    stored([]);
+  });
+
+  describe('runScrub', () => {
+    it('should report missing, resized and corrupt files', async () => {
+      files([
+        { _id: 'a', storagePath: '2024/01/a.jpg', size: 3, contentHash: sha256('aaa') },
+        { _id: 'b', storagePath: '2024/01/b.jpg', size: 3 },
+        { _id: 'c', storagePath: '2024/01/c.jpg', size: 3, contentHash: sha256('ccc') },
+        { _id: 'c2', storagePath: '2024/01/c.jpg', size: 3, contentHash: sha256('ccc') },
+        { _id: 'd', storagePath: '2024/01/d.jpg', size: 3, contentHash: sha256('ddd') },
+      ]);
+      mockStorageService.getFileStats.mockImplementation(async storagePath => (
+        storagePath === '2024/01/b.jpg' ? { size: 0, exists: false }
+          : { size: storagePath === '2024/01/d.jpg' ? 2 : 3, exists: true }
+      ));
+      mockStorageService.hashFile.mockImplementation(async storagePath =>
+        Buffer.from(sha256(storagePath === '2024/01/c.jpg' ? 'xxx' : 'aaa'), 'hex'));
+
+      const report = await integrityService.runScrub();
+
+      expect(report).toMatchObject({ status: 'completed', checkedFiles: 4, hashesVerified: 2, issueCount: 3 });
+      expect(report.issues).toEqual([
+        { type: 'missing', storagePath: '2024/01/b.jpg', tier: 'hot', fileIds: ['b'], expectedSize: 3 },
+        {
+          type: 'hash_mismatch', storagePath: '2024/01/c.jpg', tier: 'hot',
+          fileIds: ['c', 'c2'], expectedSize: 3, actualSize: 3,
+        },
+        { type: 'size_mismatch', storagePath: '2024/01/d.jpg', tier: 'hot', fileIds: ['d'], expectedSize: 3, actualSize: 2 },
+      ]);
+      expect(mockStorageService.hashFile).toHaveBeenCalledTimes(2); // Shared content is read once
+    });
+
+    it('should not read cold files back', async () => {
+      files([{ _id: 'a', storagePath: '2023/01/a.cr3', storageTier: 'cold', size: 3, contentHash: sha256('aaa') }]);
+      mockStorageService.getFileStats.mockResolvedValue({ size: 3, exists: true });
+
+      const report = await integrityService.runScrub();
+
+      expect(mockStorageService.getFileStats).toHaveBeenCalledWith('2023/01/a.cr3', 'cold');
+      expect(mockStorageService.hashFile).not.toHaveBeenCalled();
+      expect(report.issueCount).toBe(0);
+    });
+
+    it('should report stored objects nothing points at as orphans', async () => {
+      files([{
+        _id: 'a', storagePath: '2024/01/a.jpg', size: 3,
+        renditions: [{ storagePath: 'renditions/2024/01/a_thumbnail.jpg' }],
+      }]);
+      mockStorageService.getFileStats.mockResolvedValue({ size: 3, exists: true });
+      mockBlobModel.distinct.mockResolvedValue(['2024/01/pending.jpg']);
+      stored([
+        { key: '2024/01/a.jpg', size: 3, modifiedAt: old },
+        { key: 'renditions/2024/01/a_thumbnail.jpg', size: 1, modifiedAt: old },
+        { key: '2024/01/pending.jpg', size: 5, modifiedAt: old },
+        { key: 'uploads/abc.part', size: 7, modifiedAt: old },
+        { key: 'watermarks/a/k_a_medium.jpg', size: 7, modifiedAt: old },
+        { key: '2024/01/fresh.jpg', size: 7, modifiedAt: new Date() }, // Upload being registered
+        { key: '2024/01/lost.jpg', size: 11, modifiedAt: old },
+      ]);
+
+      const report = await integrityService.runScrub();
+
+      expect(report).toMatchObject({ orphanCount: 1, orphanBytes: 11 });
+      expect(report.orphans).toEqual([
+        { storagePath: '2024/01/lost.jpg', tier: 'hot', size: 11, modifiedAt: old.toISOString() },
+      ]);
+      expect(mockStorageService.listStoredFiles).toHaveBeenCalledWith('hot');
+    });
+
+    it('should count everything but list only up to the limit', async () => {
+      files([]);
+      stored([1, 2, 3].map(i => ({ key: `2024/01/lost${i}.jpg`, size: 1, modifiedAt: old })));
+      integrityService = new StorageIntegrityService(
+        mockFileModel as Model<any>,
+        mockBlobModel as Model<any>,
+        mockReportModel as Model<any>,
+        mockStorageService,
+        { verifyHashes: true, orphanGraceHours: 24, maxReportedEntries: 2 }
+      );
+
+      const report = await integrityService.runScrub();
+
+      expect(report.orphanCount).toBe(3);
+      expect(report.orphans).toHaveLength(2);
+    });
+
+    it('should record a failed scrub on its report', async () => {
+      files([{ _id: 'a', storagePath: '2024/01/a.jpg', size: 3 }]);
+      mockStorageService.getFileStats.mockRejectedValue(new Error('Disk unavailable'));
+
+      const report = await integrityService.runScrub();
+
+      expect(report).toMatchObject({ status: 'failed', error: 'Disk unavailable' });
+      expect(report.finishedAt).toBeDefined();
+    });
+
+    it('should run one scrub at a time', async () => {
+      files([]);
+
+      const running = integrityService.startScrub();
+
+      await expect(integrityService.startScrub()).rejects.toBeInstanceOf(ScrubInProgressError);
+      expect((await running).status).toBe('running');
+    });
+  });
+
+  describe('quarantineOrphans', () => {
+    const orphan = (storagePath: string, size = 11): Record<string, unknown> =>
+      ({ storagePath, tier: 'hot', size, modifiedAt: old });
+
+    it('should move the orphans of the latest completed scrub aside', async () => {
+      const doc = buildReportDoc({ status: 'completed', orphans: [orphan('2024/01/lost.jpg')] });
+      mockReportModel.findOne.mockReturnValue({ sort: vi.fn().mockResolvedValue(doc) });
+      mockStorageService.getFileStats.mockResolvedValue({ size: 11, exists: true });
+
+      const result = await integrityService.quarantineOrphans();
+
+      expect(mockReportModel.findOne).toHaveBeenCalledWith({ status: 'completed' });
+      expect(mockStorageService.moveFile)
+        .toHaveBeenCalledWith('2024/01/lost.jpg', 'quarantine/report123/2024/01/lost.jpg', 'hot');
+      expect(result.quarantined).toEqual([{
+        storagePath: '2024/01/lost.jpg', tier: 'hot', size: 11,
+        modifiedAt: old.toISOString(), quarantinedTo: 'quarantine/report123/2024/01/lost.jpg',
+      }]);
+      expect(doc.save).toHaveBeenCalled();
+    });
+
+    it('should keep orphans referenced, changed or gone since the scrub', async () => {
+      const doc = buildReportDoc({
+        status: 'completed',
+        orphans: [orphan('2024/01/claimed.jpg'), orphan('2024/01/grown.jpg'), orphan('2024/01/gone.jpg')],
+      });
+      mockReportModel.findOne.mockReturnValue({ sort: vi.fn().mockResolvedValue(doc) });
+      mockFileModel.exists.mockImplementation(async (filter: { $or: { storagePath?: string }[] }) =>
+        (filter.$or[0].storagePath === '2024/01/claimed.jpg' ? { _id: 'file1' } : null));
+      mockStorageService.getFileStats.mockImplementation(async storagePath => (
+        storagePath === '2024/01/gone.jpg' ? { size: 0, exists: false } : { size: 12, exists: true }
+      ));
+
+      const result = await integrityService.quarantineOrphans();
+
+      expect(result.quarantined).toEqual([]);
+      expect(result.skipped.map(skipped => skipped.reason)).toEqual([
+        'Referenced since the scrub', 'Changed since the scrub', 'No longer stored',
+      ]);
+      expect(mockStorageService.moveFile).not.toHaveBeenCalled();
+    });
+
+    it('should need a completed scrub', async () => {
+      mockReportModel.findOne.mockReturnValue({ sort: vi.fn().mockResolvedValue(null) });
+
+      await expect(integrityService.quarantineOrphans()).rejects.toBeInstanceOf(IntegrityReportNotFoundError);
+    });
+  });
+});
@@ -9,6 +9,8 @@ import fs from 'fs/promises';
 import { createReadStream, createWriteStream } from 'fs';
 import { StorageService, StorageConfig } from '../../src/services/StorageService.js';
 import { Model } from 'mongoose';
+import { Readable } from 'stream';
+import { StorageDriver } from '../../src/services/storage/StorageDriver.js';
 
 // Mock fs operations
 vi.mock('fs/promises');
@@ -27,6 +29,15 @@ const mockChunkModel = {
   deleteMany: vi.fn(),
 } as any;
 
+// Mock blob model (content deduplication)
+const mockBlobModel = {
+  findById: vi.fn(),
+  findOneAndUpdate: vi.fn(),
+  findByIdAndUpdate: vi.fn(),
+  updateOne: vi.fn(),
+  deleteOne: vi.fn(),
+} as any;
+
 describe('StorageService', () => {
   let storageService: StorageService;
   let config: StorageConfig;
@@ -41,7 +52,7 @@ describe('StorageService', () => {
       chunkTTLHours: 24,
     };
 
-    storageService = new StorageService(config, mockChunkModel as Model<any>);
+    storageService = new StorageService(config, mockChunkModel as Model<any>, mockBlobModel as Model<any>);
   });
 
   describe('storeFile', () => {
@@ -293,6 +304,99 @@ describe('StorageService', () => {
     });
   });
 
+  describe('acquireBlob', () => {
+    it('should share content that is already stored', async () => {
+      mockBlobModel.findOneAndUpdate.mockResolvedValue({ _id: 'abc123', storagePath: '2024/01/file1.cr3', refCount: 2 });
+      const write = vi.fn();
+
+      const blob = await storageService.acquireBlob('abc123', write);
+
+      expect(blob).toEqual({ storagePath: '2024/01/file1.cr3', written: false });
+      expect(write).not.toHaveBeenCalled();
+      expect(mockBlobModel.findOneAndUpdate).toHaveBeenCalledWith(
+        { _id: 'abc123' },
+        { $inc: { refCount: 1 } },
+        { upsert: true, new: true }
+      );
+    });
+
+    it('should write new content and record where it went', async () => {
+      mockBlobModel.findOneAndUpdate.mockResolvedValue({ _id: 'abc123', refCount: 1 });
+      mockBlobModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+
+      const blob = await storageService.acquireBlob('abc123', async () => '2024/01/file2.cr3');
+
+      expect(blob).toEqual({ storagePath: '2024/01/file2.cr3', written: true });
+      expect(mockBlobModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'abc123', storagePath: { $exists: false } },
+        { $set: { storagePath: '2024/01/file2.cr3' } }
+      );
+    });
+
+    it('should share content left at no references by a release still in progress', async () => {
+      mockBlobModel.findOneAndUpdate.mockResolvedValue({ _id: 'abc123', storagePath: '2024/01/file1.cr3', refCount: 1 });
+      mockBlobModel.findByIdAndUpdate.mockResolvedValue({ storagePath: '2024/01/file1.cr3', refCount: 0 });
+      mockBlobModel.deleteOne.mockResolvedValue({ deletedCount: 0 });
+
+      // The release decremented to 0, then the acquire took a reference
+      const blob = await storageService.acquireBlob('abc123', vi.fn());
+      const deleted = await storageService.releaseBlob('abc123');
+
+      expect(blob).toEqual({ storagePath: '2024/01/file1.cr3', written: false });
+      expect(deleted).toBe(false);
+      expect(mockFs.unlink).not.toHaveBeenCalled();
+    });
+
+    it('should keep the copy stored first when the same content is written concurrently', async () => {
+      mockBlobModel.findOneAndUpdate.mockResolvedValue({ _id: 'abc123', refCount: 2 });
+      mockBlobModel.updateOne.mockResolvedValue({ modifiedCount: 0 });
+      mockBlobModel.findById.mockResolvedValue({ _id: 'abc123', storagePath: '2024/01/file1.cr3', refCount: 2 });
+      mockFs.unlink.mockResolvedValue();
+
+      const blob = await storageService.acquireBlob('abc123', async () => '2024/01/file2.cr3');
+
+      expect(blob.storagePath).toBe('2024/01/file1.cr3');
+      expect(mockFs.unlink).toHaveBeenCalledWith('/data/files/2024/01/file2.cr3');
+    });
+
+    it('should give the reference back when writing fails', async () => {
+      mockBlobModel.findOneAndUpdate.mockResolvedValue({ _id: 'abc123', refCount: 1 });
+      mockBlobModel.findByIdAndUpdate.mockResolvedValue({ refCount: 0 });
+      mockBlobModel.deleteOne.mockResolvedValue({ deletedCount: 1 });
+
+      await expect(storageService.acquireBlob('abc123', async () => {
+        throw new Error('ENOSPC: no space left on device');
+      })).rejects.toThrow('ENOSPC');
+
+      expect(mockBlobModel.findByIdAndUpdate).toHaveBeenCalledWith('abc123', { $inc: { refCount: -1 } }, { new: true });
+      expect(mockBlobModel.deleteOne).toHaveBeenCalledWith({ _id: 'abc123', refCount: 0 });
+      expect(mockFs.unlink).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('releaseBlob', () => {
+    it('should keep the bytes while other files reference them', async () => {
+      mockBlobModel.findByIdAndUpdate.mockResolvedValue({ storagePath: '2024/01/file1.cr3', refCount: 1 });
+
+      const deleted = await storageService.releaseBlob('abc123');
+
+      expect(deleted).toBe(false);
+      expect(mockFs.unlink).not.toHaveBeenCalled();
+    });
+
+    it('should delete the bytes with the last reference', async () => {
+      mockBlobModel.findByIdAndUpdate.mockResolvedValue({ storagePath: '2024/01/file1.cr3', refCount: 0 });
+      mockBlobModel.deleteOne.mockResolvedValue({ deletedCount: 1 });
+      mockFs.unlink.mockResolvedValue();
+
+      const deleted = await storageService.releaseBlob('abc123');
+
+      expect(deleted).toBe(true);
+      expect(mockBlobModel.deleteOne).toHaveBeenCalledWith({ _id: 'abc123', refCount: 0 });
+      expect(mockFs.unlink).toHaveBeenCalledWith('/data/files/2024/01/file1.cr3');
+    });
+  });
+
   describe('deleteChunks', () => {
     it('should delete all chunks for a file', async () => {
       const fileId = 'file123';
@@ -331,4 +435,82 @@ describe('StorageService', () => {
       expect(mockFs.mkdir).toHaveBeenCalledWith(config.basePath, { recursive: true });
     });
   });
-});
\ No newline at end of file
+
+  describe('cold tier', () => {
+    const coldDriver = {
+      kind: 's3',
+      put: vi.fn(),
+      get: vi.fn(),
+      stream: vi.fn(),
+      stat: vi.fn(),
+      delete: vi.fn(),
+      list: vi.fn(),
+    } as Mocked<StorageDriver>;
+
+    beforeEach(() => {
+      storageService = new StorageService(config, mockChunkModel, mockBlobModel, coldDriver);
+    });
+
+    it('should refuse cold reads when no cold tier is configured', async () => {
+      const hotOnly = new StorageService(config, mockChunkModel, mockBlobModel);
+
+      expect(hotOnly.hasColdTier).toBe(false);
+      await expect(hotOnly.openReadStream('2024/01/a.cr3', 'cold')).rejects.toThrow('No cold storage is configured');
+    });
+
+    it('should stat, read and delete files on the cold tier', async () => {
+      const stream = Readable.from([]);
+      coldDriver.stat.mockResolvedValue({ key: '2024/01/a.cr3', size: 2048, modifiedAt: new Date() });
+      coldDriver.stream.mockResolvedValue(stream);
+
+      expect(await storageService.getFileStats('2024/01/a.cr3', 'cold')).toEqual({ size: 2048, exists: true });
+      expect(await storageService.openReadStream('2024/01/a.cr3', 'cold', { start: 5 })).toBe(stream);
+      await storageService.deleteFile('2024/01/a.cr3', 'cold');
+
+      expect(coldDriver.stream).toHaveBeenCalledWith('2024/01/a.cr3', { start: 5 });
+      expect(coldDriver.delete).toHaveBeenCalledWith('2024/01/a.cr3');
+      expect(mockFs.unlink).not.toHaveBeenCalled();
+    });
+
+    it('should copy a local file to the cold tier and check its size', async () => {
+      const stream = Readable.from([]);
+      mockFs.stat.mockResolvedValue({ size: 2048, mtime: new Date() } as any);
+      mockCreateReadStream.mockReturnValue(stream as any);
+      coldDriver.stat.mockResolvedValue({ key: '2024/01/a.cr3', size: 2048, modifiedAt: new Date() });
+
+      await storageService.copyToTier('2024/01/a.cr3', 'cold');
+
+      expect(mockCreateReadStream).toHaveBeenCalledWith('/data/files/2024/01/a.cr3', undefined);
+      expect(coldDriver.put).toHaveBeenCalledWith('2024/01/a.cr3', stream);
+      expect(mockFs.unlink).not.toHaveBeenCalled(); // The source stays until records point at the copy
+    });
+
+    it('should drop an incomplete copy', async () => {
+      mockFs.stat.mockResolvedValue({ size: 2048, mtime: new Date() } as any);
+      mockCreateReadStream.mockReturnValue(Readable.from([]) as any);
+      coldDriver.stat.mockResolvedValue({ key: '2024/01/a.cr3', size: 1000, modifiedAt: new Date() });
+
+      await expect(storageService.copyToTier('2024/01/a.cr3', 'cold'))
+        .rejects.toThrow('Copy of 2024/01/a.cr3 to cold storage is incomplete');
+      expect(coldDriver.delete).toHaveBeenCalledWith('2024/01/a.cr3');
+    });
+
+    it('should move a local file within the base path', async () => {
+      await storageService.moveFile('2024/01/a.jpg', 'quarantine/r1/2024/01/a.jpg', 'hot');
+
+      expect(mockFs.mkdir).toHaveBeenCalledWith('/data/files/quarantine/r1/2024/01', { recursive: true });
+      expect(mockFs.rename).toHaveBeenCalledWith('/data/files/2024/01/a.jpg', '/data/files/quarantine/r1/2024/01/a.jpg');
+    });
+
+    it('should move a cold object by copying it before deleting it', async () => {
+      const stream = Readable.from([]);
+      coldDriver.stat.mockResolvedValue({ key: '2024/01/a.cr3', size: 2048, modifiedAt: new Date() });
+      coldDriver.stream.mockResolvedValue(stream);
+
+      await storageService.moveFile('2024/01/a.cr3', 'quarantine/r1/2024/01/a.cr3', 'cold');
+
+      expect(coldDriver.put).toHaveBeenCalledWith('quarantine/r1/2024/01/a.cr3', stream);
+      expect(coldDriver.delete).toHaveBeenCalledWith('2024/01/a.cr3');
+    });
+  });
+});
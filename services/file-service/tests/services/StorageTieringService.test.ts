@@ -0,0 +1,80 @@
+/**
+ * StorageTieringService Test Suite
+ * Moving the originals of older shoots to the cold tier
+ */
+
+import { vi } from 'vitest';
+import type { Mocked } from 'vitest';
+import { Model } from 'mongoose';
+import { StorageTieringService } from '../../src/services/StorageTieringService.js';
+import { StorageService } from '../../src/services/StorageService.js';
+
+const mockFileModel = {
+  aggregate: vi.fn(),
+  distinct: vi.fn(),
+  updateMany: vi.fn(),
+} as any;
+
+const mockStorageService = {
+  hasColdTier: true,
+  copyToTier: vi.fn(),
+  deleteFile: vi.fn(),
+} as unknown as Mocked<StorageService>;
+
+describe('StorageTieringService', () => {
+  let tieringService: StorageTieringService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tieringService = new StorageTieringService(mockFileModel as Model<any>, mockStorageService, { tierAfterDays: 180 });
+
+    mockFileModel.aggregate.mockResolvedValue([{ _id: 'shoot1' }]);
+    mockFileModel.distinct.mockResolvedValue(['2023/01/a.cr3', '2023/01/b.xmp']);
+  });
+
+  it('should pick shoots untouched for tierAfterDays that still have local originals', async () => {
+    await tieringService.findShootsToTier(new Date('2024-07-01T00:00:00Z'));
+
+    const [group, match] = mockFileModel.aggregate.mock.calls[0][0];
+    expect(group.$group).toMatchObject({ _id: '$shootId', newest: { $max: '$createdAt' } });
+    expect(match.$match).toEqual({ newest: { $lt: new Date('2024-01-03T00:00:00Z') }, hot: { $gt: 0 } });
+  });
+
+  it('should copy each original, repoint its files, then delete the local copy', async () => {
+    const order: string[] = [];
+    mockStorageService.copyToTier.mockImplementation(async storagePath => { order.push(`copy ${storagePath}`); });
+    mockFileModel.updateMany.mockImplementation(async ({ storagePath }: { storagePath: string }) => {
+      order.push(`update ${storagePath}`);
+    });
+    mockStorageService.deleteFile.mockImplementation(async storagePath => { order.push(`delete ${storagePath}`); });
+
+    const result = await tieringService.tierOldShoots();
+
+    expect(result).toEqual({ shoots: 1, files: 2 });
+    expect(mockFileModel.distinct).toHaveBeenCalledWith('storagePath', { shootId: 'shoot1', storageTier: { $ne: 'cold' } });
+    expect(mockFileModel.updateMany).toHaveBeenCalledWith({ storagePath: '2023/01/a.cr3' }, { storageTier: 'cold' });
+    expect(order).toEqual([
+      'copy 2023/01/a.cr3', 'update 2023/01/a.cr3', 'delete 2023/01/a.cr3',
+      'copy 2023/01/b.xmp', 'update 2023/01/b.xmp', 'delete 2023/01/b.xmp',
+    ]);
+  });
+
+  it('should keep the local copy when copying fails', async () => {
+    mockStorageService.copyToTier.mockRejectedValue(new Error('Copy of 2023/01/a.cr3 to cold storage is incomplete'));
+
+    await expect(tieringService.tierOldShoots()).rejects.toThrow('incomplete');
+    expect(mockFileModel.updateMany).not.toHaveBeenCalled();
+    expect(mockStorageService.deleteFile).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing without a cold tier', async () => {
+    const hotOnly = new StorageTieringService(
+      mockFileModel as Model<any>,
+      { ...mockStorageService, hasColdTier: false } as unknown as StorageService,
+      { tierAfterDays: 180 }
+    );
+
+    expect(await hotOnly.tierOldShoots()).toEqual({ shoots: 0, files: 0 });
+    expect(mockFileModel.aggregate).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * TrashService Test Suite
+ * Purging deleted files, on request and once the retention period is over
+ */
+
+import { vi } from 'vitest';
+import type { Mocked } from 'vitest';
+import { Model } from 'mongoose';
+import { TrashService } from '../../src/services/TrashService.js';
+import { StorageService } from '../../src/services/StorageService.js';
+import { ProcessingQueue } from '../../src/services/ProcessingQueue.js';
+
+const mockFileModel = {
+  findById: vi.fn(),
+  find: vi.fn(),
+  updateMany: vi.fn(),
+  deleteOne: vi.fn(),
+} as any;
+
+const mockStorageService = {
+  releaseBlob: vi.fn(),
+  deleteFile: vi.fn(),
+  deleteDirectory: vi.fn(),
+  deleteChunks: vi.fn(),
+} as unknown as Mocked<StorageService>;
+
+const mockProcessingQueue = {
+  remove: vi.fn(),
+} as unknown as Mocked<ProcessingQueue>;
+
+function trashedDoc(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    _id: 'file123',
+    filename: 'test.jpg',
+    type: 'jpeg',
+    shootId: 'shoot123',
+    size: 1024,
+    mimeType: 'image/jpeg',
+    storagePath: '/2024/01/test-file.jpg',
+    processingStatus: 'completed',
+    deletedAt: new Date('2024-01-01T00:00:00Z'),
+    createdAt: new Date('2023-12-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('TrashService', () => {
+  let trashService: TrashService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    trashService = new TrashService(
+      mockFileModel as Model<any>,
+      mockStorageService,
+      mockProcessingQueue,
+      { retentionDays: 30 }
+    );
+
+    mockFileModel.deleteOne.mockResolvedValue({ deletedCount: 1 });
+  });
+
+  describe('purgeFile', () => {
+    it('should delete the file, its renditions and watermarked copies', async () => {
+      mockFileModel.findById.mockResolvedValue(trashedDoc({
+        renditions: [
+          { name: 'thumbnail', format: 'jpeg', storagePath: 'renditions/2024/01/file123_thumbnail.jpg' },
+        ],
+      }));
+
+      expect(await trashService.purgeFile('file123')).toBe(true);
+
+      expect(mockStorageService.deleteFile).toHaveBeenCalledWith('/2024/01/test-file.jpg', undefined);
+      expect(mockStorageService.deleteFile).toHaveBeenCalledWith('renditions/2024/01/file123_thumbnail.jpg');
+      expect(mockStorageService.deleteDirectory).toHaveBeenCalledWith('watermarks/file123');
+      expect(mockStorageService.deleteChunks).toHaveBeenCalledWith('file123');
+      expect(mockProcessingQueue.remove).toHaveBeenCalledWith('file123');
+      expect(mockFileModel.deleteOne).toHaveBeenCalledWith({ _id: 'file123' });
+    });
+
+    it('should release shared content instead of deleting its bytes', async () => {
+      mockFileModel.findById.mockResolvedValue(trashedDoc({ contentHash: 'abc123', storageTier: 'cold' }));
+
+      await trashService.purgeFile('file123');
+
+      expect(mockStorageService.releaseBlob).toHaveBeenCalledWith('abc123', 'cold');
+      expect(mockStorageService.deleteFile).not.toHaveBeenCalledWith('/2024/01/test-file.jpg', 'cold');
+    });
+
+    it('should unlink the sidecars of a purged RAW file', async () => {
+      mockFileModel.findById.mockResolvedValue(trashedDoc({ _id: 'raw123', type: 'raw' }));
+
+      await trashService.purgeFile('raw123');
+
+      expect(mockFileModel.updateMany).toHaveBeenCalledWith(
+        { parentFileId: 'raw123' },
+        { $unset: { parentFileId: 1 } }
+      );
+    });
+
+    it('should leave files outside the trash alone', async () => {
+      mockFileModel.findById.mockResolvedValue(trashedDoc({ deletedAt: undefined }));
+
+      expect(await trashService.purgeFile('file123')).toBe(false);
+      expect(mockStorageService.deleteFile).not.toHaveBeenCalled();
+      expect(mockFileModel.deleteOne).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('purgeExpiredTrash', () => {
+    it('should purge files deleted more than retentionDays ago', async () => {
+      mockFileModel.find.mockReturnValue({
+        exec: vi.fn().mockResolvedValue([{ _id: 'file123' }, { _id: 'file456' }]),
+      });
+      mockFileModel.findById.mockImplementation(async (id: string) => trashedDoc({ _id: id }));
+
+      const purged = await trashService.purgeExpiredTrash(new Date('2024-02-01T00:00:00Z'));
+
+      expect(purged).toBe(2);
+      expect(mockFileModel.find).toHaveBeenCalledWith(
+        { deletedAt: { $lt: new Date('2024-01-02T00:00:00Z') } },
+        { _id: 1 }
+      );
+      expect(mockFileModel.deleteOne).toHaveBeenCalledWith({ _id: 'file456' });
+    });
+
+    it('should not count files restored in the meantime', async () => {
+      mockFileModel.find.mockReturnValue({ exec: vi.fn().mockResolvedValue([{ _id: 'file123' }]) });
+      mockFileModel.findById.mockResolvedValue(trashedDoc({ deletedAt: undefined }));
+
+      expect(await trashService.purgeExpiredTrash()).toBe(0);
+    });
+  });
+
+  it('should list the shoot\'s trash, most recently deleted first', async () => {
+    const sort = vi.fn().mockReturnValue({ exec: vi.fn().mockResolvedValue([trashedDoc()]) });
+    mockFileModel.find.mockReturnValue({ sort });
+
+    const files = await trashService.listTrash('shoot123');
+
+    expect(mockFileModel.find).toHaveBeenCalledWith({ shootId: 'shoot123', deletedAt: { $exists: true } });
+    expect(sort).toHaveBeenCalledWith({ deletedAt: -1 });
+    expect(files[0]).toMatchObject({ id: 'file123', deletedAt: '2024-01-01T00:00:00.000Z' });
+  });
+});
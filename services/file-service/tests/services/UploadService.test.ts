@@ -0,0 +1,218 @@
+/**
+ * UploadService Test Suite
+ * Testing resumable (tus) chunk handling against a temporary storage path
+ */
+
+import { vi } from 'vitest';
+import type { Mocked } from 'vitest';
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { PassThrough, Readable } from 'stream';
+import { Model } from 'mongoose';
+import {
+  UploadService,
+  UploadChecksumMismatchError,
+  UploadOffsetMismatchError,
+  UploadTooLargeError
+} from '../../src/services/UploadService.js';
+import { StorageService } from '../../src/services/StorageService.js';
+import { FileService } from '../../src/services/FileService.js';
+
+const mockUploadModel = vi.fn() as any;
+mockUploadModel.findOne = vi.fn();
+mockUploadModel.findByIdAndUpdate = vi.fn();
+mockUploadModel.findByIdAndDelete = vi.fn();
+mockUploadModel.updateOne = vi.fn();
+mockUploadModel.find = vi.fn();
+mockUploadModel.deleteMany = vi.fn();
+
+const mockFileService = {
+  addFile: vi.fn(),
+} as Mocked<FileService>;
+
+function buildUploadDoc(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    _id: 'upload123',
+    shootId: 'shoot123',
+    filename: 'IMG_001.CR3',
+    mimeType: 'image/x-canon-cr3',
+    length: 10,
+    offset: 0,
+    partPath: 'uploads/upload123.part',
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides,
+  };
+}
+
+function sha256(data: string): string {
+  return createHash('sha256').update(data).digest('base64');
+}
+
+describe('UploadService', () => {
+  let basePath: string;
+  let uploadService: UploadService;
+
+  // Keep the upload record in step with offset updates, as Mongo would
+  const useUpload = (overrides: Record<string, unknown> = {}): void => {
+    let doc = buildUploadDoc(overrides);
+    mockUploadModel.findOne.mockImplementation(async () => doc);
+    mockUploadModel.findByIdAndUpdate.mockImplementation(async (_id: string, update: any) => {
+      doc = { ...doc, ...update.$set };
+      return doc;
+    });
+  };
+
+  const readPart = (): Promise<string> => fs.readFile(path.join(basePath, 'uploads/upload123.part'), 'utf8');
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    basePath = await fs.mkdtemp(path.join(os.tmpdir(), 'file-service-uploads-'));
+    await fs.mkdir(path.join(basePath, 'uploads'));
+    await fs.writeFile(path.join(basePath, 'uploads/upload123.part'), '');
+
+    const storageService = new StorageService(
+      { basePath, chunkSize: 1024, largeFileThreshold: 1024 * 1024, chunkTTLHours: 24 },
+      {} as Model<any>,
+      {} as Model<any>
+    );
+    uploadService = new UploadService(mockUploadModel as Model<any>, storageService, mockFileService, {
+      maxSize: 100,
+      expirationHours: 24,
+    });
+    mockFileService.addFile.mockImplementation(async (_data, content) => {
+      const storagePath = await content.store('file123');
+      return { id: 'file123', storagePath, contentHash: content.contentHash } as any;
+    });
+    mockUploadModel.updateOne.mockResolvedValue({ modifiedCount: 1 });
+  });
+
+  afterEach(async () => {
+    await fs.rm(basePath, { recursive: true, force: true });
+  });
+
+  describe('createUpload', () => {
+    it('should create an empty part file and an expiring upload record', async () => {
+      mockUploadModel.mockImplementation((data: Record<string, unknown>) => ({
+        save: vi.fn().mockResolvedValue(buildUploadDoc(data)),
+      }));
+
+      const { upload } = await uploadService.createUpload({
+        length: 10,
+        filename: 'IMG_001.CR3',
+        mimeType: 'image/x-canon-cr3',
+        shootId: 'shoot123',
+      });
+
+      const stats = await fs.stat(path.join(basePath, upload.partPath));
+      expect(stats.size).toBe(0);
+      expect(upload).toMatchObject({ offset: 0, length: 10 });
+      expect(mockUploadModel).toHaveBeenCalledWith(expect.objectContaining({ expiresAt: expect.any(Date) }));
+    });
+
+    it('should refuse uploads above the maximum size', async () => {
+      await expect(uploadService.createUpload({
+        length: 101,
+        filename: 'clip.mov',
+        mimeType: 'video/quicktime',
+        shootId: 'shoot123',
+      })).rejects.toBeInstanceOf(UploadTooLargeError);
+    });
+  });
+
+  describe('appendChunk', () => {
+    it('should append chunks and register the file once complete', async () => {
+      useUpload();
+
+      const first = await uploadService.appendChunk('upload123', 0, Readable.from([Buffer.from('hello')]));
+      expect(first.upload.offset).toBe(5);
+      expect(first.file).toBeUndefined();
+
+      const second = await uploadService.appendChunk('upload123', 5, Readable.from([Buffer.from('world')]));
+
+      expect(second.file).toBeDefined();
+      expect(mockFileService.addFile).toHaveBeenCalledWith(expect.objectContaining({
+        originalName: 'IMG_001.CR3',
+        shootId: 'shoot123',
+        size: 10,
+      }), expect.objectContaining({ contentHash: createHash('sha256').update('helloworld').digest('hex') }));
+      expect(await fs.readFile(path.join(basePath, second.file?.storagePath ?? ''), 'utf8')).toBe('helloworld');
+      expect(mockUploadModel.updateOne).toHaveBeenCalledWith(
+        { _id: 'upload123' },
+        { $set: { fileId: 'file123' } }
+      );
+    });
+
+    it('should reject a chunk sent for the wrong offset', async () => {
+      useUpload({ offset: 5 });
+
+      await expect(uploadService.appendChunk('upload123', 0, Readable.from([Buffer.from('hello')])))
+        .rejects.toBeInstanceOf(UploadOffsetMismatchError);
+    });
+
+    it('should drop a chunk whose checksum does not match', async () => {
+      useUpload();
+
+      await expect(uploadService.appendChunk('upload123', 0, Readable.from([Buffer.from('hello')]), {
+        algorithm: 'sha256',
+        digest: sha256('other'),
+      })).rejects.toBeInstanceOf(UploadChecksumMismatchError);
+
+      expect(await readPart()).toBe('');
+      expect(mockUploadModel.findByIdAndUpdate).not.toHaveBeenCalled();
+    });
+
+    it('should refuse bytes beyond the declared length', async () => {
+      useUpload();
+
+      await expect(uploadService.appendChunk('upload123', 0, Readable.from([Buffer.from('hello world!')])))
+        .rejects.toBeInstanceOf(UploadTooLargeError);
+
+      expect(await readPart()).toBe('');
+    });
+
+    it('should keep what arrived before an interrupted request', async () => {
+      useUpload();
+      const stream = new PassThrough();
+
+      const appended = uploadService.appendChunk('upload123', 0, stream);
+      stream.write('hel');
+      await vi.waitFor(async () => expect(await readPart()).toBe('hel'));
+      stream.destroy(new Error('aborted'));
+
+      await expect(appended).rejects.toThrow('aborted');
+      expect(mockUploadModel.findByIdAndUpdate).toHaveBeenCalledWith(
+        'upload123',
+        { $set: { offset: 3, expiresAt: expect.any(Date) } },
+        { new: true }
+      );
+    });
+
+    it('should discard the upload when the whole-file checksum does not match', async () => {
+      useUpload({ length: 5, checksum: `sha256 ${sha256('other')}` });
+      mockUploadModel.findByIdAndDelete.mockResolvedValue(buildUploadDoc());
+
+      await expect(uploadService.appendChunk('upload123', 0, Readable.from([Buffer.from('hello')])))
+        .rejects.toBeInstanceOf(UploadChecksumMismatchError);
+
+      expect(mockUploadModel.findByIdAndDelete).toHaveBeenCalledWith('upload123');
+      expect(mockFileService.addFile).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cleanupExpiredUploads', () => {
+    it('should remove expired uploads with their part files', async () => {
+      mockUploadModel.find.mockResolvedValue([buildUploadDoc({ expiresAt: new Date(0) })]);
+      mockUploadModel.deleteMany.mockResolvedValue({ deletedCount: 1 });
+
+      const cleaned = await uploadService.cleanupExpiredUploads();
+
+      expect(cleaned).toBe(1);
+      await expect(fs.stat(path.join(basePath, 'uploads/upload123.part'))).rejects.toThrow();
+      expect(mockUploadModel.deleteMany).toHaveBeenCalledWith({ _id: { $in: ['upload123'] } });
+    });
+  });
+});
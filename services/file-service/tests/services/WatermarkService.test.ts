@@ -0,0 +1,182 @@
+/**
+ * WatermarkService Test Suite
+ * Testing watermarked downloads against renditions on a temporary storage path
+ */
+
+import { vi } from 'vitest';
+import type { Mocked } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import sharp from 'sharp';
+import { WatermarkService, WatermarkRequiredError } from '../../src/services/WatermarkService.js';
+import { FileService } from '../../src/services/FileService.js';
+import { GalleryNotFoundError, GalleryPort } from '../../src/shared/clients/portfolio-service.client.js';
+import { FileModel, WatermarkSettings } from '../../src/shared/contracts/files.api.js';
+import { DownloadTarget } from '../../src/shared/utils/renditions.js';
+
+const mockFileService = {
+  getFileById: vi.fn(),
+} as Mocked<FileService>;
+
+const mockGalleries = {
+  getGallery: vi.fn(),
+  listShootGalleries: vi.fn(),
+} as Mocked<GalleryPort>;
+
+const watermark: WatermarkSettings = {
+  enabled: true,
+  logoFileId: 'logo123',
+  position: 'bottom-right',
+  opacity: 0.8,
+  scale: 0.2,
+};
+
+const file: FileModel = {
+  id: 'file123',
+  filename: 'portrait.jpg',
+  type: 'jpeg',
+  size: 0,
+  mimeType: 'image/jpeg',
+  shootId: 'shoot123',
+  storagePath: '2024/01/file123.jpg',
+  processingStatus: 'completed',
+  createdAt: '2024-01-01T00:00:00Z',
+  updatedAt: '2024-01-01T00:00:00Z',
+};
+
+const rendition: DownloadTarget = {
+  storagePath: 'renditions/2024/01/file123_medium.jpg',
+  mimeType: 'image/jpeg',
+  filename: 'portrait_medium.jpg',
+  isOriginal: false,
+};
+
+describe('WatermarkService', () => {
+  let basePath: string;
+  let watermarkService: WatermarkService;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    basePath = await fs.mkdtemp(path.join(os.tmpdir(), 'file-service-watermarks-'));
+    await fs.mkdir(path.join(basePath, 'renditions/2024/01'), { recursive: true });
+    await sharp({ create: { width: 300, height: 200, channels: 3, background: '#406080' } })
+      .jpeg()
+      .toFile(path.join(basePath, rendition.storagePath));
+    await sharp({ create: { width: 40, height: 20, channels: 4, background: '#ffffff80' } })
+      .png()
+      .toFile(path.join(basePath, 'logo.png'));
+
+    mockFileService.getFileById.mockResolvedValue({ ...file, id: 'logo123', type: 'png', storagePath: 'logo.png' });
+    watermarkService = new WatermarkService(mockFileService, mockGalleries, basePath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(basePath, { recursive: true, force: true });
+  });
+
+  it('should serve the rendition as is when the gallery has no watermark on', async () => {
+    mockGalleries.getGallery.mockResolvedValue({ id: 'gal123', shootId: 'shoot123', watermark: { ...watermark, enabled: false } });
+
+    const target = await watermarkService.resolveDownload(file, rendition, 'client', 'gal123');
+
+    expect(target).toEqual(rendition);
+  });
+
+  it('should render the watermarked rendition once and serve it from the cache', async () => {
+    mockGalleries.getGallery.mockResolvedValue({ id: 'gal123', shootId: 'shoot123', watermark });
+
+    const [first, concurrent] = await Promise.all([
+      watermarkService.resolveDownload(file, rendition, 'client', 'gal123'),
+      watermarkService.resolveDownload(file, rendition, 'client', 'gal123'),
+    ]);
+    const again = await watermarkService.resolveDownload(file, rendition, 'client', 'gal123');
+
+    expect(first.storagePath).toMatch(/^watermarks\/file123\/[0-9a-f]{16}_file123_medium\.jpg$/);
+    expect(concurrent.storagePath).toBe(first.storagePath);
+    expect(again.storagePath).toBe(first.storagePath);
+    expect(mockFileService.getFileById).toHaveBeenCalledTimes(1);
+    expect(await sharp(path.join(basePath, first.storagePath)).metadata()).toMatchObject({
+      format: 'jpeg',
+      width: 300,
+      height: 200,
+    });
+    expect(await fs.readdir(path.join(basePath, 'watermarks/file123'))).toHaveLength(1);
+  });
+
+  it('should refuse originals while the watermark is on', async () => {
+    mockGalleries.getGallery.mockResolvedValue({ id: 'gal123', shootId: 'shoot123', watermark });
+
+    await expect(watermarkService.resolveDownload(file, {
+      storagePath: file.storagePath,
+      mimeType: file.mimeType,
+      filename: file.filename,
+      isOriginal: true,
+    }, 'client', 'gal123')).rejects.toBeInstanceOf(WatermarkRequiredError);
+  });
+
+  it('should not serve files of another shoot through a client gallery', async () => {
+    mockGalleries.getGallery.mockResolvedValue({ id: 'gal123', shootId: 'shoot999' });
+
+    await expect(watermarkService.resolveDownload(file, rendition, 'client', 'gal123'))
+      .rejects.toBeInstanceOf(GalleryNotFoundError);
+  });
+
+  it('should not serve files through a portfolio gallery, which has no shoot', async () => {
+    mockGalleries.getGallery.mockResolvedValue({ id: 'portfolio-gal', watermark: { ...watermark, enabled: false } });
+
+    await expect(watermarkService.resolveDownload(file, rendition, 'client', 'portfolio-gal'))
+      .rejects.toBeInstanceOf(GalleryNotFoundError);
+  });
+
+  it('should apply the watermark of the shoot\'s galleries when the link names none', async () => {
+    mockGalleries.listShootGalleries.mockResolvedValue([
+      { id: 'gal122', shootId: 'shoot123', watermark: { ...watermark, enabled: false } },
+      { id: 'gal123', shootId: 'shoot123', watermark },
+    ]);
+
+    const target = await watermarkService.resolveDownload(file, rendition, 'client');
+
+    expect(mockGalleries.listShootGalleries).toHaveBeenCalledWith('shoot123');
+    expect(mockGalleries.getGallery).not.toHaveBeenCalled();
+    expect(target.storagePath).toMatch(/^watermarks\/file123\//);
+  });
+
+  it('should refuse originals without a gallery while the shoot has a watermark on', async () => {
+    mockGalleries.listShootGalleries.mockResolvedValue([{ id: 'gal123', shootId: 'shoot123', watermark }]);
+
+    await expect(watermarkService.resolveDownload(file, {
+      storagePath: file.storagePath,
+      mimeType: file.mimeType,
+      filename: file.filename,
+      isOriginal: true,
+    }, 'client')).rejects.toBeInstanceOf(WatermarkRequiredError);
+  });
+
+  it('should serve clean copies when none of the shoot\'s galleries has a watermark on', async () => {
+    mockGalleries.listShootGalleries.mockResolvedValue([
+      { id: 'gal123', shootId: 'shoot123', watermark: { ...watermark, enabled: false } },
+    ]);
+
+    const target = await watermarkService.resolveDownload(file, rendition, 'client');
+
+    expect(target).toEqual(rendition);
+  });
+
+  it('should serve the photographer clean originals whatever the watermark', async () => {
+    const original = { storagePath: file.storagePath, mimeType: file.mimeType, filename: file.filename, isOriginal: true };
+
+    const target = await watermarkService.resolveDownload(file, original, 'photographer');
+
+    expect(target).toEqual(original);
+    expect(mockGalleries.listShootGalleries).not.toHaveBeenCalled();
+  });
+
+  it('should keep archives of a watermarked shoot to the photographer', async () => {
+    mockGalleries.listShootGalleries.mockResolvedValue([{ id: 'gal123', shootId: 'shoot123', watermark }]);
+
+    await expect(watermarkService.assertOriginalsAvailable('shoot123', 'client'))
+      .rejects.toBeInstanceOf(WatermarkRequiredError);
+    await expect(watermarkService.assertOriginalsAvailable('shoot123', 'photographer')).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * FilesystemStorageDriver Test Suite
+ * Testing the filesystem driver against a temporary directory
+ */
+
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { FilesystemStorageDriver } from '../../../src/services/storage/FilesystemStorageDriver.js';
+
+async function read(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+describe('FilesystemStorageDriver', () => {
+  let basePath: string;
+  let driver: FilesystemStorageDriver;
+
+  beforeEach(async () => {
+    basePath = await fs.mkdtemp(path.join(os.tmpdir(), 'file-service-storage-'));
+    driver = new FilesystemStorageDriver(basePath);
+  });
+
+  afterEach(async () => {
+    await fs.rm(basePath, { recursive: true, force: true });
+  });
+
+  it('should write buffers and streams under the base path', async () => {
+    await driver.put('2024/01/a.cr3', Buffer.from('raw bytes'));
+    await driver.put('2024/01/b.xmp', Readable.from([Buffer.from('<x/>')]));
+
+    expect(await fs.readFile(path.join(basePath, '2024/01/a.cr3'), 'utf8')).toBe('raw bytes');
+    expect(await driver.get('2024/01/b.xmp')).toEqual(Buffer.from('<x/>'));
+    expect(await driver.stat('2024/01/a.cr3')).toMatchObject({ key: '2024/01/a.cr3', size: 9 });
+  });
+
+  it('should read byte ranges', async () => {
+    await driver.put('2024/01/a.cr3', Buffer.from('0123456789'));
+
+    expect(await read(await driver.stream('2024/01/a.cr3', { start: 2, end: 5 }))).toEqual(Buffer.from('2345'));
+  });
+
+  it('should report missing files and delete them quietly', async () => {
+    expect(await driver.stat('2024/01/missing.cr3')).toBeNull();
+    await expect(driver.delete('2024/01/missing.cr3')).resolves.toBeUndefined();
+  });
+
+  it('should list files with the prefix', async () => {
+    for (const key of ['2024/01/a', '2024/01/b', '2024/02/c', '2025/01/d']) {
+      await driver.put(key, Buffer.from(key));
+    }
+
+    const listed = [];
+    for await (const object of driver.list('2024/0')) {
+      listed.push(object.key);
+    }
+
+    expect(listed.sort()).toEqual(['2024/01/a', '2024/01/b', '2024/02/c']);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * S3StorageDriver Test Suite
+ * Testing the S3 driver against an S3-compatible stand-in endpoint
+ */
+
+import { Readable } from 'stream';
+import { S3StorageDriver } from '../../../src/services/storage/S3StorageDriver.js';
+import { S3StandIn, startS3StandIn } from '../../fixtures/s3-stand-in.js';
+
+async function read(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+describe('S3StorageDriver', () => {
+  let standIn: S3StandIn;
+  let driver: S3StorageDriver;
+
+  beforeEach(async () => {
+    standIn = await startS3StandIn(2);
+    driver = new S3StorageDriver({
+      endpoint: standIn.endpoint,
+      region: 'us-east-1',
+      bucket: 'studio',
+      accessKeyId: 'minio',
+      secretAccessKey: 'minio-secret',
+      forcePathStyle: true,
+      keyPrefix: 'cold/',
+      partSize: 8,
+    });
+  });
+
+  afterEach(async () => {
+    await standIn.close();
+  });
+
+  it('should write and read objects under the key prefix', async () => {
+    await driver.put('2024/01/a.cr3', Buffer.from('raw bytes'));
+
+    expect(standIn.objects.get('studio/cold/2024/01/a.cr3')).toEqual(Buffer.from('raw bytes'));
+    expect(await driver.get('2024/01/a.cr3')).toEqual(Buffer.from('raw bytes'));
+    expect(await driver.stat('2024/01/a.cr3')).toMatchObject({ key: '2024/01/a.cr3', size: 9 });
+  });
+
+  it('should upload streams longer than a part in parts', async () => {
+    const data = Buffer.from('0123456789abcdefghij'); // Parts of 8, 8 and 4 bytes
+
+    await driver.put('2024/01/b.mov', Readable.from([data.subarray(0, 5), data.subarray(5)]));
+
+    expect(standIn.objects.get('studio/cold/2024/01/b.mov')).toEqual(data);
+  });
+
+  it('should put short streams in one request', async () => {
+    await driver.put('2024/01/c.xmp', Readable.from([Buffer.from('<x/>')]));
+
+    expect(await driver.get('2024/01/c.xmp')).toEqual(Buffer.from('<x/>'));
+  });
+
+  it('should read byte ranges', async () => {
+    await driver.put('2024/01/a.cr3', Buffer.from('0123456789'));
+
+    expect(await read(await driver.stream('2024/01/a.cr3', { start: 2, end: 5 }))).toEqual(Buffer.from('2345'));
+    expect(await read(await driver.stream('2024/01/a.cr3', { start: 7 }))).toEqual(Buffer.from('789'));
+    expect(await read(await driver.stream('2024/01/a.cr3'))).toEqual(Buffer.from('0123456789'));
+  });
+
+  it('should report missing objects and delete them quietly', async () => {
+    await driver.put('2024/01/a.cr3', Buffer.from('x'));
+    await driver.delete('2024/01/a.cr3');
+
+    expect(await driver.stat('2024/01/a.cr3')).toBeNull();
+    await expect(driver.delete('2024/01/a.cr3')).resolves.toBeUndefined();
+  });
+
+  it('should list every page of keys with the prefix', async () => {
+    for (const key of ['2024/01/a', '2024/01/b', '2024/02/c', '2025/01/d']) {
+      await driver.put(key, Buffer.from(key));
+    }
+
+    const listed = [];
+    for await (const object of driver.list('2024/')) {
+      listed.push([object.key, object.size]);
+    }
+
+    expect(listed).toEqual([['2024/01/a', 9], ['2024/01/b', 9], ['2024/02/c', 9]]);
+  });
+});
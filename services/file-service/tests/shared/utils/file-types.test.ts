@@ -0,0 +1,33 @@
+/**
+ * File Type Utilities Test Suite
+ * Testing the basename matching that pairs sidecars with RAW files
+ */
+
+import { pairingBaseName, sameBaseNamePattern } from '../../../src/shared/utils/file-types.js';
+
+describe('pairingBaseName', () => {
+  it('should strip the extension, and a RAW extension before a sidecar one', () => {
+    expect(pairingBaseName('IMG_1234.CR3')).toBe('IMG_1234');
+    expect(pairingBaseName('IMG_1234.xmp')).toBe('IMG_1234');
+    expect(pairingBaseName('IMG_1234.CR3.xmp')).toBe('IMG_1234');
+    expect(pairingBaseName('wedding.final.psd')).toBe('wedding.final');
+  });
+});
+
+describe('sameBaseNamePattern', () => {
+  it('should match files of the same basename regardless of case', () => {
+    const pattern = sameBaseNamePattern('IMG_1234.xmp');
+
+    expect(pattern.test('IMG_1234.CR3')).toBe(true);
+    expect(pattern.test('img_1234.nef')).toBe(true);
+    expect(pattern.test('IMG_12345.CR3')).toBe(false);
+    expect(pattern.test('IMG_1234')).toBe(false);
+  });
+
+  it('should treat regex characters in filenames literally', () => {
+    const pattern = sameBaseNamePattern('shot (1).xmp');
+
+    expect(pattern.test('shot (1).ARW')).toBe(true);
+    expect(pattern.test('shot 1.ARW')).toBe(false);
+  });
+});
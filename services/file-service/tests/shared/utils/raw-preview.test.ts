@@ -0,0 +1,64 @@
+/**
+ * RAW Preview Extraction Test Suite
+ * Testing embedded JPEG lookup in TIFF/IFD and CR3 containers
+ */
+
+import { extractRawPreview } from '../../../src/shared/utils/raw-preview.js';
+import { buildCr3Raw, buildJpeg, buildTiffRaw } from '../../fixtures/raw-files.js';
+
+describe('extractRawPreview', () => {
+  let thumbnail: Buffer;
+  let preview: Buffer;
+
+  beforeAll(async () => {
+    thumbnail = await buildJpeg(160, 120);
+    preview = await buildJpeg(640, 480);
+  });
+
+  describe('TIFF-based RAW (CR2, NEF, ARW, DNG...)', () => {
+    it('should return the largest embedded JPEG with the RAW orientation', () => {
+      const raw = buildTiffRaw([thumbnail, preview], { orientation: 6 });
+
+      const result = extractRawPreview(raw);
+
+      expect(result).toMatchObject({ width: 640, height: 480, orientation: 6 });
+      expect(result?.data.equals(preview)).toBe(true);
+    });
+
+    it('should read big-endian (Motorola) files', () => {
+      const result = extractRawPreview(buildTiffRaw([preview], { bigEndian: true }));
+
+      expect(result).toMatchObject({ width: 640, height: 480 });
+      expect(result?.orientation).toBeUndefined();
+    });
+
+    it('should skip lossless JPEG sensor data', () => {
+      // SOF3 frame header, as used for the raw data of many formats
+      const lossless = Buffer.from([0xff, 0xd8, 0xff, 0xc3, 0x00, 0x0b, 0x0c, 0x10, 0x00, 0x20, 0x00, 0x00, 0x00, 0xff, 0xd9]);
+
+      const result = extractRawPreview(buildTiffRaw([lossless, thumbnail]));
+
+      expect(result).toMatchObject({ width: 160, height: 120 });
+    });
+
+    it('should return null when offsets point outside the file', () => {
+      const raw = buildTiffRaw([preview]);
+
+      expect(extractRawPreview(raw.subarray(0, raw.length - preview.length))).toBeNull();
+    });
+  });
+
+  describe('CR3', () => {
+    it('should prefer the PRVW preview over the THMB thumbnail', () => {
+      const result = extractRawPreview(buildCr3Raw(thumbnail, preview, 8));
+
+      expect(result).toMatchObject({ width: 640, height: 480, orientation: 8 });
+      expect(result?.data.equals(preview)).toBe(true);
+    });
+  });
+
+  it('should return null for files that are not RAW containers', () => {
+    expect(extractRawPreview(preview)).toBeNull();
+    expect(extractRawPreview(Buffer.alloc(4))).toBeNull();
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Signed Download Link Test Suite
+ * Testing that links only grant what they were signed for, and only until they expire
+ */
+
+import {
+  DownloadResource,
+  SignedDownloadQuery,
+  signDownloadQuery,
+  verifyDownloadQuery
+} from '../../../src/shared/utils/signed-urls.js';
+
+const secret = 'test-secret';
+const file: DownloadResource = { kind: 'file', id: 'file123', shootId: 'shoot123' };
+const expires = Math.floor(Date.now() / 1000) + 3600;
+
+function signedQuery(grant = { userId: 'user123', role: 'client', resolution: 'medium' }): SignedDownloadQuery {
+  return Object.fromEntries(new URLSearchParams(signDownloadQuery(file, grant, expires, secret)));
+}
+
+describe('signed download links', () => {
+  it('should put the rendition, user, role and expiry next to the signature', () => {
+    expect(signedQuery()).toEqual({
+      resolution: 'medium',
+      user: 'user123',
+      role: 'client',
+      expires: String(expires),
+      signature: expect.stringMatching(/^[\w-]{43}$/),
+    });
+  });
+
+  it('should accept a link for what it was signed for', () => {
+    expect(verifyDownloadQuery(file, signedQuery(), secret)).toBe('valid');
+  });
+
+  it('should reject links that were changed, moved or signed with another secret', () => {
+    const query = signedQuery();
+
+    expect(verifyDownloadQuery(file, { ...query, resolution: 'raw' }, secret)).toBe('invalid');
+    expect(verifyDownloadQuery(file, { ...query, user: 'user999' }, secret)).toBe('invalid');
+    expect(verifyDownloadQuery(file, { ...query, role: 'photographer' }, secret)).toBe('invalid');
+    expect(verifyDownloadQuery(file, { ...query, expires: String(expires + 3600) }, secret)).toBe('invalid');
+    expect(verifyDownloadQuery({ ...file, id: 'file999' }, query, secret)).toBe('invalid');
+    expect(verifyDownloadQuery({ ...file, shootId: 'shoot999' }, query, secret)).toBe('invalid');
+    expect(verifyDownloadQuery({ ...file, kind: 'archive' }, query, secret)).toBe('invalid');
+    expect(verifyDownloadQuery(file, query, 'other-secret')).toBe('invalid');
+  });
+
+  it('should reject links without a signature', () => {
+    const { signature: _signature, ...unsigned } = signedQuery();
+    const { role: _role, ...roleless } = signedQuery();
+
+    expect(verifyDownloadQuery(file, unsigned, secret)).toBe('invalid');
+    expect(verifyDownloadQuery(file, roleless, secret)).toBe('invalid');
+    expect(verifyDownloadQuery(file, {}, secret)).toBe('invalid');
+  });
+
+  it('should report genuine links as expired once their time is up', () => {
+    expect(verifyDownloadQuery(file, signedQuery(), secret, (expires + 1) * 1000)).toBe('expired');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Watermark Utilities Test Suite
+ * Testing where and how large watermarks land on an image
+ */
+
+import sharp from 'sharp';
+import { applyWatermark, watermarkCachePath } from '../../../src/shared/utils/watermark.js';
+import { WatermarkSettings } from '../../../src/shared/contracts/files.api.js';
+
+const settings: WatermarkSettings = {
+  enabled: true,
+  logoFileId: 'logo123',
+  position: 'bottom-right',
+  opacity: 1,
+  scale: 0.25,
+};
+
+async function solidPng(width: number, height: number, colour: string): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: colour } }).png().toBuffer();
+}
+
+// Red channel of one pixel
+async function redAt(image: Buffer, x: number, y: number): Promise<number> {
+  const { data, info } = await sharp(image).raw().toBuffer({ resolveWithObject: true });
+  return data[(y * info.width + x) * info.channels];
+}
+
+describe('applyWatermark', () => {
+  let image: Buffer;
+  let logo: Buffer;
+
+  beforeAll(async () => {
+    image = await solidPng(400, 200, '#000000');
+    logo = await solidPng(50, 50, '#ff0000');
+  });
+
+  it('should place the logo in the requested corner at the requested width', async () => {
+    const output = await (await applyWatermark(image, settings, logo)).png().toBuffer();
+
+    // 100px wide (a quarter of 400), 4px (2% of 200) off the edges
+    expect(await redAt(output, 397, 197)).toBe(0);
+    expect(await redAt(output, 395, 195)).toBe(255);
+    expect(await redAt(output, 296, 190)).toBe(255);
+    expect(await redAt(output, 295, 190)).toBe(0);
+    expect(await redAt(output, 10, 10)).toBe(0);
+  });
+
+  it('should blend the logo by its opacity', async () => {
+    const output = await (await applyWatermark(image, { ...settings, opacity: 0.5 }, logo)).png().toBuffer();
+
+    expect(await redAt(output, 390, 190)).toBeGreaterThan(100);
+    expect(await redAt(output, 390, 190)).toBeLessThan(155);
+  });
+
+  it('should repeat a tiled watermark across the image', async () => {
+    const output = await (await applyWatermark(image, { ...settings, position: 'tiled', scale: 0.1 }, logo))
+      .png()
+      .toBuffer();
+
+    expect(await redAt(output, 10, 10)).toBe(255);
+    expect(await redAt(output, 200, 100)).toBe(255);
+  });
+
+  it('should keep the image size when stamping text', async () => {
+    const textSettings = { ...settings, logoFileId: undefined, text: '© Studio Proof', position: 'center' as const };
+
+    const metadata = await (await applyWatermark(image, textSettings)).png().toBuffer().then(b => sharp(b).metadata());
+
+    expect(metadata).toMatchObject({ width: 400, height: 200 });
+  });
+});
+
+describe('watermarkCachePath', () => {
+  it('should key cached copies by file and settings', () => {
+    const first = watermarkCachePath('file123', 'renditions/2024/01/file123_medium.jpg', settings);
+    const moved = watermarkCachePath('file123', 'renditions/2024/01/file123_medium.jpg', { ...settings, position: 'center' });
+
+    expect(first).toMatch(/^watermarks\/file123\/[0-9a-f]{16}_file123_medium\.jpg$/);
+    expect(moved).not.toBe(first);
+  });
+});
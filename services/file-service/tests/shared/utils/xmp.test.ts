@@ -0,0 +1,64 @@
+/**
+ * XMP Utilities Test Suite
+ * Testing culling metadata parsed from Lightroom, Bridge and digiKam sidecars
+ */
+
+import { parseXmp } from '../../../src/shared/utils/xmp.js';
+
+const lightroomXmp = `<?xpacket begin="" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+ <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+  <rdf:Description rdf:about=""
+    xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+    xmlns:crs="http://ns.adobe.com/camera-raw-settings/1.0/"
+    xmp:Rating="4"
+    xmp:Label="Red"
+    crs:HasCrop="True"
+    crs:CropTop="0.05"
+    crs:CropLeft="0.1"
+    crs:CropBottom="0.95"
+    crs:CropRight="0.9"
+    crs:CropAngle="-1.5">
+   <dc:subject>
+    <rdf:Bag>
+     <rdf:li>ceremony</rdf:li>
+     <rdf:li>first kiss &amp; rings</rdf:li>
+    </rdf:Bag>
+   </dc:subject>
+  </rdf:Description>
+ </rdf:RDF>
+</x:xmpmeta>`;
+
+describe('parseXmp', () => {
+  it('should read rating, label, keywords and crop from a Lightroom sidecar', () => {
+    expect(parseXmp(lightroomXmp)).toEqual({
+      rating: 4,
+      label: 'Red',
+      keywords: ['ceremony', 'first kiss & rings'],
+      crop: { top: 0.05, left: 0.1, bottom: 0.95, right: 0.9, angle: -1.5 },
+    });
+  });
+
+  it('should read properties written as elements', () => {
+    const xmp = parseXmp('<rdf:Description><xmp:Rating>2</xmp:Rating><xmp:Label>Blue</xmp:Label></rdf:Description>');
+
+    expect(xmp).toEqual({ rating: 2, label: 'Blue' });
+  });
+
+  it('should treat a rating of -1 as a reject', () => {
+    expect(parseXmp('<rdf:Description xmp:Rating="-1"/>')).toEqual({ pick: 'rejected' });
+  });
+
+  it('should read Bridge and digiKam pick flags', () => {
+    expect(parseXmp('<rdf:Description xmpDM:pick="1"/>').pick).toBe('picked');
+    expect(parseXmp('<rdf:Description xmpDM:pick="-1"/>').pick).toBe('rejected');
+    expect(parseXmp('<rdf:Description digiKam:PickLabel="3"/>').pick).toBe('picked');
+    expect(parseXmp('<rdf:Description digiKam:PickLabel="2"/>').pick).toBeUndefined();
+  });
+
+  it('should leave out malformed values and crops that are switched off', () => {
+    const xmp = parseXmp('<rdf:Description xmp:Rating="lots" crs:HasCrop="False" crs:CropTop="0.1"/>');
+
+    expect(xmp).toEqual({});
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * ZIP Layout Test Suite
+ * Testing that archive sizes and headers follow from the entries alone, ZIP64 included
+ */
+
+import {
+  centralDirectory,
+  localFileHeader,
+  planZip,
+  uniqueEntryNames
+} from '../../../src/shared/utils/zip.js';
+
+const modifiedAt = new Date('2024-06-01T10:20:30Z');
+
+describe('planZip', () => {
+  it('should lay out local headers, data, central directory and end record', () => {
+    const layout = planZip([
+      { name: 'a.jpg', size: 100, modifiedAt },
+      { name: 'é.cr3', size: 50, modifiedAt },
+    ]);
+
+    // 30-byte local headers plus names (é is two bytes in UTF-8)
+    expect(layout.entries.map(e => [e.offset, e.headerSize])).toEqual([[0, 35], [135, 36]]);
+    expect(layout.centralDirectoryOffset).toBe(221);
+    // 46-byte central headers plus names, then the 22-byte end record
+    expect(layout.size).toBe(221 + 51 + 52 + 22);
+  });
+
+  it('should write exactly the planned number of bytes', () => {
+    const layout = planZip([{ name: 'a.jpg', size: 100, modifiedAt }]);
+
+    const header = localFileHeader(layout.entries[0], 0x12345678);
+    const directory = centralDirectory(layout, [0x12345678]);
+
+    expect(header.length).toBe(layout.entries[0].headerSize);
+    expect(header.readUInt32LE(0)).toBe(0x04034b50);
+    expect(header.readUInt32LE(14)).toBe(0x12345678);
+    expect(layout.centralDirectoryOffset + directory.length).toBe(layout.size);
+    expect(directory.readUInt32LE(directory.length - 22)).toBe(0x06054b50);
+  });
+
+  it('should switch to ZIP64 for entries and offsets past 4GB', () => {
+    const layout = planZip([
+      { name: 'ceremony.mov', size: 5 * 1024 ** 3, modifiedAt },
+      { name: 'a.jpg', size: 100, modifiedAt },
+    ]);
+    const [video, photo] = layout.entries;
+
+    expect(video.zip64).toBe(true);
+    expect(photo.zip64).toBe(false);
+    expect(photo.offset).toBe(video.headerSize + 5 * 1024 ** 3);
+
+    const header = localFileHeader(video, 0);
+    expect(header.readUInt32LE(18)).toBe(0xffffffff);
+    expect(header.readBigUInt64LE(header.length - 16)).toBe(BigInt(5 * 1024 ** 3));
+
+    const directory = centralDirectory(layout, [0, 0]);
+    expect(layout.centralDirectoryOffset + directory.length).toBe(layout.size);
+    // ZIP64 end record and locator before the classic end record
+    expect(directory.readUInt32LE(directory.length - 98)).toBe(0x06064b50);
+    expect(directory.readUInt32LE(directory.length - 42)).toBe(0x07064b50);
+    expect(directory.readUInt32LE(directory.length - 6)).toBe(0xffffffff);
+  });
+
+  it('should give the same bytes for the same entries', () => {
+    const entries = [{ name: 'a.jpg', size: 100, modifiedAt }];
+
+    expect(centralDirectory(planZip(entries), [7])).toEqual(centralDirectory(planZip(entries), [7]));
+  });
+});
+
+describe('uniqueEntryNames', () => {
+  it('should number later duplicates before the extension', () => {
+    expect(uniqueEntryNames(['IMG_1.jpg', 'img_1.JPG', 'IMG_1.jpg', 'IMG_2.jpg']))
+      .toEqual(['IMG_1.jpg', 'img_1 (2).JPG', 'IMG_1 (3).jpg', 'IMG_2.jpg']);
+  });
+});
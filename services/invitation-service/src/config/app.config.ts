@@ -3,8 +3,10 @@ import { getServiceConfig } from '@tempsdarret/shared/config';
 // Derived from the canonical service registry (single source of truth);
 // env vars still override at runtime. invitationTtl (a unit-bearing duration
 // string, parsed to ms at use) and appBaseUrl feed the magic link carried in
-// invitation.created.
+// invitation.created. refreshTokenTtl bounds how long a client session can be
+// renewed without a new magic link.
 export const appConfig = {
   ...getServiceConfig('invitation-service'),
-  invitationTtl: process.env['INVITATION_TTL'] ?? '48h'
+  invitationTtl: process.env['INVITATION_TTL'] ?? '48h',
+  refreshTokenTtl: process.env['REFRESH_TOKEN_TTL'] ?? '30d'
 };
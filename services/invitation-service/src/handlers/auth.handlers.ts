@@ -0,0 +1,47 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import { AuthSessionService, InvalidRefreshTokenError } from '../services/auth-session.service';
+import {
+  RefreshSessionRequestSchema,
+  LogoutRequestSchema
+} from '../shared/contracts/invites.dto';
+
+export class AuthHandlers {
+  constructor(private readonly authSessionService: AuthSessionService) {}
+
+  async refreshSession(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const { refreshToken } = RefreshSessionRequestSchema.parse(request.body);
+
+      const authResponse = await this.authSessionService.refresh(refreshToken);
+
+      await reply.status(200).send({
+        success: true,
+        data: authResponse
+      });
+    } catch (error) {
+      const statusCode = error instanceof InvalidRefreshTokenError ? 401 : 400;
+
+      await reply.status(statusCode).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid refresh request'
+      });
+    }
+  }
+
+  async logout(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const { refreshToken } = LogoutRequestSchema.parse(request.body ?? {});
+
+      if (refreshToken) {
+        await this.authSessionService.logout(refreshToken);
+      }
+
+      await reply.status(204).send();
+    } catch (error) {
+      await reply.status(400).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid logout request'
+      });
+    }
+  }
+}
@@ -0,0 +1,10 @@
+import { FastifyInstance } from 'fastify';
+import { AuthHandlers } from './auth.handlers';
+
+export function registerAuthRoutes(fastify: FastifyInstance, handlers: AuthHandlers): void {
+  // Session renewal (rotates the refresh token)
+  fastify.post('/auth/refresh', handlers.refreshSession.bind(handlers));
+
+  // Session end (revokes the refresh token family)
+  fastify.post('/auth/logout', handlers.logout.bind(handlers));
+}
@@ -0,0 +1,86 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import {
+  GuestInvitationService,
+  GuestAccessDeniedError,
+  GuestQuotaExceededError,
+  GuestNotFoundError
+} from '../services/guest-invitation.service';
+import { InviteGuestsRequestSchema, GuestQuerySchema } from '../shared/contracts/invites.dto';
+import type { JWTPayload } from '@tempsdarret/shared/schemas/invite.schema';
+
+interface GuestParams {
+  invitationId: string;
+}
+
+// Guest routes sit behind the auth preHandler, which sets request.user
+const actorOf = (request: FastifyRequest): JWTPayload => {
+  if (!request.user) {
+    throw new GuestAccessDeniedError('Authentication required');
+  }
+  return request.user;
+};
+
+const statusCodeOf = (error: unknown): number => {
+  if (error instanceof GuestAccessDeniedError) {
+    return 403;
+  }
+  if (error instanceof GuestNotFoundError) {
+    return 404;
+  }
+  if (error instanceof GuestQuotaExceededError) {
+    return 409;
+  }
+  return 400;
+};
+
+export class GuestHandlers {
+  constructor(private readonly guestInvitationService: GuestInvitationService) {}
+
+  async inviteGuests(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const inviteRequest = InviteGuestsRequestSchema.parse(request.body);
+      const guests = await this.guestInvitationService.inviteGuests(actorOf(request), inviteRequest);
+
+      await reply.status(201).send({
+        success: true,
+        data: guests
+      });
+    } catch (error) {
+      await this.sendError(reply, error, 'Invalid request');
+    }
+  }
+
+  async listGuests(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const { shootId } = GuestQuerySchema.parse(request.query);
+      const guests = await this.guestInvitationService.listGuests(actorOf(request), shootId);
+
+      await reply.status(200).send({
+        success: true,
+        data: guests
+      });
+    } catch (error) {
+      await this.sendError(reply, error, 'Invalid query');
+    }
+  }
+
+  async revokeGuest(request: FastifyRequest<{ Params: GuestParams }>, reply: FastifyReply): Promise<void> {
+    try {
+      const guest = await this.guestInvitationService.revokeGuest(actorOf(request), request.params.invitationId);
+
+      await reply.status(200).send({
+        success: true,
+        data: guest
+      });
+    } catch (error) {
+      await this.sendError(reply, error, 'Invalid request');
+    }
+  }
+
+  private async sendError(reply: FastifyReply, error: unknown, fallback: string): Promise<void> {
+    await reply.status(statusCodeOf(error)).send({
+      success: false,
+      error: error instanceof Error ? error.message : fallback
+    });
+  }
+}
@@ -0,0 +1,17 @@
+import { FastifyInstance, preHandlerAsyncHookHandler } from 'fastify';
+import { GuestHandlers } from './guest.handlers';
+
+export function registerGuestRoutes(
+  fastify: FastifyInstance,
+  handlers: GuestHandlers,
+  authPreHandler: preHandlerAsyncHookHandler
+): void {
+  // Guest invitations; authenticated, for the shoot's client or photographer
+  void fastify.register(async (guests) => {
+    guests.addHook('preHandler', authPreHandler);
+
+    guests.post('/guests', handlers.inviteGuests.bind(handlers));
+    guests.get('/guests', handlers.listGuests.bind(handlers));
+    guests.delete('/guests/:invitationId', handlers.revokeGuest.bind(handlers));
+  });
+}
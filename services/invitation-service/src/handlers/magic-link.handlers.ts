@@ -1,6 +1,9 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { MagicLinkService } from '../services/magic-link.service';
-import { MagicLinkValidationRequestSchema } from '../shared/contracts/invites.dto';
+import {
+  MagicLinkValidationRequestSchema,
+  MagicLinkGenerationRequestSchema
+} from '../shared/contracts/invites.dto';
 
 interface TokenParams {
   token: string;
@@ -44,6 +47,25 @@ export class MagicLinkHandlers {
     }
   }
 
+  // Always the same answer for invited and unknown emails (no enumeration)
+  async requestMagicLink(request: FastifyRequest, reply: FastifyReply): Promise<void> {
+    try {
+      const generationRequest = MagicLinkGenerationRequestSchema.parse(request.body);
+
+      await this.magicLinkService.requestMagicLink(generationRequest);
+
+      await reply.status(202).send({
+        success: true,
+        message: 'If this email is invited to the shoot, a new access link is on its way'
+      });
+    } catch (error) {
+      await reply.status(400).send({
+        success: false,
+        error: error instanceof Error ? error.message : 'Invalid request'
+      });
+    }
+  }
+
   async healthCheck(_request: FastifyRequest, reply: FastifyReply): Promise<void> {
     await reply.status(200).send({
       status: 'healthy',
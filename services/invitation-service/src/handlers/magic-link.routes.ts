@@ -5,6 +5,9 @@ export function registerMagicLinkRoutes(fastify: FastifyInstance, handlers: Magi
   // Health check
   fastify.get('/health', handlers.healthCheck.bind(handlers));
 
+  // Magic link re-request (emailed through notification-service)
+  fastify.post('/magic-link/request', handlers.requestMagicLink.bind(handlers));
+
   // Magic link validation
   fastify.get('/magic-link/:token', handlers.validateMagicLink.bind(handlers));
 }
\ No newline at end of file
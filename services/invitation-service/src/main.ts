@@ -6,16 +6,18 @@ import { appConfig } from './config/app.config';
 import {
   InvitationService,
   userCreatedEventSchema,
-  userVerifiedEventSchema
+  userVerifiedEventSchema,
+  shootDeletedEventSchema
 } from './services/invitation.service';
 import { InvitationRepository } from './persistence/invitation.repository';
 import { MagicLinkRepository } from './persistence/magic-link.repository';
+import { RefreshTokenRepository } from './persistence/refresh-token.repository';
 import { KafkaEventPublisher } from './shared/messaging/event-publisher';
 import { createServer } from './server';
 
 /**
  * Boots the invitation-service: connects Kafka + Mongo, wires the HTTP app and
- * the user.created / user.verified consumer, and starts listening. Returns a
+ * the user.created / user.verified / shoot.deleted consumer, and starts listening. Returns a
  * `stop` handle for tests. Does NOT disconnect mongoose — the caller owns that,
  * since multiple in-process services share the connection.
  */
@@ -29,10 +31,12 @@ export async function startService(): Promise<{ stop: () => Promise<void> }> {
   // HTTP app (routes wired against the real Kafka-backed publisher)
   const app = await createServer({ logger: true, eventPublisher });
 
-  // Consume user.created / user.verified → generate magic link + invitation.created.
+  // Consume user.created / user.verified → generate magic link + invitation.created,
+  // and shoot.deleted → drop the shoot's invitations and magic links and revoke its sessions.
   const invitationService = new InvitationService(
     new InvitationRepository(),
     new MagicLinkRepository(),
+    new RefreshTokenRepository(),
     eventPublisher
   );
   const handlers: Record<string, EventHandler> = {
@@ -41,10 +45,13 @@ export async function startService(): Promise<{ stop: () => Promise<void> }> {
     },
     'user.verified': async (event) => {
       await invitationService.handleUserVerifiedEvent(userVerifiedEventSchema.parse(event));
+    },
+    'shoot.deleted': async (event) => {
+      await invitationService.handleShootDeletedEvent(shootDeletedEventSchema.parse(event));
     }
   };
   const consumer = new KafkaConsumer(kafka, appConfig.serviceName, handlers);
-  await consumer.start(['users']);
+  await consumer.start(['users', 'shoots']);
 
   await app.listen({ port: appConfig.port, host: appConfig.host });
 
@@ -6,7 +6,10 @@ import {
 import { InvitationModel, InvitationDocument } from '../shared/contracts/invites.mongoose';
 
 export class InvitationRepository {
-  async create(data: CreateInvitationRequest): Promise<Invitation> {
+  // Role defaults to client; guest invitations also record who invited them
+  async create(
+    data: CreateInvitationRequest & Partial<Pick<Invitation, 'role' | 'invitedBy'>>
+  ): Promise<Invitation> {
     const invitation = new InvitationModel(data);
     const savedInvitation = await invitation.save();
     return this.documentToInvitation(savedInvitation);
@@ -38,6 +41,15 @@ export class InvitationRepository {
     return invitations.map(invitation => this.documentToInvitation(invitation));
   }
 
+  // Guests of the shoot that have not been revoked (they count toward the quota)
+  async listActiveGuests(shootId: string): Promise<Invitation[]> {
+    const invitations = await InvitationModel
+      .find({ shootId, role: 'guest', status: { $ne: 'revoked' } })
+      .sort({ createdAt: -1 });
+
+    return invitations.map(invitation => this.documentToInvitation(invitation));
+  }
+
   async update(id: string, data: Partial<Invitation>): Promise<Invitation> {
     const updatedInvitation = await InvitationModel.findByIdAndUpdate(
       id,
@@ -57,13 +69,22 @@ export class InvitationRepository {
     return result !== null;
   }
 
+  async deleteByShootId(shootId: string): Promise<number> {
+    const result = await InvitationModel.deleteMany({ shootId });
+    return result.deletedCount;
+  }
+
   private documentToInvitation(doc: InvitationDocument): Invitation {
     return {
       id: doc._id.toString(),
       shootId: doc.shootId,
       clientEmail: doc.clientEmail,
       status: doc.status,
+      role: doc.role,
+      invitedBy: doc.invitedBy,
       sentAt: doc.sentAt,
+      revokedAt: doc.revokedAt,
+      revokedBy: doc.revokedBy,
       createdAt: doc.createdAt,
       updatedAt: doc.updatedAt
     };
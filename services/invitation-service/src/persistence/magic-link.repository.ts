@@ -21,6 +21,11 @@ export class MagicLinkRepository {
     return magicLink ? this.documentToMagicLink(magicLink) : null;
   }
 
+  async findLatestByInvitationId(invitationId: string): Promise<MagicLink | null> {
+    const magicLink = await MagicLinkModel.findOne({ invitationId }).sort({ createdAt: -1 });
+    return magicLink ? this.documentToMagicLink(magicLink) : null;
+  }
+
   async getRecentTokensCount(email: string): Promise<number> {
     const oneMinuteAgo = new Date(Date.now() - 60 * 1000);
     return MagicLinkModel.countDocuments({
@@ -37,6 +42,15 @@ export class MagicLinkRepository {
     });
   }
 
+  // Revoking an invitation kills the links already sent for it
+  async deactivateByInvitationId(invitationId: string): Promise<number> {
+    const result = await MagicLinkModel.updateMany(
+      { invitationId, isActive: true },
+      { isActive: false }
+    );
+    return result.modifiedCount;
+  }
+
   async cleanup(): Promise<number> {
     // Remove expired magic links
     const result = await MagicLinkModel.deleteMany({
@@ -45,12 +59,20 @@ export class MagicLinkRepository {
     return result.deletedCount;
   }
 
+  async deleteByShootId(shootId: string): Promise<number> {
+    const result = await MagicLinkModel.deleteMany({ shootId });
+    return result.deletedCount;
+  }
+
   private documentToMagicLink(doc: MagicLinkDocument): MagicLink {
     return {
       id: doc._id.toString(),
       token: doc.token,
       shootId: doc.shootId,
       clientEmail: doc.clientEmail,
+      userId: doc.userId,
+      invitationId: doc.invitationId,
+      role: doc.role,
       expiresAt: doc.expiresAt,
       isActive: doc.isActive,
       accessCount: doc.accessCount,
@@ -0,0 +1,74 @@
+import {
+  RefreshToken,
+  CreateRefreshTokenRequest
+} from '../shared/contracts/invites.dto';
+import { RefreshTokenModel, RefreshTokenDocument } from '../shared/contracts/invites.mongoose';
+
+export class RefreshTokenRepository {
+  async create(data: CreateRefreshTokenRequest): Promise<RefreshToken> {
+    const refreshToken = new RefreshTokenModel(data);
+    const savedRefreshToken = await refreshToken.save();
+    return this.documentToRefreshToken(savedRefreshToken);
+  }
+
+  async findByHash(tokenHash: string): Promise<RefreshToken | null> {
+    const refreshToken = await RefreshTokenModel.findOne({ tokenHash });
+    return refreshToken ? this.documentToRefreshToken(refreshToken) : null;
+  }
+
+  /**
+   * Mark the token as rotated. Returns false when it was already rotated or
+   * revoked, so two concurrent refreshes cannot both succeed.
+   */
+  async markRotated(id: string): Promise<boolean> {
+    const result = await RefreshTokenModel.updateOne(
+      { _id: id, rotatedAt: { $exists: false }, revokedAt: { $exists: false } },
+      { rotatedAt: new Date() }
+    );
+    return result.modifiedCount > 0;
+  }
+
+  async revokeFamily(familyId: string): Promise<number> {
+    const result = await RefreshTokenModel.updateMany(
+      { familyId, revokedAt: { $exists: false } },
+      { revokedAt: new Date() }
+    );
+    return result.modifiedCount;
+  }
+
+  // Sessions opened through a revoked invitation can no longer be renewed
+  async revokeByInvitationId(invitationId: string): Promise<number> {
+    const result = await RefreshTokenModel.updateMany(
+      { invitationId, revokedAt: { $exists: false } },
+      { revokedAt: new Date() }
+    );
+    return result.modifiedCount;
+  }
+
+  // Sessions on a deleted shoot can no longer be renewed
+  async revokeByShootId(shootId: string): Promise<number> {
+    const result = await RefreshTokenModel.updateMany(
+      { shootId, revokedAt: { $exists: false } },
+      { revokedAt: new Date() }
+    );
+    return result.modifiedCount;
+  }
+
+  private documentToRefreshToken(doc: RefreshTokenDocument): RefreshToken {
+    return {
+      id: doc._id.toString(),
+      tokenHash: doc.tokenHash,
+      familyId: doc.familyId,
+      clientEmail: doc.clientEmail,
+      userId: doc.userId,
+      shootId: doc.shootId,
+      invitationId: doc.invitationId,
+      role: doc.role,
+      expiresAt: doc.expiresAt,
+      rotatedAt: doc.rotatedAt,
+      revokedAt: doc.revokedAt,
+      createdAt: doc.createdAt,
+      updatedAt: doc.updatedAt
+    };
+  }
+}
@@ -3,13 +3,24 @@ import mongoose from 'mongoose';
 import { MongoMemoryServer } from 'mongodb-memory-server';
 import { InvitationHandlers } from './handlers/invitation.handlers';
 import { MagicLinkHandlers } from './handlers/magic-link.handlers';
+import { AuthHandlers } from './handlers/auth.handlers';
+import { GuestHandlers } from './handlers/guest.handlers';
 import { InvitationService } from './services/invitation.service';
 import { MagicLinkService } from './services/magic-link.service';
+import { AuthSessionService } from './services/auth-session.service';
+import { GuestInvitationService } from './services/guest-invitation.service';
 import { InvitationRepository } from './persistence/invitation.repository';
 import { MagicLinkRepository } from './persistence/magic-link.repository';
+import { RefreshTokenRepository } from './persistence/refresh-token.repository';
 import { EventPublisher } from './shared/messaging/event-publisher';
 import { registerInvitationRoutes } from './handlers/invitation.routes';
 import { registerMagicLinkRoutes } from './handlers/magic-link.routes';
+import { registerAuthRoutes } from './handlers/auth.routes';
+import { registerGuestRoutes } from './handlers/guest.routes';
+import { ShootServiceClient, type ShootServicePort } from './shared/clients/shoot-service.client';
+import { appConfig } from './config/app.config';
+import { getJwtConfig, createAuthPreHandler, type JwtConfig } from '@tempsdarret/shared/auth';
+import { getServiceUrl } from '@tempsdarret/shared/config';
 
 /**
  * A publisher that swallows events. Used when the server is built without a
@@ -39,6 +50,10 @@ export interface CreateServerOptions {
    */
   mongoUrl?: string;
   eventPublisher?: EventPublisher;
+  /** Signing settings for issued access tokens; resolved from env when omitted */
+  jwtConfig?: JwtConfig;
+  /** Shoot lookups for guest invitations; defaults to the shoot-service HTTP client */
+  shootService?: ShootServicePort;
 }
 
 /**
@@ -58,15 +73,42 @@ export async function createServer(
   const eventPublisher = options.eventPublisher ?? new NoopEventPublisher();
   const invitationRepository = new InvitationRepository();
   const magicLinkRepository = new MagicLinkRepository();
+  const refreshTokenRepository = new RefreshTokenRepository();
   const invitationService = new InvitationService(
     invitationRepository,
     magicLinkRepository,
+    refreshTokenRepository,
+    eventPublisher
+  );
+  const jwtConfig = options.jwtConfig ?? getJwtConfig();
+  const authSessionService = new AuthSessionService(
+    refreshTokenRepository,
+    jwtConfig,
+    appConfig.refreshTokenTtl
+  );
+  const magicLinkService = new MagicLinkService(
+    magicLinkRepository,
+    invitationRepository,
+    eventPublisher,
+    authSessionService
+  );
+
+  const guestInvitationService = new GuestInvitationService(
+    invitationRepository,
+    magicLinkRepository,
+    refreshTokenRepository,
+    options.shootService ?? new ShootServiceClient(getServiceUrl('shoot-service')),
     eventPublisher
   );
-  const magicLinkService = new MagicLinkService(magicLinkRepository, eventPublisher);
 
   registerInvitationRoutes(app, new InvitationHandlers(invitationService));
   registerMagicLinkRoutes(app, new MagicLinkHandlers(magicLinkService));
+  registerAuthRoutes(app, new AuthHandlers(authSessionService));
+  registerGuestRoutes(
+    app,
+    new GuestHandlers(guestInvitationService),
+    createAuthPreHandler(jwtConfig.key)
+  );
 
   if (memoryServer) {
     app.addHook('onClose', async () => {
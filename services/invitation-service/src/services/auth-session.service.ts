@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import { AuthResponse, InviteeRole, RefreshToken } from '../shared/contracts/invites.dto';
+import { RefreshTokenRepository } from '../persistence/refresh-token.repository';
+import { signJwt, type JwtConfig } from '@tempsdarret/shared/auth';
+import { parseDuration } from '@tempsdarret/shared/config';
+
+// Who a session belongs to; carried from the magic link into every token
+export interface SessionSubject {
+  clientEmail: string;
+  userId: string;
+  shootId: string;
+  invitationId?: string | undefined;
+  role: InviteeRole;
+}
+
+export class InvalidRefreshTokenError extends Error {
+  constructor(message = 'Invalid refresh token') {
+    super(message);
+    this.name = 'InvalidRefreshTokenError';
+  }
+}
+
+const hashToken = (token: string): string =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+/**
+ * Client sessions: a short-lived JWT plus a single-use refresh token. Each
+ * refresh rotates the refresh token within its family; presenting a rotated
+ * token again means it leaked, so the whole family is revoked.
+ */
+export class AuthSessionService {
+  constructor(
+    private readonly refreshTokenRepository: RefreshTokenRepository,
+    private readonly jwtConfig: JwtConfig,
+    private readonly refreshTokenTtl: string
+  ) {}
+
+  // Start a new session (new family), e.g. once a magic link is validated
+  async startSession(subject: SessionSubject): Promise<AuthResponse> {
+    return this.issueTokens(subject, crypto.randomUUID());
+  }
+
+  async refresh(refreshToken: string): Promise<AuthResponse> {
+    const stored = await this.refreshTokenRepository.findByHash(hashToken(refreshToken));
+    if (!stored || stored.revokedAt) {
+      throw new InvalidRefreshTokenError();
+    }
+
+    if (stored.rotatedAt || !(await this.refreshTokenRepository.markRotated(stored.id))) {
+      // Reuse of a rotated token: whoever holds the family's tokens is not
+      // necessarily the client anymore
+      await this.refreshTokenRepository.revokeFamily(stored.familyId);
+      throw new InvalidRefreshTokenError('Refresh token has already been used');
+    }
+
+    if (stored.expiresAt < new Date()) {
+      throw new InvalidRefreshTokenError('Refresh token has expired');
+    }
+
+    return this.issueTokens(this.subjectOf(stored), stored.familyId);
+  }
+
+  /**
+   * End the session the refresh token belongs to. Unknown tokens are ignored
+   * so logging out is always safe to repeat.
+   */
+  async logout(refreshToken: string): Promise<void> {
+    const stored = await this.refreshTokenRepository.findByHash(hashToken(refreshToken));
+    if (stored) {
+      await this.refreshTokenRepository.revokeFamily(stored.familyId);
+    }
+  }
+
+  private async issueTokens(subject: SessionSubject, familyId: string): Promise<AuthResponse> {
+    const accessToken = signJwt({
+      userId: subject.userId,
+      email: subject.clientEmail,
+      role: subject.role,
+      shootId: subject.shootId,
+      ...(subject.invitationId !== undefined && { invitationId: subject.invitationId })
+    }, this.jwtConfig);
+
+    const refreshToken = crypto.randomBytes(32).toString('hex'); // 64-char hex
+    const refreshTtlMs = parseDuration(this.refreshTokenTtl);
+    await this.refreshTokenRepository.create({
+      tokenHash: hashToken(refreshToken),
+      familyId,
+      clientEmail: subject.clientEmail,
+      userId: subject.userId,
+      shootId: subject.shootId,
+      invitationId: subject.invitationId,
+      role: subject.role,
+      expiresAt: new Date(Date.now() + refreshTtlMs)
+    });
+
+    return {
+      success: true,
+      clientEmail: subject.clientEmail,
+      shootId: subject.shootId,
+      role: subject.role,
+      accessToken,
+      expiresIn: parseDuration(this.jwtConfig.expiresIn) / 1000,
+      refreshToken,
+      refreshExpiresIn: refreshTtlMs / 1000
+    };
+  }
+
+  private subjectOf(stored: RefreshToken): SessionSubject {
+    return {
+      clientEmail: stored.clientEmail,
+      userId: stored.userId,
+      shootId: stored.shootId,
+      invitationId: stored.invitationId,
+      role: stored.role
+    };
+  }
+}
@@ -0,0 +1,166 @@
+import { Invitation, InviteGuestsRequest } from '../shared/contracts/invites.dto';
+import { InvitationRepository } from '../persistence/invitation.repository';
+import { MagicLinkRepository } from '../persistence/magic-link.repository';
+import { RefreshTokenRepository } from '../persistence/refresh-token.repository';
+import { EventPublisher } from '../shared/messaging/event-publisher';
+import { ShootServicePort, ShootSummary } from '../shared/clients/shoot-service.client';
+import { issueInvitationLink } from './invitation-link';
+import { ROLE_PERMISSIONS, type RolePermissions } from '@tempsdarret/shared/auth';
+import type { JWTPayload } from '@tempsdarret/shared/schemas/invite.schema';
+
+export type GuestInvitation = Invitation & { permissions: RolePermissions };
+
+export class GuestAccessDeniedError extends Error {
+  constructor(message = 'Not allowed to manage guests of this shoot') {
+    super(message);
+    this.name = 'GuestAccessDeniedError';
+  }
+}
+
+export class GuestQuotaExceededError extends Error {
+  constructor(readonly guestAllowance: number) {
+    super(`Guest quota exceeded: this shoot allows ${guestAllowance} guests`);
+    this.name = 'GuestQuotaExceededError';
+  }
+}
+
+export class GuestNotFoundError extends Error {
+  constructor(message = 'Guest invitation not found') {
+    super(message);
+    this.name = 'GuestNotFoundError';
+  }
+}
+
+/**
+ * Guests invited by a shoot's client (functional scenario 3). Guests get a
+ * magic link opening a `guest` session, limited to viewing and downloading
+ * single photos; the shoot's guest allowance caps how many can be invited.
+ * The client or the shoot's photographer can revoke a guest at any time.
+ */
+export class GuestInvitationService {
+  constructor(
+    private readonly invitationRepository: InvitationRepository,
+    private readonly magicLinkRepository: MagicLinkRepository,
+    private readonly refreshTokenRepository: RefreshTokenRepository,
+    private readonly shootService: ShootServicePort,
+    private readonly eventPublisher: EventPublisher
+  ) {}
+
+  async inviteGuests(actor: JWTPayload, request: InviteGuestsRequest): Promise<GuestInvitation[]> {
+    if (actor.role !== 'client' || actor.shootId !== request.shootId) {
+      throw new GuestAccessDeniedError('Only the shoot\'s client can invite guests');
+    }
+
+    const shoot = await this.requireShoot(request.shootId);
+    const activeGuests = await this.invitationRepository.listActiveGuests(shoot.id);
+
+    // Already invited guests and the client themselves are skipped, not re-invited
+    const known = new Set([shoot.clientEmail.toLowerCase(), ...activeGuests.map(guest => guest.clientEmail)]);
+    const emails = [...new Set(request.emails.map(email => email.toLowerCase()))]
+      .filter(email => !known.has(email));
+
+    if (activeGuests.length + emails.length > shoot.guestAllowance) {
+      throw new GuestQuotaExceededError(shoot.guestAllowance);
+    }
+
+    const invited: GuestInvitation[] = [];
+    for (const email of emails) {
+      invited.push(await this.inviteGuest(actor, shoot, email, request.message));
+    }
+    return invited;
+  }
+
+  async listGuests(actor: JWTPayload, shootId: string): Promise<GuestInvitation[]> {
+    const shoot = await this.requireShoot(shootId);
+    this.assertCanManage(actor, shoot);
+
+    const guests = await this.invitationRepository.listActiveGuests(shoot.id);
+    return guests.map(guest => this.withPermissions(guest));
+  }
+
+  /**
+   * Revoke a guest: the invitation turns `revoked`, its magic links stop
+   * working and sessions opened with them can no longer be renewed.
+   */
+  async revokeGuest(actor: JWTPayload, invitationId: string): Promise<GuestInvitation> {
+    const invitation = await this.invitationRepository.findById(invitationId);
+    if (invitation?.role !== 'guest') {
+      throw new GuestNotFoundError();
+    }
+
+    const shoot = await this.requireShoot(invitation.shootId);
+    this.assertCanManage(actor, shoot);
+
+    if (invitation.status === 'revoked') {
+      return this.withPermissions(invitation);
+    }
+
+    const revoked = await this.invitationRepository.update(invitationId, {
+      status: 'revoked',
+      revokedAt: new Date(),
+      revokedBy: actor.userId
+    });
+    await this.magicLinkRepository.deactivateByInvitationId(invitationId);
+    await this.refreshTokenRepository.revokeByInvitationId(invitationId);
+
+    return this.withPermissions(revoked);
+  }
+
+  private async inviteGuest(
+    actor: JWTPayload,
+    shoot: ShootSummary,
+    email: string,
+    message: string | undefined
+  ): Promise<GuestInvitation> {
+    const invitation = await this.invitationRepository.create({
+      shootId: shoot.id,
+      clientEmail: email,
+      status: 'pending',
+      role: 'guest',
+      invitedBy: actor.userId
+    });
+
+    const { magicLinkUrl, expiresAt } = await issueInvitationLink(this.magicLinkRepository, invitation);
+
+    // Same invitation.created flow as the client's, so notification-service
+    // emails the guest their link
+    await this.eventPublisher.publish('invitations', {
+      eventType: 'invitation.created',
+      invitationId: invitation.id,
+      shootId: invitation.shootId,
+      clientEmail: invitation.clientEmail,
+      role: 'guest',
+      invitedBy: actor.email,
+      shootDetails: {
+        eventName: shoot.title
+      },
+      ...(message !== undefined && { message }),
+      magicLinkUrl,
+      expirationDate: expiresAt.toISOString(),
+      timestamp: new Date().toISOString()
+    });
+
+    return this.withPermissions(invitation);
+  }
+
+  private async requireShoot(shootId: string): Promise<ShootSummary> {
+    const shoot = await this.shootService.getShoot(shootId);
+    if (!shoot) {
+      throw new GuestNotFoundError('Shoot not found');
+    }
+    return shoot;
+  }
+
+  // The shoot's client (by session) or its photographer
+  private assertCanManage(actor: JWTPayload, shoot: ShootSummary): void {
+    const isClient = actor.role === 'client' && actor.shootId === shoot.id;
+    const isPhotographer = actor.role === 'photographer' && actor.userId === shoot.photographerId;
+    if (!isClient && !isPhotographer) {
+      throw new GuestAccessDeniedError();
+    }
+  }
+
+  private withPermissions(invitation: Invitation): GuestInvitation {
+    return { ...invitation, permissions: ROLE_PERMISSIONS.guest };
+  }
+}
@@ -0,0 +1,38 @@
+import { randomBytes, createHash } from 'crypto';
+import { Invitation } from '../shared/contracts/invites.dto';
+import { MagicLinkRepository } from '../persistence/magic-link.repository';
+import { appConfig } from '../config/app.config';
+import { parseDuration } from '@tempsdarret/shared/config';
+
+export interface InvitationLink {
+  magicLinkUrl: string;
+  expiresAt: Date;
+}
+
+/**
+ * Issue the magic link sent with an invitation (ADR-003: 64-char hex, TTL
+ * from config). Only the hash is stored, as MagicLinkService looks links up
+ * by hash; the link opens a session in the invitation's role.
+ */
+export async function issueInvitationLink(
+  magicLinkRepository: MagicLinkRepository,
+  invitation: Invitation,
+  userId?: string
+): Promise<InvitationLink> {
+  const token = randomBytes(32).toString('hex'); // 64-char hex
+  const expiresAt = new Date(Date.now() + parseDuration(appConfig.invitationTtl));
+
+  await magicLinkRepository.create({
+    token: createHash('sha256').update(token).digest('hex'),
+    shootId: invitation.shootId,
+    clientEmail: invitation.clientEmail,
+    userId,
+    invitationId: invitation.id,
+    role: invitation.role,
+    expiresAt,
+    isActive: true,
+    accessCount: 0
+  });
+
+  return { magicLinkUrl: `${appConfig.appBaseUrl}/gallery/access/${token}`, expiresAt };
+}
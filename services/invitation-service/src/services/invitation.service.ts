@@ -6,15 +6,16 @@ import {
 } from '../shared/contracts/invites.dto';
 import { InvitationRepository } from '../persistence/invitation.repository';
 import { MagicLinkRepository } from '../persistence/magic-link.repository';
+import { RefreshTokenRepository } from '../persistence/refresh-token.repository';
 import { EventPublisher } from '../shared/messaging/event-publisher';
-import { appConfig } from '../config/app.config';
-import { parseDuration } from '@tempsdarret/shared/config';
+import { issueInvitationLink } from './invitation-link';
+import type { ShootCleanupReportedEvent } from '@tempsdarret/shared/schemas/shoot.schema';
 import { z } from 'zod';
-import { randomBytes } from 'crypto';
 
 // Shoot context enriched by user-service so the invitation can be composed
 // (and its email sent by notification-service) without direct service calls.
 interface EnrichedUserEvent {
+  userId: string;
   email: string;
   shootId?: string;
   shootTitle?: string;
@@ -53,10 +54,18 @@ export const userVerifiedEventSchema = z.object({
 });
 export type UserVerifiedEvent = z.infer<typeof userVerifiedEventSchema>;
 
+export const shootDeletedEventSchema = z.object({
+  eventType: z.literal('shoot.deleted'),
+  shootId: z.string(),
+  deletedAt: z.string()
+});
+export type ShootDeletedEvent = z.infer<typeof shootDeletedEventSchema>;
+
 export class InvitationService {
   constructor(
     private readonly invitationRepository: InvitationRepository,
     private readonly magicLinkRepository: MagicLinkRepository,
+    private readonly refreshTokenRepository: RefreshTokenRepository,
     private readonly eventPublisher: EventPublisher
   ) {}
 
@@ -79,22 +88,15 @@ export class InvitationService {
     const invitation = await this.invitationRepository.create({
       shootId: event.shootId,
       clientEmail: event.email,
-      status: 'pending' as const
-    });
-
-    // Generate magic link (ADR-003: 64-char hex; 48h invitation TTL from config)
-    const token = randomBytes(32).toString('hex'); // 64-char hex
-    const expiresAt = new Date(Date.now() + parseDuration(appConfig.invitationTtl));
-    const magicLink = await this.magicLinkRepository.create({
-      token,
-      shootId: event.shootId,
-      clientEmail: event.email,
-      expiresAt,
-      isActive: true,
-      accessCount: 0
+      status: 'pending' as const,
+      role: 'client'
     });
 
-    const magicLinkUrl = `${appConfig.appBaseUrl}/gallery/access/${magicLink.token}`;
+    const { magicLinkUrl, expiresAt } = await issueInvitationLink(
+      this.magicLinkRepository,
+      invitation,
+      event.userId
+    );
 
     // Publish enriched invitation.created — carries everything the
     // notification service needs to compose the email on its own.
@@ -118,6 +120,44 @@ export class InvitationService {
     return invitation;
   }
 
+  // Shoot deletion saga: drop the shoot's invitations and magic links and
+  // revoke its refresh tokens (so no link or session keeps granting access),
+  // then report the outcome back to shoot-service.
+  async handleShootDeletedEvent(event: ShootDeletedEvent): Promise<void> {
+    let report: ShootCleanupReportedEvent;
+    try {
+      const [invitations, magicLinks, refreshTokens] = await Promise.all([
+        this.invitationRepository.deleteByShootId(event.shootId),
+        this.magicLinkRepository.deleteByShootId(event.shootId),
+        this.refreshTokenRepository.revokeByShootId(event.shootId)
+      ]);
+      report = this.cleanupReport(event.shootId, {
+        success: true,
+        removed: { invitations, magicLinks, refreshTokens }
+      });
+    } catch (error) {
+      report = this.cleanupReport(event.shootId, {
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    await this.eventPublisher.publish('shoots', report, event.shootId);
+  }
+
+  private cleanupReport(
+    shootId: string,
+    outcome: Pick<ShootCleanupReportedEvent, 'success' | 'error' | 'removed'>
+  ): ShootCleanupReportedEvent {
+    return {
+      eventType: 'shoot.cleanup.reported',
+      shootId,
+      service: 'invitation-service',
+      ...outcome,
+      timestamp: new Date().toISOString()
+    };
+  }
+
   async createInvitation(request: CreateInvitationRequest): Promise<Invitation> {
     const invitation = await this.invitationRepository.create(request);
 
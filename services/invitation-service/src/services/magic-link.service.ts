@@ -6,19 +6,63 @@ import {
   MagicLink
 } from '../shared/contracts/invites.dto';
 import { MagicLinkRepository } from '../persistence/magic-link.repository';
+import { InvitationRepository } from '../persistence/invitation.repository';
 import { EventPublisher } from '../shared/messaging/event-publisher';
+import { appConfig } from '../config/app.config';
+import { AuthSessionService } from './auth-session.service';
+
+export class MagicLinkRateLimitError extends Error {
+  constructor() {
+    super('Rate limit exceeded');
+    this.name = 'MagicLinkRateLimitError';
+  }
+}
+
+// Invitation a link is issued for, so the session it opens keeps the client's identity
+type MagicLinkOwner = Pick<MagicLink, 'userId' | 'invitationId' | 'role'>;
 
 export class MagicLinkService {
   constructor(
     private readonly magicLinkRepository: MagicLinkRepository,
-    private readonly eventPublisher: EventPublisher
+    private readonly invitationRepository: InvitationRepository,
+    private readonly eventPublisher: EventPublisher,
+    private readonly authSessionService: AuthSessionService
   ) {}
 
-  async generateMagicLink(request: MagicLinkGenerationRequest): Promise<MagicLink> {
+  /**
+   * Self-service re-request: email a fresh link to a client invited to the
+   * shoot. Resolves the same way whether or not the email is invited (or rate
+   * limited) so the endpoint cannot be used to discover client emails.
+   */
+  async requestMagicLink(request: MagicLinkGenerationRequest): Promise<void> {
+    const email = request.email.toLowerCase();
+    const [invitation] = await this.invitationRepository.list({
+      shootId: request.shootId,
+      clientEmail: email,
+      limit: 1
+    });
+    if (!invitation || invitation.status === 'revoked') {
+      return;
+    }
+
+    const previousLink = await this.magicLinkRepository.findLatestByInvitationId(invitation.id);
+    try {
+      await this.generateMagicLink(
+        { shootId: request.shootId, email },
+        { userId: previousLink?.userId, invitationId: invitation.id, role: invitation.role }
+      );
+    } catch (error) {
+      if (!(error instanceof MagicLinkRateLimitError)) {
+        throw error;
+      }
+    }
+  }
+
+  async generateMagicLink(request: MagicLinkGenerationRequest, owner: MagicLinkOwner = {}): Promise<MagicLink> {
     // Rate limiting check (ADR-003: max 3 requests per minute)
     const recentCount = await this.magicLinkRepository.getRecentTokensCount(request.email);
     if (recentCount >= 3) {
-      throw new Error('Rate limit exceeded');
+      throw new MagicLinkRateLimitError();
     }
 
     // Generate 64-character hex token (ADR-003)
@@ -32,6 +76,7 @@ export class MagicLinkService {
       token: hashedToken, // Store hashed version
       shootId: request.shootId,
       clientEmail: request.email,
+      ...owner,
       expiresAt: new Date(Date.now() + 15 * 60 * 1000), // 15 minutes
       accessCount: 0,
       isActive: true
@@ -39,12 +84,15 @@ export class MagicLinkService {
 
     const magicLink = await this.magicLinkRepository.create(magicLinkData);
 
-    // Publish magic.link.generated event
+    // Publish magic.link.generated — notification-service emails the link
     await this.eventPublisher.publish('magic-links', {
       eventType: 'magic.link.generated',
       magicLinkId: magicLink.id,
       shootId: request.shootId,
       clientEmail: request.email,
+      ...(owner.invitationId !== undefined && { invitationId: owner.invitationId }),
+      magicLinkUrl: `${appConfig.appBaseUrl}/gallery/access/${token}`,
+      expirationDate: magicLink.expiresAt.toISOString(),
       timestamp: new Date().toISOString()
     });
 
@@ -93,13 +141,14 @@ export class MagicLinkService {
       timestamp: new Date().toISOString()
     });
 
-    // Return auth response (would include JWT in real implementation)
-    return {
-      success: true,
+    // Start the session (ADR-003) in the link's role. Links generated outside
+    // an invitation carry no user ID; the holder is then identified by email.
+    return this.authSessionService.startSession({
       clientEmail: magicLink.clientEmail,
+      userId: magicLink.userId ?? magicLink.clientEmail,
       shootId: magicLink.shootId,
-      accessToken: 'jwt-token-placeholder', // TODO: Generate real JWT
-      expiresIn: 3600 // 1 hour
-    };
+      invitationId: magicLink.invitationId,
+      role: magicLink.role ?? 'client'
+    });
   }
 }
\ No newline at end of file
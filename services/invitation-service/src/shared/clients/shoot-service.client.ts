@@ -0,0 +1,61 @@
+/**
+ * Shoot Service HTTP client
+ * Reads the shoot a guest invitation targets (`GET /shoots/:shootId`): its
+ * owner, title and guest allowance live in shoot-service.
+ */
+
+// Subset of shoot-service's Shoot that guest invitations rely on.
+export interface ShootSummary {
+  id: string;
+  title: string;
+  clientEmail: string;
+  photographerId: string;
+  // Number of guests the client may invite (shoot access settings)
+  guestAllowance: number;
+}
+
+interface GetShootResponse {
+  data?: {
+    id: string;
+    title: string;
+    clientEmail: string;
+    photographerId: string;
+    access?: { guestAllowance?: number };
+  };
+}
+
+/**
+ * The shoot-reading capability the domain depends on, so guest invitations
+ * can be exercised without a running shoot-service.
+ */
+export interface ShootServicePort {
+  getShoot(shootId: string): Promise<ShootSummary | null>;
+}
+
+export class ShootServiceClient implements ShootServicePort {
+  constructor(private readonly baseUrl: string) {}
+
+  async getShoot(shootId: string): Promise<ShootSummary | null> {
+    const response = await fetch(`${this.baseUrl}/shoots/${encodeURIComponent(shootId)}`);
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`Shoot service responded with ${response.status}`);
+    }
+
+    const body = (await response.json()) as GetShootResponse;
+    if (!body.data) {
+      return null;
+    }
+
+    return {
+      id: body.data.id,
+      title: body.data.title,
+      clientEmail: body.data.clientEmail,
+      photographerId: body.data.photographerId,
+      guestAllowance: body.data.access?.guestAllowance ?? 0
+    };
+  }
+}
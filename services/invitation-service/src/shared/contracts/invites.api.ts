@@ -4,12 +4,18 @@ export interface Invitation {
   shootId: string;
   clientEmail: string;
   status: InvitationStatus;
+  role: InviteeRole;
+  invitedBy?: string;
   sentAt?: Date;
+  revokedAt?: Date;
+  revokedBy?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
-export type InvitationStatus = 'pending' | 'sent' | 'expired' | 'completed';
+export type InvitationStatus = 'pending' | 'sent' | 'expired' | 'completed' | 'revoked';
+
+export type InviteeRole = 'client' | 'guest';
 
 export interface MagicLink {
   id: string;
@@ -64,6 +70,33 @@ export interface AuthResponse {
   success: boolean;
   clientEmail: string;
   shootId: string;
+  role: InviteeRole;
   accessToken: string;
   expiresIn: number;
-}
\ No newline at end of file
+  refreshToken: string;
+  refreshExpiresIn: number;
+}
+
+export interface RefreshSessionRequest {
+  refreshToken: string;
+}
+
+export interface LogoutRequest {
+  refreshToken?: string;
+}
+
+export interface InviteGuestsRequest {
+  shootId: string;
+  emails: string[];
+  message?: string;
+}
+
+export interface GuestInvitation extends Invitation {
+  permissions: {
+    viewGallery: boolean;
+    downloadPhotos: boolean;
+    downloadOriginals: boolean;
+    downloadArchives: boolean;
+    inviteGuests: boolean;
+  };
+}
@@ -1,15 +1,24 @@
 import { z } from 'zod';
 
 // Zod schemas for validation
-export const InvitationStatusSchema = z.enum(['pending', 'sent', 'expired', 'completed']);
+export const InvitationStatusSchema = z.enum(['pending', 'sent', 'expired', 'completed', 'revoked']);
 export type InvitationStatus = z.infer<typeof InvitationStatusSchema>;
 
+// Who the invitation is for: the shoot's client, or a guest the client invited
+export const InviteeRoleSchema = z.enum(['client', 'guest']);
+export type InviteeRole = z.infer<typeof InviteeRoleSchema>;
+
 export const InvitationSchema = z.object({
   id: z.string(),
   shootId: z.string(),
   clientEmail: z.string().email(),
   status: InvitationStatusSchema,
+  role: InviteeRoleSchema,
+  // Guests only: user ID of the client who invited them
+  invitedBy: z.string().optional(),
   sentAt: z.date().optional(),
+  revokedAt: z.date().optional(),
+  revokedBy: z.string().optional(),
   createdAt: z.date(),
   updatedAt: z.date()
 });
@@ -20,6 +29,11 @@ export const MagicLinkSchema = z.object({
   token: z.string(),
   shootId: z.string(),
   clientEmail: z.string().email(),
+  // Known when the link was issued for an invitation (user.created / user.verified)
+  userId: z.string().optional(),
+  invitationId: z.string().optional(),
+  // Role of the session the link opens; links without one are the client's
+  role: InviteeRoleSchema.optional(),
   expiresAt: z.date(),
   isActive: z.boolean(),
   accessCount: z.number().int().min(0),
@@ -40,6 +54,9 @@ export const CreateMagicLinkRequestSchema = z.object({
   token: z.string(),
   shootId: z.string(),
   clientEmail: z.string().email(),
+  userId: z.string().optional(),
+  invitationId: z.string().optional(),
+  role: InviteeRoleSchema.optional(),
   expiresAt: z.date(),
   isActive: z.boolean(),
   accessCount: z.number().int().min(0).default(0)
@@ -75,7 +92,55 @@ export const AuthResponseSchema = z.object({
   success: z.boolean(),
   clientEmail: z.string().email(),
   shootId: z.string(),
+  role: InviteeRoleSchema,
   accessToken: z.string(),
-  expiresIn: z.number().int().positive()
+  expiresIn: z.number().int().positive(),
+  // Single-use: each refresh returns a new one (seconds until it expires)
+  refreshToken: z.string(),
+  refreshExpiresIn: z.number().int().positive()
+});
+export type AuthResponse = z.infer<typeof AuthResponseSchema>;
+
+// Stored form of a refresh token: only its hash is kept. Tokens rotated from
+// the same magic link share a familyId, so a replayed one revokes them all.
+export const RefreshTokenSchema = z.object({
+  id: z.string(),
+  tokenHash: z.string(),
+  familyId: z.string(),
+  clientEmail: z.string().email(),
+  userId: z.string(),
+  shootId: z.string(),
+  invitationId: z.string().optional(),
+  role: InviteeRoleSchema,
+  expiresAt: z.date(),
+  rotatedAt: z.date().optional(),
+  revokedAt: z.date().optional(),
+  createdAt: z.date(),
+  updatedAt: z.date()
+});
+export type RefreshToken = z.infer<typeof RefreshTokenSchema>;
+
+export type CreateRefreshTokenRequest = Omit<RefreshToken, 'id' | 'rotatedAt' | 'revokedAt' | 'createdAt' | 'updatedAt'>;
+
+export const RefreshSessionRequestSchema = z.object({
+  refreshToken: z.string().regex(/^[a-f0-9]{64}$/, 'Invalid refresh token format')
+});
+export type RefreshSessionRequest = z.infer<typeof RefreshSessionRequestSchema>;
+
+// The frontend logs out without a body; there is then no session to revoke
+export const LogoutRequestSchema = z.object({
+  refreshToken: z.string().optional()
+});
+export type LogoutRequest = z.infer<typeof LogoutRequestSchema>;
+
+export const InviteGuestsRequestSchema = z.object({
+  shootId: z.string(),
+  emails: z.array(z.string().email()).min(1).max(20),
+  message: z.string().max(1000).optional()
+});
+export type InviteGuestsRequest = z.infer<typeof InviteGuestsRequestSchema>;
+
+export const GuestQuerySchema = z.object({
+  shootId: z.string()
 });
-export type AuthResponse = z.infer<typeof AuthResponseSchema>;
\ No newline at end of file
+export type GuestQuery = z.infer<typeof GuestQuerySchema>;
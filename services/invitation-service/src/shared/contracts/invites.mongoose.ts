@@ -1,5 +1,5 @@
 import { Schema, model, Document, Types } from 'mongoose';
-import { Invitation, MagicLink } from './invites.dto';
+import { Invitation, MagicLink, RefreshToken } from './invites.dto';
 
 // Invitation mongoose interface
 export interface InvitationDocument extends Omit<Invitation, 'id' | 'createdAt' | 'updatedAt'>, Document {
@@ -15,6 +15,13 @@ export interface MagicLinkDocument extends Omit<MagicLink, 'id' | 'createdAt' |
   updatedAt: Date;
 }
 
+// Refresh token mongoose interface
+export interface RefreshTokenDocument extends Omit<RefreshToken, 'id' | 'createdAt' | 'updatedAt'>, Document {
+  _id: Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // Invitation schema
 const invitationSchema = new Schema<InvitationDocument>({
   shootId: {
@@ -31,12 +38,27 @@ const invitationSchema = new Schema<InvitationDocument>({
   },
   status: {
     type: String,
-    enum: ['pending', 'sent', 'expired', 'completed'],
+    enum: ['pending', 'sent', 'expired', 'completed', 'revoked'],
     default: 'pending',
     required: true
   },
+  role: {
+    type: String,
+    enum: ['client', 'guest'],
+    default: 'client',
+    required: true
+  },
+  invitedBy: {
+    type: String
+  },
   sentAt: {
     type: Date
+  },
+  revokedAt: {
+    type: Date
+  },
+  revokedBy: {
+    type: String
   }
 }, {
   timestamps: true,
@@ -72,6 +94,16 @@ const magicLinkSchema = new Schema<MagicLinkDocument>({
     trim: true,
     match: [/^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/, 'Please enter a valid email']
   },
+  userId: {
+    type: String
+  },
+  invitationId: {
+    type: String
+  },
+  role: {
+    type: String,
+    enum: ['client', 'guest']
+  },
   expiresAt: {
     type: Date,
     required: true,
@@ -105,13 +137,68 @@ const magicLinkSchema = new Schema<MagicLinkDocument>({
   }
 });
 
+// Refresh token schema (hash only; the token itself is never stored)
+const refreshTokenSchema = new Schema<RefreshTokenDocument>({
+  tokenHash: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  familyId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  clientEmail: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  userId: {
+    type: String,
+    required: true
+  },
+  shootId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  invitationId: {
+    type: String,
+    index: true
+  },
+  role: {
+    type: String,
+    enum: ['client', 'guest'],
+    default: 'client',
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+    index: { expireAfterSeconds: 0 } // MongoDB TTL index
+  },
+  rotatedAt: {
+    type: Date
+  },
+  revokedAt: {
+    type: Date
+  }
+}, {
+  timestamps: true
+});
+
 // Indexes
 invitationSchema.index({ shootId: 1, clientEmail: 1 });
 invitationSchema.index({ status: 1 });
 invitationSchema.index({ createdAt: -1 });
+invitationSchema.index({ shootId: 1, role: 1, status: 1 }); // For guest quotas
 
 magicLinkSchema.index({ clientEmail: 1, createdAt: -1 }); // For rate limiting
 magicLinkSchema.index({ isActive: 1, expiresAt: 1 }); // For cleanup queries
+magicLinkSchema.index({ invitationId: 1, createdAt: -1 }); // For magic link re-requests
 
 export const InvitationModel = model<InvitationDocument>('Invitation', invitationSchema);
-export const MagicLinkModel = model<MagicLinkDocument>('MagicLink', magicLinkSchema);
\ No newline at end of file
+export const MagicLinkModel = model<MagicLinkDocument>('MagicLink', magicLinkSchema);
+export const RefreshTokenModel = model<RefreshTokenDocument>('RefreshToken', refreshTokenSchema);
\ No newline at end of file
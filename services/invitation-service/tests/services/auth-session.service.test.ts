@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { MockedObject } from 'vitest';
+import { createHash } from 'crypto';
+import { verifyJwt, type JwtConfig } from '@tempsdarret/shared/auth';
+import { AuthSessionService, InvalidRefreshTokenError } from '../../src/services/auth-session.service';
+import { RefreshTokenRepository } from '../../src/persistence/refresh-token.repository';
+
+const REFRESH_TOKEN = 'b'.repeat(64);
+const jwtConfig: JwtConfig = { key: { algorithm: 'HS256', secret: 'test-secret' }, expiresIn: '15m' };
+
+const storedToken = {
+  id: 'rt_1',
+  tokenHash: createHash('sha256').update(REFRESH_TOKEN).digest('hex'),
+  familyId: 'family_1',
+  clientEmail: 'client@example.com',
+  userId: 'user_client_1',
+  shootId: 'shoot_abc123',
+  invitationId: 'inv_1',
+  role: 'client' as const,
+  expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+describe('AuthSessionService', () => {
+  let service: AuthSessionService;
+  let refreshTokenRepo: MockedObject<RefreshTokenRepository>;
+
+  beforeEach(() => {
+    refreshTokenRepo = {
+      create: vi.fn().mockResolvedValue(undefined),
+      findByHash: vi.fn().mockResolvedValue(storedToken),
+      markRotated: vi.fn().mockResolvedValue(true),
+      revokeFamily: vi.fn().mockResolvedValue(1)
+    } as unknown as MockedObject<RefreshTokenRepository>;
+
+    service = new AuthSessionService(refreshTokenRepo, jwtConfig, '7d');
+  });
+
+  describe('refresh', () => {
+    it('rotates the refresh token within its family and issues a new JWT', async () => {
+      const response = await service.refresh(REFRESH_TOKEN);
+
+      expect(refreshTokenRepo.findByHash).toHaveBeenCalledWith(storedToken.tokenHash);
+      expect(refreshTokenRepo.markRotated).toHaveBeenCalledWith('rt_1');
+      expect(response.refreshToken).not.toBe(REFRESH_TOKEN);
+      expect(response.expiresIn).toBe(900);
+      expect(response.refreshExpiresIn).toBe(7 * 24 * 3600);
+      expect(refreshTokenRepo.create).toHaveBeenCalledWith(expect.objectContaining({
+        tokenHash: createHash('sha256').update(response.refreshToken).digest('hex'),
+        familyId: 'family_1'
+      }));
+      expect(verifyJwt(response.accessToken, jwtConfig.key)).toMatchObject({
+        userId: 'user_client_1',
+        email: 'client@example.com',
+        role: 'client',
+        shootId: 'shoot_abc123',
+        invitationId: 'inv_1'
+      });
+    });
+
+    it('keeps the session role across refreshes', async () => {
+      refreshTokenRepo.findByHash.mockResolvedValue({ ...storedToken, role: 'guest' });
+
+      const response = await service.refresh(REFRESH_TOKEN);
+
+      expect(response.role).toBe('guest');
+      expect(verifyJwt(response.accessToken, jwtConfig.key).role).toBe('guest');
+    });
+
+    it('rejects an unknown refresh token', async () => {
+      refreshTokenRepo.findByHash.mockResolvedValue(null);
+
+      await expect(service.refresh(REFRESH_TOKEN)).rejects.toThrow(InvalidRefreshTokenError);
+      expect(refreshTokenRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('revokes the whole family when a rotated token is reused', async () => {
+      refreshTokenRepo.findByHash.mockResolvedValue({ ...storedToken, rotatedAt: new Date() });
+
+      await expect(service.refresh(REFRESH_TOKEN)).rejects.toThrow('Refresh token has already been used');
+      expect(refreshTokenRepo.revokeFamily).toHaveBeenCalledWith('family_1');
+      expect(refreshTokenRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('revokes the family when a concurrent refresh rotated the token first', async () => {
+      refreshTokenRepo.markRotated.mockResolvedValue(false);
+
+      await expect(service.refresh(REFRESH_TOKEN)).rejects.toThrow(InvalidRefreshTokenError);
+      expect(refreshTokenRepo.revokeFamily).toHaveBeenCalledWith('family_1');
+    });
+
+    it('rejects an expired refresh token', async () => {
+      refreshTokenRepo.findByHash.mockResolvedValue({ ...storedToken, expiresAt: new Date(Date.now() - 1000) });
+
+      await expect(service.refresh(REFRESH_TOKEN)).rejects.toThrow('Refresh token has expired');
+      expect(refreshTokenRepo.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logout', () => {
+    it('revokes the family of the presented token', async () => {
+      await service.logout(REFRESH_TOKEN);
+
+      expect(refreshTokenRepo.revokeFamily).toHaveBeenCalledWith('family_1');
+    });
+
+    it('ignores unknown tokens', async () => {
+      refreshTokenRepo.findByHash.mockResolvedValue(null);
+
+      await expect(service.logout(REFRESH_TOKEN)).resolves.toBeUndefined();
+      expect(refreshTokenRepo.revokeFamily).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { MockedObject } from 'vitest';
+import type { JWTPayload } from '@tempsdarret/shared/schemas/invite.schema';
+import {
+  GuestInvitationService,
+  GuestAccessDeniedError,
+  GuestQuotaExceededError
+} from '../../src/services/guest-invitation.service';
+import { InvitationRepository } from '../../src/persistence/invitation.repository';
+import { MagicLinkRepository } from '../../src/persistence/magic-link.repository';
+import { RefreshTokenRepository } from '../../src/persistence/refresh-token.repository';
+import { ShootServicePort } from '../../src/shared/clients/shoot-service.client';
+import { EventPublisher } from '../../src/shared/messaging/event-publisher';
+
+const SHOOT_ID = 'shoot_abc123';
+
+const client: JWTPayload = {
+  userId: 'user_client_1',
+  email: 'client@example.com',
+  role: 'client',
+  shootId: SHOOT_ID,
+  iat: 0,
+  exp: 0
+};
+
+const photographer: JWTPayload = {
+  userId: 'photographer_1',
+  email: 'jane.photographer@example.com',
+  role: 'photographer',
+  iat: 0,
+  exp: 0
+};
+
+const shoot = {
+  id: SHOOT_ID,
+  title: 'Wedding Photography',
+  clientEmail: 'client@example.com',
+  photographerId: 'photographer_1',
+  guestAllowance: 2
+};
+
+const guestInvitation = (id: string, clientEmail: string): Record<string, unknown> => ({
+  id,
+  shootId: SHOOT_ID,
+  clientEmail,
+  status: 'pending',
+  role: 'guest',
+  invitedBy: 'user_client_1'
+});
+
+describe('GuestInvitationService', () => {
+  let service: GuestInvitationService;
+  let invitationRepo: MockedObject<InvitationRepository>;
+  let magicLinkRepo: MockedObject<MagicLinkRepository>;
+  let refreshTokenRepo: MockedObject<RefreshTokenRepository>;
+  let publisher: MockedObject<EventPublisher>;
+
+  beforeEach(() => {
+    invitationRepo = {
+      create: vi.fn().mockImplementation(async (data) => ({ ...data, id: `inv_${data.clientEmail}` })),
+      findById: vi.fn(),
+      listActiveGuests: vi.fn().mockResolvedValue([]),
+      update: vi.fn().mockImplementation(async (id, data) => ({ ...guestInvitation(id, 'guest@example.com'), ...data }))
+    } as unknown as MockedObject<InvitationRepository>;
+
+    magicLinkRepo = {
+      create: vi.fn().mockImplementation(async (data) => ({ ...data })),
+      deactivateByInvitationId: vi.fn().mockResolvedValue(1)
+    } as unknown as MockedObject<MagicLinkRepository>;
+
+    refreshTokenRepo = {
+      revokeByInvitationId: vi.fn().mockResolvedValue(1)
+    } as unknown as MockedObject<RefreshTokenRepository>;
+
+    publisher = {
+      publish: vi.fn().mockResolvedValue(undefined),
+      connect: vi.fn(),
+      disconnect: vi.fn()
+    } as unknown as MockedObject<EventPublisher>;
+
+    const shootService: ShootServicePort = { getShoot: vi.fn().mockResolvedValue(shoot) };
+
+    service = new GuestInvitationService(invitationRepo, magicLinkRepo, refreshTokenRepo, shootService, publisher);
+  });
+
+  describe('inviteGuests', () => {
+    it('invites each guest with a guest-role magic link and emails them', async () => {
+      const guests = await service.inviteGuests(client, {
+        shootId: SHOOT_ID,
+        emails: ['Aunt@Example.com', 'client@example.com']
+      });
+
+      expect(guests).toHaveLength(1);
+      expect(guests[0]).toMatchObject({
+        clientEmail: 'aunt@example.com',
+        role: 'guest',
+        invitedBy: 'user_client_1',
+        permissions: { downloadPhotos: true, downloadOriginals: false, downloadArchives: false }
+      });
+      expect(magicLinkRepo.create).toHaveBeenCalledWith(expect.objectContaining({
+        clientEmail: 'aunt@example.com',
+        invitationId: 'inv_aunt@example.com',
+        role: 'guest'
+      }));
+      expect(publisher.publish).toHaveBeenCalledWith('invitations', expect.objectContaining({
+        eventType: 'invitation.created',
+        clientEmail: 'aunt@example.com',
+        shootDetails: { eventName: 'Wedding Photography' },
+        magicLinkUrl: expect.stringMatching(/\/gallery\/access\/[a-f0-9]{64}$/)
+      }));
+    });
+
+    it('rejects invitations beyond the shoot guest allowance', async () => {
+      invitationRepo.listActiveGuests.mockResolvedValue([guestInvitation('inv_1', 'uncle@example.com')] as any);
+
+      await expect(service.inviteGuests(client, {
+        shootId: SHOOT_ID,
+        emails: ['aunt@example.com', 'cousin@example.com']
+      })).rejects.toThrow(GuestQuotaExceededError);
+      expect(invitationRepo.create).not.toHaveBeenCalled();
+    });
+
+    it('does not let guests or clients of other shoots invite', async () => {
+      const guest: JWTPayload = { ...client, role: 'guest' };
+      const otherClient: JWTPayload = { ...client, shootId: 'shoot_other' };
+
+      await expect(service.inviteGuests(guest, { shootId: SHOOT_ID, emails: ['aunt@example.com'] }))
+        .rejects.toThrow(GuestAccessDeniedError);
+      await expect(service.inviteGuests(otherClient, { shootId: SHOOT_ID, emails: ['aunt@example.com'] }))
+        .rejects.toThrow(GuestAccessDeniedError);
+    });
+  });
+
+  describe('revokeGuest', () => {
+    it('lets the photographer revoke a guest and kills their links and sessions', async () => {
+      invitationRepo.findById.mockResolvedValue(guestInvitation('inv_1', 'guest@example.com') as any);
+
+      const revoked = await service.revokeGuest(photographer, 'inv_1');
+
+      expect(invitationRepo.update).toHaveBeenCalledWith('inv_1', {
+        status: 'revoked',
+        revokedAt: expect.any(Date),
+        revokedBy: 'photographer_1'
+      });
+      expect(magicLinkRepo.deactivateByInvitationId).toHaveBeenCalledWith('inv_1');
+      expect(refreshTokenRepo.revokeByInvitationId).toHaveBeenCalledWith('inv_1');
+      expect(revoked.status).toBe('revoked');
+    });
+
+    it('refuses another photographer', async () => {
+      invitationRepo.findById.mockResolvedValue(guestInvitation('inv_1', 'guest@example.com') as any);
+
+      await expect(service.revokeGuest({ ...photographer, userId: 'photographer_2' }, 'inv_1'))
+        .rejects.toThrow(GuestAccessDeniedError);
+      expect(invitationRepo.update).not.toHaveBeenCalled();
+    });
+  });
+});
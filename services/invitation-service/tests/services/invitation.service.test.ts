@@ -1,8 +1,10 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import type { MockedObject } from 'vitest';
-import { InvitationService, UserCreatedEvent, UserVerifiedEvent } from '../../src/services/invitation.service';
+import { createHash } from 'crypto';
+import { InvitationService, UserCreatedEvent, UserVerifiedEvent, ShootDeletedEvent } from '../../src/services/invitation.service';
 import { InvitationRepository } from '../../src/persistence/invitation.repository';
 import { MagicLinkRepository } from '../../src/persistence/magic-link.repository';
+import { RefreshTokenRepository } from '../../src/persistence/refresh-token.repository';
 import { EventPublisher } from '../../src/shared/messaging/event-publisher';
 
 const enrichedUserEvent: UserCreatedEvent = {
@@ -53,7 +55,12 @@ describe('InvitationService.handleUserCreatedEvent — enriched invitation.creat
       disconnect: vi.fn()
     } as unknown as MockedObject<EventPublisher>;
 
-    service = new InvitationService(invitationRepo, magicLinkRepo, publisher);
+    service = new InvitationService(
+      invitationRepo,
+      magicLinkRepo,
+      {} as unknown as MockedObject<RefreshTokenRepository>,
+      publisher
+    );
   });
 
   it('generates a 64-char hex token with a 48h expiry', async () => {
@@ -62,6 +69,11 @@ describe('InvitationService.handleUserCreatedEvent — enriched invitation.creat
     const magicLinkArg = magicLinkRepo.create.mock.calls[0]?.[0] as { token: string; expiresAt: Date };
     expect(magicLinkArg.token).toMatch(/^[a-f0-9]{64}$/);
 
+    // Only the hash of the emailed token is stored
+    const { magicLinkUrl } = publisher.publish.mock.calls[0]?.[1] as { magicLinkUrl: string };
+    const emailedToken = magicLinkUrl.split('/').pop() as string;
+    expect(magicLinkArg.token).toBe(createHash('sha256').update(emailedToken).digest('hex'));
+
     const ttlMs = magicLinkArg.expiresAt.getTime() - Date.now();
     expect(ttlMs).toBeGreaterThan(47 * 60 * 60 * 1000); // ~48h, allowing processing time
     expect(ttlMs).toBeLessThanOrEqual(48 * 60 * 60 * 1000);
@@ -118,3 +130,75 @@ describe('InvitationService.handleUserCreatedEvent — enriched invitation.creat
     );
   });
 });
+
+describe('InvitationService.handleShootDeletedEvent — shoot deletion cleanup', () => {
+  let service: InvitationService;
+  let invitationRepo: MockedObject<InvitationRepository>;
+  let magicLinkRepo: MockedObject<MagicLinkRepository>;
+  let refreshTokenRepo: MockedObject<RefreshTokenRepository>;
+  let publisher: MockedObject<EventPublisher>;
+
+  const shootDeletedEvent: ShootDeletedEvent = {
+    eventType: 'shoot.deleted',
+    shootId: 'shoot_abc123',
+    deletedAt: '2026-07-13T00:00:00.000Z'
+  };
+
+  beforeEach(() => {
+    invitationRepo = {
+      deleteByShootId: vi.fn().mockResolvedValue(2)
+    } as unknown as MockedObject<InvitationRepository>;
+
+    magicLinkRepo = {
+      deleteByShootId: vi.fn().mockResolvedValue(3)
+    } as unknown as MockedObject<MagicLinkRepository>;
+
+    refreshTokenRepo = {
+      revokeByShootId: vi.fn().mockResolvedValue(4)
+    } as unknown as MockedObject<RefreshTokenRepository>;
+
+    publisher = {
+      publish: vi.fn().mockResolvedValue(undefined),
+      connect: vi.fn(),
+      disconnect: vi.fn()
+    } as unknown as MockedObject<EventPublisher>;
+
+    service = new InvitationService(invitationRepo, magicLinkRepo, refreshTokenRepo, publisher);
+  });
+
+  it('drops the shoot invitations and magic links, revokes its sessions and reports what was removed', async () => {
+    await service.handleShootDeletedEvent(shootDeletedEvent);
+
+    expect(invitationRepo.deleteByShootId).toHaveBeenCalledWith('shoot_abc123');
+    expect(magicLinkRepo.deleteByShootId).toHaveBeenCalledWith('shoot_abc123');
+    expect(refreshTokenRepo.revokeByShootId).toHaveBeenCalledWith('shoot_abc123');
+    expect(publisher.publish).toHaveBeenCalledWith(
+      'shoots',
+      expect.objectContaining({
+        eventType: 'shoot.cleanup.reported',
+        shootId: 'shoot_abc123',
+        service: 'invitation-service',
+        success: true,
+        removed: { invitations: 2, magicLinks: 3, refreshTokens: 4 }
+      }),
+      'shoot_abc123'
+    );
+  });
+
+  it('reports a failed cleanup instead of throwing', async () => {
+    magicLinkRepo.deleteByShootId.mockRejectedValue(new Error('Mongo timeout'));
+
+    await service.handleShootDeletedEvent(shootDeletedEvent);
+
+    expect(publisher.publish).toHaveBeenCalledWith(
+      'shoots',
+      expect.objectContaining({
+        eventType: 'shoot.cleanup.reported',
+        service: 'invitation-service',
+        success: false,
+        error: 'Mongo timeout'
+      }),
+      'shoot_abc123'
+    );
+  });
+});
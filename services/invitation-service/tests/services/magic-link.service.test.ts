@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { MockedObject } from 'vitest';
+import { createHash } from 'crypto';
+import { verifyJwt, type JwtConfig } from '@tempsdarret/shared/auth';
+import { MagicLinkService } from '../../src/services/magic-link.service';
+import { AuthSessionService } from '../../src/services/auth-session.service';
+import { MagicLinkRepository } from '../../src/persistence/magic-link.repository';
+import { InvitationRepository } from '../../src/persistence/invitation.repository';
+import { RefreshTokenRepository } from '../../src/persistence/refresh-token.repository';
+import { EventPublisher } from '../../src/shared/messaging/event-publisher';
+
+const TOKEN = 'a'.repeat(64);
+const jwtConfig: JwtConfig = { key: { algorithm: 'HS256', secret: 'test-secret' }, expiresIn: '1h' };
+
+const activeMagicLink = {
+  id: 'ml_1',
+  token: createHash('sha256').update(TOKEN).digest('hex'),
+  shootId: 'shoot_abc123',
+  clientEmail: 'client@example.com',
+  userId: 'user_client_1',
+  invitationId: 'inv_1',
+  expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  isActive: true,
+  accessCount: 0,
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+describe('MagicLinkService.validateMagicLink — access token issuance', () => {
+  let service: MagicLinkService;
+  let magicLinkRepo: MockedObject<MagicLinkRepository>;
+  let publisher: MockedObject<EventPublisher>;
+  let refreshTokenRepo: MockedObject<RefreshTokenRepository>;
+
+  beforeEach(() => {
+    magicLinkRepo = {
+      findByToken: vi.fn().mockResolvedValue(activeMagicLink),
+      markAsUsed: vi.fn().mockResolvedValue(undefined)
+    } as unknown as MockedObject<MagicLinkRepository>;
+
+    publisher = {
+      publish: vi.fn().mockResolvedValue(undefined),
+      connect: vi.fn(),
+      disconnect: vi.fn()
+    } as unknown as MockedObject<EventPublisher>;
+
+    refreshTokenRepo = {
+      create: vi.fn().mockResolvedValue(undefined)
+    } as unknown as MockedObject<RefreshTokenRepository>;
+
+    service = new MagicLinkService(
+      magicLinkRepo,
+      {} as InvitationRepository,
+      publisher,
+      new AuthSessionService(refreshTokenRepo, jwtConfig, '30d')
+    );
+  });
+
+  it('issues a signed JWT carrying the client claims', async () => {
+    const response = await service.validateMagicLink({ token: TOKEN });
+
+    expect(magicLinkRepo.findByToken).toHaveBeenCalledWith(activeMagicLink.token);
+    expect(response.expiresIn).toBe(3600);
+    expect(verifyJwt(response.accessToken, jwtConfig.key)).toMatchObject({
+      userId: 'user_client_1',
+      email: 'client@example.com',
+      role: 'client',
+      shootId: 'shoot_abc123',
+      invitationId: 'inv_1'
+    });
+  });
+
+  it('starts a refresh token family bound to the same client', async () => {
+    const response = await service.validateMagicLink({ token: TOKEN });
+
+    expect(response.refreshToken).toMatch(/^[a-f0-9]{64}$/);
+    expect(response.refreshExpiresIn).toBe(30 * 24 * 3600);
+    expect(refreshTokenRepo.create).toHaveBeenCalledWith(expect.objectContaining({
+      tokenHash: createHash('sha256').update(response.refreshToken).digest('hex'),
+      familyId: expect.any(String),
+      clientEmail: 'client@example.com',
+      userId: 'user_client_1',
+      shootId: 'shoot_abc123',
+      invitationId: 'inv_1'
+    }));
+  });
+
+  it('identifies the client by email when the link has no user', async () => {
+    magicLinkRepo.findByToken.mockResolvedValue({ ...activeMagicLink, userId: undefined, invitationId: undefined });
+
+    const response = await service.validateMagicLink({ token: TOKEN });
+    const claims = verifyJwt(response.accessToken, jwtConfig.key);
+
+    expect(claims.userId).toBe('client@example.com');
+    expect(claims.invitationId).toBeUndefined();
+  });
+
+  it('issues no token for a used link', async () => {
+    magicLinkRepo.findByToken.mockResolvedValue({ ...activeMagicLink, isActive: false });
+
+    await expect(service.validateMagicLink({ token: TOKEN })).rejects.toThrow('Magic link has already been used');
+    expect(magicLinkRepo.markAsUsed).not.toHaveBeenCalled();
+  });
+});
+
+describe('MagicLinkService.requestMagicLink — self-service re-request', () => {
+  let service: MagicLinkService;
+  let magicLinkRepo: MockedObject<MagicLinkRepository>;
+  let invitationRepo: MockedObject<InvitationRepository>;
+  let publisher: MockedObject<EventPublisher>;
+
+  beforeEach(() => {
+    magicLinkRepo = {
+      findLatestByInvitationId: vi.fn().mockResolvedValue(activeMagicLink),
+      getRecentTokensCount: vi.fn().mockResolvedValue(0),
+      create: vi.fn().mockImplementation(async (data) => ({ ...data, id: 'ml_2', createdAt: new Date(), updatedAt: new Date() }))
+    } as unknown as MockedObject<MagicLinkRepository>;
+
+    invitationRepo = {
+      list: vi.fn().mockResolvedValue([{ id: 'inv_1', shootId: 'shoot_abc123', clientEmail: 'client@example.com' }])
+    } as unknown as MockedObject<InvitationRepository>;
+
+    publisher = {
+      publish: vi.fn().mockResolvedValue(undefined),
+      connect: vi.fn(),
+      disconnect: vi.fn()
+    } as unknown as MockedObject<EventPublisher>;
+
+    service = new MagicLinkService(magicLinkRepo, invitationRepo, publisher, {} as AuthSessionService);
+  });
+
+  it('issues a link for the invited client and publishes it for the email', async () => {
+    await service.requestMagicLink({ shootId: 'shoot_abc123', email: 'Client@Example.com' });
+
+    expect(invitationRepo.list).toHaveBeenCalledWith({ shootId: 'shoot_abc123', clientEmail: 'client@example.com', limit: 1 });
+    expect(magicLinkRepo.create).toHaveBeenCalledWith(expect.objectContaining({
+      clientEmail: 'client@example.com',
+      userId: 'user_client_1',
+      invitationId: 'inv_1'
+    }));
+    expect(publisher.publish).toHaveBeenCalledWith('magic-links', expect.objectContaining({
+      eventType: 'magic.link.generated',
+      invitationId: 'inv_1',
+      clientEmail: 'client@example.com',
+      magicLinkUrl: expect.stringMatching(/\/gallery\/access\/[a-f0-9]{64}$/),
+      expirationDate: expect.any(String)
+    }));
+  });
+
+  it('silently issues nothing for an email without an invitation', async () => {
+    invitationRepo.list.mockResolvedValue([]);
+
+    await expect(service.requestMagicLink({ shootId: 'shoot_abc123', email: 'stranger@example.com' }))
+      .resolves.toBeUndefined();
+    expect(magicLinkRepo.create).not.toHaveBeenCalled();
+    expect(publisher.publish).not.toHaveBeenCalled();
+  });
+
+  it('silently issues nothing once the client is rate limited', async () => {
+    magicLinkRepo.getRecentTokensCount.mockResolvedValue(3);
+
+    await expect(service.requestMagicLink({ shootId: 'shoot_abc123', email: 'client@example.com' }))
+      .resolves.toBeUndefined();
+    expect(magicLinkRepo.create).not.toHaveBeenCalled();
+  });
+});
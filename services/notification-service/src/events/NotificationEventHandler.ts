@@ -10,7 +10,9 @@ import {
   InvitationCreatedEvent,
   ShootCompletedEvent,
   ShootUpdatedEvent,
-  MagicLinkExpiringEvent
+  MagicLinkExpiringEvent,
+  MagicLinkGeneratedEvent,
+  ArchiveReadyEvent
 } from '../shared/contracts/notifications.events.js';
 import { EmailService } from '../services/EmailService.js';
 import { EventPublisher } from '@tempsdarret/shared/messaging';
@@ -108,4 +110,54 @@ export class NotificationEventHandler {
       correlationId: event.invitationId
     });
   }
+
+  // A client asked for a new link: same magic-link email as the invitation,
+  // without the shoot details (not carried by the re-request)
+  async handleMagicLinkGenerated(event: MagicLinkGeneratedEvent): Promise<void> {
+    await this.emailService.sendMagicLinkEmail({
+      recipientEmail: event.clientEmail,
+      variables: {
+        clientName: 'Valued Client',
+        eventName: `Shoot ${event.shootId}`,
+        magicLinkUrl: event.magicLinkUrl,
+        expirationDate: event.expirationDate,
+        photographerName: 'Your Photographer'
+      },
+      shootId: event.shootId,
+      correlationId: event.invitationId ?? event.magicLinkId
+    });
+  }
+
+  // An archive the client asked to be told about is ready: email its signed
+  // link (file-service only carries one for archives with a requester)
+  async handleArchiveReady(event: ArchiveReadyEvent): Promise<void> {
+    if (!event.notifyEmail || !event.downloadUrl) {
+      return;
+    }
+
+    await this.emailService.sendArchiveReadyEmail({
+      recipientEmail: event.notifyEmail,
+      variables: {
+        clientName: 'Valued Client',
+        eventName: `Shoot ${event.shootId}`,
+        archiveSize: formatSize(event.finalSize),
+        downloadUrl: event.downloadUrl,
+        expirationDate: event.expiresAt,
+        photographerName: 'Your Photographer'
+      },
+      shootId: event.shootId,
+      correlationId: event.archiveId
+    });
+  }
+}
+
+function formatSize(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let size = bytes;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? size : size.toFixed(1)} ${units[unit]}`;
 }
@@ -1,7 +1,7 @@
 /**
  * Notification Service entrypoint.
  *
- * Consumes invitation/shoot events and sends the corresponding emails via
+ * Consumes invitation/shoot/archive events and sends the corresponding emails via
  * Resend, then publishes delivery events (e.g. invitation.sent). Kafka plumbing
  * uses the shared KafkaConsumer/KafkaEventPublisher; business logic lives in
  * NotificationEventHandler.
@@ -20,7 +20,9 @@ import {
   invitationCreatedEventSchema,
   shootCompletedEventSchema,
   shootUpdatedEventSchema,
-  magicLinkExpiringEventSchema
+  magicLinkExpiringEventSchema,
+  magicLinkGeneratedEventSchema,
+  archiveReadyEventSchema
 } from './shared/contracts/notifications.events.js';
 
 /**
@@ -46,10 +48,12 @@ export async function startService(): Promise<{ stop: () => Promise<void> }> {
     'invitation.created': (event) => handler.handleInvitationCreated(invitationCreatedEventSchema.parse(event)),
     'shoot.completed': (event) => handler.handleShootCompleted(shootCompletedEventSchema.parse(event)),
     'shoot.updated': (event) => handler.handleShootUpdated(shootUpdatedEventSchema.parse(event)),
-    'magic.link.expiring': (event) => handler.handleMagicLinkExpiring(magicLinkExpiringEventSchema.parse(event))
+    'magic.link.expiring': (event) => handler.handleMagicLinkExpiring(magicLinkExpiringEventSchema.parse(event)),
+    'magic.link.generated': (event) => handler.handleMagicLinkGenerated(magicLinkGeneratedEventSchema.parse(event)),
+    'archive.ready': (event) => handler.handleArchiveReady(archiveReadyEventSchema.parse(event))
   };
   const consumer = new KafkaConsumer(kafka, appConfig.serviceName, handlers);
-  await consumer.start(['invitations', 'shoots', 'magic-links']);
+  await consumer.start(['invitations', 'shoots', 'magic-links', 'archives']);
 
   // eslint-disable-next-line no-console
   console.log(`${appConfig.serviceName} consuming events on port ${appConfig.port}`);
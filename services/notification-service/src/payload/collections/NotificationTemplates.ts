@@ -36,6 +36,7 @@ export const NotificationTemplates: CollectionConfig = {
         { label: 'Shoot Update', value: 'shoot-update' },
         { label: 'Reminder', value: 'reminder' },
         { label: 'Welcome', value: 'welcome' },
+        { label: 'Archive Ready', value: 'archive-ready' },
         { label: 'Shoot Confirmation', value: 'shoot-confirmation' },
       ],
       admin: {
@@ -10,7 +10,7 @@
 import { z } from 'zod';
 
 export const notificationChannelSchema = z.enum(['email', 'slack', 'sms', 'whatsapp', 'push']);
-export const templateTypeSchema = z.enum(['magic-link', 'photos-ready', 'shoot-update', 'reminder', 'welcome']);
+export const templateTypeSchema = z.enum(['magic-link', 'photos-ready', 'shoot-update', 'reminder', 'welcome', 'archive-ready']);
 export const variableTypeSchema = z.enum(['string', 'number', 'boolean', 'date', 'url']);
 
 export const payloadTemplateSchema = z.object({
@@ -52,6 +52,11 @@ const FALLBACK_TEMPLATES: Record<TemplateType, { subject: string; text: string;
     subject: 'Welcome to Temps D’arrêt',
     text: 'Hi {{clientName}},\n\nWelcome! Your gallery is available at {{magicLinkUrl}}',
     html: '<p>Hi {{clientName}},</p><p>Welcome! <a href="{{magicLinkUrl}}">Access your gallery</a></p>'
+  },
+  'archive-ready': {
+    subject: 'Your {{eventName}} download is ready',
+    text: 'Hi {{clientName}},\n\nYour archive of {{eventName}} ({{archiveSize}}) is ready to download: {{downloadUrl}}\n\nThis link expires on {{expirationDate}}.',
+    html: '<p>Hi {{clientName}},</p><p>Your archive of <strong>{{eventName}}</strong> ({{archiveSize}}) is ready.</p><p><a href="{{downloadUrl}}">Download it</a></p><p>This link expires on {{expirationDate}}.</p>'
   }
 };
 
@@ -77,6 +82,10 @@ export class EmailService {
     return this.sendTemplatedEmail('reminder', params);
   }
 
+  async sendArchiveReadyEmail(params: SendEmailParams): Promise<SendResult> {
+    return this.sendTemplatedEmail('archive-ready', params);
+  }
+
   private async sendTemplatedEmail(type: TemplateType, params: SendEmailParams): Promise<SendResult> {
     const template = (await this.templateService.getTemplate(type, 'email')) ?? this.fallbackTemplate(type);
     const rendered = await this.templateService.renderTemplate(template, params.variables);
@@ -185,6 +185,7 @@ export class EmailRepository extends BaseNotificationRepository {
       'shoot-update': '📝 Project Update',
       'reminder': '⏰ Gallery Access Reminder',
       'welcome': '👋 Welcome to Your Gallery',
+      'archive-ready': '📦 Your Download Is Ready',
     };
 
     return subjects[templateType as keyof typeof subjects] || 'Notification';
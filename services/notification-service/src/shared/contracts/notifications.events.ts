@@ -56,7 +56,9 @@ export const shootUpdatedEventSchema = z.object({
   updateDetails: z.object({
     eventName: z.string(),
     updateMessage: z.string(),
-    photographerName: z.string()
+    // shoot-service only knows the photographer's id, so the name may be
+    // absent; the email composes with sensible defaults.
+    photographerName: z.string().optional()
   }),
   projectUrl: z.string(),
   timestamp: z.string()
@@ -75,6 +77,33 @@ export const magicLinkExpiringEventSchema = z.object({
 });
 export type MagicLinkExpiringEvent = z.infer<typeof magicLinkExpiringEventSchema>;
 
+// Self-service re-request: invitation-service only issues these to invited clients
+export const magicLinkGeneratedEventSchema = z.object({
+  eventType: z.literal('magic.link.generated'),
+  magicLinkId: z.string(),
+  shootId: z.string(),
+  clientEmail: z.string(),
+  invitationId: z.string().optional(),
+  magicLinkUrl: z.string(),
+  expirationDate: z.string(),
+  timestamp: z.string()
+});
+export type MagicLinkGeneratedEvent = z.infer<typeof magicLinkGeneratedEventSchema>;
+
+// file-service: an archive finished generating. Its signed link is only
+// emailed when the archive was requested with an address to notify.
+export const archiveReadyEventSchema = z.object({
+  eventType: z.literal('archive.ready'),
+  archiveId: z.string(),
+  shootId: z.string(),
+  finalSize: z.number(),
+  downloadUrl: z.string().optional(),
+  notifyEmail: z.string().optional(),
+  expiresAt: z.string(),
+  readyAt: z.string()
+});
+export type ArchiveReadyEvent = z.infer<typeof archiveReadyEventSchema>;
+
 // Events the notification service PUBLISHES (email delivery status)
 export interface EmailSentEvent {
   eventType: 'email.sent';
@@ -126,7 +155,8 @@ export type ConsumedEvent =
   | InvitationCreatedEvent
   | ShootCompletedEvent
   | ShootUpdatedEvent
-  | MagicLinkExpiringEvent;
+  | MagicLinkExpiringEvent
+  | ArchiveReadyEvent;
 
 export type PublishedEvent =
   | EmailSentEvent
@@ -140,6 +170,7 @@ export const CONSUMED_EVENT_TYPES = {
   SHOOT_COMPLETED: 'shoot.completed', 
   SHOOT_UPDATED: 'shoot.updated',
   MAGIC_LINK_EXPIRING: 'magic.link.expiring',
+  ARCHIVE_READY: 'archive.ready',
 } as const;
 
 export const PUBLISHED_EVENT_TYPES = {
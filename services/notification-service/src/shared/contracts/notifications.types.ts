@@ -4,7 +4,7 @@
  */
 
 export type NotificationChannel = 'email' | 'slack' | 'sms' | 'whatsapp' | 'push';
-export type TemplateType = 'magic-link' | 'photos-ready' | 'shoot-update' | 'reminder' | 'welcome';
+export type TemplateType = 'magic-link' | 'photos-ready' | 'shoot-update' | 'reminder' | 'welcome' | 'archive-ready';
 export type NotificationPriority = 'low' | 'normal' | 'high' | 'urgent';
 export type DeliveryStatus = 'queued' | 'sending' | 'sent' | 'delivered' | 'failed' | 'bounced';
 
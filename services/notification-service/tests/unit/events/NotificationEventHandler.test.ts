@@ -3,7 +3,11 @@ import type { MockedObject } from 'vitest';
 import { NotificationEventHandler } from '../../../src/events/NotificationEventHandler.js';
 import { EmailService } from '../../../src/services/EmailService.js';
 import type { EventPublisher } from '@tempsdarret/shared/messaging';
-import type { InvitationCreatedEvent } from '../../../src/shared/contracts/notifications.events.js';
+import type {
+  InvitationCreatedEvent,
+  MagicLinkGeneratedEvent,
+  ArchiveReadyEvent
+} from '../../../src/shared/contracts/notifications.events.js';
 
 const invitationCreated: InvitationCreatedEvent = {
   eventType: 'invitation.created',
@@ -90,3 +94,83 @@ describe('NotificationEventHandler.handleInvitationCreated', () => {
     );
   });
 });
+
+describe('NotificationEventHandler.handleMagicLinkGenerated', () => {
+  const magicLinkGenerated: MagicLinkGeneratedEvent = {
+    eventType: 'magic.link.generated',
+    magicLinkId: 'ml_2',
+    shootId: 'shoot_1',
+    clientEmail: 'client@example.com',
+    invitationId: 'inv_1',
+    magicLinkUrl: 'https://app/gallery/access/tok2',
+    expirationDate: '2026-09-17T14:15:00.000Z',
+    timestamp: '2026-09-17T14:00:00.000Z'
+  };
+
+  it('emails the re-requested magic link', async () => {
+    const emailService = {
+      sendMagicLinkEmail: vi.fn().mockResolvedValue({ success: true, messageId: 'msg_2' })
+    } as unknown as MockedObject<EmailService>;
+    const handler = new NotificationEventHandler(emailService, {} as EventPublisher);
+
+    await handler.handleMagicLinkGenerated(magicLinkGenerated);
+
+    expect(emailService.sendMagicLinkEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        recipientEmail: 'client@example.com',
+        shootId: 'shoot_1',
+        correlationId: 'inv_1',
+        variables: expect.objectContaining({
+          magicLinkUrl: 'https://app/gallery/access/tok2',
+          expirationDate: '2026-09-17T14:15:00.000Z'
+        })
+      })
+    );
+  });
+});
+
+describe('NotificationEventHandler.handleArchiveReady', () => {
+  const archiveReady: ArchiveReadyEvent = {
+    eventType: 'archive.ready',
+    archiveId: 'archive_1',
+    shootId: 'shoot_1',
+    finalSize: 3 * 1024 ** 3,
+    downloadUrl: 'https://api/v1/files/archives/archive_1/download?user=u&expires=1&signature=s',
+    notifyEmail: 'client@example.com',
+    expiresAt: '2026-09-24T14:00:00.000Z',
+    readyAt: '2026-09-17T14:00:00.000Z'
+  };
+
+  let emailService: MockedObject<EmailService>;
+  let handler: NotificationEventHandler;
+
+  beforeEach(() => {
+    emailService = {
+      sendArchiveReadyEmail: vi.fn().mockResolvedValue({ success: true, messageId: 'msg_3' })
+    } as unknown as MockedObject<EmailService>;
+    handler = new NotificationEventHandler(emailService, {} as EventPublisher);
+  });
+
+  it('emails the signed download link to the address given with the archive', async () => {
+    await handler.handleArchiveReady(archiveReady);
+
+    expect(emailService.sendArchiveReadyEmail).toHaveBeenCalledWith(
+      expect.objectContaining({
+        recipientEmail: 'client@example.com',
+        shootId: 'shoot_1',
+        correlationId: 'archive_1',
+        variables: expect.objectContaining({
+          downloadUrl: archiveReady.downloadUrl,
+          archiveSize: '3.0 GB',
+          expirationDate: '2026-09-24T14:00:00.000Z'
+        })
+      })
+    );
+  });
+
+  it('sends nothing for archives nobody asked to be notified about', async () => {
+    await handler.handleArchiveReady({ ...archiveReady, notifyEmail: undefined });
+
+    expect(emailService.sendArchiveReadyEmail).not.toHaveBeenCalled();
+  });
+});
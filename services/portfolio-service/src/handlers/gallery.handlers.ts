@@ -83,6 +83,14 @@ export class GalleryHandlers {
         message: 'Gallery updated successfully'
       });
     } catch (error) {
+      if (error instanceof ZodError) {
+        return reply.code(400).send({
+          code: 400,
+          message: 'Validation error',
+          details: error.issues.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ')
+        });
+      }
+
       // eslint-disable-next-line no-console
       console.error('Failed to update gallery:', error);
       return reply.code(500).send({
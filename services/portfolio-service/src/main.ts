@@ -3,8 +3,9 @@ import { Kafka } from 'kafkajs';
 import { appConfig } from './config/app.config.js';
 import { dbConnection } from './config/database.js';
 import { EventPublisher } from './shared/messaging/index.js';
+import { KafkaConsumer } from '@tempsdarret/shared/messaging';
 import { PortfolioService } from './services/portfolio.service.js';
-import { GalleryService } from './services/gallery.service.js';
+import { GalleryService, shootDeletedEventSchema } from './services/gallery.service.js';
 import { PortfolioHandlers } from './handlers/portfolio.handlers.js';
 import { GalleryHandlers } from './handlers/gallery.handlers.js';
 import { PortfolioRepository } from './persistence/portfolio.repository.js';
@@ -16,6 +17,7 @@ class PortfolioServiceApp {
   private readonly fastify: ReturnType<typeof Fastify>;
   private readonly kafka: Kafka;
   private readonly eventPublisher: EventPublisher;
+  private consumer: KafkaConsumer | undefined;
 
   constructor() {
     this.fastify = Fastify({ logger: true });
@@ -45,6 +47,14 @@ class PortfolioServiceApp {
       const portfolioService = new PortfolioService(portfolioRepository, this.eventPublisher);
       const galleryService = new GalleryService(galleryRepository, this.eventPublisher);
 
+      // Shoot deletion saga: drop the deleted shoot's galleries
+      this.consumer = new KafkaConsumer(this.kafka, 'portfolio-service', {
+        'shoot.deleted': async (event): Promise<void> => {
+          await galleryService.handleShootDeleted(shootDeletedEventSchema.parse(event).shootId);
+        }
+      });
+      await this.consumer.start(['shoots']);
+
       const portfolioHandlers = new PortfolioHandlers(portfolioService);
       const galleryHandlers = new GalleryHandlers(galleryService);
 
@@ -69,6 +79,7 @@ class PortfolioServiceApp {
   }
 
   async stop(): Promise<void> {
+    await this.consumer?.stop();
     await dbConnection.disconnect();
     await this.eventPublisher.disconnect();
     await this.fastify.close();
@@ -60,6 +60,18 @@ export class GalleryRepository {
     return result.deletedCount > 0;
   }
 
+  /**
+   * Remove every gallery of a shoot together with its images.
+   */
+  async deleteByShootId(shootId: string): Promise<{ galleries: number; images: number }> {
+    const galleryIds = await GalleryModel.find({ shootId }).distinct('id').exec();
+
+    const images = await GalleryImageModel.deleteMany({ galleryId: { $in: galleryIds } }).exec();
+    const galleries = await GalleryModel.deleteMany({ shootId }).exec();
+
+    return { galleries: galleries.deletedCount, images: images.deletedCount };
+  }
+
   // Gallery Images
   async addImages(galleryId: string, request: AddGalleryImagesRequest): Promise<IGalleryImageDocument[]> {
     const startOrder = request.startOrder ?? 0;
@@ -5,8 +5,26 @@ import {
   GalleryQuery,
   Gallery,
   GalleryImage,
-  AddGalleryImagesRequest
+  AddGalleryImagesRequest,
+  WatermarkSettingsSchema
 } from '@tempsdarret/shared/schemas/portfolio.schema';
+import type { ShootCleanupReportedEvent } from '@tempsdarret/shared/schemas/shoot.schema';
+import { z } from 'zod';
+
+export const shootDeletedEventSchema = z.object({
+  eventType: z.literal('shoot.deleted'),
+  shootId: z.string()
+});
+
+/**
+ * Validate a gallery's watermark settings, filling in their defaults.
+ * Throws a ZodError for invalid settings.
+ */
+function withValidWatermark<T extends Partial<CreateGalleryRequest>>(galleryData: T): T {
+  return galleryData.watermark
+    ? { ...galleryData, watermark: WatermarkSettingsSchema.parse(galleryData.watermark) }
+    : galleryData;
+}
 
 export class GalleryService {
   constructor(
@@ -15,7 +33,7 @@ export class GalleryService {
   ) {}
 
   async createGallery(galleryData: CreateGalleryRequest): Promise<Gallery> {
-    const savedGallery = await this.galleryRepository.create(galleryData);
+    const savedGallery = await this.galleryRepository.create(withValidWatermark(galleryData));
 
     await this.eventPublisher.publish('galleries', {
       eventType: 'gallery.created',
@@ -35,7 +53,7 @@ export class GalleryService {
   }
 
   async updateGallery(galleryId: string, updateData: Partial<CreateGalleryRequest>): Promise<Gallery | null> {
-    const updatedGallery = await this.galleryRepository.updateById(galleryId, updateData);
+    const updatedGallery = await this.galleryRepository.updateById(galleryId, withValidWatermark(updateData));
 
     if (updatedGallery) {
       await this.eventPublisher.publish('galleries', {
@@ -72,6 +90,29 @@ export class GalleryService {
     return deleted;
   }
 
+  /**
+   * Shoot deletion saga: drop the shoot's galleries and report the outcome
+   * back to shoot-service. A failure is reported rather than thrown.
+   */
+  async handleShootDeleted(shootId: string): Promise<void> {
+    let outcome: Pick<ShootCleanupReportedEvent, 'success' | 'error' | 'removed'>;
+    try {
+      const removed = await this.galleryRepository.deleteByShootId(shootId);
+      outcome = { success: true, removed };
+    } catch (error) {
+      outcome = { success: false, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    const report: ShootCleanupReportedEvent = {
+      eventType: 'shoot.cleanup.reported',
+      shootId,
+      service: 'portfolio-service',
+      ...outcome,
+      timestamp: new Date().toISOString()
+    };
+    await this.eventPublisher.publish('shoots', report, shootId);
+  }
+
   async addImagesToGallery(galleryId: string, request: AddGalleryImagesRequest): Promise<GalleryImage[]> {
     const images = await this.galleryRepository.addImages(galleryId, request);
 
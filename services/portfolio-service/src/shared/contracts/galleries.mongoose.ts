@@ -1,5 +1,5 @@
 import mongoose, { Schema, Document } from 'mongoose';
-import { Gallery, GalleryType } from '@tempsdarret/shared/schemas/portfolio.schema';
+import { Gallery, GalleryType, WatermarkPosition } from '@tempsdarret/shared/schemas/portfolio.schema';
 
 export interface IGalleryDocument extends Omit<Gallery, 'id' | 'createdAt' | 'updatedAt'>, Document {
   id: string;
@@ -26,6 +26,24 @@ const GallerySchema = new Schema<IGalleryDocument>(
     password: { type: String },
     expiresAt: { type: Date },
     allowDownloads: { type: Boolean, default: true },
+    // Stamped by file-service on the renditions it serves for this gallery
+    watermark: {
+      type: new Schema(
+        {
+          enabled: { type: Boolean, default: true },
+          text: { type: String, maxlength: 100 },
+          logoFileId: { type: String },
+          position: {
+            type: String,
+            enum: ['center', 'top-left', 'top-right', 'bottom-left', 'bottom-right', 'tiled'] as WatermarkPosition[],
+            default: 'bottom-right'
+          },
+          opacity: { type: Number, min: 0, max: 1, default: 0.5 },
+          scale: { type: Number, min: 0, max: 1, default: 0.25 }
+        },
+        { _id: false }
+      )
+    },
     metadata: { type: Schema.Types.Mixed }
   },
   {
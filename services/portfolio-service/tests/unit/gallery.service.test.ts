@@ -3,6 +3,7 @@ import { GalleryService } from '../../src/services/gallery.service.js';
 import { GalleryRepository } from '../../src/persistence/gallery.repository.js';
 import { EventPublisher } from '../../src/shared/messaging/event-publisher.js';
 import { CreateGalleryRequest, AddGalleryImagesRequest } from '@tempsdarret/shared/schemas/portfolio.schema';
+import { ZodError } from 'zod';
 
 describe('GalleryService', () => {
   let galleryService: GalleryService;
@@ -17,7 +18,8 @@ describe('GalleryService', () => {
       findMany: vi.fn(),
       deleteById: vi.fn(),
       addImages: vi.fn(),
-      getImages: vi.fn()
+      getImages: vi.fn(),
+      deleteByShootId: vi.fn()
     };
 
     mockEventPublisher = {
@@ -106,6 +108,23 @@ describe('GalleryService', () => {
       expect(result).toBeNull();
       expect(mockEventPublisher.publish).not.toHaveBeenCalled();
     });
+
+    it('should fill in watermark defaults', async () => {
+      mockRepository.updateById.mockResolvedValue(null);
+
+      await galleryService.updateGallery('gal-abc123', { watermark: { text: '© Studio' } as any });
+
+      expect(mockRepository.updateById).toHaveBeenCalledWith('gal-abc123', {
+        watermark: { enabled: true, text: '© Studio', position: 'bottom-right', opacity: 0.5, scale: 0.25 }
+      });
+    });
+
+    it('should reject a watermark without text or logo', async () => {
+      await expect(galleryService.updateGallery('gal-abc123', { watermark: { opacity: 0.3 } as any }))
+        .rejects.toThrow(ZodError);
+
+      expect(mockRepository.updateById).not.toHaveBeenCalled();
+    });
   });
 
   describe('getGallery', () => {
@@ -174,6 +193,43 @@ describe('GalleryService', () => {
     });
   });
 
+  describe('handleShootDeleted', () => {
+    it('should drop the shoot galleries and report what was removed', async () => {
+      mockRepository.deleteByShootId.mockResolvedValue({ galleries: 2, images: 40 });
+
+      await galleryService.handleShootDeleted('shoot-456');
+
+      expect(mockRepository.deleteByShootId).toHaveBeenCalledWith('shoot-456');
+      expect(mockEventPublisher.publish).toHaveBeenCalledWith(
+        'shoots',
+        expect.objectContaining({
+          eventType: 'shoot.cleanup.reported',
+          shootId: 'shoot-456',
+          service: 'portfolio-service',
+          success: true,
+          removed: { galleries: 2, images: 40 }
+        }),
+        'shoot-456'
+      );
+    });
+
+    it('should report a failed cleanup', async () => {
+      mockRepository.deleteByShootId.mockRejectedValue(new Error('Mongo timeout'));
+
+      await galleryService.handleShootDeleted('shoot-456');
+
+      expect(mockEventPublisher.publish).toHaveBeenCalledWith(
+        'shoots',
+        expect.objectContaining({
+          service: 'portfolio-service',
+          success: false,
+          error: 'Mongo timeout'
+        }),
+        'shoot-456'
+      );
+    });
+  });
+
   describe('addImagesToGallery', () => {
     it('should add images to gallery', async () => {
       const galleryId = 'gal-abc123';
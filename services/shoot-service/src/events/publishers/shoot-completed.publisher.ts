@@ -0,0 +1,59 @@
+import { EventPublisherPort } from '../../shared/messaging';
+import { ShootCompletedPayload, SHOOT_EVENT_TYPES } from '../../shared/contracts/shoots.events';
+import { generateEventId } from '../../shared/utils/id';
+import { IShootDocument } from '../../shared/contracts/shoots.mongoose';
+import { FileServicePort } from '../../shared/clients/file-service.client';
+
+const BYTES_PER_MB = 1024 * 1024;
+
+export class ShootCompletedPublisher {
+  constructor(
+    private readonly eventPublisher: EventPublisherPort,
+    private readonly fileService: FileServicePort
+  ) {}
+
+  /**
+   * Announce that shooting is done, with the photo count and volume currently
+   * uploaded to file-service for the shoot.
+   */
+  async publish(shoot: IShootDocument, completedAt: Date): Promise<void> {
+    const { totalPhotos, totalBytes } = await this.countPhotos(shoot.id);
+
+    const event: ShootCompletedPayload = {
+      eventId: generateEventId(),
+      timestamp: new Date().toISOString(),
+      version: '1.0.0',
+      source: 'shoot-service',
+      eventType: SHOOT_EVENT_TYPES.COMPLETED,
+      data: {
+        shootId: shoot.id,
+        completedAt: completedAt.toISOString(),
+        totalPhotos,
+        totalSizeMB: Math.round((totalBytes / BYTES_PER_MB) * 100) / 100,
+        photographerId: shoot.photographerId
+      }
+    };
+
+    await this.eventPublisher.publish('shoots', event, shoot.id);
+  }
+
+  /**
+   * The shoot is already completed when this runs, so an unreachable
+   * file-service must not fail the event; the totals are then reported as 0.
+   */
+  private async countPhotos(shootId: string): Promise<{ totalPhotos: number; totalBytes: number }> {
+    try {
+      const files = await this.fileService.listShootFiles(shootId);
+      // Sidecars and editor project files are not photos
+      const photos = files.filter(file => file.photographerOnly !== true);
+      return {
+        totalPhotos: photos.length,
+        totalBytes: photos.reduce((sum, file) => sum + file.size, 0)
+      };
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.warn(`Could not count photos for completed shoot ${shootId}:`, error);
+      return { totalPhotos: 0, totalBytes: 0 };
+    }
+  }
+}
@@ -0,0 +1,32 @@
+import { EventPublisherPort } from '../../shared/messaging';
+import { ShootDeletedPayload, SHOOT_EVENT_TYPES } from '../../shared/contracts/shoots.events';
+import { generateEventId } from '../../shared/utils/id';
+import { IShootDocument } from '../../shared/contracts/shoots.mongoose';
+
+export class ShootDeletedPublisher {
+  constructor(private readonly eventPublisher: EventPublisherPort) {}
+
+  /**
+   * Announce a shoot deletion so file, portfolio and invitation services drop
+   * the data they hold for it and report back (shoot deletion saga).
+   */
+  async publish(shoot: IShootDocument, deletedAt: Date, deletedBy?: string): Promise<void> {
+    const event: ShootDeletedPayload = {
+      eventId: generateEventId(),
+      timestamp: new Date().toISOString(),
+      version: '1.0.0',
+      source: 'shoot-service',
+      eventType: SHOOT_EVENT_TYPES.DELETED,
+      data: {
+        shootId: shoot.id,
+        reference: shoot.reference,
+        clientEmail: shoot.clientEmail,
+        photographerId: shoot.photographerId,
+        deletedAt: deletedAt.toISOString(),
+        ...(deletedBy && { deletedBy })
+      }
+    };
+
+    await this.eventPublisher.publish('shoots', event, shoot.id);
+  }
+}
@@ -0,0 +1,42 @@
+import { EventPublisherPort } from '../../shared/messaging';
+import {
+  ShootDeletionFailedPayload,
+  ShootFailedCleanupStep,
+  SHOOT_EVENT_TYPES
+} from '../../shared/contracts/shoots.events';
+import { generateEventId } from '../../shared/utils/id';
+import { IShootDocument } from '../../shared/contracts/shoots.mongoose';
+import type { ShootDeletion } from '@tempsdarret/shared/schemas/shoot.schema';
+
+export class ShootDeletionFailedPublisher {
+  constructor(private readonly eventPublisher: EventPublisherPort) {}
+
+  /**
+   * Report a deletion that could not complete because one or more services
+   * failed to clean up, so it can be looked into and retried.
+   */
+  async publish(shoot: IShootDocument, deletion: ShootDeletion): Promise<void> {
+    const failedSteps: ShootFailedCleanupStep[] = Object.entries(deletion.steps)
+      .filter(([, step]) => step.status === 'failed')
+      .map(([service, step]) => ({
+        service: service as ShootFailedCleanupStep['service'],
+        ...(step.error && { error: step.error })
+      }));
+
+    const event: ShootDeletionFailedPayload = {
+      eventId: generateEventId(),
+      timestamp: new Date().toISOString(),
+      version: '1.0.0',
+      source: 'shoot-service',
+      eventType: SHOOT_EVENT_TYPES.DELETION_FAILED,
+      data: {
+        shootId: shoot.id,
+        reference: shoot.reference,
+        requestedAt: deletion.requestedAt.toISOString(),
+        failedSteps
+      }
+    };
+
+    await this.eventPublisher.publish('shoots', event, shoot.id);
+  }
+}
@@ -0,0 +1,33 @@
+import { EventPublisherPort } from '../../shared/messaging';
+import { ShootDeliveredPayload, SHOOT_EVENT_TYPES } from '../../shared/contracts/shoots.events';
+import { generateEventId } from '../../shared/utils/id';
+import { IShootDocument } from '../../shared/contracts/shoots.mongoose';
+
+export class ShootDeliveredPublisher {
+  constructor(private readonly eventPublisher: EventPublisherPort) {}
+
+  /**
+   * Announce that the client gallery is open; the shoot's access expiry, if
+   * any, tells downstream services how long the delivery lasts.
+   */
+  async publish(shoot: IShootDocument, deliveredAt: Date): Promise<void> {
+    const expiresAt = shoot.access?.expiresAt;
+
+    const event: ShootDeliveredPayload = {
+      eventId: generateEventId(),
+      timestamp: new Date().toISOString(),
+      version: '1.0.0',
+      source: 'shoot-service',
+      eventType: SHOOT_EVENT_TYPES.DELIVERED,
+      data: {
+        shootId: shoot.id,
+        clientEmail: shoot.clientEmail,
+        deliveredAt: deliveredAt.toISOString(),
+        deliveryMethod: 'gallery_link',
+        ...(expiresAt ? { expiresAt: expiresAt.toISOString() } : {})
+      }
+    };
+
+    await this.eventPublisher.publish('shoots', event, shoot.id);
+  }
+}
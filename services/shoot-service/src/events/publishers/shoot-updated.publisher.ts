@@ -0,0 +1,121 @@
+import { EventPublisherPort } from '../../shared/messaging';
+import {
+  ShootUpdatedPayload,
+  ShootFieldChange,
+  ShootTrackedField,
+  SHOOT_EVENT_TYPES
+} from '../../shared/contracts/shoots.events';
+import { generateEventId } from '../../shared/utils/id';
+import { IShootDocument } from '../../shared/contracts/shoots.mongoose';
+
+export type ShootChanges = Partial<Record<ShootTrackedField, ShootFieldChange>>;
+
+const TRACKED_FIELDS: ShootTrackedField[] = ['title', 'scheduledDate', 'location', 'status'];
+
+function fieldValue(shoot: IShootDocument, field: ShootTrackedField): string | undefined {
+  const value = shoot[field] as Date | string | null | undefined;
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return value ?? undefined;
+}
+
+/**
+ * Field-level diff of the announced shoot fields between two versions.
+ */
+export function diffShoot(before: IShootDocument, after: IShootDocument): ShootChanges {
+  const changes: ShootChanges = {};
+
+  for (const field of TRACKED_FIELDS) {
+    const from = fieldValue(before, field);
+    const to = fieldValue(after, field);
+    if (from !== to) {
+      changes[field] = {
+        ...(from !== undefined && { from }),
+        ...(to !== undefined && { to })
+      };
+    }
+  }
+
+  return changes;
+}
+
+function formatDate(isoDate: string): string {
+  return new Date(isoDate).toLocaleDateString('en-US', {
+    dateStyle: 'long',
+    timeZone: 'UTC'
+  });
+}
+
+/**
+ * Client-facing sentence per change, e.g. "Your shoot has been rescheduled to
+ * June 15, 2024."
+ */
+export function describeShootChanges(changes: ShootChanges): string {
+  const sentences: string[] = [];
+  const { title, scheduledDate, location, status } = changes;
+
+  if (scheduledDate) {
+    sentences.push(scheduledDate.to
+      ? `Your shoot has been rescheduled to ${formatDate(scheduledDate.to)}.`
+      : 'Your shoot date has been removed and will be confirmed later.');
+  }
+  if (location) {
+    sentences.push(location.to
+      ? `The location is now ${location.to}.`
+      : 'The location has been removed and will be confirmed later.');
+  }
+  if (title?.to) {
+    sentences.push(`The shoot has been renamed to "${title.to}".`);
+  }
+  if (status?.to) {
+    sentences.push(`Its status is now ${status.to.replace('_', ' ')}.`);
+  }
+
+  return sentences.join(' ');
+}
+
+export class ShootUpdatedPublisher {
+  constructor(
+    private readonly eventPublisher: EventPublisherPort,
+    private readonly appBaseUrl: string
+  ) {}
+
+  /**
+   * Announce what changed between two versions of a shoot. Nothing is
+   * published when none of the announced fields changed.
+   */
+  async publish(before: IShootDocument, after: IShootDocument): Promise<void> {
+    const changes = diffShoot(before, after);
+    if (Object.keys(changes).length === 0) {
+      return;
+    }
+
+    const timestamp = new Date().toISOString();
+    const event: ShootUpdatedPayload = {
+      eventId: generateEventId(),
+      timestamp,
+      version: '1.0.0',
+      source: 'shoot-service',
+      eventType: SHOOT_EVENT_TYPES.UPDATED,
+      data: {
+        shootId: after.id,
+        ...(changes.title?.to && { title: changes.title.to }),
+        ...(changes.scheduledDate?.to && { scheduledDate: changes.scheduledDate.to }),
+        ...(changes.location?.to && { location: changes.location.to }),
+        ...(changes.status && { status: after.status }),
+        updatedAt: after.updatedAt.toISOString(),
+        changes,
+        clientEmail: after.clientEmail,
+        updateDetails: {
+          eventName: after.title,
+          updateMessage: describeShootChanges(changes)
+        },
+        projectUrl: `${this.appBaseUrl}/galleries/${after.id}`,
+        timestamp
+      }
+    };
+
+    await this.eventPublisher.publish('shoots', event, after.id);
+  }
+}
@@ -0,0 +1,114 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import {
+  ShootAccessService,
+  AccessValidationResult,
+  ACCESS_TOKEN_REQUIRED,
+  INVALID_ACCESS_TOKEN
+} from '../services/shoot-access.service';
+import { GalleryCompilationService } from '../services/gallery-compilation.service';
+
+const BEARER_PREFIX = 'Bearer ';
+
+function bearerToken(request: FastifyRequest): string | undefined {
+  const authorization = request.headers.authorization;
+  return authorization?.startsWith(BEARER_PREFIX) === true
+    ? authorization.slice(BEARER_PREFIX.length).trim()
+    : undefined;
+}
+
+function denialStatus(access: AccessValidationResult): number {
+  if (!access.shootId) {
+    return 404;
+  }
+  if (access.reason === ACCESS_TOKEN_REQUIRED || access.reason === INVALID_ACCESS_TOKEN) {
+    return 401;
+  }
+  return 403;
+}
+
+/**
+ * Routes clients reach with the access token invitation-service issued them
+ * (`Authorization: Bearer`), by the shoot reference they were given.
+ */
+export class ClientAccessHandlers {
+  constructor(
+    private readonly accessService: ShootAccessService,
+    private readonly galleryService: GalleryCompilationService
+  ) {}
+
+  async validateAccess(
+    request: FastifyRequest<{ Params: { ref: string } }>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const access = await this.authorize(request, reply);
+      if (!access) {
+        return;
+      }
+
+      reply.send({
+        data: access
+      });
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Failed to validate shoot access:', error);
+      reply.code(500).send({
+        code: 500,
+        message: 'Failed to validate shoot access'
+      });
+    }
+  }
+
+  /**
+   * The shoot's gallery, with links file-service signed for the caller
+   */
+  async getGallery(
+    request: FastifyRequest<{ Params: { ref: string } }>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const accessToken = bearerToken(request);
+      const access = await this.authorize(request, reply);
+      if (!access?.shootId || !access.role || !accessToken) {
+        return;
+      }
+
+      const gallery = await this.galleryService.compileShootGallery(access.shootId, {
+        accessToken,
+        role: access.role,
+        allowDownloads: access.allowDownloads ?? false
+      });
+      reply.send({
+        data: gallery
+      });
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Failed to compile shoot gallery:', error);
+      reply.code(500).send({
+        code: 500,
+        message: 'Failed to compile shoot gallery'
+      });
+    }
+  }
+
+  /**
+   * Check the caller may open the shoot. Denials are answered here (404, 401
+   * or 403) and undefined returned.
+   */
+  private async authorize(
+    request: FastifyRequest<{ Params: { ref: string } }>,
+    reply: FastifyReply
+  ): Promise<AccessValidationResult | undefined> {
+    const access = await this.accessService.validateShootAccess(request.params.ref, bearerToken(request));
+    if (access.allowed) {
+      return access;
+    }
+
+    const status = denialStatus(access);
+    reply.code(status).send({
+      code: status,
+      message: access.reason ?? 'Access denied'
+    });
+    return undefined;
+  }
+}
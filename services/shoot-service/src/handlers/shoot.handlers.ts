@@ -1,10 +1,15 @@
 import { FastifyRequest, FastifyReply } from 'fastify';
 import { ShootService } from '../services/shoot.service';
+import { ShootDeletionService } from '../services/shoot-deletion.service';
 import { CreateShootRequest, UpdateShootRequest, ShootQuery } from '@tempsdarret/shared/schemas/shoot.schema';
 import { ZodError } from 'zod';
+import { ShootStatusTransitionError } from '../services/shoot-lifecycle';
 
 export class ShootHandlers {
-  constructor(private readonly shootService: ShootService) {}
+  constructor(
+    private readonly shootService: ShootService,
+    private readonly deletionService: ShootDeletionService
+  ) {}
 
   async createShoot(
     request: FastifyRequest<{ Body: CreateShootRequest }>,
@@ -66,6 +71,34 @@ export class ShootHandlers {
     }
   }
 
+  async getShootByReference(
+    request: FastifyRequest<{ Params: { ref: string } }>,
+    reply: FastifyReply
+  ): Promise<void> {
+    try {
+      const shoot = await this.shootService.getShootByReference(request.params.ref);
+
+      if (!shoot) {
+        reply.code(404).send({
+          code: 404,
+          message: 'Shoot not found'
+        });
+        return;
+      }
+
+      reply.send({
+        data: shoot
+      });
+    } catch (error) {
+      // eslint-disable-next-line no-console
+      console.error('Failed to get shoot by reference:', error);
+      reply.code(500).send({
+        code: 500,
+        message: 'Failed to get shoot'
+      });
+    }
+  }
+
   async updateShoot(
     request: FastifyRequest<{
       Params: { shootId: string };
@@ -74,9 +107,11 @@ export class ShootHandlers {
     reply: FastifyReply
   ): Promise<void> {
     try {
+      // The authenticated user is recorded on status changes
       const shoot = await this.shootService.updateShoot(
         request.params.shootId,
-        request.body
+        request.body,
+        request.user?.userId
       );
 
       if (!shoot) {
@@ -103,6 +138,15 @@ export class ShootHandlers {
         return;
       }
 
+      if (error instanceof ShootStatusTransitionError) {
+        reply.code(409).send({
+          code: 409,
+          message: 'Invalid status transition',
+          details: error.message
+        });
+        return;
+      }
+
       // eslint-disable-next-line no-console
       console.error('Failed to update shoot:', error);
       reply.code(500).send({
@@ -150,9 +194,12 @@ export class ShootHandlers {
     reply: FastifyReply
   ): Promise<void> {
     try {
-      const deleted = await this.shootService.deleteShoot(request.params.shootId);
+      const deletion = await this.deletionService.requestDeletion(
+        request.params.shootId,
+        request.user?.userId
+      );
 
-      if (!deleted) {
+      if (!deletion) {
         reply.code(404).send({
           code: 404,
           message: 'Shoot not found'
@@ -160,9 +207,10 @@ export class ShootHandlers {
         return;
       }
 
-      reply.send({
-        data: { deleted: true },
-        message: 'Shoot deleted successfully'
+      // The shoot is removed once every service confirmed its cleanup
+      reply.code(202).send({
+        data: deletion,
+        message: 'Shoot deletion started'
       });
     } catch (error) {
       // eslint-disable-next-line no-console
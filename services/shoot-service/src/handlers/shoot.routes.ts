@@ -1,9 +1,11 @@
-import { FastifyInstance } from 'fastify';
+import { FastifyInstance, preHandlerAsyncHookHandler } from 'fastify';
 import { ShootHandlers } from './shoot.handlers';
+import { ClientAccessHandlers } from './client-access.handlers';
 
 export function registerShootRoutes(
   fastify: FastifyInstance,
-  handlers: ShootHandlers
+  handlers: ShootHandlers,
+  authPreHandler: preHandlerAsyncHookHandler
 ): void {
   // Health check
   fastify.get('/health', handlers.healthCheck.bind(handlers));
@@ -11,7 +13,21 @@ export function registerShootRoutes(
   // Shoot CRUD operations (matches our TypeSpec API)
   fastify.post('/shoots', handlers.createShoot.bind(handlers));
   fastify.get('/shoots', handlers.listShoots.bind(handlers));
+  fastify.get('/shoots/by-reference/:ref', handlers.getShootByReference.bind(handlers));
   fastify.get('/shoots/:shootId', handlers.getShoot.bind(handlers));
-  fastify.patch('/shoots/:shootId', handlers.updateShoot.bind(handlers));
-  fastify.delete('/shoots/:shootId', handlers.deleteShoot.bind(handlers));
-}
\ No newline at end of file
+
+  // Status changes and deletions are recorded against the authenticated user
+  void fastify.register(async (changes) => {
+    changes.addHook('preHandler', authPreHandler);
+
+    changes.patch('/shoots/:shootId', handlers.updateShoot.bind(handlers));
+    changes.delete('/shoots/:shootId', handlers.deleteShoot.bind(handlers));
+  });
+}
+export function registerClientAccessRoutes(
+  fastify: FastifyInstance,
+  handlers: ClientAccessHandlers
+): void {
+  fastify.get('/shoots/by-reference/:ref/access', handlers.validateAccess.bind(handlers));
+  fastify.get('/shoots/by-reference/:ref/gallery', handlers.getGallery.bind(handlers));
+}
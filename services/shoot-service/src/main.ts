@@ -3,10 +3,11 @@ import { Kafka } from 'kafkajs';
 import { appConfig } from './config/app.config';
 import { dbConnection } from './config/database';
 import { EventPublisher } from './shared/messaging';
-import { ShootService } from './services/shoot.service';
-import { ShootRepository } from './persistence/shoot.repository';
-import { ShootCreatedPublisher } from './events/publishers/shoot-created.publisher';
-import { createServer } from './server';
+import { createServer, buildShootServices } from './server';
+import { FileServiceClient } from './shared/clients/file-service.client';
+import { getServiceUrl } from '@tempsdarret/shared/config';
+import { KafkaConsumer } from '@tempsdarret/shared/messaging';
+import { ShootCleanupReportedEventSchema } from '@tempsdarret/shared/schemas/shoot.schema';
 
 interface RuntimeConfig {
   mongoUri: string;
@@ -17,6 +18,7 @@ interface RuntimeConfig {
 class ShootServiceApp {
   private fastify: FastifyInstance | undefined;
   private eventPublisher: EventPublisher | undefined;
+  private consumer: KafkaConsumer | undefined;
 
   async start(): Promise<void> {
     const config = this.resolveConfig();
@@ -27,12 +29,28 @@ class ShootServiceApp {
       this.eventPublisher = new EventPublisher(kafka);
       await this.eventPublisher.connect();
 
-      const shootService = new ShootService(
-        new ShootRepository(),
-        new ShootCreatedPublisher(this.eventPublisher)
+      const shootServices = buildShootServices(
+        this.eventPublisher,
+        new FileServiceClient(getServiceUrl('file-service'))
       );
 
-      this.fastify = await createServer({ logger: true, shootService });
+      // Cleanup reports from the services taking part in the deletion saga
+      this.consumer = new KafkaConsumer(kafka, 'shoot-service', {
+        'shoot.cleanup.reported': async (event): Promise<void> => {
+          await shootServices.deletionService.recordCleanupReport(
+            ShootCleanupReportedEventSchema.parse(event)
+          );
+        }
+      });
+      await this.consumer.start(['shoots']);
+
+      const backfilled = await shootServices.shootService.backfillReferences();
+      if (backfilled > 0) {
+        // eslint-disable-next-line no-console
+        console.log(`Assigned references to ${backfilled} existing shoots`);
+      }
+
+      this.fastify = await createServer({ logger: true, shootServices });
 
       await this.fastify.listen({ port: config.port, host: '0.0.0.0' });
       // eslint-disable-next-line no-console
@@ -45,6 +63,7 @@ class ShootServiceApp {
   }
 
   async stop(): Promise<void> {
+    await this.consumer?.stop();
     await dbConnection.disconnect();
     await this.eventPublisher?.disconnect();
     await this.fastify?.close();
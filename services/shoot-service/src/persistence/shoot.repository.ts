@@ -1,15 +1,20 @@
-import { ShootModel, IShootDocument } from '../shared/contracts/shoots.mongoose';
+import { ShootModel, ShootReferenceCounterModel, IShootDocument } from '../shared/contracts/shoots.mongoose';
 import {
   CreateShootRequest,
   UpdateShootRequest,
-  ShootQuery
+  ShootQuery,
+  ShootStatusChange,
+  ShootDeletion,
+  ShootCleanupService,
+  ShootCleanupStep
 } from '@tempsdarret/shared/schemas/shoot.schema';
-import { generateShootId } from '../shared/utils/id';
+import { generateShootId, formatShootReference } from '../shared/utils/id';
 
 export class ShootRepository {
   async create(shootData: CreateShootRequest): Promise<IShootDocument> {
     const shootDoc = new ShootModel({
       id: generateShootId(),
+      reference: await this.nextReference(new Date()),
       ...shootData,
       status: 'planned'
     });
@@ -22,13 +27,72 @@ export class ShootRepository {
   }
 
   async findByReference(reference: string): Promise<IShootDocument | null> {
-    return await ShootModel.findOne({ reference }).exec();
+    return await ShootModel.findOne({ reference: reference.trim().toUpperCase() }).exec();
   }
 
-  async updateById(shootId: string, updateData: UpdateShootRequest): Promise<IShootDocument | null> {
+  /**
+   * Apply an update. A status change is recorded in the shoot's history and
+   * only applied while the shoot is still in the status it was validated
+   * against, so concurrent transitions cannot both succeed.
+   */
+  async updateById(
+    shootId: string,
+    updateData: UpdateShootRequest,
+    statusChange?: ShootStatusChange
+  ): Promise<IShootDocument | null> {
+    const { access, ...fields } = updateData;
+
+    // Access settings are patched field by field, so sending one setting does
+    // not reset the others to their defaults
+    const accessFields = Object.fromEntries(
+      Object.entries(access ?? {}).map(([key, value]) => [`access.${key}`, value])
+    );
+
     return await ShootModel.findOneAndUpdate(
+      { id: shootId, ...(statusChange && { status: statusChange.from }) },
+      {
+        $set: { ...fields, ...accessFields },
+        ...(statusChange && { $push: { statusHistory: statusChange } })
+      },
+      { new: true }
+    ).exec();
+  }
+
+  async recordClientAccess(shootId: string): Promise<void> {
+    await ShootModel.updateOne(
       { id: shootId },
-      updateData,
+      { 'access.lastClientAccessAt': new Date() }
+    ).exec();
+  }
+
+  async saveDeletion(shootId: string, deletion: ShootDeletion): Promise<IShootDocument | null> {
+    return await ShootModel.findOneAndUpdate(
+      { id: shootId },
+      { $set: { deletion } },
+      { new: true }
+    ).exec();
+  }
+
+  /**
+   * Record one service's cleanup outcome. Only applies while a deletion is in
+   * progress, so a late or repeated report cannot reopen a failed deletion.
+   */
+  async recordCleanupStep(
+    shootId: string,
+    service: ShootCleanupService,
+    step: ShootCleanupStep
+  ): Promise<IShootDocument | null> {
+    return await ShootModel.findOneAndUpdate(
+      { id: shootId, 'deletion.state': 'deleting' },
+      { $set: { [`deletion.steps.${service}`]: step } },
+      { new: true }
+    ).exec();
+  }
+
+  async markDeletionFailed(shootId: string): Promise<IShootDocument | null> {
+    return await ShootModel.findOneAndUpdate(
+      { id: shootId, 'deletion.state': 'deleting' },
+      { $set: { 'deletion.state': 'failed' } },
       { new: true }
     ).exec();
   }
@@ -65,8 +129,43 @@ export class ShootRepository {
     return { shoots, total };
   }
 
+  /**
+   * Assign references to shoots stored before they had one, oldest first, each
+   * from the sequence of the year it was created in
+   */
+  async backfillReferences(): Promise<number> {
+    const shoots = await ShootModel.find({ reference: { $exists: false } })
+      .sort({ createdAt: 1 })
+      .exec();
+
+    let assigned = 0;
+    for (const shoot of shoots) {
+      // Sequential so references follow creation order; another instance may
+      // have backfilled the shoot meanwhile
+      const reference = await this.nextReference(shoot.createdAt);
+      const result = await ShootModel.updateOne(
+        { id: shoot.id, reference: { $exists: false } },
+        { $set: { reference } }
+      ).exec();
+      assigned += result.modifiedCount;
+    }
+
+    return assigned;
+  }
+
   async deleteById(shootId: string): Promise<boolean> {
     const result = await ShootModel.deleteOne({ id: shootId }).exec();
     return result.deletedCount > 0;
   }
-}
\ No newline at end of file
+
+  private async nextReference(createdAt: Date): Promise<string> {
+    const year = createdAt.getUTCFullYear();
+    const counter = await ShootReferenceCounterModel.findOneAndUpdate(
+      { _id: year },
+      { $inc: { sequence: 1 } },
+      { new: true, upsert: true }
+    ).exec();
+
+    return formatShootReference(year, counter.sequence);
+  }
+}
@@ -3,10 +3,23 @@ import mongoose from 'mongoose';
 import { MongoMemoryServer } from 'mongodb-memory-server';
 import { EventPublisherPort } from './shared/messaging';
 import { ShootService } from './services/shoot.service';
+import { ShootDeletionService } from './services/shoot-deletion.service';
+import { ShootAccessService } from './services/shoot-access.service';
+import { GalleryCompilationService } from './services/gallery-compilation.service';
 import { ShootHandlers } from './handlers/shoot.handlers';
+import { ClientAccessHandlers } from './handlers/client-access.handlers';
 import { ShootRepository } from './persistence/shoot.repository';
 import { ShootCreatedPublisher } from './events/publishers/shoot-created.publisher';
-import { registerShootRoutes } from './handlers/shoot.routes';
+import { ShootUpdatedPublisher } from './events/publishers/shoot-updated.publisher';
+import { ShootCompletedPublisher } from './events/publishers/shoot-completed.publisher';
+import { ShootDeliveredPublisher } from './events/publishers/shoot-delivered.publisher';
+import { ShootDeletedPublisher } from './events/publishers/shoot-deleted.publisher';
+import { ShootDeletionFailedPublisher } from './events/publishers/shoot-deletion-failed.publisher';
+import { registerShootRoutes, registerClientAccessRoutes } from './handlers/shoot.routes';
+import { FileServiceClient, FileServicePort } from './shared/clients/file-service.client';
+import { getServiceUrl } from '@tempsdarret/shared/config';
+import { createAuthPreHandler, getJwtConfig } from '@tempsdarret/shared/auth';
+import { appConfig } from './config/app.config';
 
 /**
  * A publisher that swallows events. Used when the server is built without a
@@ -29,7 +42,42 @@ export interface CreateServerOptions {
   mongoUrl?: string;
   kafkaConfig?: { clientId: string; brokers: string[] };
   eventPublisher?: EventPublisherPort;
-  shootService?: ShootService;
+  fileService?: FileServicePort;
+  shootServices?: ShootServices;
+}
+
+export interface ShootServices {
+  shootService: ShootService;
+  deletionService: ShootDeletionService;
+  accessService: ShootAccessService;
+  galleryService: GalleryCompilationService;
+}
+
+/**
+ * Wires the shoot and shoot deletion services with a publisher for each shoot
+ * lifecycle event, and client access checked against the access tokens
+ * invitation-service issues, with the galleries clients open.
+ */
+export function buildShootServices(
+  eventPublisher: EventPublisherPort,
+  fileService: FileServicePort
+): ShootServices {
+  const repository = new ShootRepository();
+
+  return {
+    shootService: new ShootService(repository, {
+      created: new ShootCreatedPublisher(eventPublisher),
+      updated: new ShootUpdatedPublisher(eventPublisher, appConfig.appBaseUrl),
+      completed: new ShootCompletedPublisher(eventPublisher, fileService),
+      delivered: new ShootDeliveredPublisher(eventPublisher)
+    }),
+    deletionService: new ShootDeletionService(repository, {
+      deleted: new ShootDeletedPublisher(eventPublisher),
+      deletionFailed: new ShootDeletionFailedPublisher(eventPublisher)
+    }),
+    accessService: new ShootAccessService(repository, getJwtConfig().key),
+    galleryService: new GalleryCompilationService(repository, fileService)
+  };
 }
 
 /**
@@ -45,15 +93,16 @@ export async function createServer(
 
   const memoryServer = await connectMongo(options.mongoUrl);
 
-  const shootService =
-    options.shootService ??
-    new ShootService(
-      new ShootRepository(),
-      new ShootCreatedPublisher(options.eventPublisher ?? new NoopEventPublisher())
+  const { shootService, deletionService, accessService, galleryService } =
+    options.shootServices ??
+    buildShootServices(
+      options.eventPublisher ?? new NoopEventPublisher(),
+      options.fileService ?? new FileServiceClient(getServiceUrl('file-service'))
     );
 
-  const shootHandlers = new ShootHandlers(shootService);
-  registerShootRoutes(fastify, shootHandlers);
+  const shootHandlers = new ShootHandlers(shootService, deletionService);
+  registerShootRoutes(fastify, shootHandlers, createAuthPreHandler(getJwtConfig().key));
+  registerClientAccessRoutes(fastify, new ClientAccessHandlers(accessService, galleryService));
 
   if (memoryServer) {
     fastify.addHook('onClose', async () => {
@@ -1,4 +1,7 @@
+import { ROLE_PERMISSIONS } from '@tempsdarret/shared/auth';
+import type { JWTPayload } from '@tempsdarret/shared/schemas/invite.schema';
 import { ShootRepository } from '../persistence/shoot.repository.js';
+import { DownloadLink, DownloadResolution, FileServicePort, ShootFile } from '../shared/clients/file-service.client.js';
 
 export interface GalleryView {
   shootId: string;
@@ -22,8 +25,35 @@ export interface GalleryImage {
   downloadUrl?: string;
 }
 
+// Who a gallery is compiled for. file-service only serves signed links, so
+// they are signed for this access token and what its role may download.
+export interface GalleryViewer {
+  accessToken: string;
+  role: JWTPayload['role'];
+  allowDownloads: boolean; // As the shoot's access settings and the role allow
+}
+
+// Files tagged with this in file-service are shown first in client galleries.
+export const FEATURED_TAG = 'featured';
+
+// Renditions galleries show; roles without originals download the print one
+const DISPLAY_RESOLUTION: DownloadResolution = 'high';
+const THUMBNAIL_RESOLUTION: DownloadResolution = 'thumbnail';
+const PRINT_RESOLUTION: DownloadResolution = 'high';
+
+// Images whose links are signed in one file-service request: up to three links
+// each stays within its limit of 300
+const SIGNING_PAGE_SIZE = 100;
+
+function isFeatured(file: ShootFile): boolean {
+  return file.tags?.includes(FEATURED_TAG) ?? false;
+}
+
 export class GalleryCompilationService {
-  constructor(private readonly shootRepository: ShootRepository) {}
+  constructor(
+    private readonly shootRepository: ShootRepository,
+    private readonly fileService: FileServicePort
+  ) {}
 
   /**
    * Aggregate media from File Service into organized gallery
@@ -31,11 +61,11 @@ export class GalleryCompilationService {
    * 1. Fetch all shoot images from File Service
    * 2. Apply client visibility filters
    * 3. Sort by display order and featured status
-   * 4. Include download permissions per file
+   * 4. Sign links to the images for the viewer, downloads when allowed
    */
   async compileShootGallery(
     shootId: string,
-    _includeDownloadUrls = false
+    viewer: GalleryViewer
   ): Promise<GalleryView> {
     const shoot = await this.shootRepository.findById(shootId);
 
@@ -43,87 +73,90 @@ export class GalleryCompilationService {
       throw new Error('Shoot not found');
     }
 
-    // TODO: Fetch images from file-service
-    // For now, return placeholder structure
-
-    // Get featured images first (currently unused until file-service integration)
-    // const featuredImages = shoot.media?.featuredImageIds ?? [];
-
-    // TODO: Map featured image IDs to actual image data from file-service
-    // const featuredGalleryImages = await this.fetchImagesFromFileService(
-    //   shootId,
-    //   featuredImages,
-    //   includeDownloadUrls && shoot.access?.allowDownloads
-    // );
-
-    // TODO: Fetch remaining non-featured images
-    // const regularImages = await this.fetchRemainingImages(
-    //   shootId,
-    //   featuredImages,
-    //   includeDownloadUrls && shoot.access?.allowDownloads
-    // );
-
-    // Sort: featured first, then by upload date
-    const sortedImages: GalleryImage[] = [
-      // ...featuredGalleryImages,
-      // ...regularImages
-    ];
+    const images = await this.fetchImagesFromFileService(shoot.id, viewer);
+    const coverImage = images[0];
 
     return {
       shootId: shoot.id,
       title: shoot.title,
       // TODO: Add description to Shoot schema when needed
-      images: sortedImages,
+      ...(coverImage && { coverImage }),
+      images,
       metadata: {
-        totalImages: 0, // TODO: Integrate with file-service
-        allowDownloads: false, // TODO: Add access settings to Shoot schema
+        totalImages: images.length,
+        allowDownloads: viewer.allowDownloads,
         lastUpdated: shoot.updatedAt
       }
     };
   }
 
   /**
-   * Fetch images from file service
-   * This is a placeholder - actual implementation would call file-service API
+   * Fetch the shoot's client-visible files from file-service, featured first
+   * and then in the order they were taken (upload order for files file-service
+   * has no capture time for).
    */
   private async fetchImagesFromFileService(
-    _shootId: string,
-    _imageIds: string[],
-    _includeDownloadUrls: boolean
+    shootId: string,
+    viewer: GalleryViewer
   ): Promise<GalleryImage[]> {
-    // TODO: Implement actual file-service integration
-    // Example:
-    // const fileService = new FileServiceClient();
-    // const images = await fileService.getImagesByIds(shootId, imageIds);
-    // return images.map(img => this.mapToGalleryImage(img, includeDownloadUrls));
-
-    return [];
+    const files = await this.fileService.listShootFiles(shootId);
+
+    const shown = files
+      // Sidecars and editor project files are photographer-only
+      .filter(file => file.photographerOnly !== true)
+      .sort((a, b) =>
+        Number(isFeatured(b)) - Number(isFeatured(a)) ||
+        Date.parse(a.captureTime ?? a.createdAt) - Date.parse(b.captureTime ?? b.createdAt)
+      );
+
+    const images: GalleryImage[] = [];
+    for (let start = 0; start < shown.length; start += SIGNING_PAGE_SIZE) {
+      images.push(...(await this.mapToGalleryImages(shown.slice(start, start + SIGNING_PAGE_SIZE), viewer)));
+    }
+    return images;
   }
 
-  private mapToGalleryImage(
-    fileData: Record<string, unknown>,
-    includeDownloadUrl: boolean
-  ): GalleryImage {
-    const urls = fileData['urls'] as Record<string, unknown> | undefined;
-    const caption = fileData['caption'] as string | undefined;
-    const downloadUrl = includeDownloadUrl
-      ? (fileData['downloadUrl'] as string | undefined)
-      : undefined;
-
-    const image: GalleryImage = {
-      id: fileData['id'] as string,
-      url: urls?.['high'] as string ?? '',
-      thumbnailUrl: urls?.['thumb'] as string ?? '',
-      isFeatured: (fileData['isFeatured'] as boolean | undefined) ?? false
-    };
-
-    if (caption !== undefined) {
-      image.caption = caption;
-    }
-    if (downloadUrl !== undefined) {
-      image.downloadUrl = downloadUrl;
-    }
+  // Map a page of files, with their links signed in one request
+  private async mapToGalleryImages(
+    files: ShootFile[],
+    viewer: GalleryViewer
+  ): Promise<GalleryImage[]> {
+    const downloadResolution = ROLE_PERMISSIONS[viewer.role].downloadOriginals ? undefined : PRINT_RESOLUTION;
+    const links: DownloadLink[] = [];
+    // Position of the link in the request
+    const sign = (fileId: string, resolution?: DownloadResolution): number =>
+      links.push(resolution ? { fileId, resolution } : { fileId }) - 1;
+
+    const wanted = files.map(file => ({
+      url: file.publicUrl === undefined ? sign(file.id, DISPLAY_RESOLUTION) : undefined,
+      thumbnailUrl: file.thumbnailUrl === undefined ? sign(file.id, THUMBNAIL_RESOLUTION) : undefined,
+      downloadUrl: viewer.allowDownloads ? sign(file.id, downloadResolution) : undefined
+    }));
+    const urls = links.length > 0 ? await this.fileService.issueDownloadUrls(links, viewer.accessToken) : [];
+    const signed = (position: number | undefined): string | undefined =>
+      position === undefined ? undefined : urls[position];
+
+    return files.map((file, index) => {
+      const url = file.publicUrl ?? signed(wanted[index]?.url);
+      const thumbnailUrl = file.thumbnailUrl ?? signed(wanted[index]?.thumbnailUrl);
+      const downloadUrl = signed(wanted[index]?.downloadUrl);
+      const caption = file.metadata?.['caption'] as string | undefined;
+
+      const image: GalleryImage = {
+        id: file.id,
+        url: url ?? '',
+        thumbnailUrl: thumbnailUrl ?? url ?? '',
+        isFeatured: isFeatured(file)
+      };
+
+      if (caption !== undefined) {
+        image.caption = caption;
+      }
+      if (downloadUrl !== undefined) {
+        image.downloadUrl = downloadUrl;
+      }
 
-    return image;
+      return image;
+    });
   }
 }
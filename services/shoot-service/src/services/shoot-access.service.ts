@@ -1,27 +1,42 @@
+import { verifyJwt, JwtError, ROLE_PERMISSIONS, type JwtKeyConfig } from '@tempsdarret/shared/auth';
+import type { JWTPayload } from '@tempsdarret/shared/schemas/invite.schema';
 import { ShootRepository } from '../persistence/shoot.repository.js';
+import { IShootDocument } from '../shared/contracts/shoots.mongoose.js';
+
+// Denials the caller resolves by (re)authenticating, rather than forbidden
+export const ACCESS_TOKEN_REQUIRED = 'Access token required';
+export const INVALID_ACCESS_TOKEN = 'Invalid access token';
 
 export interface AccessValidationResult {
   allowed: boolean;
   shootId?: string;
+  clientEmail?: string;
+  role?: JWTPayload['role'];
+  allowDownloads?: boolean;
   reason?: string;
 }
 
 export class ShootAccessService {
-  constructor(private readonly shootRepository: ShootRepository) {}
+  constructor(
+    private readonly shootRepository: ShootRepository,
+    private readonly jwtKey: JwtKeyConfig
+  ) {}
 
   /**
    * Validate client can access shoot
    * Checks:
-   * - Shoot exists and is accessible
-   * - Magic link token if provided
-   * - Access hasn't expired
+   * - Shoot exists and has been delivered
+   * - Access window is open
+   * - Access token (the JWT invitation-service issued when the magic link was
+   *   used) is valid and was issued for this shoot
+   * - A client's token names the client or one of the allowed emails; guests
+   *   were invited to the shoot by its client
    * - Logs access attempt for analytics
    */
   async validateShootAccess(
     shootRef: string,
-    clientToken?: string
+    accessToken?: string
   ): Promise<AccessValidationResult> {
-    // Find shoot by reference
     const shoot = await this.shootRepository.findByReference(shootRef);
 
     if (!shoot) {
@@ -31,36 +46,91 @@ export class ShootAccessService {
       };
     }
 
-    // TODO: Add access control fields to Shoot schema when needed
-    // For now, all shoots are accessible if they exist and are in 'delivered' status
-    if (shoot.status !== 'delivered') {
+    const denial = this.checkShootAvailability(shoot, new Date());
+    if (denial) {
+      return { allowed: false, shootId: shoot.id, reason: denial };
+    }
+
+    if (!accessToken) {
+      return {
+        allowed: false,
+        shootId: shoot.id,
+        reason: ACCESS_TOKEN_REQUIRED
+      };
+    }
+
+    const claims = this.verifyAccessToken(accessToken);
+    if (claims?.shootId !== shoot.id) {
       return {
         allowed: false,
         shootId: shoot.id,
-        reason: 'Shoot is not yet available for client access'
+        reason: INVALID_ACCESS_TOKEN
       };
     }
 
-    // If token provided, validate it (would integrate with invitation-service)
-    if (clientToken) {
-      // TODO: Validate token with invitation-service
-      // For now, we'll assume valid if provided
+    const clientEmail = claims.email.toLowerCase();
+    if (claims.role === 'client' && !this.isAllowedEmail(shoot, clientEmail)) {
+      return {
+        allowed: false,
+        shootId: shoot.id,
+        reason: 'Email not allowed for this shoot'
+      };
     }
 
-    // Log access attempt
-    await this.logAccess(shoot.id, clientToken);
+    await this.logAccess(shoot.id);
 
     return {
       allowed: true,
-      shootId: shoot.id
+      shootId: shoot.id,
+      clientEmail,
+      role: claims.role,
+      allowDownloads: (shoot.access?.allowDownloads ?? false) && ROLE_PERMISSIONS[claims.role].downloadPhotos
     };
   }
 
-  private async logAccess(shootId: string, _token?: string): Promise<void> {
-    // Update last access timestamp
-    await this.shootRepository.updateById(shootId, {
-      'status.lastClientAccess': new Date()
-    } as Record<string, unknown>);
+  /**
+   * Claims of a trusted access token, or null when it is forged, expired or
+   * malformed. Verified locally, so checking access does not use up anything.
+   */
+  private verifyAccessToken(token: string): JWTPayload | null {
+    try {
+      return verifyJwt(token, this.jwtKey);
+    } catch (error) {
+      if (error instanceof JwtError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Reason the shoot is closed to clients right now, or undefined when open.
+   */
+  private checkShootAvailability(shoot: IShootDocument, now: Date): string | undefined {
+    if (shoot.status !== 'delivered') {
+      return 'Shoot is not yet available for client access';
+    }
+
+    const { startsAt, expiresAt } = shoot.access ?? {};
+    if (startsAt && startsAt > now) {
+      return 'Access has not started yet';
+    }
+    if (expiresAt && expiresAt <= now) {
+      return 'Access has expired';
+    }
+
+    return undefined;
+  }
+
+  private isAllowedEmail(shoot: IShootDocument, email: string): boolean {
+    if (shoot.clientEmail.toLowerCase() === email) {
+      return true;
+    }
+    return shoot.access?.allowedEmails?.includes(email) ?? false;
+  }
+
+  private async logAccess(shootId: string): Promise<void> {
+    await this.shootRepository.recordClientAccess(shootId);
 
     // TODO: Publish access event for analytics
   }
@@ -0,0 +1,102 @@
+import { ShootRepository } from '../persistence/shoot.repository';
+import { ShootDeletedPublisher } from '../events/publishers/shoot-deleted.publisher';
+import { ShootDeletionFailedPublisher } from '../events/publishers/shoot-deletion-failed.publisher';
+import {
+  ShootCleanupServiceSchema,
+  type ShootCleanupReportedEvent,
+  type ShootCleanupStep,
+  type ShootDeletion
+} from '@tempsdarret/shared/schemas/shoot.schema';
+
+export interface ShootDeletionPublishers {
+  deleted: ShootDeletedPublisher;
+  deletionFailed: ShootDeletionFailedPublisher;
+}
+
+/**
+ * Shoot deletion saga
+ * Deleting a shoot publishes shoot.deleted and leaves the shoot `deleting`
+ * while file, portfolio and invitation services drop their data and report
+ * back in shoot.cleanup.reported. The shoot is removed once every service
+ * confirmed; if one failed the deletion turns `failed`, shoot.deletion.failed
+ * is published, and requesting the deletion again retries the failed steps.
+ */
+export class ShootDeletionService {
+  constructor(
+    private readonly shootRepository: ShootRepository,
+    private readonly publishers: ShootDeletionPublishers
+  ) {}
+
+  async requestDeletion(shootId: string, requestedBy?: string): Promise<ShootDeletion | null> {
+    const shoot = await this.shootRepository.findById(shootId);
+    if (!shoot) {
+      return null;
+    }
+
+    if (shoot.deletion?.state === 'deleting') {
+      return shoot.deletion;
+    }
+
+    const deletion: ShootDeletion = {
+      state: 'deleting',
+      requestedAt: shoot.deletion?.requestedAt ?? new Date(),
+      ...(requestedBy && { requestedBy }),
+      steps: this.pendingSteps(shoot.deletion)
+    };
+
+    const saved = await this.shootRepository.saveDeletion(shootId, deletion);
+    if (!saved) {
+      return null;
+    }
+
+    await this.publishers.deleted.publish(saved, deletion.requestedAt, requestedBy);
+    return deletion;
+  }
+
+  /**
+   * Record a service's cleanup report and settle the deletion once no step is
+   * pending anymore.
+   */
+  async recordCleanupReport(report: ShootCleanupReportedEvent): Promise<void> {
+    const step: ShootCleanupStep = {
+      status: report.success ? 'done' : 'failed',
+      ...(report.error && { error: report.error }),
+      ...(report.removed && { removed: report.removed }),
+      reportedAt: new Date(report.timestamp)
+    };
+
+    const shoot = await this.shootRepository.recordCleanupStep(report.shootId, report.service, step);
+    if (!shoot?.deletion) {
+      // Unknown shoot, or a report for a deletion that is no longer running
+      return;
+    }
+
+    const steps = Object.values(shoot.deletion.steps);
+    if (steps.some(s => s.status === 'pending')) {
+      return;
+    }
+
+    if (steps.every(s => s.status === 'done')) {
+      await this.shootRepository.deleteById(shoot.id);
+      return;
+    }
+
+    const failed = await this.shootRepository.markDeletionFailed(shoot.id);
+    if (failed?.deletion) {
+      await this.publishers.deletionFailed.publish(failed, failed.deletion);
+    }
+  }
+
+  /**
+   * Steps for a new attempt: every service on a first request; on a retry,
+   * only those that have not confirmed yet.
+   */
+  private pendingSteps(previous: ShootDeletion | undefined): ShootDeletion['steps'] {
+    return Object.fromEntries(
+      ShootCleanupServiceSchema.options.map(service => {
+        const step = previous?.steps[service];
+        return [service, step?.status === 'done' ? step : { status: 'pending' }];
+      })
+    ) as ShootDeletion['steps'];
+  }
+}
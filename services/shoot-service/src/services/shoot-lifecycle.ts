@@ -0,0 +1,36 @@
+import type { ShootStatus } from '@tempsdarret/shared/schemas/shoot.schema';
+
+/**
+ * Shoot lifecycle state machine
+ * planned → in_progress → completed → delivered → archived, and a shoot can be
+ * cancelled before its photos are completed. Archived shoots are final;
+ * cancelled ones can only be archived.
+ */
+export const SHOOT_STATUS_TRANSITIONS: Record<ShootStatus, readonly ShootStatus[]> = {
+  planned: ['in_progress', 'cancelled'],
+  in_progress: ['completed', 'cancelled'],
+  completed: ['delivered'],
+  delivered: ['archived'],
+  cancelled: ['archived'],
+  archived: []
+};
+
+export class ShootStatusTransitionError extends Error {
+  constructor(
+    public readonly from: ShootStatus,
+    public readonly to: ShootStatus
+  ) {
+    super(`Cannot change shoot status from '${from}' to '${to}'`);
+    this.name = 'ShootStatusTransitionError';
+  }
+}
+
+export function canTransition(from: ShootStatus, to: ShootStatus): boolean {
+  return SHOOT_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export function assertStatusTransition(from: ShootStatus, to: ShootStatus): void {
+  if (!canTransition(from, to)) {
+    throw new ShootStatusTransitionError(from, to);
+  }
+}
@@ -1,5 +1,10 @@
 import { ShootRepository } from '../persistence/shoot.repository';
 import { ShootCreatedPublisher } from '../events/publishers/shoot-created.publisher';
+import { ShootUpdatedPublisher } from '../events/publishers/shoot-updated.publisher';
+import { ShootCompletedPublisher } from '../events/publishers/shoot-completed.publisher';
+import { ShootDeliveredPublisher } from '../events/publishers/shoot-delivered.publisher';
+import { IShootDocument } from '../shared/contracts/shoots.mongoose';
+import { assertStatusTransition } from './shoot-lifecycle';
 import {
   CreateShootRequestSchema,
   UpdateShootRequestSchema,
@@ -7,13 +12,23 @@ import {
   type CreateShootRequest,
   type UpdateShootRequest,
   type ShootQuery,
-  type Shoot
+  type Shoot,
+  type ShootSummary,
+  type ShootStatus,
+  type ShootStatusChange
 } from '@tempsdarret/shared/schemas/shoot.schema';
 
+export interface ShootEventPublishers {
+  created: ShootCreatedPublisher;
+  updated: ShootUpdatedPublisher;
+  completed: ShootCompletedPublisher;
+  delivered: ShootDeliveredPublisher;
+}
+
 export class ShootService {
   constructor(
     private readonly shootRepository: ShootRepository,
-    private readonly shootCreatedPublisher: ShootCreatedPublisher
+    private readonly publishers: ShootEventPublishers
   ) {}
 
   async createShoot(shootData: CreateShootRequest): Promise<Shoot> {
@@ -24,7 +39,7 @@ export class ShootService {
     const savedShoot = await this.shootRepository.create(validatedData);
 
     // Publish event (this triggers the invitation flow)
-    await this.shootCreatedPublisher.publish(savedShoot);
+    await this.publishers.created.publish(savedShoot);
 
     return savedShoot.toJSON() as Shoot;
   }
@@ -34,12 +49,62 @@ export class ShootService {
     return shoot ? shoot.toJSON() as Shoot : null;
   }
 
-  async updateShoot(shootId: string, updateData: UpdateShootRequest): Promise<Shoot | null> {
+  /**
+   * Look a shoot up by the reference a client typed. References are short and
+   * sequential, so anyone can guess them: only the summary is answered.
+   */
+  async getShootByReference(reference: string): Promise<ShootSummary | null> {
+    const shoot = await this.shootRepository.findByReference(reference);
+    if (!shoot) {
+      return null;
+    }
+
+    const { id, title, scheduledDate } = shoot.toJSON() as Shoot;
+    return { id, reference: shoot.reference, title, ...(scheduledDate && { scheduledDate }) };
+  }
+
+  /**
+   * Give shoots created before references existed one, in creation order.
+   * Returns how many were given one.
+   */
+  async backfillReferences(): Promise<number> {
+    return await this.shootRepository.backfillReferences();
+  }
+
+  /**
+   * Update a shoot. A status change must be a legal lifecycle transition
+   * (ShootStatusTransitionError otherwise) and is recorded with who made it.
+   * The changes are announced in shoot.updated.
+   */
+  async updateShoot(
+    shootId: string,
+    updateData: UpdateShootRequest,
+    changedBy?: string
+  ): Promise<Shoot | null> {
     // Validate update data
     const validatedData = UpdateShootRequestSchema.parse(updateData);
 
-    const updatedShoot = await this.shootRepository.updateById(shootId, validatedData);
-    return updatedShoot ? updatedShoot.toJSON() as Shoot : null;
+    const currentShoot = await this.shootRepository.findById(shootId);
+    if (!currentShoot) {
+      return null;
+    }
+
+    const statusChange = this.buildStatusChange(currentShoot, validatedData.status, changedBy);
+    const updatedShoot = await this.shootRepository.updateById(shootId, validatedData, statusChange);
+
+    if (!updatedShoot) {
+      // Deleted, or left the validated status, between the read and the write
+      return statusChange ? this.updateShoot(shootId, updateData, changedBy) : null;
+    }
+
+    await this.publishers.updated.publish(currentShoot, updatedShoot);
+    if (statusChange?.to === 'completed') {
+      await this.publishers.completed.publish(updatedShoot, statusChange.changedAt);
+    } else if (statusChange?.to === 'delivered') {
+      await this.publishers.delivered.publish(updatedShoot, statusChange.changedAt);
+    }
+
+    return updatedShoot.toJSON() as Shoot;
   }
 
   async listShoots(query: ShootQuery): Promise<{
@@ -63,7 +128,25 @@ export class ShootService {
     };
   }
 
-  async deleteShoot(shootId: string): Promise<boolean> {
-    return await this.shootRepository.deleteById(shootId);
+  /**
+   * The transition to record for a requested status, if it is one. Re-sending
+   * the current status is not a transition.
+   */
+  private buildStatusChange(
+    currentShoot: IShootDocument,
+    status: ShootStatus | undefined,
+    changedBy: string | undefined
+  ): ShootStatusChange | undefined {
+    if (!status || status === currentShoot.status) {
+      return undefined;
+    }
+
+    assertStatusTransition(currentShoot.status, status);
+    return {
+      from: currentShoot.status,
+      to: status,
+      ...(changedBy && { changedBy }),
+      changedAt: new Date()
+    };
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,136 @@
+/**
+ * File Service HTTP client
+ * Reads a shoot's media from file-service (`GET /files?shootId=`) so the
+ * shoot service can compose galleries without sharing file-service's database,
+ * and has it sign the galleries' links (`POST /files/download-urls`).
+ */
+
+// Subset of file-service's FileModel that the shoot service relies on.
+export interface ShootFile {
+  id: string;
+  filename: string;
+  type: 'jpeg' | 'png' | 'raw' | 'video' | 'sidecar' | 'config';
+  size: number;
+  mimeType: string;
+  shootId: string;
+  publicUrl?: string;
+  thumbnailUrl?: string;
+  photographerOnly?: boolean;
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+  captureTime?: string; // When the photo was taken (clock-corrected EXIF), else the upload time
+  createdAt: string;
+}
+
+// file-service rendition names; 'raw' is the original
+export type DownloadResolution = 'thumbnail' | 'medium' | 'high' | 'raw';
+
+interface ListFilesResponse {
+  success: boolean;
+  data?: ShootFile[];
+  pagination?: { page: number; pages: number };
+  error?: { code: string; message: string };
+}
+
+// A link for file-service to sign: the file, and the rendition it grants
+export interface DownloadLink {
+  fileId: string;
+  resolution?: DownloadResolution;
+}
+
+interface DownloadUrlsResponse {
+  success: boolean;
+  data?: { url?: string; error?: { code: string; message: string } }[];
+  error?: { code: string; message: string };
+}
+
+// Refusals of links to files or renditions file-service does not have
+const NOT_FOUND_CODES = new Set(['FILE_NOT_FOUND', 'RENDITION_NOT_FOUND']);
+
+/**
+ * The file-reading capability the domain depends on, so gallery compilation
+ * can be exercised without a running file-service.
+ */
+export interface FileServicePort {
+  listShootFiles(shootId: string): Promise<ShootFile[]>;
+  issueDownloadUrls(links: DownloadLink[], accessToken: string): Promise<(string | undefined)[]>;
+}
+
+// file-service caps a page at 100 items.
+const PAGE_SIZE = 100;
+
+export class FileServiceClient implements FileServicePort {
+  constructor(private readonly baseUrl: string) {}
+
+  /**
+   * Fetch every file of a shoot, walking file-service's pagination.
+   */
+  async listShootFiles(shootId: string): Promise<ShootFile[]> {
+    const files: ShootFile[] = [];
+    let page = 1;
+    let pages = 1;
+
+    do {
+      const body = await this.fetchPage(shootId, page);
+      files.push(...(body.data ?? []));
+      pages = body.pagination?.pages ?? 1;
+      page++;
+    } while (page <= pages);
+
+    return files;
+  }
+
+  /**
+   * Have file-service sign links to files (the original, or a rendition) for
+   * the holder of the access token, all in one request (at most 300 links).
+   * Undefined in place of links to files or renditions that do not exist.
+   */
+  async issueDownloadUrls(links: DownloadLink[], accessToken: string): Promise<(string | undefined)[]> {
+    const response = await fetch(`${this.baseUrl}/files/download-urls`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ links })
+    });
+
+    if (!response.ok) {
+      throw new Error(`File service responded with ${response.status}`);
+    }
+
+    const body = (await response.json()) as DownloadUrlsResponse;
+    if (!body.success || !body.data) {
+      throw new Error(`File service error: ${body.error?.message ?? 'unknown error'}`);
+    }
+
+    return body.data.map(({ url, error }) => {
+      if (error && !NOT_FOUND_CODES.has(error.code)) {
+        throw new Error(`File service refused a link: ${error.message}`);
+      }
+      return url;
+    });
+  }
+
+  private async fetchPage(shootId: string, page: number): Promise<ListFilesResponse> {
+    const params = new URLSearchParams({
+      shootId,
+      // In the order the photos were taken
+      sort: 'captureTime',
+      page: String(page),
+      limit: String(PAGE_SIZE)
+    });
+    const response = await fetch(`${this.baseUrl}/files?${params.toString()}`);
+
+    if (!response.ok) {
+      throw new Error(`File service responded with ${response.status}`);
+    }
+
+    const body = (await response.json()) as ListFilesResponse;
+    if (!body.success) {
+      throw new Error(`File service error: ${body.error?.message ?? 'unknown error'}`);
+    }
+
+    return body;
+  }
+}
@@ -16,7 +16,7 @@ export interface UpdateShootDto {
   title?: string;
   scheduledDate?: string;
   location?: string;
-  status?: 'planned' | 'in_progress' | 'completed' | 'delivered' | 'archived';
+  status?: 'planned' | 'in_progress' | 'completed' | 'delivered' | 'archived' | 'cancelled';
 }
 
 // Response DTOs
@@ -27,7 +27,7 @@ export interface ShootResponseDto {
   photographerId: string;
   scheduledDate?: string;
   location?: string;
-  status: 'planned' | 'in_progress' | 'completed' | 'delivered' | 'archived';
+  status: 'planned' | 'in_progress' | 'completed' | 'delivered' | 'archived' | 'cancelled';
   createdAt: string;
   updatedAt: string;
 }
@@ -36,7 +36,7 @@ export interface ShootResponseDto {
 export interface ShootQueryDto {
   photographerId?: string;
   clientEmail?: string;
-  status?: 'planned' | 'in_progress' | 'completed' | 'delivered' | 'archived';
+  status?: 'planned' | 'in_progress' | 'completed' | 'delivered' | 'archived' | 'cancelled';
   fromDate?: string;
   toDate?: string;
   page?: number;
@@ -7,6 +7,27 @@ export interface IShootDocument extends Omit<Shoot, 'id'>, Document {
   id: string;
 }
 
+const SHOOT_STATUSES: ShootStatus[] = ['planned', 'in_progress', 'completed', 'delivered', 'archived', 'cancelled'];
+
+const cleanupStepSchema = new Schema({
+  status: { type: String, enum: ['pending', 'done', 'failed'], required: true },
+  error: { type: String },
+  removed: { type: Map, of: Number },
+  reportedAt: { type: Date }
+}, { _id: false });
+
+// One step per service taking part in the deletion saga
+const deletionSchema = new Schema({
+  state: { type: String, enum: ['deleting', 'failed'], required: true },
+  requestedAt: { type: Date, required: true },
+  requestedBy: { type: String },
+  steps: {
+    'file-service': { type: cleanupStepSchema, required: true },
+    'portfolio-service': { type: cleanupStepSchema, required: true },
+    'invitation-service': { type: cleanupStepSchema, required: true }
+  }
+}, { _id: false });
+
 const shootSchema = new Schema<IShootDocument>({
   id: {
     type: String,
@@ -15,6 +36,16 @@ const shootSchema = new Schema<IShootDocument>({
     match: /^shoot_[a-f0-9]{32}$/,
     index: true
   },
+  // Not required, and sparse, so shoots stored before references existed
+  // load and index until backfillReferences gave them one
+  reference: {
+    type: String,
+    unique: true,
+    sparse: true,
+    uppercase: true,
+    trim: true,
+    match: /^TDA-\d{4}-\d{4,}$/
+  },
   title: {
     type: String,
     required: true,
@@ -47,9 +78,28 @@ const shootSchema = new Schema<IShootDocument>({
   },
   status: {
     type: String,
-    enum: ['planned', 'in_progress', 'completed', 'delivered', 'archived'] as ShootStatus[],
+    enum: SHOOT_STATUSES,
     default: 'planned',
     index: true
+  },
+  statusHistory: [{
+    _id: false,
+    from: { type: String, enum: SHOOT_STATUSES, required: true },
+    to: { type: String, enum: SHOOT_STATUSES, required: true },
+    changedBy: { type: String },
+    changedAt: { type: Date, required: true }
+  }],
+  access: {
+    startsAt: { type: Date, default: null },
+    expiresAt: { type: Date, default: null },
+    allowDownloads: { type: Boolean, default: false },
+    allowedEmails: [{ type: String, lowercase: true, trim: true }],
+    guestAllowance: { type: Number, default: 0, min: 0 },
+    lastClientAccessAt: { type: Date, default: null }
+  },
+  deletion: {
+    type: deletionSchema,
+    default: undefined
   }
 }, {
   timestamps: true,
@@ -67,6 +117,16 @@ const shootSchema = new Schema<IShootDocument>({
       if (result['location'] === null) {
         delete result['location'];
       }
+      const access = result['access'] as Record<string, unknown> | undefined;
+      if (access?.['startsAt'] === null) {
+        delete access['startsAt'];
+      }
+      if (access?.['expiresAt'] === null) {
+        delete access['expiresAt'];
+      }
+      if (access?.['lastClientAccessAt'] === null) {
+        delete access['lastClientAccessAt'];
+      }
       return result;
     }
   }
@@ -87,4 +147,24 @@ shootSchema.pre('save', function(next) {
   next();
 });
 
-export const ShootModel = model<IShootDocument>('Shoot', shootSchema);
\ No newline at end of file
+export const ShootModel = model<IShootDocument>('Shoot', shootSchema);
+
+// Per-year sequence backing shoot references, incremented atomically so
+// concurrent creates never hand out the same reference.
+export interface IShootReferenceCounter {
+  _id: number;
+  sequence: number;
+}
+
+const shootReferenceCounterSchema = new Schema<IShootReferenceCounter>({
+  _id: { type: Number, required: true },
+  sequence: { type: Number, required: true, default: 0 }
+}, {
+  versionKey: false
+});
+
+export const ShootReferenceCounterModel = model<IShootReferenceCounter>(
+  'ShootReferenceCounter',
+  shootReferenceCounterSchema,
+  'shoot_reference_counters'
+);
\ No newline at end of file
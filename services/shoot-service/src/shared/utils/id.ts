@@ -5,6 +5,18 @@ export const generateId = (): string => randomBytes(16).toString('hex');
 export const generateShootId = (): string => `shoot_${randomBytes(16).toString('hex')}`;
 export const generateEventId = (): string => `evt_${randomBytes(16).toString('hex')}`;
 
+// Studio prefix on shoot references (Temps D'Arrêt)
+export const SHOOT_REFERENCE_PREFIX = 'TDA';
+
+/**
+ * Format the short code clients type to find their shoot, from the year it
+ * was booked and that year's running sequence number.
+ * e.g. (2026, 142) -> "TDA-2026-0142"
+ */
+export function formatShootReference(year: number, sequence: number): string {
+  return `${SHOOT_REFERENCE_PREFIX}-${year}-${String(sequence).padStart(4, '0')}`;
+}
+
 /**
  * Slugify a string: lowercase, collapse any run of non-alphanumeric characters
  * into a single hyphen, and trim leading/trailing hyphens.
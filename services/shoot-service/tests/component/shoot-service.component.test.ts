@@ -5,6 +5,13 @@ import supertest from 'supertest';
 import mongoose from 'mongoose';
 import { Kafka, Consumer } from 'kafkajs';
 import { CreateShootRequest } from '@tempsdarret/shared/schemas/shoot.schema';
+import { getJwtConfig, signJwt } from '@tempsdarret/shared/auth';
+
+// Changes to shoots take the photographer's access token
+const photographerToken = signJwt(
+  { userId: 'photographer_1', email: 'photographer@example.com', role: 'photographer' },
+  getJwtConfig()
+);
 
 describe('Shoot Service Component Tests', () => {
   let app: ShootServiceApp;
@@ -238,14 +245,17 @@ describe('Shoot Service Component Tests', () => {
       ];
 
       // Shoots are always created as 'planned'; a non-default status is reached
-      // through an update, so apply it explicitly after creation.
+      // by walking the lifecycle through updates after creation.
       for (const shoot of testShoots) {
         const created = await request.post('/shoots').send(shoot).expect(201);
-        if (shoot.status && shoot.status !== 'planned') {
-          await request
-            .patch(`/shoots/${created.body.data.id}`)
-            .send({ status: shoot.status })
-            .expect(200);
+        if (shoot.status === 'completed') {
+          for (const status of ['in_progress', 'completed']) {
+            await request
+              .patch(`/shoots/${created.body.data.id}`)
+              .set('Authorization', `Bearer ${photographerToken}`)
+              .send({ status })
+              .expect(200);
+          }
         }
       }
     });
@@ -324,6 +334,7 @@ describe('Shoot Service Component Tests', () => {
 
       const updateResponse = await request
         .patch(`/shoots/${shootId}`)
+        .set('Authorization', `Bearer ${photographerToken}`)
         .send(updateData)
         .expect(200);
 
@@ -351,6 +362,7 @@ describe('Shoot Service Component Tests', () => {
 
       const response = await request
         .patch(`/shoots/${nonExistentId}`)
+        .set('Authorization', `Bearer ${photographerToken}`)
         .send({ title: 'Updated Title' })
         .expect(404);
 
@@ -380,25 +392,28 @@ describe('Shoot Service Component Tests', () => {
       // Act: Delete the shoot
       const deleteResponse = await request
         .delete(`/shoots/${shootId}`)
-        .expect(200);
+        .set('Authorization', `Bearer ${photographerToken}`)
+        .expect(202);
 
       // Assert: Verify response
       expect(deleteResponse.body).toMatchObject({
-        data: { deleted: true },
-        message: 'Shoot deleted successfully'
+        data: {
+          state: 'deleting',
+          steps: {
+            'file-service': { status: 'pending' },
+            'portfolio-service': { status: 'pending' },
+            'invitation-service': { status: 'pending' }
+          }
+        },
+        message: 'Shoot deletion started'
       });
 
-      // Assert: Verify database removal
+      // Assert: The shoot is kept until every service reported its cleanup
       const dbShoot = await mongoose.connection.db
         ?.collection('shoots')
         .findOne({ id: shootId });
 
-      expect(dbShoot).toBeNull();
-
-      // Assert: Verify GET returns 404
-      await request
-        .get(`/shoots/${shootId}`)
-        .expect(404);
+      expect(dbShoot?.['deletion']).toMatchObject({ state: 'deleting' });
     });
 
     it('should return 404 when deleting non-existent shoot', async () => {
@@ -406,6 +421,7 @@ describe('Shoot Service Component Tests', () => {
 
       const response = await request
         .delete(`/shoots/${nonExistentId}`)
+        .set('Authorization', `Bearer ${photographerToken}`)
         .expect(404);
 
       expect(response.body).toMatchObject({
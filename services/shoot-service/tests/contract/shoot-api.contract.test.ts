@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
 import { FastifyInstance } from 'fastify';
+import { getJwtConfig, signJwt } from '@tempsdarret/shared/auth';
 import { createServer } from '../../src/server';
 import { 
   CreateShootRequestSchema, 
@@ -8,6 +9,11 @@ import {
   ShootSchema 
 } from '@tempsdarret/shared/schemas/shoot.schema';
 
+// Changes to shoots take the access token of the photographer making them
+const photographerAuth = (userId = 'photographer_update'): { authorization: string } => ({
+  authorization: `Bearer ${signJwt({ userId, email: `${userId}@example.com`, role: 'photographer' }, getJwtConfig())}`
+});
+
 describe('Shoot API Contract Tests', () => {
   let app: FastifyInstance;
 
@@ -298,6 +304,7 @@ describe('Shoot API Contract Tests', () => {
       const response = await app.inject({
         method: 'PATCH',
         url: `/shoots/${createdShootId}`,
+        headers: photographerAuth(),
         payload: validUpdate
       });
 
@@ -335,6 +342,7 @@ describe('Shoot API Contract Tests', () => {
         const response = await app.inject({
           method: 'PATCH',
           url: `/shoots/${createdShootId}`,
+          headers: photographerAuth(),
           payload: invalidUpdate
         });
 
@@ -343,15 +351,43 @@ describe('Shoot API Contract Tests', () => {
       }
     });
 
+    it('should reject an illegal status transition with 409', async () => {
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/shoots/${createdShootId}`,
+        headers: photographerAuth(),
+        payload: { status: 'delivered' }
+      });
+
+      expect(response.statusCode).toBe(409);
+      expect(JSON.parse(response.body)).toMatchObject({
+        code: 409,
+        message: 'Invalid status transition',
+        details: "Cannot change shoot status from 'planned' to 'delivered'"
+      });
+    });
+
     it('should return 404 for non-existent ID', async () => {
       const response = await app.inject({
         method: 'PATCH',
         url: '/shoots/nonexistent-id',
+        headers: photographerAuth(),
         payload: { title: 'Updated Title' }
       });
 
       expect(response.statusCode).toBe(404);
     });
+
+    it('should answer updates without an access token with 401', async () => {
+      const response = await app.inject({
+        method: 'PATCH',
+        url: `/shoots/${createdShootId}`,
+        payload: { title: 'Updated Title' }
+      });
+
+      expect(response.statusCode).toBe(401);
+      expect(JSON.parse(response.body)).toMatchObject({ code: 401, message: 'Authentication required' });
+    });
   });
 
   describe('DELETE /shoots/:shootId Contract', () => {
@@ -371,30 +407,41 @@ describe('Shoot API Contract Tests', () => {
       createdShootId = JSON.parse(createResponse.body).data.id;
     });
 
-    it('should return the deleted marker for successful deletion', async () => {
+    it('should accept the deletion and keep the shoot while services clean up', async () => {
       const response = await app.inject({
         method: 'DELETE',
-        url: `/shoots/${createdShootId}`
+        url: `/shoots/${createdShootId}`,
+        headers: photographerAuth('photographer_delete')
       });
 
-      expect(response.statusCode).toBe(200);
+      expect(response.statusCode).toBe(202);
       expect(JSON.parse(response.body)).toMatchObject({
-        data: { deleted: true }
+        data: {
+          state: 'deleting',
+          requestedBy: 'photographer_delete',
+          steps: {
+            'file-service': { status: 'pending' },
+            'portfolio-service': { status: 'pending' },
+            'invitation-service': { status: 'pending' }
+          }
+        },
+        message: 'Shoot deletion started'
       });
 
-      // Verify the shoot is actually deleted
       const getResponse = await app.inject({
         method: 'GET',
         url: `/shoots/${createdShootId}`
       });
 
-      expect(getResponse.statusCode).toBe(404);
+      expect(getResponse.statusCode).toBe(200);
+      expect(JSON.parse(getResponse.body).data.deletion).toMatchObject({ state: 'deleting' });
     });
 
     it('should return 404 for non-existent ID', async () => {
       const response = await app.inject({
         method: 'DELETE',
-        url: '/shoots/nonexistent-id'
+        url: '/shoots/nonexistent-id',
+        headers: photographerAuth()
       });
 
       expect(response.statusCode).toBe(404);
@@ -429,7 +476,7 @@ describe('Shoot API Contract Tests', () => {
       const errorEndpoints = [
         { method: 'GET', url: '/shoots/nonexistent-id', expectedStatus: 404 },
         { method: 'POST', url: '/shoots', payload: { title: '' }, expectedStatus: 400 },
-        { method: 'DELETE', url: '/shoots/nonexistent-id', expectedStatus: 404 }
+        { method: 'DELETE', url: '/shoots/nonexistent-id', headers: photographerAuth(), expectedStatus: 404 }
       ];
 
       for (const endpoint of errorEndpoints) {
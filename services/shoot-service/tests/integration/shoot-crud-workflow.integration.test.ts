@@ -2,6 +2,9 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { ShootService } from '../../src/services/shoot.service';
 import { ShootRepository } from '../../src/persistence/shoot.repository';
 import { ShootCreatedPublisher } from '../../src/events/publishers/shoot-created.publisher';
+import { ShootDeletionService } from '../../src/services/shoot-deletion.service';
+import { ShootDeletedPublisher } from '../../src/events/publishers/shoot-deleted.publisher';
+import { ShootDeletionFailedPublisher } from '../../src/events/publishers/shoot-deletion-failed.publisher';
 import { CreateShootRequest } from '@tempsdarret/shared/schemas/shoot.schema';
 
 // Mock event publisher for integration tests
@@ -13,6 +16,7 @@ const mockEventPublisher = {
 
 describe('Shoot Service Integration Tests', () => {
   let shootService: ShootService;
+  let deletionService: ShootDeletionService;
 
   beforeEach(() => {
     vi.clearAllMocks();
@@ -20,6 +24,10 @@ describe('Shoot Service Integration Tests', () => {
       new ShootRepository(),
       new ShootCreatedPublisher(mockEventPublisher)
     );
+    deletionService = new ShootDeletionService(new ShootRepository(), {
+      deleted: new ShootDeletedPublisher(mockEventPublisher),
+      deletionFailed: new ShootDeletionFailedPublisher(mockEventPublisher)
+    });
   });
 
   describe('End-to-End Shoot Creation Flow', () => {
@@ -80,9 +88,20 @@ describe('Shoot Service Integration Tests', () => {
       expect(total).toBe(1);
       expect(shoots[0].id).toBe(createdShoot.id);
 
-      // Step 6: Delete the shoot
-      const deleted = await shootService.deleteShoot(createdShoot.id);
-      expect(deleted).toBe(true);
+      // Step 6: Delete the shoot; it stays until every service cleaned up
+      const deletion = await deletionService.requestDeletion(createdShoot.id);
+      expect(deletion?.state).toBe('deleting');
+      expect(await shootService.getShoot(createdShoot.id)).not.toBeNull();
+
+      for (const service of ['file-service', 'portfolio-service', 'invitation-service'] as const) {
+        await deletionService.recordCleanupReport({
+          eventType: 'shoot.cleanup.reported',
+          shootId: createdShoot.id,
+          service,
+          success: true,
+          timestamp: new Date().toISOString()
+        });
+      }
 
       // Step 7: Verify it's gone
       const deletedShoot = await shootService.getShoot(createdShoot.id);
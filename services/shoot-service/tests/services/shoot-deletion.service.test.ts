@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ShootDeletionService } from '../../src/services/shoot-deletion.service';
+
+const SHOOT_ID = 'shoot_1234567890abcdef1234567890abcdef';
+const REQUESTED_AT = new Date('2026-03-01T10:00:00Z');
+
+const mockShootRepository = {
+  findById: vi.fn(),
+  saveDeletion: vi.fn(),
+  recordCleanupStep: vi.fn(),
+  markDeletionFailed: vi.fn(),
+  deleteById: vi.fn()
+};
+
+const mockShootDeletedPublisher = {
+  publish: vi.fn()
+};
+
+const mockShootDeletionFailedPublisher = {
+  publish: vi.fn()
+};
+
+function buildDeletion(
+  steps: Record<string, Record<string, unknown>>,
+  state = 'deleting'
+): Record<string, unknown> {
+  return {
+    state,
+    requestedAt: REQUESTED_AT,
+    steps: {
+      'file-service': { status: 'pending' },
+      'portfolio-service': { status: 'pending' },
+      'invitation-service': { status: 'pending' },
+      ...steps
+    }
+  };
+}
+
+function buildReport(service: string, overrides: Record<string, unknown> = {}): any {
+  return {
+    eventType: 'shoot.cleanup.reported',
+    shootId: SHOOT_ID,
+    service,
+    success: true,
+    timestamp: '2026-03-01T10:05:00.000Z',
+    ...overrides
+  };
+}
+
+describe('ShootDeletionService', () => {
+  let deletionService: ShootDeletionService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    deletionService = new ShootDeletionService(mockShootRepository as any, {
+      deleted: mockShootDeletedPublisher,
+      deletionFailed: mockShootDeletionFailedPublisher
+    } as any);
+  });
+
+  describe('requestDeletion', () => {
+    it('should mark every step pending and publish shoot.deleted', async () => {
+      const mockShoot = { id: SHOOT_ID };
+      mockShootRepository.findById.mockResolvedValue(mockShoot);
+      mockShootRepository.saveDeletion.mockResolvedValue(mockShoot);
+
+      const deletion = await deletionService.requestDeletion(SHOOT_ID, 'photographer_123');
+
+      expect(deletion).toEqual({
+        state: 'deleting',
+        requestedAt: expect.any(Date),
+        requestedBy: 'photographer_123',
+        steps: {
+          'file-service': { status: 'pending' },
+          'portfolio-service': { status: 'pending' },
+          'invitation-service': { status: 'pending' }
+        }
+      });
+      expect(mockShootRepository.saveDeletion).toHaveBeenCalledWith(SHOOT_ID, deletion);
+      expect(mockShootDeletedPublisher.publish).toHaveBeenCalledWith(
+        mockShoot,
+        deletion?.requestedAt,
+        'photographer_123'
+      );
+      expect(mockShootRepository.deleteById).not.toHaveBeenCalled();
+    });
+
+    it('should return null for non-existent shoot', async () => {
+      mockShootRepository.findById.mockResolvedValue(null);
+
+      const deletion = await deletionService.requestDeletion('shoot_nonexistent123456789012345678901234');
+
+      expect(deletion).toBeNull();
+      expect(mockShootDeletedPublisher.publish).not.toHaveBeenCalled();
+    });
+
+    it('should not restart a deletion that is already running', async () => {
+      const running = buildDeletion({ 'file-service': { status: 'done' } });
+      mockShootRepository.findById.mockResolvedValue({ id: SHOOT_ID, deletion: running });
+
+      const deletion = await deletionService.requestDeletion(SHOOT_ID);
+
+      expect(deletion).toBe(running);
+      expect(mockShootRepository.saveDeletion).not.toHaveBeenCalled();
+      expect(mockShootDeletedPublisher.publish).not.toHaveBeenCalled();
+    });
+
+    it('should retry only the steps of a failed deletion that did not complete', async () => {
+      const doneStep = { status: 'done', removed: { files: 12 } };
+      const failed = buildDeletion({
+        'file-service': doneStep,
+        'portfolio-service': { status: 'failed', error: 'Mongo timeout' },
+        'invitation-service': { status: 'done' }
+      }, 'failed');
+      mockShootRepository.findById.mockResolvedValue({ id: SHOOT_ID, deletion: failed });
+      mockShootRepository.saveDeletion.mockResolvedValue({ id: SHOOT_ID });
+
+      const deletion = await deletionService.requestDeletion(SHOOT_ID);
+
+      expect(deletion).toMatchObject({
+        state: 'deleting',
+        requestedAt: REQUESTED_AT,
+        steps: {
+          'file-service': doneStep,
+          'portfolio-service': { status: 'pending' },
+          'invitation-service': { status: 'done' }
+        }
+      });
+      expect(mockShootDeletedPublisher.publish).toHaveBeenCalled();
+    });
+  });
+
+  describe('recordCleanupReport', () => {
+    it('should record the step and wait while other services are pending', async () => {
+      mockShootRepository.recordCleanupStep.mockResolvedValue({
+        id: SHOOT_ID,
+        deletion: buildDeletion({ 'file-service': { status: 'done' } })
+      });
+
+      await deletionService.recordCleanupReport(buildReport('file-service', { removed: { files: 12 } }));
+
+      expect(mockShootRepository.recordCleanupStep).toHaveBeenCalledWith(SHOOT_ID, 'file-service', {
+        status: 'done',
+        removed: { files: 12 },
+        reportedAt: new Date('2026-03-01T10:05:00.000Z')
+      });
+      expect(mockShootRepository.deleteById).not.toHaveBeenCalled();
+      expect(mockShootDeletionFailedPublisher.publish).not.toHaveBeenCalled();
+    });
+
+    it('should delete the shoot once every service confirmed', async () => {
+      mockShootRepository.recordCleanupStep.mockResolvedValue({
+        id: SHOOT_ID,
+        deletion: buildDeletion({
+          'file-service': { status: 'done' },
+          'portfolio-service': { status: 'done' },
+          'invitation-service': { status: 'done' }
+        })
+      });
+
+      await deletionService.recordCleanupReport(buildReport('invitation-service'));
+
+      expect(mockShootRepository.deleteById).toHaveBeenCalledWith(SHOOT_ID);
+    });
+
+    it('should fail the deletion and publish shoot.deletion.failed when a step failed', async () => {
+      const steps = {
+        'file-service': { status: 'failed', error: 'Disk unavailable' },
+        'portfolio-service': { status: 'done' },
+        'invitation-service': { status: 'done' }
+      };
+      mockShootRepository.recordCleanupStep.mockResolvedValue({ id: SHOOT_ID, deletion: buildDeletion(steps) });
+      const failedShoot = { id: SHOOT_ID, deletion: buildDeletion(steps, 'failed') };
+      mockShootRepository.markDeletionFailed.mockResolvedValue(failedShoot);
+
+      await deletionService.recordCleanupReport(
+        buildReport('file-service', { success: false, error: 'Disk unavailable' })
+      );
+
+      expect(mockShootRepository.recordCleanupStep).toHaveBeenCalledWith(
+        SHOOT_ID,
+        'file-service',
+        expect.objectContaining({ status: 'failed', error: 'Disk unavailable' })
+      );
+      expect(mockShootRepository.deleteById).not.toHaveBeenCalled();
+      expect(mockShootDeletionFailedPublisher.publish).toHaveBeenCalledWith(failedShoot, failedShoot.deletion);
+    });
+
+    it('should ignore reports for shoots that are not being deleted', async () => {
+      mockShootRepository.recordCleanupStep.mockResolvedValue(null);
+
+      await deletionService.recordCleanupReport(buildReport('portfolio-service'));
+
+      expect(mockShootRepository.deleteById).not.toHaveBeenCalled();
+      expect(mockShootDeletionFailedPublisher.publish).not.toHaveBeenCalled();
+    });
+  });
+});
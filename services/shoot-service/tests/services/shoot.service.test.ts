@@ -4,11 +4,14 @@ import { ShootRepository } from '../../src/persistence/shoot.repository';
 import { ShootCreatedPublisher } from '../../src/events/publishers/shoot-created.publisher';
 import { CreateShootRequest, ShootStatus } from '@tempsdarret/shared/schemas/shoot.schema';
 import { ZodError } from 'zod';
+import { ShootStatusTransitionError } from '../../src/services/shoot-lifecycle';
 
 // Mock dependencies
 const mockShootRepository = {
   create: vi.fn(),
   findById: vi.fn(),
+  findByReference: vi.fn(),
+  backfillReferences: vi.fn(),
   updateById: vi.fn(),
   findMany: vi.fn(),
   deleteById: vi.fn()
@@ -18,14 +21,28 @@ const mockShootCreatedPublisher = {
   publish: vi.fn()
 };
 
+const mockShootUpdatedPublisher = {
+  publish: vi.fn()
+};
+
+const mockShootCompletedPublisher = {
+  publish: vi.fn()
+};
+
+const mockShootDeliveredPublisher = {
+  publish: vi.fn()
+};
+
 describe('ShootService', () => {
   let shootService: ShootService;
 
   beforeEach(() => {
-    shootService = new ShootService(
-      mockShootRepository as any,
-      mockShootCreatedPublisher as any
-    );
+    shootService = new ShootService(mockShootRepository as any, {
+      created: mockShootCreatedPublisher,
+      updated: mockShootUpdatedPublisher,
+      completed: mockShootCompletedPublisher,
+      delivered: mockShootDeliveredPublisher
+    } as any);
     vi.clearAllMocks();
   });
 
@@ -116,6 +133,51 @@ describe('ShootService', () => {
     });
   });
 
+  describe('getShootByReference', () => {
+    it('should return only the summary of a shoot found by its reference', async () => {
+      const mockShoot = {
+        id: 'shoot_1234567890abcdef1234567890abcdef',
+        reference: 'TDA-2026-0142',
+        title: 'Test Shoot',
+        toJSON: () => ({
+          id: 'shoot_1234567890abcdef1234567890abcdef',
+          reference: 'TDA-2026-0142',
+          title: 'Test Shoot',
+          clientEmail: 'client@example.com',
+          scheduledDate: new Date('2026-06-15'),
+          access: { allowDownloads: true, allowedEmails: ['guest@example.com'], guestAllowance: 2 }
+        })
+      };
+
+      mockShootRepository.findByReference.mockResolvedValue(mockShoot);
+
+      const foundShoot = await shootService.getShootByReference('tda-2026-0142');
+
+      expect(mockShootRepository.findByReference).toHaveBeenCalledWith('tda-2026-0142');
+      expect(foundShoot).toEqual({
+        id: 'shoot_1234567890abcdef1234567890abcdef',
+        reference: 'TDA-2026-0142',
+        title: 'Test Shoot',
+        scheduledDate: new Date('2026-06-15')
+      });
+    });
+
+    it('should return null for an unknown reference', async () => {
+      mockShootRepository.findByReference.mockResolvedValue(null);
+
+      const foundShoot = await shootService.getShootByReference('TDA-2026-9999');
+      expect(foundShoot).toBeNull();
+    });
+  });
+
+  describe('backfillReferences', () => {
+    it('should report how many existing shoots were given a reference', async () => {
+      mockShootRepository.backfillReferences.mockResolvedValue(3);
+
+      await expect(shootService.backfillReferences()).resolves.toBe(3);
+    });
+  });
+
   describe('updateShoot', () => {
     it('should update a shoot with valid data', async () => {
       const updateData = {
@@ -133,17 +195,99 @@ describe('ShootService', () => {
         })
       };
 
+      mockShootRepository.findById.mockResolvedValue({ status: 'planned' });
       mockShootRepository.updateById.mockResolvedValue(mockUpdatedShoot);
 
       const updatedShoot = await shootService.updateShoot('shoot_1234567890abcdef1234567890abcdef', updateData);
 
-      expect(mockShootRepository.updateById).toHaveBeenCalledWith('shoot_1234567890abcdef1234567890abcdef', updateData);
+      expect(mockShootRepository.updateById).toHaveBeenCalledWith(
+        'shoot_1234567890abcdef1234567890abcdef',
+        updateData,
+        expect.objectContaining({ from: 'planned', to: 'in_progress' })
+      );
       expect(updatedShoot).toMatchObject({
         title: 'Updated Title',
         status: 'in_progress',
         location: 'New Location'
       });
     });
+
+    it('should reject an illegal status transition', async () => {
+      mockShootRepository.findById.mockResolvedValue({ status: 'archived' });
+
+      await expect(
+        shootService.updateShoot('shoot_1234567890abcdef1234567890abcdef', { status: 'planned' })
+      ).rejects.toThrow(ShootStatusTransitionError);
+      expect(mockShootRepository.updateById).not.toHaveBeenCalled();
+      expect(mockShootUpdatedPublisher.publish).not.toHaveBeenCalled();
+    });
+
+    it('should record who completed the shoot and publish the lifecycle events', async () => {
+      const mockUpdatedShoot = {
+        id: 'shoot_1234567890abcdef1234567890abcdef',
+        status: 'completed',
+        toJSON: () => ({ id: 'shoot_1234567890abcdef1234567890abcdef', status: 'completed' })
+      };
+      const mockCurrentShoot = { status: 'in_progress' };
+      mockShootRepository.findById.mockResolvedValue(mockCurrentShoot);
+      mockShootRepository.updateById.mockResolvedValue(mockUpdatedShoot);
+
+      await shootService.updateShoot(
+        'shoot_1234567890abcdef1234567890abcdef',
+        { status: 'completed' },
+        'photographer_123'
+      );
+
+      const statusChange = mockShootRepository.updateById.mock.calls[0][2];
+      expect(statusChange).toMatchObject({
+        from: 'in_progress',
+        to: 'completed',
+        changedBy: 'photographer_123',
+        changedAt: expect.any(Date)
+      });
+      expect(mockShootUpdatedPublisher.publish).toHaveBeenCalledWith(mockCurrentShoot, mockUpdatedShoot);
+      expect(mockShootCompletedPublisher.publish).toHaveBeenCalledWith(mockUpdatedShoot, statusChange.changedAt);
+      expect(mockShootDeliveredPublisher.publish).not.toHaveBeenCalled();
+    });
+
+    it('should publish shoot.delivered when the shoot is delivered', async () => {
+      const mockUpdatedShoot = {
+        id: 'shoot_1234567890abcdef1234567890abcdef',
+        status: 'delivered',
+        toJSON: () => ({ id: 'shoot_1234567890abcdef1234567890abcdef', status: 'delivered' })
+      };
+      mockShootRepository.findById.mockResolvedValue({ status: 'completed' });
+      mockShootRepository.updateById.mockResolvedValue(mockUpdatedShoot);
+
+      await shootService.updateShoot('shoot_1234567890abcdef1234567890abcdef', { status: 'delivered' });
+
+      expect(mockShootDeliveredPublisher.publish).toHaveBeenCalledWith(mockUpdatedShoot, expect.any(Date));
+      expect(mockShootCompletedPublisher.publish).not.toHaveBeenCalled();
+    });
+
+    it('should not treat re-sending the current status as a transition', async () => {
+      mockShootRepository.findById.mockResolvedValue({ status: 'delivered' });
+      mockShootRepository.updateById.mockResolvedValue({ toJSON: () => ({ status: 'delivered' }) });
+
+      await shootService.updateShoot('shoot_1234567890abcdef1234567890abcdef', { status: 'delivered' });
+
+      expect(mockShootRepository.updateById).toHaveBeenCalledWith(
+        'shoot_1234567890abcdef1234567890abcdef',
+        { status: 'delivered' },
+        undefined
+      );
+      expect(mockShootDeliveredPublisher.publish).not.toHaveBeenCalled();
+    });
+
+    it('should return null without publishing for a non-existent shoot', async () => {
+      mockShootRepository.findById.mockResolvedValue(null);
+
+      const updatedShoot = await shootService.updateShoot('shoot_nonexistent123456789012345678901234', { title: 'New' });
+
+      expect(updatedShoot).toBeNull();
+      expect(mockShootRepository.updateById).not.toHaveBeenCalled();
+      expect(mockShootUpdatedPublisher.publish).not.toHaveBeenCalled();
+    });
   });
 
   describe('listShoots', () => {
@@ -174,22 +318,4 @@ describe('ShootService', () => {
       });
     });
   });
-
-  describe('deleteShoot', () => {
-    it('should delete a shoot successfully', async () => {
-      mockShootRepository.deleteById.mockResolvedValue(true);
-
-      const deleted = await shootService.deleteShoot('shoot_1234567890abcdef1234567890abcdef');
-
-      expect(mockShootRepository.deleteById).toHaveBeenCalledWith('shoot_1234567890abcdef1234567890abcdef');
-      expect(deleted).toBe(true);
-    });
-
-    it('should return false for non-existent shoot', async () => {
-      mockShootRepository.deleteById.mockResolvedValue(false);
-
-      const deleted = await shootService.deleteShoot('shoot_nonexistent123456789012345678901234');
-      expect(deleted).toBe(false);
-    });
-  });
-});
\ No newline at end of file
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ClientAccessHandlers } from '../../src/handlers/client-access.handlers.js';
+
+const SHOOT_ID = 'shoot_1234567890abcdef1234567890abcdef';
+
+describe('ClientAccessHandlers', () => {
+  let handlers: ClientAccessHandlers;
+  let mockAccessService: any;
+  let mockGalleryService: any;
+  let reply: any;
+
+  beforeEach(() => {
+    mockAccessService = { validateShootAccess: vi.fn() };
+    mockGalleryService = { compileShootGallery: vi.fn() };
+    reply = { code: vi.fn().mockReturnThis(), send: vi.fn().mockReturnThis() };
+    handlers = new ClientAccessHandlers(mockAccessService, mockGalleryService);
+  });
+
+  function request(authorization?: string): any {
+    return { params: { ref: 'TDA-2026-0142' }, headers: authorization ? { authorization } : {} };
+  }
+
+  it('should check the bearer token and answer the access granted', async () => {
+    const access = { allowed: true, shootId: SHOOT_ID, clientEmail: 'client@example.com', role: 'client' };
+    mockAccessService.validateShootAccess.mockResolvedValue(access);
+
+    await handlers.validateAccess(request('Bearer token-abc'), reply);
+
+    expect(mockAccessService.validateShootAccess).toHaveBeenCalledWith('TDA-2026-0142', 'token-abc');
+    expect(reply.send).toHaveBeenCalledWith({ data: access });
+  });
+
+  it.each([
+    [404, { allowed: false, reason: 'Shoot not found' }],
+    [401, { allowed: false, shootId: SHOOT_ID, reason: 'Access token required' }],
+    [401, { allowed: false, shootId: SHOOT_ID, reason: 'Invalid access token' }],
+    [403, { allowed: false, shootId: SHOOT_ID, reason: 'Access has expired' }]
+  ])('should answer %i when access is denied', async (status, access) => {
+    mockAccessService.validateShootAccess.mockResolvedValue(access);
+
+    await handlers.validateAccess(request(), reply);
+
+    expect(mockAccessService.validateShootAccess).toHaveBeenCalledWith('TDA-2026-0142', undefined);
+    expect(reply.code).toHaveBeenCalledWith(status);
+    expect(reply.send).toHaveBeenCalledWith({ code: status, message: access.reason });
+  });
+
+  it('should compile the gallery with links signed for the bearer token', async () => {
+    const gallery = { shootId: SHOOT_ID, title: 'Smith Wedding', images: [] };
+    mockAccessService.validateShootAccess.mockResolvedValue({
+      allowed: true,
+      shootId: SHOOT_ID,
+      clientEmail: 'guest@example.com',
+      role: 'guest',
+      allowDownloads: true
+    });
+    mockGalleryService.compileShootGallery.mockResolvedValue(gallery);
+
+    await handlers.getGallery(request('Bearer token-abc'), reply);
+
+    expect(mockGalleryService.compileShootGallery).toHaveBeenCalledWith(SHOOT_ID, {
+      accessToken: 'token-abc',
+      role: 'guest',
+      allowDownloads: true
+    });
+    expect(reply.send).toHaveBeenCalledWith({ data: gallery });
+  });
+
+  it('should not compile the gallery when access is denied', async () => {
+    mockAccessService.validateShootAccess.mockResolvedValue({ allowed: false, shootId: SHOOT_ID, reason: 'Invalid access token' });
+
+    await handlers.getGallery(request('Bearer forged'), reply);
+
+    expect(reply.code).toHaveBeenCalledWith(401);
+    expect(mockGalleryService.compileShootGallery).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { FileServiceClient } from '../../src/shared/clients/file-service.client.js';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
+
+describe('FileServiceClient', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should walk every page of the shoot files', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({
+        success: true,
+        data: [{ id: 'file-1' }],
+        pagination: { page: 1, limit: 100, total: 2, pages: 2 }
+      }))
+      .mockResolvedValueOnce(jsonResponse({
+        success: true,
+        data: [{ id: 'file-2' }],
+        pagination: { page: 2, limit: 100, total: 2, pages: 2 }
+      }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const files = await new FileServiceClient('http://file-service:3006').listShootFiles('shoot_abc');
+
+    expect(files.map(file => file.id)).toEqual(['file-1', 'file-2']);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[0]?.[0]).toBe('http://file-service:3006/files?shootId=shoot_abc&sort=captureTime&page=1&limit=100');
+    expect(fetchMock.mock.calls[1]?.[0]).toBe('http://file-service:3006/files?shootId=shoot_abc&sort=captureTime&page=2&limit=100');
+  });
+
+  it('should throw when file-service answers with an error status', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({}, 503)));
+
+    await expect(new FileServiceClient('http://file-service:3006').listShootFiles('shoot_abc'))
+      .rejects.toThrow('File service responded with 503');
+  });
+
+  it('should throw when file-service reports a failure envelope', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({
+      success: false,
+      error: { code: 'LIST_FAILED', message: 'Database unavailable' }
+    })));
+
+    await expect(new FileServiceClient('http://file-service:3006').listShootFiles('shoot_abc'))
+      .rejects.toThrow('File service error: Database unavailable');
+  });
+
+  it('should have file-service sign the links for the access token in one request', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(jsonResponse({
+      success: true,
+      data: [
+        { fileId: 'file-1', resolution: 'high', url: '/api/v1/files/file-1/download?resolution=high&signature=abc', expiresAt: '2024-06-15T11:00:00.000Z' },
+        { fileId: 'file-2', url: '/api/v1/files/file-2/download?signature=def', expiresAt: '2024-06-15T11:00:00.000Z' }
+      ]
+    }, 201));
+    vi.stubGlobal('fetch', fetchMock);
+    const links = [{ fileId: 'file-1', resolution: 'high' as const }, { fileId: 'file-2' }];
+
+    const urls = await new FileServiceClient('http://file-service:3006').issueDownloadUrls(links, 'token-abc');
+
+    expect(urls).toEqual([
+      '/api/v1/files/file-1/download?resolution=high&signature=abc',
+      '/api/v1/files/file-2/download?signature=def'
+    ]);
+    expect(fetchMock).toHaveBeenCalledWith('http://file-service:3006/files/download-urls', {
+      method: 'POST',
+      headers: { Authorization: 'Bearer token-abc', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ links })
+    });
+  });
+
+  it('should answer no link for files or renditions file-service does not have', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({
+      success: true,
+      data: [{
+        fileId: 'file-1',
+        resolution: 'thumbnail',
+        error: { code: 'RENDITION_NOT_FOUND', message: 'Rendition not available for this file' }
+      }]
+    }, 201)));
+
+    await expect(new FileServiceClient('http://file-service:3006')
+      .issueDownloadUrls([{ fileId: 'file-1', resolution: 'thumbnail' }], 'token-abc'))
+      .resolves.toEqual([undefined]);
+  });
+
+  it('should throw when file-service refuses to sign a link', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({
+      success: true,
+      data: [{
+        fileId: 'file-1',
+        error: { code: 'SHOOT_ACCESS_DENIED', message: 'This shoot is not available to this user' }
+      }]
+    }, 201)));
+
+    await expect(new FileServiceClient('http://file-service:3006').issueDownloadUrls([{ fileId: 'file-1' }], 'token-abc'))
+      .rejects.toThrow('File service refused a link: This shoot is not available to this user');
+  });
+
+  it('should throw when file-service answers the request with an error status', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse({}, 401)));
+
+    await expect(new FileServiceClient('http://file-service:3006').issueDownloadUrls([{ fileId: 'file-1' }], 'token-abc'))
+      .rejects.toThrow('File service responded with 401');
+  });
+});
@@ -0,0 +1,199 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GalleryCompilationService, type GalleryViewer } from '../../src/services/gallery-compilation.service.js';
+import type { DownloadLink, ShootFile } from '../../src/shared/clients/file-service.client.js';
+
+const SHOOT_ID = 'shoot_1234567890abcdef1234567890abcdef';
+
+const viewer: GalleryViewer = { accessToken: 'token-abc', role: 'client', allowDownloads: false };
+
+function signedUrl(fileId: string, resolution = 'raw'): string {
+  return `/api/v1/files/${fileId}/download?resolution=${resolution}&signature=abc`;
+}
+
+function buildFile(overrides: Partial<ShootFile>): ShootFile {
+  return {
+    id: 'file-1',
+    filename: 'IMG_0001.jpg',
+    type: 'jpeg',
+    size: 1024,
+    mimeType: 'image/jpeg',
+    shootId: SHOOT_ID,
+    photographerOnly: false,
+    tags: [],
+    createdAt: '2024-06-15T10:00:00.000Z',
+    ...overrides
+  };
+}
+
+describe('GalleryCompilationService', () => {
+  let service: GalleryCompilationService;
+  let mockRepository: any;
+  let mockFileService: any;
+
+  beforeEach(() => {
+    mockRepository = {
+      findById: vi.fn().mockResolvedValue({
+        id: SHOOT_ID,
+        title: 'Smith Wedding',
+        access: { allowDownloads: true },
+        updatedAt: new Date('2024-06-20T00:00:00.000Z')
+      })
+    };
+    mockFileService = {
+      listShootFiles: vi.fn().mockResolvedValue([]),
+      issueDownloadUrls: vi.fn(async (links: DownloadLink[]) =>
+        links.map(({ fileId, resolution }) => signedUrl(fileId, resolution)))
+    };
+
+    service = new GalleryCompilationService(mockRepository, mockFileService);
+  });
+
+  it('should throw when the shoot does not exist', async () => {
+    mockRepository.findById.mockResolvedValue(null);
+
+    await expect(service.compileShootGallery(SHOOT_ID, viewer)).rejects.toThrow('Shoot not found');
+    expect(mockFileService.listShootFiles).not.toHaveBeenCalled();
+  });
+
+  it('should build the gallery from the shoot files in file-service', async () => {
+    mockFileService.listShootFiles.mockResolvedValue([
+      buildFile({ id: 'file-1', publicUrl: '/media/file-1.jpg', thumbnailUrl: '/media/file-1_thumb.jpg' })
+    ]);
+
+    const gallery = await service.compileShootGallery(SHOOT_ID, viewer);
+
+    expect(mockFileService.listShootFiles).toHaveBeenCalledWith(SHOOT_ID);
+    expect(gallery.metadata.totalImages).toBe(1);
+    expect(gallery.images[0]).toEqual({
+      id: 'file-1',
+      url: '/media/file-1.jpg',
+      thumbnailUrl: '/media/file-1_thumb.jpg',
+      isFeatured: false
+    });
+    expect(gallery.coverImage?.id).toBe('file-1');
+    expect(mockFileService.issueDownloadUrls).not.toHaveBeenCalled();
+  });
+
+  it('should drop photographer-only sidecars and config files', async () => {
+    mockFileService.listShootFiles.mockResolvedValue([
+      buildFile({ id: 'photo' }),
+      buildFile({ id: 'sidecar', type: 'sidecar', filename: 'IMG_0001.xmp', photographerOnly: true }),
+      buildFile({ id: 'project', type: 'config', filename: 'IMG_0001.psd', photographerOnly: true })
+    ]);
+
+    const gallery = await service.compileShootGallery(SHOOT_ID, viewer);
+
+    expect(gallery.images.map(image => image.id)).toEqual(['photo']);
+    expect(gallery.metadata.totalImages).toBe(1);
+  });
+
+  it('should order featured images first, then by upload date', async () => {
+    mockFileService.listShootFiles.mockResolvedValue([
+      buildFile({ id: 'late', createdAt: '2024-06-15T12:00:00.000Z' }),
+      buildFile({ id: 'featured-late', tags: ['featured'], createdAt: '2024-06-15T11:00:00.000Z' }),
+      buildFile({ id: 'early', createdAt: '2024-06-15T09:00:00.000Z' }),
+      buildFile({ id: 'featured-early', tags: ['featured'], createdAt: '2024-06-15T08:00:00.000Z' })
+    ]);
+
+    const gallery = await service.compileShootGallery(SHOOT_ID, viewer);
+
+    expect(gallery.images.map(image => image.id)).toEqual([
+      'featured-early',
+      'featured-late',
+      'early',
+      'late'
+    ]);
+    expect(gallery.coverImage?.id).toBe('featured-early');
+  });
+
+  it('should order by capture time when file-service has one', async () => {
+    mockFileService.listShootFiles.mockResolvedValue([
+      buildFile({ id: 'uploaded-first', captureTime: '2024-06-15T10:00:00.000Z', createdAt: '2024-06-15T12:00:00.000Z' }),
+      buildFile({ id: 'second-shooter', captureTime: '2024-06-15T09:30:00.000Z', createdAt: '2024-06-15T13:00:00.000Z' }),
+      buildFile({ id: 'no-capture-time', createdAt: '2024-06-15T09:45:00.000Z' })
+    ]);
+
+    const gallery = await service.compileShootGallery(SHOOT_ID, viewer);
+
+    expect(gallery.images.map(image => image.id)).toEqual(['second-shooter', 'no-capture-time', 'uploaded-first']);
+  });
+
+  it('should show links file-service signed for the viewer', async () => {
+    mockFileService.listShootFiles.mockResolvedValue([buildFile({ id: 'file-1' })]);
+
+    const gallery = await service.compileShootGallery(SHOOT_ID, viewer);
+
+    expect(mockFileService.issueDownloadUrls).toHaveBeenCalledWith(
+      [{ fileId: 'file-1', resolution: 'high' }, { fileId: 'file-1', resolution: 'thumbnail' }],
+      'token-abc'
+    );
+    expect(gallery.images[0]).toEqual({
+      id: 'file-1',
+      url: signedUrl('file-1', 'high'),
+      thumbnailUrl: signedUrl('file-1', 'thumbnail'),
+      isFeatured: false
+    });
+    expect(gallery.metadata.allowDownloads).toBe(false);
+  });
+
+  it('should fall back to the display link when file-service has no thumbnail', async () => {
+    mockFileService.listShootFiles.mockResolvedValue([buildFile({ id: 'file-1' })]);
+    mockFileService.issueDownloadUrls.mockImplementation(async (links: DownloadLink[]) =>
+      links.map(({ fileId, resolution }) => (resolution === 'thumbnail' ? undefined : signedUrl(fileId, resolution))));
+
+    const gallery = await service.compileShootGallery(SHOOT_ID, viewer);
+
+    expect(gallery.images[0]?.thumbnailUrl).toBe(signedUrl('file-1', 'high'));
+  });
+
+  it('should attach signed links to the originals when downloads are allowed', async () => {
+    mockFileService.listShootFiles.mockResolvedValue([buildFile({ id: 'file-1' })]);
+
+    const gallery = await service.compileShootGallery(SHOOT_ID, { ...viewer, allowDownloads: true });
+
+    expect(mockFileService.issueDownloadUrls).toHaveBeenCalledWith(
+      expect.arrayContaining([{ fileId: 'file-1' }]),
+      'token-abc'
+    );
+    expect(gallery.images[0]?.downloadUrl).toBe(signedUrl('file-1'));
+    expect(gallery.metadata.allowDownloads).toBe(true);
+  });
+
+  it('should attach links to the high rendition for guests, who get no originals', async () => {
+    mockFileService.listShootFiles.mockResolvedValue([buildFile({ id: 'file-1', publicUrl: '/media/file-1.jpg' })]);
+
+    const gallery = await service.compileShootGallery(SHOOT_ID, { ...viewer, role: 'guest', allowDownloads: true });
+
+    expect(gallery.images[0]?.downloadUrl).toBe(signedUrl('file-1', 'high'));
+    expect(mockFileService.issueDownloadUrls).not.toHaveBeenCalledWith(
+      expect.arrayContaining([{ fileId: 'file-1' }]),
+      'token-abc'
+    );
+  });
+
+  it('should sign the links of a page of images in one request', async () => {
+    const files = Array.from({ length: 150 }, (_, index) => buildFile({ id: `file-${index}` }));
+    mockFileService.listShootFiles.mockResolvedValue(files);
+
+    const gallery = await service.compileShootGallery(SHOOT_ID, { ...viewer, allowDownloads: true });
+
+    // Three links an image, at most 100 images a request
+    expect(mockFileService.issueDownloadUrls).toHaveBeenCalledTimes(2);
+    expect(mockFileService.issueDownloadUrls.mock.calls[0][0]).toHaveLength(300);
+    expect(mockFileService.issueDownloadUrls.mock.calls[1][0]).toHaveLength(150);
+    expect(gallery.images[149]).toMatchObject({
+      id: 'file-149',
+      url: signedUrl('file-149', 'high'),
+      thumbnailUrl: signedUrl('file-149', 'thumbnail'),
+      downloadUrl: signedUrl('file-149')
+    });
+  });
+
+  it('should return an empty gallery without a cover when the shoot has no files', async () => {
+    const gallery = await service.compileShootGallery(SHOOT_ID, viewer);
+
+    expect(gallery.images).toEqual([]);
+    expect(gallery.coverImage).toBeUndefined();
+    expect(gallery.metadata.totalImages).toBe(0);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canTransition,
+  assertStatusTransition,
+  ShootStatusTransitionError
+} from '../../src/services/shoot-lifecycle.js';
+
+describe('Shoot lifecycle', () => {
+  it('should allow the forward lifecycle path', () => {
+    expect(canTransition('planned', 'in_progress')).toBe(true);
+    expect(canTransition('in_progress', 'completed')).toBe(true);
+    expect(canTransition('completed', 'delivered')).toBe(true);
+    expect(canTransition('delivered', 'archived')).toBe(true);
+  });
+
+  it('should allow cancelling a shoot until its photos are completed', () => {
+    expect(canTransition('planned', 'cancelled')).toBe(true);
+    expect(canTransition('in_progress', 'cancelled')).toBe(true);
+    expect(canTransition('completed', 'cancelled')).toBe(false);
+    expect(canTransition('cancelled', 'archived')).toBe(true);
+  });
+
+  it('should reject skipping or reversing steps', () => {
+    expect(canTransition('planned', 'completed')).toBe(false);
+    expect(canTransition('delivered', 'in_progress')).toBe(false);
+    expect(canTransition('archived', 'planned')).toBe(false);
+  });
+
+  it('should throw a transition error naming both statuses', () => {
+    expect(() => assertStatusTransition('archived', 'planned')).toThrow(ShootStatusTransitionError);
+    expect(() => assertStatusTransition('archived', 'planned'))
+      .toThrow("Cannot change shoot status from 'archived' to 'planned'");
+  });
+});
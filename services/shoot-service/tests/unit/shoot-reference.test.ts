@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { generateShootReference } from '../../src/shared/utils/id.js';
+import { generateShootReference, formatShootReference } from '../../src/shared/utils/id.js';
 
 describe('Shoot Reference Generation', () => {
   describe('generateShootReference', () => {
@@ -85,4 +85,14 @@ describe('Shoot Reference Generation', () => {
       expect(reference).not.toMatch(/--+/);
     });
   });
+
+  describe('formatShootReference', () => {
+    it('should format the studio prefix, year and padded sequence', () => {
+      expect(formatShootReference(2026, 142)).toBe('TDA-2026-0142');
+    });
+
+    it('should keep sequences beyond four digits intact', () => {
+      expect(formatShootReference(2026, 12345)).toBe('TDA-2026-12345');
+    });
+  });
 });
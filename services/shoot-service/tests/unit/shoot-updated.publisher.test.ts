@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  ShootUpdatedPublisher,
+  diffShoot,
+  describeShootChanges
+} from '../../src/events/publishers/shoot-updated.publisher.js';
+
+const SHOOT_ID = 'shoot_1234567890abcdef1234567890abcdef';
+
+function buildShoot(overrides: Record<string, unknown> = {}): any {
+  return {
+    id: SHOOT_ID,
+    title: 'Smith Wedding',
+    clientEmail: 'client@example.com',
+    scheduledDate: new Date('2024-06-15T14:00:00.000Z'),
+    location: 'Central Park',
+    status: 'planned',
+    updatedAt: new Date('2024-06-01T00:00:00.000Z'),
+    ...overrides
+  };
+}
+
+describe('ShootUpdatedPublisher', () => {
+  let publisher: ShootUpdatedPublisher;
+  let mockEventPublisher: any;
+
+  beforeEach(() => {
+    mockEventPublisher = { publish: vi.fn().mockResolvedValue(undefined) };
+    publisher = new ShootUpdatedPublisher(mockEventPublisher, 'https://tempsdarret.studio');
+  });
+
+  describe('diffShoot', () => {
+    it('should report only the fields that changed', () => {
+      const changes = diffShoot(
+        buildShoot(),
+        buildShoot({ scheduledDate: new Date('2024-07-01T14:00:00.000Z'), location: null })
+      );
+
+      expect(changes).toEqual({
+        scheduledDate: { from: '2024-06-15T14:00:00.000Z', to: '2024-07-01T14:00:00.000Z' },
+        location: { from: 'Central Park' }
+      });
+    });
+  });
+
+  describe('describeShootChanges', () => {
+    it('should tell the client the shoot was rescheduled', () => {
+      expect(describeShootChanges({
+        scheduledDate: { from: '2024-06-15T14:00:00.000Z', to: '2024-07-01T14:00:00.000Z' }
+      })).toBe('Your shoot has been rescheduled to July 1, 2024.');
+    });
+  });
+
+  it('should publish the diff with the client notification context', async () => {
+    const after = buildShoot({ location: 'Brussels Town Hall' });
+
+    await publisher.publish(buildShoot(), after);
+
+    expect(mockEventPublisher.publish).toHaveBeenCalledWith(
+      'shoots',
+      expect.objectContaining({
+        eventType: 'shoot.updated',
+        source: 'shoot-service',
+        data: expect.objectContaining({
+          shootId: SHOOT_ID,
+          location: 'Brussels Town Hall',
+          changes: { location: { from: 'Central Park', to: 'Brussels Town Hall' } },
+          clientEmail: 'client@example.com',
+          updateDetails: {
+            eventName: 'Smith Wedding',
+            updateMessage: 'The location is now Brussels Town Hall.'
+          },
+          projectUrl: `https://tempsdarret.studio/galleries/${SHOOT_ID}`
+        })
+      }),
+      SHOOT_ID
+    );
+  });
+
+  it('should not publish when no announced field changed', async () => {
+    await publisher.publish(buildShoot(), buildShoot({ updatedAt: new Date() }));
+
+    expect(mockEventPublisher.publish).not.toHaveBeenCalled();
+  });
+});
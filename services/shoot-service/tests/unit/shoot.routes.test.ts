@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FastifyInstance } from 'fastify';
+import { getJwtConfig, signJwt } from '@tempsdarret/shared/auth';
+import { createServer } from '../../src/server.js';
+
+const SHOOT_ID = 'shoot_1234567890abcdef1234567890abcdef';
+
+describe('Shoot routes', () => {
+  let app: FastifyInstance;
+  let mockShootService: any;
+  let mockDeletionService: any;
+
+  const photographerAuth = {
+    authorization: `Bearer ${signJwt(
+      { userId: 'photographer_1', email: 'photographer@example.com', role: 'photographer' },
+      getJwtConfig()
+    )}`
+  };
+
+  beforeEach(async () => {
+    mockShootService = { updateShoot: vi.fn() };
+    mockDeletionService = { requestDeletion: vi.fn() };
+    app = await createServer({
+      shootServices: {
+        shootService: mockShootService,
+        deletionService: mockDeletionService,
+        accessService: {} as any,
+        galleryService: {} as any
+      }
+    });
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should record the token\'s user on updates', async () => {
+    mockShootService.updateShoot.mockResolvedValue({ id: SHOOT_ID, status: 'in_progress' });
+
+    const response = await app.inject({
+      method: 'PATCH',
+      url: `/shoots/${SHOOT_ID}`,
+      headers: photographerAuth,
+      payload: { status: 'in_progress' }
+    });
+
+    expect(response.statusCode).toBe(200);
+    expect(mockShootService.updateShoot).toHaveBeenCalledWith(SHOOT_ID, { status: 'in_progress' }, 'photographer_1');
+  });
+
+  it('should record the token\'s user as the requester of a deletion', async () => {
+    mockDeletionService.requestDeletion.mockResolvedValue({ state: 'deleting', requestedBy: 'photographer_1' });
+
+    const response = await app.inject({ method: 'DELETE', url: `/shoots/${SHOOT_ID}`, headers: photographerAuth });
+
+    expect(response.statusCode).toBe(202);
+    expect(mockDeletionService.requestDeletion).toHaveBeenCalledWith(SHOOT_ID, 'photographer_1');
+  });
+
+  it.each(['PATCH', 'DELETE'] as const)('should answer %s without an access token with 401', async (method) => {
+    const response = await app.inject({
+      method,
+      url: `/shoots/${SHOOT_ID}`,
+      headers: { 'x-user-id': 'photographer_1' },
+      ...(method === 'PATCH' ? { payload: { title: 'Updated Title' } } : {})
+    });
+
+    expect(response.statusCode).toBe(401);
+    expect(mockShootService.updateShoot).not.toHaveBeenCalled();
+    expect(mockDeletionService.requestDeletion).not.toHaveBeenCalled();
+  });
+});